@@ -9,6 +9,11 @@ import Home from "@/pages/home";
 import Register from "@/pages/register";
 import Login from "@/pages/login";
 import Settings from "@/pages/settings";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
+import HouseholdInvite from "@/pages/household-invite";
+import StaffInvite from "@/pages/staff-invite";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -27,6 +32,12 @@ function Router() {
 
   return (
     <Switch>
+      {/* Reached from email links, signed in or not */}
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/household-invite" component={HouseholdInvite} />
+      <Route path="/staff-invite" component={StaffInvite} />
       {!isAuthenticated ? (
         <>
           <Route path="/" component={Landing} />
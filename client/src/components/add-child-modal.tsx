@@ -1,35 +1,84 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { insertChildSchema } from "@shared/schema";
-import type { InsertChild } from "@shared/schema";
+import type { InsertChild, Child, AuthorizedPickup } from "@shared/schema";
 
 interface AddChildModalProps {
+  child?: Child; // Edit an existing profile instead of adding one
   onClose: () => void;
   onChildAdded: () => void;
 }
 
-export function AddChildModal({ onClose, onChildAdded }: AddChildModalProps) {
+// Form state for an authorized pickup person; optional fields are blank strings until saved
+interface PickupFormEntry {
+  id?: string;
+  name: string;
+  relation: string;
+  phone: string;
+  photoUrl: string;
+  validFrom: string;
+  validUntil: string;
+}
+
+const emptyPickup: PickupFormEntry = { name: "", relation: "", phone: "", photoUrl: "", validFrom: "", validUntil: "" };
+
+export function AddChildModal({ child, onClose, onChildAdded }: AddChildModalProps) {
   const [formData, setFormData] = useState<Partial<InsertChild>>({
-    firstName: "",
-    lastName: "",
-    dateOfBirth: "",
-    secondaryContact: "",
-    gender: "",
-    dietaryRestrictions: "",
-    allergies: "",
-    medicineNeeds: "",
-    otherNotes: "",
+    firstName: child?.firstName ?? "",
+    lastName: child?.lastName ?? "",
+    dateOfBirth: child?.dateOfBirth ?? "",
+    secondaryContact: child?.secondaryContact ?? "",
+    gender: child?.gender ?? "",
+    dietaryRestrictions: child?.dietaryRestrictions ?? "",
+    allergies: child?.allergies ?? "",
+    medicineNeeds: child?.medicineNeeds ?? "",
+    otherNotes: child?.otherNotes ?? "",
   });
+  const [pickups, setPickups] = useState<PickupFormEntry[]>([]);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Load the saved pickup list when editing
+  const { data: savedPickups } = useQuery<AuthorizedPickup[]>({
+    queryKey: [`/api/children/${child?.id}/pickups`],
+    enabled: !!child,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (savedPickups) {
+      setPickups(savedPickups.map((pickup) => ({
+        id: pickup.id,
+        name: pickup.name,
+        relation: pickup.relation,
+        phone: pickup.phone,
+        photoUrl: pickup.photoUrl || "",
+        validFrom: pickup.validFrom || "",
+        validUntil: pickup.validUntil || "",
+      })));
+    }
+  }, [savedPickups]);
+
+  const updatePickup = (index: number, field: keyof PickupFormEntry, value: string) => {
+    setPickups(prev => prev.map((pickup, i) => i === index ? { ...pickup, [field]: value } : pickup));
+  };
 
   const createChildMutation = useMutation({
-    mutationFn: async (childData: InsertChild) => {
-      await apiRequest("POST", "/api/children", childData);
+    mutationFn: async (childData: InsertChild & { authorizedPickups: object[] }) => {
+      if (child) {
+        await apiRequest(`/api/children/${child.id}`, "PUT", childData);
+      } else {
+        await apiRequest("/api/children", "POST", childData);
+      }
     },
     onSuccess: () => {
+      if (child) {
+        queryClient.invalidateQueries({ queryKey: [`/api/children/${child.id}/pickups`] });
+      }
       onChildAdded();
     },
     onError: (error) => {
@@ -70,7 +119,15 @@ export function AddChildModal({ onClose, onChildAdded }: AddChildModalProps) {
         otherNotes: formData.otherNotes || undefined,
       };
 
-      createChildMutation.mutate(childData);
+      createChildMutation.mutate({
+        ...childData,
+        authorizedPickups: pickups.map((pickup) => ({
+          ...pickup,
+          photoUrl: pickup.photoUrl || null,
+          validFrom: pickup.validFrom || null,
+          validUntil: pickup.validUntil || null,
+        })),
+      });
     } catch (error) {
       toast({
         title: "Error",
@@ -89,7 +146,7 @@ export function AddChildModal({ onClose, onChildAdded }: AddChildModalProps) {
       <div className="bg-white rounded-t-xl sm:rounded-xl max-w-md w-full m-4 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
         {/* Modal Header */}
         <div className="sticky top-0 bg-white border-b border-gray-200 p-4 flex items-center justify-between rounded-t-xl">
-          <h3 className="text-lg font-semibold text-neutral-dark">Add Child Profile</h3>
+          <h3 className="text-lg font-semibold text-neutral-dark">{child ? "Edit Child Profile" : "Add Child Profile"}</h3>
           <button 
             onClick={onClose}
             className="text-neutral-medium hover:text-neutral-dark"
@@ -250,6 +307,98 @@ export function AddChildModal({ onClose, onChildAdded }: AddChildModalProps) {
             </div>
           </div>
 
+          {/* Authorized Pickups */}
+          <div className="space-y-4 pt-4 border-t border-gray-200">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-neutral-dark">Authorized Pickups</h4>
+              <button
+                type="button"
+                onClick={() => setPickups(prev => [...prev, { ...emptyPickup }])}
+                className="text-sm text-primary-green hover:text-primary-green/80 font-medium"
+                data-testid="button-add-pickup"
+              >
+                + Add Person
+              </button>
+            </div>
+            <p className="text-xs text-neutral-medium">
+              Staff will only release your child to you or to the people listed here
+            </p>
+
+            {pickups.map((pickup, index) => (
+              <div key={pickup.id ?? index} className="bg-gray-50 p-3 rounded-lg space-y-2" data-testid={`pickup-entry-${index}`}>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Full name"
+                    value={pickup.name}
+                    onChange={(e) => updatePickup(index, "name", e.target.value)}
+                    required
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                    data-testid={`input-pickup-name-${index}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPickups(prev => prev.filter((_, i) => i !== index))}
+                    className="text-red-500 hover:text-red-700 p-1"
+                    data-testid={`button-remove-pickup-${index}`}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    placeholder="Relation (e.g. Grandmother)"
+                    value={pickup.relation}
+                    onChange={(e) => updatePickup(index, "relation", e.target.value)}
+                    required
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                    data-testid={`input-pickup-relation-${index}`}
+                  />
+                  <input
+                    type="tel"
+                    placeholder="Phone"
+                    value={pickup.phone}
+                    onChange={(e) => updatePickup(index, "phone", e.target.value)}
+                    required
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                    data-testid={`input-pickup-phone-${index}`}
+                  />
+                </div>
+                <input
+                  type="url"
+                  placeholder="Photo URL (optional)"
+                  value={pickup.photoUrl}
+                  onChange={(e) => updatePickup(index, "photoUrl", e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                  data-testid={`input-pickup-photo-${index}`}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-neutral-medium">
+                    Valid from
+                    <input
+                      type="date"
+                      value={pickup.validFrom}
+                      onChange={(e) => updatePickup(index, "validFrom", e.target.value)}
+                      className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                      data-testid={`input-pickup-valid-from-${index}`}
+                    />
+                  </label>
+                  <label className="text-xs text-neutral-medium">
+                    Valid until
+                    <input
+                      type="date"
+                      value={pickup.validUntil}
+                      onChange={(e) => updatePickup(index, "validUntil", e.target.value)}
+                      className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                      data-testid={`input-pickup-valid-until-${index}`}
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+
           <div className="flex space-x-3 pt-4">
             <button 
               type="button" 
@@ -265,7 +414,7 @@ export function AddChildModal({ onClose, onChildAdded }: AddChildModalProps) {
               className="flex-1 bg-primary-green text-white py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200 disabled:opacity-50"
               data-testid="button-save-child"
             >
-              {createChildMutation.isPending ? "Adding..." : "Add Child"}
+              {createChildMutation.isPending ? (child ? "Saving..." : "Adding...") : (child ? "Save Changes" : "Add Child")}
             </button>
           </div>
         </form>
@@ -3,18 +3,27 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { EventCard } from "@/components/event-card";
 import { EventDetailModal } from "@/components/event-detail-modal";
 import { DeleteEventModal } from "@/components/delete-event-modal";
+import { SaveTemplateModal } from "@/components/event-templates";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
-import type { EventWithSupervisor, EventStatus } from "@shared/schema";
+import { hasPermission, type EventWithSupervisor, type EventStatus } from "@shared/schema";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Filter, Edit, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Filter, Edit, Trash2, Download, Copy } from "lucide-react";
 
 export function AdminEventManagement() {
   const [selectedEvent, setSelectedEvent] = useState<EventWithSupervisor | null>(null);
   const [editingEvent, setEditingEvent] = useState<EventWithSupervisor | null>(null);
   const [deletingEvent, setDeletingEvent] = useState<EventWithSupervisor | null>(null);
+  const [templateEvent, setTemplateEvent] = useState<EventWithSupervisor | null>(null);
   const [statusFilter, setStatusFilter] = useState<EventStatus | "all">("all");
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const { user } = useAuth();
+  const canExport = hasPermission(user, "reports.export");
+  const canCreateEvents = hasPermission(user, "events.create");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -92,6 +101,16 @@ export function AdminEventManagement() {
     setSelectedEvent(event);
   };
 
+  // Whole days in local time, matching what the admin picked
+  const canExportRegistrations = exportFrom !== "" && exportTo !== "" && exportTo >= exportFrom;
+  const registrationExportUrl = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({
+      from: new Date(`${exportFrom}T00:00`).toISOString(),
+      to: new Date(`${exportTo}T23:59:59.999`).toISOString(),
+    });
+    return `/api/admin/registrations/export.${format}?${params.toString()}`;
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-[200px]">
@@ -115,6 +134,7 @@ export function AdminEventManagement() {
             <SelectItem value="open">Open for Registration</SelectItem>
             <SelectItem value="registration_closed">Registration Closed</SelectItem>
             <SelectItem value="full">Event Full</SelectItem>
+            <SelectItem value="in_progress">In Progress</SelectItem>
             <SelectItem value="past">Past Events</SelectItem>
             <SelectItem value="editing">Currently Editing</SelectItem>
           </SelectContent>
@@ -124,6 +144,44 @@ export function AdminEventManagement() {
         </div>
       </div>
 
+      {/* Registration Export */}
+      {canExport && (
+        <div className="flex flex-wrap items-center gap-4 p-4 bg-white rounded-lg shadow-sm border border-gray-100">
+          <Download className="w-5 h-5 text-neutral-medium" />
+          <span className="text-sm font-medium text-neutral-dark">Export Registrations:</span>
+          <Input
+            type="date"
+            value={exportFrom}
+            onChange={(e) => setExportFrom(e.target.value)}
+            className="w-40"
+            aria-label="Events starting from"
+            data-testid="input-export-from"
+          />
+          <span className="text-sm text-neutral-medium">to</span>
+          <Input
+            type="date"
+            value={exportTo}
+            onChange={(e) => setExportTo(e.target.value)}
+            className="w-40"
+            aria-label="Events starting until"
+            data-testid="input-export-to"
+          />
+          {(["csv", "xlsx"] as const).map((format) => (
+            canExportRegistrations ? (
+              <Button key={format} size="sm" variant="outline" asChild>
+                <a href={registrationExportUrl(format)} download data-testid={`link-export-registrations-${format}`}>
+                  {format.toUpperCase()}
+                </a>
+              </Button>
+            ) : (
+              <Button key={format} size="sm" variant="outline" disabled data-testid={`link-export-registrations-${format}`}>
+                {format.toUpperCase()}
+              </Button>
+            )
+          ))}
+        </div>
+      )}
+
       {/* Events List */}
       <div className="space-y-4">
         {filteredEvents.length === 0 ? (
@@ -169,6 +227,40 @@ export function AdminEventManagement() {
                   <Trash2 className="w-4 h-4 mr-1" />
                   Delete
                 </Button>
+                {canCreateEvents && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setTemplateEvent(event);
+                    }}
+                    className="bg-white shadow-md hover:bg-green-50"
+                    data-testid={`button-save-template-${event.id}`}
+                  >
+                    <Copy className="w-4 h-4 mr-1" />
+                    Template
+                  </Button>
+                )}
+                {canExport && (["csv", "xlsx"] as const).map((format) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    asChild
+                    className="bg-white shadow-md hover:bg-green-50"
+                  >
+                    <a
+                      href={`/api/admin/events/${event.id}/roster.${format}`}
+                      download
+                      onClick={(e) => e.stopPropagation()}
+                      data-testid={`link-roster-${format}-${event.id}`}
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      Roster {format.toUpperCase()}
+                    </a>
+                  </Button>
+                ))}
               </div>
             </div>
           ))
@@ -202,6 +294,14 @@ export function AdminEventManagement() {
         </div>
       )}
 
+      {/* Save as Template Modal */}
+      {templateEvent && (
+        <SaveTemplateModal
+          event={templateEvent}
+          onClose={() => setTemplateEvent(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteEventModal
         event={deletingEvent}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { ChevronDown, ChevronRight, History, Search } from "lucide-react";
+import type { AuditAction, AuditEntityType, AuditEntry } from "@shared/schema";
+
+const actionLabels: Record<AuditAction, string> = {
+  "event.create": "Created event",
+  "event.update": "Edited event",
+  "event.status_change": "Changed event status",
+  "event.delete": "Deleted event",
+  "event.restore": "Restored event",
+  "event_series.create": "Created event series",
+  "event_template.create": "Created event template",
+  "event_template.update": "Edited event template",
+  "event_template.delete": "Deleted event template",
+  "user.role_change": "Changed user role",
+  "role.permissions_change": "Changed role permissions",
+  "staff_invitation.create": "Sent staff invite",
+  "staff_invitation.revoke": "Revoked staff invite",
+  "user.credit_adjustment": "Adjusted credits",
+  "user.credit_purchase": "Recorded cash purchase",
+  "credit_package.create": "Created credit package",
+  "credit_package.update": "Edited credit package",
+  "attendance.record": "Recorded attendance",
+  "attendance.reset": "Cleared attendance",
+};
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  event: "Events",
+  event_series: "Event series",
+  event_template: "Event templates",
+  credit_package: "Credit packages",
+  user: "Users",
+  role: "Roles",
+  staff_invitation: "Staff invites",
+  registration: "Attendance",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function AuditEntryCard({ entry }: { entry: AuditEntry }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const changedFields = Object.entries(entry.changes);
+
+  return (
+    <Card data-testid={`card-audit-entry-${entry.id}`}>
+      <CardContent className="p-4">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-start justify-between w-full text-left"
+          data-testid={`button-toggle-audit-entry-${entry.id}`}
+        >
+          <div>
+            <div className="font-medium text-neutral-dark">{actionLabels[entry.action] ?? entry.action}</div>
+            <div className="text-xs text-neutral-medium">
+              {entry.actorName || "Unknown user"} • {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+            </div>
+            <div className="text-xs text-neutral-medium">
+              {entityTypeLabels[entry.entityType] ?? entry.entityType} #{entry.entityId.slice(0, 8)} •{" "}
+              {changedFields.length} field{changedFields.length === 1 ? "" : "s"} changed
+            </div>
+          </div>
+          {isExpanded ? <ChevronDown className="w-4 h-4 mt-1" /> : <ChevronRight className="w-4 h-4 mt-1" />}
+        </button>
+
+        {isExpanded && (
+          <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+            {changedFields.length === 0 ? (
+              <p className="text-xs text-neutral-medium">No field changes recorded</p>
+            ) : (
+              changedFields.map(([field, change]) => (
+                <div key={field} className="text-xs" data-testid={`text-audit-change-${entry.id}-${field}`}>
+                  <div className="font-medium text-neutral-dark">{field}</div>
+                  <div className="text-neutral-medium break-all">
+                    <span className="text-red-600 line-through">{formatValue(change.before)}</span>
+                    {" → "}
+                    <span className="text-green-700">{formatValue(change.after)}</span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AuditLog() {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [entityId, setEntityId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const params = new URLSearchParams();
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (action !== "all") params.set("action", action);
+  if (entityId.trim()) params.set("entityId", entityId.trim());
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/admin/audit-log?${params.toString()}`],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 mb-6">
+        <History className="w-6 h-6 text-primary-green" />
+        <h2 className="text-xl font-bold text-neutral-dark">Audit Log</h2>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 gap-3">
+        <Select value={entityType} onValueChange={(value: AuditEntityType | "all") => setEntityType(value)}>
+          <SelectTrigger data-testid="select-audit-entity-type">
+            <SelectValue placeholder="All records" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All records</SelectItem>
+            {Object.entries(entityTypeLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={action} onValueChange={(value: AuditAction | "all") => setAction(value)}>
+          <SelectTrigger data-testid="select-audit-action">
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(actionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          aria-label="From date"
+          data-testid="input-audit-from"
+        />
+        <Input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          aria-label="To date"
+          data-testid="input-audit-to"
+        />
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <Input
+          type="text"
+          placeholder="Filter by event, user or registration ID..."
+          value={entityId}
+          onChange={(e) => setEntityId(e.target.value)}
+          className="pl-10"
+          data-testid="input-audit-entity-id"
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="space-y-3">
+        {isLoading ? (
+          [1, 2, 3].map((i) => <div key={i} className="h-16 bg-gray-200 rounded-lg animate-pulse" />)
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-neutral-medium">
+              No audit entries match these filters
+            </CardContent>
+          </Card>
+        ) : (
+          entries.map((entry) => <AuditEntryCard key={entry.id} entry={entry} />)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeed {
+  url: string;
+}
+
+export function CalendarFeedCard() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The feed token is created on first request, so only fetch once the parent asks for it
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/feed"],
+    enabled: isExpanded,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/calendar/feed/reset", "POST");
+      return await response.json() as CalendarFeed;
+    },
+    onSuccess: (newFeed) => {
+      queryClient.setQueryData(["/api/calendar/feed"], newFeed);
+      toast({
+        title: "Calendar Link Reset",
+        description: "The old link no longer works. Subscribe again with the new one.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset calendar link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({ title: "Copied", description: "Paste the link into your calendar app to subscribe." });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  if (!isExpanded) {
+    return (
+      <button
+        onClick={() => setIsExpanded(true)}
+        className="flex items-center gap-2 text-sm text-primary-green hover:text-primary-green/80 font-medium"
+        data-testid="button-show-calendar-feed"
+      >
+        <CalendarPlus className="w-4 h-4" />
+        Subscribe in your calendar
+      </button>
+    );
+  }
+
+  return (
+    <Card data-testid="calendar-feed-card">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="font-semibold text-neutral-dark text-sm">Calendar Subscription</h3>
+          <p className="text-xs text-neutral-medium mt-1">
+            Add this link to Google Calendar, Apple Calendar or Outlook to see your registrations.
+            Changes to events show up automatically. Keep it private: anyone with the link can see your events.
+          </p>
+        </div>
+
+        {isLoading || !feed ? (
+          <div className="w-5 h-5 border-2 border-primary-green border-t-transparent rounded-full animate-spin"></div>
+        ) : (
+          <>
+            <input
+              readOnly
+              value={feed.url}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg bg-gray-50"
+              data-testid="input-calendar-feed-url"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={copyUrl} data-testid="button-copy-calendar-feed">
+                <Copy className="w-4 h-4 mr-1" />
+                Copy link
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={feed.url.replace(/^https?:/, "webcal:")} data-testid="link-open-calendar-feed">
+                  <CalendarPlus className="w-4 h-4 mr-1" />
+                  Open in calendar app
+                </a>
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-calendar-feed"
+              >
+                <RefreshCw className="w-4 h-4 mr-1" />
+                {resetMutation.isPending ? "Resetting..." : "Reset link"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,10 @@ import type { Child } from "@shared/schema";
 
 interface ChildProfileCardProps {
   child: Child;
+  onEdit?: () => void; // Left out for children the parent may only view
 }
 
-export function ChildProfileCard({ child }: ChildProfileCardProps) {
+export function ChildProfileCard({ child, onEdit }: ChildProfileCardProps) {
   const age = Math.floor((new Date().getTime() - new Date(child.dateOfBirth).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
 
   return (
@@ -23,9 +24,15 @@ export function ChildProfileCard({ child }: ChildProfileCardProps) {
             Age {age}
           </p>
         </div>
-        <button className="text-neutral-medium hover:text-neutral-dark" data-testid={`button-edit-child-${child.id}`}>
-          ✏️
-        </button>
+        {onEdit ? (
+          <button onClick={onEdit} className="text-neutral-medium hover:text-neutral-dark" data-testid={`button-edit-child-${child.id}`}>
+            ✏️
+          </button>
+        ) : (
+          <span className="text-xs text-neutral-medium bg-gray-100 px-2 py-1 rounded" data-testid={`text-child-view-only-${child.id}`}>
+            View only
+          </span>
+        )}
       </div>
       
       <div className="mt-4 grid grid-cols-2 gap-4 text-xs">
@@ -4,7 +4,11 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Search, X, ChevronDown } from "lucide-react";
-import type { InsertEvent, User, ExtraService } from "@shared/schema";
+import { format } from "date-fns";
+import { generateOccurrences, endTimeOnStartDay, MAX_SERIES_OCCURRENCES, type InsertEvent, type EventTemplate, type User, type ExtraService, type RecurrenceRule, type EventEligibility } from "@shared/schema";
+import { EligibilityFields } from "./eligibility-fields";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 interface CreateEventModalProps {
   onClose: () => void;
@@ -16,18 +20,31 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
     name: "",
     type: "afterschool" as const,
     startTime: "",
+    endTime: "",
     location: "",
     maxSeats: 5,
     remainingSeats: 5,
     creditsRequired: 0,
     staffId: "",
-    duration: "5h",
     description: "",
     image: "",
     cutoffHours: 12,
+    refundWindowHours: "" as number | "",
     extraServices: [] as ExtraService[],
     allowedRegistrants: "attendee" as "attendee" | "user" | "both",
   });
+  const [eligibility, setEligibility] = useState<EventEligibility>({});
+  const [templateId, setTemplateId] = useState("");
+  const [templateDuration, setTemplateDuration] = useState<number | null>(null);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrence, setRecurrence] = useState({
+    weekdays: [] as number[],
+    endType: "count" as "count" | "until",
+    count: 10,
+    until: "",
+    skipDates: [] as string[],
+  });
+  const [skipDateInput, setSkipDateInput] = useState("");
   const [serviceCurrency, setServiceCurrency] = useState<"RON" | "EUR" | "USD">("RON");
   const [selectedStaff, setSelectedStaff] = useState<string[]>([]);
   const [staffSearchQuery, setStaffSearchQuery] = useState("");
@@ -44,6 +61,11 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
   // Ensure we have arrays and handle errors
   const staffMembers: User[] = Array.isArray(staffData) ? staffData : [];
 
+  const { data: templates = [] } = useQuery<EventTemplate[]>({
+    queryKey: ["/api/admin/event-templates"],
+    retry: false,
+  });
+
   // Filter staff members based on search query
   const filteredStaffMembers = useMemo(() => {
     if (!staffSearchQuery.trim()) return staffMembers;
@@ -59,16 +81,85 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
     return staffMembers.filter(staff => selectedStaff.includes(staff.id));
   }, [staffMembers, selectedStaff]);
 
+  const recurrenceRule: RecurrenceRule = {
+    frequency: "weekly",
+    weekdays: recurrence.weekdays,
+    until: recurrence.endType === "until" ? recurrence.until || null : null,
+    count: recurrence.endType === "count" ? recurrence.count : null,
+    skipDates: recurrence.skipDates,
+  };
+
+  // Preview the occurrences the server will generate for this rule
+  const occurrences = useMemo(() => {
+    if (!isRecurring || !formData.startTime) return [];
+    if (recurrence.endType === "until" && !recurrence.until) return [];
+    return generateOccurrences(new Date(formData.startTime), recurrenceRule);
+  }, [isRecurring, formData.startTime, recurrence]);
+
+  // Events end on their start day, so the end is the start plus the template's length as a time of day
+  const endTimeAfter = (startTime: string, minutes: number) =>
+    format(new Date(new Date(startTime).getTime() + minutes * 60 * 1000), "HH:mm");
+
+  // Fill the form from a saved template; the date and time are still picked per event
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      setTemplateDuration(null);
+      return;
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      name: template.eventName,
+      type: template.type as "afterschool",
+      description: template.description,
+      location: template.location,
+      endTime: prev.startTime ? endTimeAfter(prev.startTime, template.durationMinutes) : prev.endTime,
+      maxSeats: template.maxSeats,
+      remainingSeats: template.maxSeats,
+      creditsRequired: template.creditsRequired,
+      image: template.image ?? "",
+      cutoffHours: template.cutoffHours,
+      refundWindowHours: template.refundWindowHours ?? "",
+      extraServices: template.extraServices,
+      allowedRegistrants: template.allowedRegistrants as "attendee" | "user" | "both",
+    }));
+    setTemplateDuration(template.durationMinutes);
+    setEligibility(template.eligibility);
+    setServiceCurrency(template.servicesCurrency as "RON" | "EUR" | "USD");
+    // Skip supervisors who are no longer staff or admins
+    setSelectedStaff(template.supervisorIds.filter(staffId => staffMembers.some(staff => staff.id === staffId)));
+  };
+
+  const handleStartTimeChange = (startTime: string) => {
+    setFormData(prev => ({
+      ...prev,
+      startTime,
+      endTime: templateDuration !== null && startTime ? endTimeAfter(startTime, templateDuration) : prev.endTime,
+    }));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setRecurrence(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(d => d !== weekday)
+        : [...prev.weekdays, weekday].sort(),
+    }));
+  };
+
   const createEventMutation = useMutation({
-    mutationFn: async (eventData: InsertEvent & { staffIds: string[], guestIds: string[] }) => {
-      await apiRequest("POST", "/api/admin/events", eventData);
+    mutationFn: async (eventData: InsertEvent & { staffIds: string[], guestIds: string[], recurrence?: RecurrenceRule }) => {
+      await apiRequest(eventData.recurrence ? "/api/admin/event-series" : "/api/admin/events", "POST", eventData);
     },
-    onSuccess: () => {
+    onSuccess: (_, variables) => {
       toast({
         title: "Success",
-        description: "Event created successfully!",
+        description: variables.recurrence ? "Event series created successfully!" : "Event created successfully!",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/events"] });
       onEventCreated();
     },
     onError: (error) => {
@@ -96,7 +187,7 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
     
     try {
       // Validate required fields
-      if (!formData.name || !formData.startTime || !formData.location || !formData.description) {
+      if (!formData.name || !formData.startTime || !formData.endTime || !formData.location || !formData.description) {
         toast({
           title: "Error",
           description: "Please fill in all required fields",
@@ -105,6 +196,16 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
         return;
       }
 
+      // Events end on the day they start, so the times can be compared directly
+      if (formData.endTime <= formData.startTime.slice(11, 16)) {
+        toast({
+          title: "Error",
+          description: "The end time must be after the start time",
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Validate that at least one staff member is selected
       if (selectedStaff.length === 0) {
         toast({
@@ -115,28 +216,41 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
         return;
       }
 
-      // Convert startTime string to Date object
+      if (isRecurring && occurrences.length === 0) {
+        toast({
+          title: "Error",
+          description: "Choose weekdays and an end for the repeat so at least one event is created",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Convert startTime and endTime strings to Date objects
       const eventData = {
         name: formData.name,
         type: formData.type || "afterschool",
         startTime: new Date(formData.startTime),
+        endTime: endTimeOnStartDay(formData.startTime, formData.endTime),
         location: formData.location,
         maxSeats: formData.maxSeats || 3,
         remainingSeats: formData.remainingSeats || formData.maxSeats || 3,
         creditsRequired: formData.creditsRequired ?? 0,
         staffId: formData.staffId || undefined,
-        duration: formData.duration || "5h",
         description: formData.description,
         image: formData.image || undefined,
         cutoffHours: formData.cutoffHours || 12,
-        extraServices: formData.extraServices.map(service => ({
+        refundWindowHours: formData.refundWindowHours === "" ? null : formData.refundWindowHours,
+        // Rows left blank are dropped rather than rejected
+        extraServices: formData.extraServices.filter(service => service.description.trim()).map(service => ({
           ...service,
           currency: serviceCurrency
         })),
         servicesCurrency: serviceCurrency,
         allowedRegistrants: formData.allowedRegistrants,
+        eligibility,
         staffIds: selectedStaff,
-        guestIds: [] // No guest attendees functionality
+        guestIds: [], // No guest attendees functionality
+        recurrence: isRecurring ? recurrenceRule : undefined,
       };
 
       createEventMutation.mutate(eventData);
@@ -170,6 +284,31 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
 
         {/* Create Event Form */}
         <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eventTemplate">
+                Start from Template
+              </label>
+              <select
+                id="eventTemplate"
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                data-testid="select-event-template"
+              >
+                <option value="">Blank event</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              {templateDuration !== null && (
+                <p className="text-xs text-neutral-medium mt-1">
+                  Pick a start time and the end time is set from the template's {templateDuration} minute length
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Basic Event Info */}
           <div className="space-y-4">
             <h4 className="font-medium text-neutral-dark">Event Information</h4>
@@ -213,7 +352,7 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                   type="datetime-local" 
                   id="eventStartTime"
                   value={formData.startTime || ""}
-                  onChange={(e) => handleInputChange("startTime", e.target.value)}
+                  onChange={(e) => handleStartTimeChange(e.target.value)}
                   required 
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent form-input"
                   data-testid="input-event-start-time"
@@ -221,24 +360,18 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eventDuration">
-                  Duration
+                <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eventEndTime">
+                  End Time *
                 </label>
-                <select 
-                  id="eventDuration"
-                  value={formData.duration || "5h"}
-                  onChange={(e) => handleInputChange("duration", e.target.value)}
+                <input 
+                  type="time" 
+                  id="eventEndTime"
+                  value={formData.endTime || ""}
+                  onChange={(e) => handleInputChange("endTime", e.target.value)}
+                  required 
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent form-input"
-                  data-testid="select-event-duration"
-                >
-                  <option value="1h">1 hour</option>
-                  <option value="1.5h">1.5 hours</option>
-                  <option value="2h">2 hours</option>
-                  <option value="2.5h">2.5 hours</option>
-                  <option value="3h">3 hours</option>
-                  <option value="4h">4 hours</option>
-                  <option value="5h">5 hours</option>
-                </select>
+                  data-testid="input-event-end-time"
+                />
               </div>
             </div>
 
@@ -297,6 +430,137 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
               </div>
             </div>
 
+            {/* Recurrence */}
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isRecurring}
+                  onChange={(e) => {
+                    setIsRecurring(e.target.checked);
+                    // Default to the weekday of the chosen start date
+                    if (e.target.checked && recurrence.weekdays.length === 0 && formData.startTime) {
+                      setRecurrence(prev => ({ ...prev, weekdays: [new Date(formData.startTime).getDay()] }));
+                    }
+                  }}
+                  className="form-checkbox text-primary-green"
+                  data-testid="checkbox-event-recurring"
+                />
+                <span className="text-sm font-medium text-neutral-dark">Repeat weekly</span>
+              </label>
+
+              {isRecurring && (
+                <div className="space-y-3 p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <div className="text-sm font-medium text-neutral-dark mb-1">On</div>
+                    <div className="flex flex-wrap gap-1">
+                      {WEEKDAY_LABELS.map((label, weekday) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleWeekday(weekday)}
+                          className={`px-2 py-1 text-xs rounded border ${
+                            recurrence.weekdays.includes(weekday)
+                              ? "bg-primary-green text-white border-primary-green"
+                              : "bg-white text-neutral-dark border-gray-300"
+                          }`}
+                          data-testid={`button-weekday-${weekday}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="text-sm font-medium text-neutral-dark mb-1">Ends</div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={recurrence.endType}
+                        onChange={(e) => setRecurrence(prev => ({ ...prev, endType: e.target.value as "count" | "until" }))}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded"
+                        data-testid="select-recurrence-end"
+                      >
+                        <option value="count">After</option>
+                        <option value="until">On date</option>
+                      </select>
+                      {recurrence.endType === "count" ? (
+                        <>
+                          <input
+                            type="number"
+                            min="1"
+                            max={MAX_SERIES_OCCURRENCES}
+                            value={recurrence.count}
+                            onChange={(e) => setRecurrence(prev => ({ ...prev, count: Number(e.target.value) }))}
+                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+                            data-testid="input-recurrence-count"
+                          />
+                          <span className="text-sm text-neutral-medium">occurrences</span>
+                        </>
+                      ) : (
+                        <input
+                          type="date"
+                          value={recurrence.until}
+                          onChange={(e) => setRecurrence(prev => ({ ...prev, until: e.target.value }))}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded"
+                          data-testid="input-recurrence-until"
+                        />
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="text-sm font-medium text-neutral-dark mb-1">Skip dates (holidays)</div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="date"
+                        value={skipDateInput}
+                        onChange={(e) => setSkipDateInput(e.target.value)}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded"
+                        data-testid="input-skip-date"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (skipDateInput && !recurrence.skipDates.includes(skipDateInput)) {
+                            setRecurrence(prev => ({ ...prev, skipDates: [...prev.skipDates, skipDateInput].sort() }));
+                          }
+                          setSkipDateInput("");
+                        }}
+                        className="text-sm text-primary-green hover:text-primary-green/80 font-medium"
+                        data-testid="button-add-skip-date"
+                      >
+                        + Add
+                      </button>
+                    </div>
+                    {recurrence.skipDates.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {recurrence.skipDates.map((date) => (
+                          <span key={date} className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-gray-200 rounded text-xs">
+                            {date}
+                            <button
+                              type="button"
+                              onClick={() => setRecurrence(prev => ({ ...prev, skipDates: prev.skipDates.filter(d => d !== date) }))}
+                              className="hover:text-red-600"
+                              data-testid={`button-remove-skip-date-${date}`}
+                            >
+                              <X size={12} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <p className="text-xs text-neutral-medium" data-testid="text-recurrence-preview">
+                    {occurrences.length > 0
+                      ? `Creates ${occurrences.length} events, ${format(occurrences[0], "MMM d")} – ${format(occurrences[occurrences.length - 1], "MMM d, yyyy")}`
+                      : "Pick a start time, weekdays and an end to preview the series"}
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Allowed Registrants Dropdown */}
             <div>
               <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="allowedRegistrants">
@@ -317,6 +581,11 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                 Choose who is allowed to register for this event
               </p>
             </div>
+
+            {/* Child eligibility rules */}
+            {formData.allowedRegistrants !== "user" && (
+              <EligibilityFields value={eligibility} onChange={setEligibility} />
+            )}
           </div>
 
           {/* Optional Fields */}
@@ -357,6 +626,28 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                 <option value="48">48 hours</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eventRefundWindow">
+                Full Refund If Cancelled
+              </label>
+              <select 
+                id="eventRefundWindow"
+                value={formData.refundWindowHours}
+                onChange={(e) => setFormData(prev => ({ ...prev, refundWindowHours: e.target.value === "" ? "" : Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent form-input"
+                data-testid="select-event-refund-window"
+              >
+                <option value="">Until registration cutoff</option>
+                <option value="24">24 hours before</option>
+                <option value="48">48 hours before</option>
+                <option value="72">72 hours before</option>
+                <option value="168">1 week before</option>
+              </select>
+              <p className="text-xs text-neutral-medium mt-1">
+                Later cancellations release the seat but are not refunded
+              </p>
+            </div>
           </div>
 
           {/* Extra Services Section */}
@@ -379,7 +670,7 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                   onClick={() => {
                     setFormData(prev => ({
                       ...prev,
-                      extraServices: [...prev.extraServices, { description: '', price: 0 }]
+                      extraServices: [...prev.extraServices, { id: crypto.randomUUID(), description: '', price: 0 }]
                     }));
                   }}
                   className="text-sm text-primary-green hover:text-primary-green/80 font-medium"
@@ -389,11 +680,11 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                 </button>
               </div>
             </div>
-            <p className="text-xs text-neutral-medium">Define optional services with prices in {serviceCurrency} that parents can choose during registration</p>
+            <p className="text-xs text-neutral-medium">Define services with prices in {serviceCurrency} that parents can choose during registration. Leave the limit blank for unlimited places.</p>
             
             {formData.extraServices.map((service, index) => (
-              <div key={index} className="flex gap-2 items-start bg-gray-50 p-3 rounded-lg">
-                <div className="flex-1">
+              <div key={service.id} className="flex gap-2 items-start bg-gray-50 p-3 rounded-lg">
+                <div className="flex-1 space-y-2">
                   <input
                     type="text"
                     placeholder="Service description (e.g., Food, Transportation)"
@@ -406,6 +697,34 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
                     className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
                     data-testid={`input-service-description-${index}`}
                   />
+                  <div className="flex items-center gap-4">
+                    <input
+                      type="number"
+                      placeholder="Limit"
+                      min="1"
+                      value={service.capacity ?? ''}
+                      onChange={(e) => {
+                        const updatedServices = [...formData.extraServices];
+                        updatedServices[index].capacity = e.target.value ? parseInt(e.target.value) : null;
+                        setFormData(prev => ({ ...prev, extraServices: updatedServices }));
+                      }}
+                      className="w-24 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+                      data-testid={`input-service-capacity-${index}`}
+                    />
+                    <label className="flex items-center gap-1 text-sm text-neutral-dark">
+                      <input
+                        type="checkbox"
+                        checked={service.required ?? false}
+                        onChange={(e) => {
+                          const updatedServices = [...formData.extraServices];
+                          updatedServices[index].required = e.target.checked;
+                          setFormData(prev => ({ ...prev, extraServices: updatedServices }));
+                        }}
+                        data-testid={`checkbox-service-required-${index}`}
+                      />
+                      Required
+                    </label>
+                  </div>
                 </div>
                 <div className="w-32 flex items-center">
                   <input
@@ -567,7 +886,7 @@ export function CreateEventModal({ onClose, onEventCreated }: CreateEventModalPr
               className="flex-1 bg-primary-green text-white py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200 disabled:opacity-50"
               data-testid="button-save-event"
             >
-              {createEventMutation.isPending ? "Creating..." : "Create Event"}
+              {createEventMutation.isPending ? "Creating..." : isRecurring ? "Create Series" : "Create Event"}
             </button>
           </div>
         </form>
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Coins, Pencil } from "lucide-react";
+import { formatMoney, type CreditPackage } from "@shared/schema";
+
+interface PackageFormValues {
+  name: string;
+  credits: string;
+  price: string; // In whole currency units, as typed
+  currency: string;
+}
+
+const emptyForm: PackageFormValues = { name: "", credits: "", price: "", currency: "RON" };
+
+// Prices are typed in RON (or EUR/USD) and stored in cents
+function toPackageData(values: PackageFormValues) {
+  return {
+    name: values.name.trim(),
+    credits: parseInt(values.credits, 10),
+    price: Math.round(parseFloat(values.price) * 100),
+    currency: values.currency,
+  };
+}
+
+function isComplete(values: PackageFormValues): boolean {
+  return values.name.trim() !== "" && parseInt(values.credits, 10) > 0 && parseFloat(values.price) > 0;
+}
+
+interface PackageFormProps {
+  values: PackageFormValues;
+  onChange: (values: PackageFormValues) => void;
+  idPrefix: string;
+}
+
+function PackageFields({ values, onChange, idPrefix }: PackageFormProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Input
+        className="col-span-2"
+        placeholder="Name, e.g. 10 credits"
+        value={values.name}
+        onChange={(e) => onChange({ ...values, name: e.target.value })}
+        data-testid={`input-${idPrefix}-name`}
+      />
+      <Input
+        type="number"
+        min="1"
+        placeholder="Credits"
+        value={values.credits}
+        onChange={(e) => onChange({ ...values, credits: e.target.value })}
+        data-testid={`input-${idPrefix}-credits`}
+      />
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min="0.01"
+          step="0.01"
+          placeholder="Price"
+          value={values.price}
+          onChange={(e) => onChange({ ...values, price: e.target.value })}
+          data-testid={`input-${idPrefix}-price`}
+        />
+        <Select value={values.currency} onValueChange={(currency) => onChange({ ...values, currency })}>
+          <SelectTrigger className="w-24" data-testid={`select-${idPrefix}-currency`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="RON">RON</SelectItem>
+            <SelectItem value="EUR">EUR</SelectItem>
+            <SelectItem value="USD">USD</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+function PackageCard({ creditPackage }: { creditPackage: CreditPackage }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<PackageFormValues>({
+    name: creditPackage.name,
+    credits: String(creditPackage.credits),
+    price: (creditPackage.price / 100).toFixed(2),
+    currency: creditPackage.currency,
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<ReturnType<typeof toPackageData> & { active: boolean }>) => {
+      const response = await apiRequest(`/api/admin/credit-packages/${creditPackage.id}`, "PATCH", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/credit-packages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-packages"] });
+      setIsEditing(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update credit package",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className={creditPackage.active ? "" : "opacity-60"} data-testid={`card-admin-credit-package-${creditPackage.id}`}>
+      <CardContent className="p-4 space-y-2">
+        {isEditing ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isComplete(values)) updateMutation.mutate(toPackageData(values));
+            }}
+          >
+            <PackageFields values={values} onChange={setValues} idPrefix={`edit-package-${creditPackage.id}`} />
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={updateMutation.isPending || !isComplete(values)}>
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium text-neutral-dark">
+                {creditPackage.name}
+                {!creditPackage.active && <span className="ml-2 text-xs text-neutral-medium">(inactive)</span>}
+              </div>
+              <div className="text-xs text-neutral-medium">
+                {creditPackage.credits} credits • {formatMoney(creditPackage.price, creditPackage.currency)}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+                data-testid={`button-edit-credit-package-${creditPackage.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateMutation.mutate({ active: !creditPackage.active })}
+                disabled={updateMutation.isPending}
+                data-testid={`button-toggle-credit-package-${creditPackage.id}`}
+              >
+                {creditPackage.active ? "Deactivate" : "Activate"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Admin list of credit packages; deactivated packages are hidden from parents but kept for their receipts
+export function CreditPackageManager() {
+  const [values, setValues] = useState<PackageFormValues>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: packages = [], isLoading } = useQuery<CreditPackage[]>({
+    queryKey: ["/api/admin/credit-packages"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/credit-packages", "POST", toPackageData(values));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/credit-packages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-packages"] });
+      toast({
+        title: "Success",
+        description: `Created credit package "${values.name.trim()}"`,
+      });
+      setValues(emptyForm);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create credit package",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Coins className="w-6 h-6 text-primary-green" />
+        <h2 className="text-xl font-bold text-neutral-dark">Credit Packages</h2>
+      </div>
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isComplete(values)) createMutation.mutate();
+        }}
+      >
+        <PackageFields values={values} onChange={setValues} idPrefix="new-package" />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={createMutation.isPending || !isComplete(values)}
+          className="bg-primary-green hover:bg-primary-green/90"
+          data-testid="button-create-credit-package"
+        >
+          {createMutation.isPending ? "Creating..." : "Add Package"}
+        </Button>
+      </form>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          [1, 2].map((i) => <div key={i} className="h-16 bg-gray-200 rounded-lg animate-pulse" />)
+        ) : packages.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-neutral-medium">
+              No credit packages yet
+            </CardContent>
+          </Card>
+        ) : (
+          packages.map((creditPackage) => <PackageCard key={creditPackage.id} creditPackage={creditPackage} />)
+        )}
+      </div>
+    </div>
+  );
+}
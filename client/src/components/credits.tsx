@@ -0,0 +1,219 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  formatMoney,
+  formatReceiptNumber,
+  type CreditPackage,
+  type CreditPurchase,
+  type CreditTransaction,
+  type CreditTransactionType,
+} from "@shared/schema";
+
+interface CreditsResponse {
+  balance: number;
+  transactions: CreditTransaction[];
+}
+
+const transactionLabels: Record<CreditTransactionType, { label: string; icon: string }> = {
+  top_up: { label: "Top-up", icon: "➕" },
+  spend: { label: "Event registration", icon: "🎯" },
+  refund: { label: "Refund", icon: "↩️" },
+  adjustment: { label: "Adjustment", icon: "🛠️" },
+};
+
+// Packages on sale; buying one goes to the payment provider's checkout and comes back to the Credits tab
+function BuyCredits() {
+  const { toast } = useToast();
+  const { data: packages = [] } = useQuery<CreditPackage[]>({
+    queryKey: ["/api/credit-packages"],
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: async (packageId: string) => {
+      const response = await apiRequest("/api/credits/purchase", "POST", { packageId });
+      return response.json();
+    },
+    onSuccess: (data: { checkoutUrl: string }) => {
+      window.location.href = data.checkoutUrl;
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "The payment could not be started, please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (packages.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-neutral-dark mb-4" data-testid="heading-buy-credits">
+        Buy Credits
+      </h3>
+      <div className="space-y-3">
+        {packages.map((creditPackage) => (
+          <Card key={creditPackage.id} data-testid={`card-credit-package-${creditPackage.id}`}>
+            <CardContent className="p-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-neutral-dark">{creditPackage.name}</div>
+                <div className="text-xs text-neutral-medium">
+                  {creditPackage.credits} credits • {formatMoney(creditPackage.price, creditPackage.currency)}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => purchaseMutation.mutate(creditPackage.id)}
+                disabled={purchaseMutation.isPending}
+                className="bg-primary-green hover:bg-primary-green/90"
+                data-testid={`button-buy-credit-package-${creditPackage.id}`}
+              >
+                Buy
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-medium mt-2">You can also pay in cash at the front desk.</p>
+    </div>
+  );
+}
+
+function Receipts() {
+  const { data: purchases = [] } = useQuery<CreditPurchase[]>({
+    queryKey: ["/api/credits/purchases"],
+    staleTime: 0,
+  });
+
+  if (purchases.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-neutral-dark mb-4" data-testid="heading-credit-receipts">
+        Receipts
+      </h3>
+      <div className="space-y-3">
+        {purchases.map((purchase) => (
+          <Card key={purchase.id} data-testid={`card-credit-receipt-${purchase.id}`}>
+            <CardContent className="p-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-neutral-dark">
+                  {formatReceiptNumber(purchase.receiptNumber)} • {purchase.packageName}
+                </div>
+                <div className="text-xs text-neutral-medium">
+                  {purchase.credits} credits • {purchase.method === "cash" ? "Paid in cash" : "Paid online"}
+                  {purchase.completedAt && ` • ${format(new Date(purchase.completedAt), "MMM d, yyyy")}`}
+                </div>
+              </div>
+              <span className="text-sm font-semibold text-neutral-dark">
+                {formatMoney(purchase.amount, purchase.currency)}
+              </span>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function Credits() {
+  const { data, isLoading, error } = useQuery<CreditsResponse>({
+    queryKey: ["/api/credits"],
+    staleTime: 0, // Balance changes with every registration
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-6 h-6 border-2 border-primary-green border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-neutral-medium">Loading your credits...</p>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-red-500 text-2xl">⚠</span>
+        </div>
+        <h3 className="text-lg font-semibold text-neutral-dark mb-2">Error Loading Credits</h3>
+        <p className="text-neutral-medium">Please try again later</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Balance */}
+      <div className="bg-primary-green/10 border border-primary-green/20 rounded-xl p-6 text-center">
+        <div className="text-sm text-neutral-medium mb-1">Available Balance</div>
+        <div className="text-4xl font-bold text-primary-green" data-testid="text-credit-balance">
+          {data.balance}
+        </div>
+        <div className="text-sm text-neutral-medium mt-1">credits</div>
+      </div>
+
+      <BuyCredits />
+
+      {/* Transaction History */}
+      <div>
+        <h3 className="text-lg font-semibold text-neutral-dark mb-4" data-testid="heading-credit-history">
+          Transaction History
+        </h3>
+
+        {data.transactions.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-gray-400 text-2xl">🪙</span>
+            </div>
+            <p className="text-neutral-medium">No credit transactions yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {data.transactions.map((transaction) => {
+              const config = transactionLabels[transaction.type] || transactionLabels.adjustment;
+              const isCredit = transaction.amount > 0;
+
+              return (
+                <Card key={transaction.id} data-testid={`card-credit-transaction-${transaction.id}`}>
+                  <CardContent className="p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-lg">{config.icon}</span>
+                        <div>
+                          <div className="text-sm font-medium text-neutral-dark">{config.label}</div>
+                          {transaction.description && (
+                            <div className="text-xs text-neutral-medium">{transaction.description}</div>
+                          )}
+                          {transaction.createdAt && (
+                            <div className="text-xs text-neutral-medium">
+                              {format(new Date(transaction.createdAt), "MMM d, yyyy h:mm a")}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <span
+                        className={`text-sm font-semibold ${isCredit ? "text-primary-green" : "text-red-600"}`}
+                        data-testid={`text-credit-amount-${transaction.id}`}
+                      >
+                        {isCredit ? "+" : ""}{transaction.amount}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Receipts />
+    </div>
+  );
+}
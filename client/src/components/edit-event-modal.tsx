@@ -11,14 +11,19 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertEventSchema, type EventWithSupervisor, type User } from "@shared/schema";
+import { insertEventSchema, endTimeOnStartDay, type EventWithSupervisor, type EventEligibility, type User } from "@shared/schema";
+import { EligibilityFields } from "./eligibility-fields";
 import { z } from "zod";
 import { format } from "date-fns";
 import { X, Plus, Trash2, Save, Eye } from "lucide-react";
 
 const editEventSchema = insertEventSchema.extend({
   startTime: z.string(),
+  endTime: z.string().min(1, "End time is required"), // "HH:mm" on the start day
   staffIds: z.array(z.string()).optional(),
+}).refine((data) => data.endTime > data.startTime.slice(11, 16), {
+  message: "End time must be after the start time",
+  path: ["endTime"],
 });
 
 type EditEventFormData = z.infer<typeof editEventSchema>;
@@ -32,6 +37,8 @@ interface EditEventModalProps {
 
 export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModalProps) {
   const [extraServices, setExtraServices] = useState(event.extraServices || []);
+  const [eligibility, setEligibility] = useState<EventEligibility>(event.eligibility || {});
+  const [applyTo, setApplyTo] = useState<"this" | "future">("this"); // Only used for series occurrences
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -46,14 +53,15 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
       name: event.name,
       type: event.type,
       startTime: format(new Date(event.startTime), "yyyy-MM-dd'T'HH:mm"),
+      endTime: format(new Date(event.endTime), "HH:mm"),
       location: event.location,
       maxSeats: event.maxSeats,
       remainingSeats: event.remainingSeats,
       creditsRequired: event.creditsRequired,
-      duration: event.duration,
       description: event.description,
       image: event.image || "",
       cutoffHours: event.cutoffHours,
+      refundWindowHours: event.refundWindowHours ?? null,
       servicesCurrency: event.servicesCurrency,
       allowedRegistrants: event.allowedRegistrants,
     },
@@ -72,8 +80,11 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
       const updateResponse = await apiRequest(`/api/admin/events/${event.id}`, "PUT", {
         ...eventData,
         startTime: new Date(eventData.startTime),
-        extraServices,
+        endTime: endTimeOnStartDay(eventData.startTime, eventData.endTime),
+        extraServices: extraServices.filter((service) => service.description.trim()),
+        eligibility,
         staffIds,
+        scope: event.seriesId ? applyTo : undefined,
       });
 
       // Update status based on action
@@ -128,14 +139,14 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
   };
 
   const addExtraService = () => {
-    setExtraServices([...extraServices, { description: "", price: 0, currency: event.servicesCurrency }]);
+    setExtraServices([...extraServices, { id: crypto.randomUUID(), description: "", price: 0, currency: event.servicesCurrency }]);
   };
 
   const removeExtraService = (index: number) => {
     setExtraServices(extraServices.filter((_, i) => i !== index));
   };
 
-  const updateExtraService = (index: number, field: string, value: string | number) => {
+  const updateExtraService = (index: number, field: string, value: string | number | boolean | null) => {
     const updated = [...extraServices];
     updated[index] = { ...updated[index], [field]: value };
     setExtraServices(updated);
@@ -210,12 +221,16 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
 
               <FormField
                 control={form.control}
-                name="location"
+                name="endTime"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Location</FormLabel>
+                    <FormLabel>End Time</FormLabel>
                     <FormControl>
-                      <Input {...field} data-testid="input-event-location" />
+                      <Input 
+                        type="time" 
+                        {...field} 
+                        data-testid="input-event-end-time"
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -223,6 +238,20 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-event-location" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Capacity and Credits */}
             <div className="grid grid-cols-4 gap-4">
               <FormField
@@ -251,10 +280,12 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
                   <FormItem>
                     <FormLabel>Available Seats</FormLabel>
                     <FormControl>
+                      {/* Counted by the server from bookings; changing Max Seats adds or removes free seats on save */}
                       <Input 
                         type="number" 
                         {...field}
-                        onChange={(e) => field.onChange(Number(e.target.value))}
+                        readOnly
+                        disabled
                         data-testid="input-remaining-seats"
                       />
                     </FormControl>
@@ -281,20 +312,6 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
                   </FormItem>
                 )}
               />
-
-              <FormField
-                control={form.control}
-                name="duration"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Duration</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="e.g., 2h" data-testid="input-duration" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
             </div>
 
             {/* Description */}
@@ -317,7 +334,7 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
             />
 
             {/* Settings */}
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               <FormField
                 control={form.control}
                 name="cutoffHours"
@@ -337,6 +354,27 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="refundWindowHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Refund Window (hours before)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        placeholder="Same as cutoff"
+                        data-testid="input-refund-window-hours"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="servicesCurrency"
@@ -384,6 +422,14 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
               />
             </div>
 
+            {/* Child eligibility rules */}
+            {form.watch("allowedRegistrants") !== "user" && (
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">Eligibility</Label>
+                <EligibilityFields value={eligibility} onChange={setEligibility} />
+              </div>
+            )}
+
             {/* Extra Services */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -401,7 +447,7 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
               </div>
 
               {extraServices.map((service, index) => (
-                <div key={index} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                <div key={service.id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
                   <Input
                     placeholder="Service description"
                     value={service.description}
@@ -417,6 +463,25 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
                     className="w-24"
                     data-testid={`input-service-price-${index}`}
                   />
+                  <Input
+                    type="number"
+                    placeholder="Limit"
+                    min="1"
+                    value={service.capacity ?? ""}
+                    onChange={(e) => updateExtraService(index, "capacity", e.target.value ? Number(e.target.value) : null)}
+                    className="w-24"
+                    title="Places available; leave blank for unlimited"
+                    data-testid={`input-service-capacity-${index}`}
+                  />
+                  <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={service.required ?? false}
+                      onChange={(e) => updateExtraService(index, "required", e.target.checked)}
+                      data-testid={`checkbox-service-required-${index}`}
+                    />
+                    Required
+                  </label>
                   <Button
                     type="button"
                     onClick={() => removeExtraService(index)}
@@ -431,6 +496,40 @@ export function EditEventModal({ event, isOpen, onClose, onSave }: EditEventModa
               ))}
             </div>
 
+            {/* Series scope */}
+            {event.seriesId && (
+              <div className="space-y-2 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <Label>This event is part of a recurring series. Apply changes to:</Label>
+                <div className="flex flex-col gap-2">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name="series-scope"
+                      checked={applyTo === "this"}
+                      onChange={() => setApplyTo("this")}
+                      data-testid="radio-scope-this"
+                    />
+                    This occurrence only
+                  </label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name="series-scope"
+                      checked={applyTo === "future"}
+                      onChange={() => setApplyTo("future")}
+                      data-testid="radio-scope-future"
+                    />
+                    This and all future occurrences
+                  </label>
+                </div>
+                {applyTo === "future" && (
+                  <p className="text-xs text-neutral-medium">
+                    Later occurrences keep their own dates (moved by the same amount as this one) and their existing bookings.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex justify-between pt-6 border-t border-gray-200">
               <Button
@@ -0,0 +1,102 @@
+import { eligibilityFieldLabels, type EligibilityRequiredField, type EventEligibility } from "@shared/schema";
+
+interface EligibilityFieldsProps {
+  value: EventEligibility;
+  onChange: (value: EventEligibility) => void;
+}
+
+const requiredFieldOptions = Object.entries(eligibilityFieldLabels) as [EligibilityRequiredField, string][];
+
+// Admin inputs for an event's child eligibility rules; blank fields mean no restriction
+export function EligibilityFields({ value, onChange }: EligibilityFieldsProps) {
+  const requiredFields = value.requiredFields ?? [];
+
+  const parseAge = (input: string) => (input === "" ? null : Math.max(0, parseInt(input, 10)));
+
+  const toggleRequiredField = (field: EligibilityRequiredField) => {
+    onChange({
+      ...value,
+      requiredFields: requiredFields.includes(field)
+        ? requiredFields.filter((existing) => existing !== field)
+        : [...requiredFields, field],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eligibilityMinAge">
+            Minimum Age
+          </label>
+          <input
+            type="number"
+            id="eligibilityMinAge"
+            min="0"
+            max="18"
+            value={value.minAge ?? ""}
+            onChange={(e) => onChange({ ...value, minAge: parseAge(e.target.value) })}
+            placeholder="Any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+            data-testid="input-eligibility-min-age"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eligibilityMaxAge">
+            Maximum Age
+          </label>
+          <input
+            type="number"
+            id="eligibilityMaxAge"
+            min="0"
+            max="18"
+            value={value.maxAge ?? ""}
+            onChange={(e) => onChange({ ...value, maxAge: parseAge(e.target.value) })}
+            placeholder="Any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+            data-testid="input-eligibility-max-age"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-neutral-medium">Age in whole years on the day of the event</p>
+
+      <div>
+        <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="eligibilityGender">
+          Open To
+        </label>
+        <select
+          id="eligibilityGender"
+          value={value.gender ?? ""}
+          onChange={(e) => onChange({ ...value, gender: e.target.value === "" ? null : e.target.value as "male" | "female" })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+          data-testid="select-eligibility-gender"
+        >
+          <option value="">All children</option>
+          <option value="female">Girls only</option>
+          <option value="male">Boys only</option>
+        </select>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-neutral-dark mb-1">Required Profile Information</p>
+        <div className="space-y-1">
+          {requiredFieldOptions.map(([field, label]) => (
+            <label key={field} className="flex items-center gap-2 text-sm text-neutral-dark">
+              <input
+                type="checkbox"
+                checked={requiredFields.includes(field)}
+                onChange={() => toggleRequiredField(field)}
+                className="text-primary-green focus:ring-primary-green"
+                data-testid={`checkbox-eligibility-${field}`}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-neutral-medium mt-1">
+          Parents must fill these in on the child's profile (or enter "None") before registering
+        </p>
+      </div>
+    </div>
+  );
+}
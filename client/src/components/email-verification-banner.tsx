@@ -0,0 +1,46 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EmailVerificationBannerProps {
+  email: string | null;
+}
+
+export function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("/api/auth/resend-verification", "POST");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification Email Sent",
+        description: `Check ${email || "your inbox"} for the verification link.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="m-4 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm" data-testid="banner-verify-email">
+      <p className="text-yellow-800">
+        ⚠️ Please verify your email address{email ? ` (${email})` : ""} using the link we sent you.
+      </p>
+      <button
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending}
+        className="mt-1 text-primary-green hover:underline font-medium disabled:opacity-50"
+        data-testid="button-resend-verification"
+      >
+        {resendMutation.isPending ? "Sending..." : "Resend verification email"}
+      </button>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ function EventStatusBadge({ status }: { status?: EventStatus }) {
     open: { label: "Open", className: "bg-green-100 text-green-800" },
     registration_closed: { label: "Registration Closed", className: "bg-yellow-100 text-yellow-800" },
     full: { label: "Event Full", className: "bg-red-100 text-red-800" },
+    in_progress: { label: "In Progress", className: "bg-purple-100 text-purple-800" },
     past: { label: "Past Event", className: "bg-gray-100 text-gray-600" },
     editing: { label: "Editing", className: "bg-blue-100 text-blue-800" },
   };
@@ -32,7 +33,7 @@ export function EventCard({ event, onClick }: EventCardProps) {
   const isFullyBooked = event.remainingSeats <= 0;
   const isLowSeats = event.remainingSeats <= 2 && event.remainingSeats > 0;
   const eventStatus = event.status || "open";
-  const isActionDisabled = eventStatus === "full" || eventStatus === "registration_closed" || eventStatus === "past";
+  const isActionDisabled = eventStatus === "full" || eventStatus === "registration_closed" || eventStatus === "in_progress" || eventStatus === "past";
 
   return (
     <div className="event-card bg-white rounded-xl shadow-sm border border-gray-100 mb-4 overflow-hidden" data-testid={`card-event-${event.id}`}>
@@ -63,7 +64,7 @@ export function EventCard({ event, onClick }: EventCardProps) {
         
         <div className="flex items-center space-x-4 text-xs text-neutral-medium mb-3">
           <span>
-            🕐 {format(new Date(event.startTime), "h:mm a")}
+            🕐 {format(new Date(event.startTime), "h:mm a")} – {format(new Date(event.endTime), "h:mm a")}
           </span>
           <span>
             📍 {event.location}
@@ -95,6 +96,7 @@ export function EventCard({ event, onClick }: EventCardProps) {
         >
           {eventStatus === "full" ? "Event Full" : 
            eventStatus === "registration_closed" ? "Registration Closed" :
+           eventStatus === "in_progress" ? "Happening Now" :
            eventStatus === "past" ? "Event Ended" :
            "View Details & Sign Up"}
         </button>
@@ -6,17 +6,22 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { ChevronDown, ChevronRight } from "lucide-react";
-import type { EventWithSupervisor, Child, ExtraService } from "@shared/schema";
+import { formatEligibility, formatEventDuration, getEligibilityIssues, hasPermission } from "@shared/schema";
+import type { EventWithSupervisor, SharedChild, ExtraService, ExtraServiceAvailability, RegistrationStatus } from "@shared/schema";
 
 interface EventDetailModalProps {
   event: EventWithSupervisor;
-  children: Child[];
+  children: SharedChild[];
   onClose: () => void;
 }
 
-export function EventDetailModal({ event, children, onClose }: EventDetailModalProps) {
+export function EventDetailModal({ event, children: sharedChildren, onClose }: EventDetailModalProps) {
+  // View-only guardians see the household's children but can't register them
+  const children = sharedChildren.filter((child) => child.access === "full");
   const [selectedChildId, setSelectedChildId] = useState<string>("");
-  const [selectedServices, setSelectedServices] = useState<number[]>([]);
+  // Required services are always part of a registration
+  const requiredServiceIds = (event.extraServices ?? []).filter((service) => service.required).map((service) => service.id);
+  const [selectedServices, setSelectedServices] = useState<string[]>(requiredServiceIds);
   const [isParentRegistration, setIsParentRegistration] = useState<boolean>(false);
   const [isRegistrationExpanded, setIsRegistrationExpanded] = useState<boolean>(false);
   const { toast } = useToast();
@@ -29,6 +34,33 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
     retry: false,
   });
 
+  // Fetch the parent's credit balance to show alongside the cost
+  const { data: credits } = useQuery<{ balance: number }>({
+    queryKey: ["/api/credits"],
+    retry: false,
+  });
+
+  // Fetch the parent's waitlist entries so a full event shows who is already queued
+  const { data: waitlistEntries } = useQuery<Array<{ id: string; eventId: string; childId: string | null; position: number }>>({
+    queryKey: ["/api/waitlist"],
+    retry: false,
+  });
+
+  // Places taken and left per extra service
+  const { data: serviceAvailability } = useQuery<ExtraServiceAvailability[]>({
+    queryKey: [`/api/events/${event.id}/services`],
+    enabled: (event.extraServices?.length ?? 0) > 0,
+    retry: false,
+  });
+
+  const getServiceAvailability = (serviceId: string) =>
+    serviceAvailability?.find((service) => service.id === serviceId);
+
+  const canEditEvents = hasPermission(user, "events.edit");
+
+  const getWaitlistEntry = (childId: string | null) =>
+    waitlistEntries?.find((entry) => entry.eventId === event.id && entry.childId === childId);
+
   // Check if a child is already registered for this event
   const isChildRegistered = (childId: string) => {
     if (!eventRegistrations || !Array.isArray(eventRegistrations)) return false;
@@ -46,13 +78,23 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
   };
 
   const registerMutation = useMutation({
-    mutationFn: async ({ childId, selectedServices }: { childId?: string, selectedServices: number[] }) => {
-      await apiRequest("POST", `/api/events/${event.id}/register`, { 
+    mutationFn: async ({ childId, selectedServices }: { childId?: string, selectedServices: string[] }) => {
+      const response = await apiRequest(`/api/events/${event.id}/register`, "POST", { 
         childId: childId || null, 
         selectedServices 
       });
+      return response.json() as Promise<{ status: RegistrationStatus; checkoutUrl?: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (registration) => {
+      // Extra services are paid on the provider's checkout page; the seat is held until then
+      if (registration.checkoutUrl) {
+        toast({
+          title: "Complete Payment",
+          description: "Your place is held while you pay for the extra services.",
+        });
+        window.location.href = registration.checkoutUrl;
+        return;
+      }
       toast({
         title: "Success",
         description: "Successfully registered for event!",
@@ -60,9 +102,11 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/my-events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}/services`] });
       // Reset form state but keep modal open
       setSelectedChildId("");
-      setSelectedServices([]);
+      setSelectedServices(requiredServiceIds);
       setIsParentRegistration(false);
     },
     onError: (error) => {
@@ -83,9 +127,19 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
       let title = "Registration Error";
       let description = errorMessage;
       
-      if (errorMessage.includes("already registered")) {
+      const conflictMatch = errorMessage.match(/Schedule conflict: ([^"]+)/);
+
+      if (conflictMatch) {
+        // Names the event that overlaps, e.g. "Ana is registered for Swimming at the same time"
+        title = "Schedule Conflict";
+        description = `${conflictMatch[1].charAt(0).toUpperCase()}${conflictMatch[1].slice(1)}.`;
+      } else if (errorMessage.includes("already registered")) {
         title = "Already Registered";
         description = "This child is already registered for this event. You can check your registrations in the My Events tab.";
+      } else if (errorMessage.includes("has no places left")) {
+        title = "Service Full";
+        description = errorMessage.match(/"message":"([^"]+)"/)?.[1] ?? errorMessage;
+        queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}/services`] });
       } else if (errorMessage.includes("not enough seats") || errorMessage.includes("fully booked")) {
         title = "Event Full";
         description = "This event is now fully booked. Please try registering for another event.";
@@ -105,6 +159,26 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
     },
   });
 
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (childId: string | null) => {
+      await apiRequest(`/api/events/${event.id}/waitlist`, "POST", { childId, selectedServices: requiredServiceIds });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Joined Waitlist",
+        description: "You'll be registered automatically if a spot opens up.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Waitlist Error",
+        description: error.message || "Failed to join waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleRegister = () => {
     if (!isParentRegistration && !selectedChildId) {
       toast({
@@ -122,17 +196,17 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
 
   // Calculate costs separately
   const creditsCost = event.creditsRequired;
-  const servicesCost = selectedServices.reduce((sum, serviceIndex) => {
-    const service = event.extraServices?.[serviceIndex];
+  const servicesCost = selectedServices.reduce((sum, serviceId) => {
+    const service = event.extraServices?.find((s) => s.id === serviceId);
     return sum + (service?.price || 0);
   }, 0);
 
   // Handle service selection
-  const toggleService = (serviceIndex: number) => {
+  const toggleService = (serviceId: string) => {
     setSelectedServices(prev => 
-      prev.includes(serviceIndex) 
-        ? prev.filter(i => i !== serviceIndex)
-        : [...prev, serviceIndex]
+      prev.includes(serviceId) 
+        ? prev.filter(id => id !== serviceId)
+        : [...prev, serviceId]
     );
   };
 
@@ -176,7 +250,7 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
               </h4>
               <div className="flex items-center space-x-4 text-sm text-neutral-medium">
                 <span>🏷️ {event.type}</span>
-                <span>⏱️ {event.duration}</span>
+                <span>⏱️ {formatEventDuration(event)}</span>
               </div>
             </div>
 
@@ -208,7 +282,7 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                 <h5 className="font-semibold text-neutral-dark mb-1">When & Where</h5>
                 <div className="text-sm text-neutral-medium space-y-1">
                   <div>📅 {format(new Date(event.startTime), "EEEE, MMMM d")}</div>
-                  <div>🕐 {format(new Date(event.startTime), "h:mm a")}</div>
+                  <div>🕐 {format(new Date(event.startTime), "h:mm a")} – {format(new Date(event.endTime), "h:mm a")}</div>
                   <div>📍 {event.location}</div>
                 </div>
               </div>
@@ -226,15 +300,29 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                   {event.supervisorNames && (
                     <div>👨‍🏫 Supervisor{event.supervisorNames.includes(',') ? 's' : ''}: {event.supervisorNames}</div>
                   )}
+                  {formatEligibility(event.eligibility) && (
+                    <div data-testid="text-event-eligibility">🎯 Eligibility: {formatEligibility(event.eligibility)}</div>
+                  )}
                   <div>⚠️ Registration closes {event.cutoffHours} hours before the event</div>
+                  <div>↩️ Full refund if cancelled at least {event.refundWindowHours ?? event.cutoffHours} hours before the event</div>
                   {event.extraServices && event.extraServices.length > 0 ? (
                     <div>
                       <div className="font-medium text-neutral-dark mb-1">Available Services:</div>
-                      {event.extraServices.map((service, index) => (
-                        <div key={index} className="pl-2">
-                          • {service.description} - {service.currency || event.servicesCurrency || 'USD'} {service.price}
-                        </div>
-                      ))}
+                      {event.extraServices.map((service) => {
+                        const availability = getServiceAvailability(service.id);
+                        return (
+                          <div key={service.id} className="pl-2">
+                            • {service.description} - {service.currency || event.servicesCurrency || 'USD'} {service.price}
+                            {service.required && " (required)"}
+                            {/* Event managers see how many registrations include each service */}
+                            {canEditEvents && availability && (
+                              <span className="text-neutral-medium" data-testid={`text-service-booked-${service.id}`}>
+                                {" "}• {availability.taken}{service.capacity ? ` / ${service.capacity}` : ""} booked
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   ) : (
                     <div>ℹ️ No additional services available</div>
@@ -355,7 +443,8 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                   {/* Children options - always visible */}
                   {children.map((child) => {
                     const isChildAlreadyRegistered = isChildRegistered(child.id);
-                    const isChildDisabled = event.allowedRegistrants === "user" || isChildAlreadyRegistered;
+                    const eligibilityIssues = getEligibilityIssues(child, event);
+                    const isChildDisabled = event.allowedRegistrants === "user" || isChildAlreadyRegistered || eligibilityIssues.length > 0;
                     const isSelected = selectedChildId === child.id && !isParentRegistration;
                     
                     return (
@@ -392,6 +481,11 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                               <div className="text-sm text-neutral-medium">
                                 Born: {format(new Date(child.dateOfBirth), "MMM yyyy")}
                               </div>
+                              {!isChildAlreadyRegistered && event.allowedRegistrants !== "user" && eligibilityIssues.length > 0 && (
+                                <div className="text-xs text-red-600 mt-1" data-testid={`text-ineligible-reasons-${child.id}`}>
+                                  {eligibilityIssues.join("; ")}
+                                </div>
+                              )}
                             </div>
                             {isChildAlreadyRegistered && (
                               <span className="text-xs text-green-600 bg-green-100 px-2 py-1 rounded">Already registered</span>
@@ -399,6 +493,9 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                             {event.allowedRegistrants === "user" && !isChildAlreadyRegistered && (
                               <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">Not allowed</span>
                             )}
+                            {event.allowedRegistrants !== "user" && !isChildAlreadyRegistered && eligibilityIssues.length > 0 && (
+                              <span className="text-xs text-red-600 bg-red-100 px-2 py-1 rounded">Not eligible</span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -410,27 +507,40 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
               {/* Extra Services Selection - shown regardless of selection */}
               {event.extraServices && event.extraServices.length > 0 && (
                 <div className="mb-4 p-4 bg-gray-50 rounded-lg">
-                  <h6 className="font-semibold text-neutral-dark mb-3">Extra Services (Optional)</h6>
+                  <h6 className="font-semibold text-neutral-dark mb-3">Extra Services</h6>
                   <div className="space-y-2">
-                    {event.extraServices.map((service, index) => (
-                      <div key={index} className="flex items-center space-x-3">
-                        <input
-                          type="checkbox"
-                          id={`service-${index}`}
-                          checked={selectedServices.includes(index)}
-                          onChange={() => toggleService(index)}
-                          className="text-primary-green focus:ring-primary-green"
-                          data-testid={`checkbox-service-${index}`}
-                        />
-                        <label 
-                          htmlFor={`service-${index}`} 
-                          className="flex-1 flex justify-between items-center cursor-pointer"
-                        >
-                          <span className="text-sm text-neutral-dark">{service.description}</span>
-                          <span className="text-sm font-medium text-primary-green">{service.currency || event.servicesCurrency || 'USD'} {service.price}</span>
-                        </label>
-                      </div>
-                    ))}
+                    {event.extraServices.map((service) => {
+                      const remaining = getServiceAvailability(service.id)?.remaining;
+                      const isFull = remaining === 0 && !service.required;
+                      return (
+                        <div key={service.id} className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            id={`service-${service.id}`}
+                            checked={selectedServices.includes(service.id)}
+                            onChange={() => toggleService(service.id)}
+                            disabled={service.required || (isFull && !selectedServices.includes(service.id))}
+                            className="text-primary-green focus:ring-primary-green"
+                            data-testid={`checkbox-service-${service.id}`}
+                          />
+                          <label 
+                            htmlFor={`service-${service.id}`} 
+                            className={`flex-1 flex justify-between items-center cursor-pointer ${isFull ? "opacity-50" : ""}`}
+                          >
+                            <span className="text-sm text-neutral-dark">
+                              {service.description}
+                              {service.required && <span className="text-xs text-neutral-medium"> (required)</span>}
+                              {remaining !== undefined && remaining !== null && (
+                                <span className="text-xs text-neutral-medium" data-testid={`text-service-remaining-${service.id}`}>
+                                  {" "}• {remaining === 0 ? "Full" : `${remaining} left`}
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-sm font-medium text-primary-green">{service.currency || event.servicesCurrency || 'USD'} {service.price}</span>
+                          </label>
+                        </div>
+                      );
+                    })}
                   </div>
                   
                   {/* Cost Summary */}
@@ -466,6 +576,15 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                 </div>
               )}
 
+                {credits && (
+                  <div className="flex justify-between items-center text-sm" data-testid="text-credit-balance">
+                    <span className="text-neutral-medium">Your balance:</span>
+                    <span className={`font-medium ${credits.balance < creditsCost ? "text-red-600" : "text-primary-green"}`}>
+                      {credits.balance} credits
+                    </span>
+                  </div>
+                )}
+
                 <button 
                   onClick={handleRegister}
                   disabled={registerMutation.isPending || (!isParentRegistration && !selectedChildId)}
@@ -496,6 +615,55 @@ export function EventDetailModal({ event, children, onClose }: EventDetailModalP
                   </span>
                 </div>
               </div>
+
+              {/* Waitlist - spots are offered in order as registrations are cancelled */}
+              {!isAfterCutoff && (
+                <div className="mt-4 space-y-2">
+                  <h6 className="font-semibold text-neutral-dark">Join the waitlist</h6>
+                  <p className="text-xs text-neutral-medium">
+                    If a spot opens up you'll be registered automatically and {creditsCost} credits will be deducted.
+                  </p>
+                  {[
+                    ...(event.allowedRegistrants !== "attendee" && !isParentRegistered()
+                      ? [{ id: null, name: user?.firstName ? `${user.firstName} ${user.lastName || ""}`.trim() : "Yourself" }]
+                      : []),
+                    ...(event.allowedRegistrants !== "user"
+                      ? children
+                          .filter((child) => !isChildRegistered(child.id) && getEligibilityIssues(child, event).length === 0)
+                          .map((child) => ({ id: child.id, name: `${child.firstName} ${child.lastName}` }))
+                      : []),
+                  ].map((registrant) => {
+                    const entry = getWaitlistEntry(registrant.id);
+                    return (
+                      <div
+                        key={registrant.id ?? "parent"}
+                        className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                      >
+                        <span className="text-sm font-medium text-neutral-dark">
+                          {registrant.id ? "👶" : "👤"} {registrant.name}
+                        </span>
+                        {entry ? (
+                          <span
+                            className="text-xs text-yellow-800 bg-yellow-100 px-2 py-1 rounded"
+                            data-testid={`text-waitlist-position-${registrant.id ?? "parent"}`}
+                          >
+                            #{entry.position} on waitlist
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => joinWaitlistMutation.mutate(registrant.id)}
+                            disabled={joinWaitlistMutation.isPending}
+                            className="text-xs font-semibold text-primary-green border border-primary-green px-3 py-1 rounded hover:bg-green-50 disabled:opacity-50"
+                            data-testid={`button-join-waitlist-${registrant.id ?? "parent"}`}
+                          >
+                            Join Waitlist
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           )}
 
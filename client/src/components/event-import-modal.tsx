@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { MAX_IMPORT_ROWS, type EventImportRequest, type EventImportResult } from "@shared/schema";
+
+const CSV_EXAMPLE = [
+  "name,description,startTime,endTime,location,maxSeats,creditsRequired,supervisorEmails",
+  "Art Club,Painting and drawing,2025-09-01T15:00,2025-09-01T16:30,Room 2,8,1,ana@example.com;dan@example.com",
+].join("\n");
+
+interface EventImportModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Pull the server's message out of an apiRequest error ("400: {json}")
+function errorMessage(error: Error): string {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  if (!match) return error.message;
+  try {
+    return JSON.parse(match[1]).message ?? error.message;
+  } catch {
+    return match[1];
+  }
+}
+
+export function EventImportModal({ onClose, onImported }: EventImportModalProps) {
+  const [file, setFile] = useState<{ name: string; format: EventImportRequest["format"]; content: string } | null>(null);
+  const [preview, setPreview] = useState<EventImportResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (request: EventImportRequest) => {
+      const response = await apiRequest("/api/admin/events/import", "POST", request);
+      return response.json() as Promise<EventImportResult>;
+    },
+    onSuccess: (result, request) => {
+      if (request.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Success",
+        description: `Imported ${result.createdCount} event${result.createdCount === 1 ? "" : "s"}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/events"] });
+      onImported();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Import Failed",
+        description: errorMessage(error as Error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setPreview(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    setFile({
+      name: selected.name,
+      format: selected.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+      content: await selected.text(),
+    });
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!file) return;
+    importMutation.mutate({ format: file.format, content: file.content, dryRun });
+  };
+
+  const invalidCount = preview ? preview.rows.length - preview.validCount : 0;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black bg-opacity-50 z-50 flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-t-xl sm:rounded-xl max-w-md w-full m-4 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        {/* Modal Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 flex items-center justify-between rounded-t-xl">
+          <h3 className="text-lg font-semibold text-neutral-dark">Import Events</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-medium hover:text-neutral-dark"
+            data-testid="button-close-import-events-modal"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="text-sm text-neutral-medium space-y-2">
+            <p>
+              Upload a CSV file with a header row, or a JSON array of events (up to {MAX_IMPORT_ROWS}). Supervisors are
+              staff or admin emails separated by semicolons. Times without a UTC offset are read in the server's time
+              zone, so check them in the preview.
+            </p>
+            <pre className="bg-gray-50 border border-gray-200 rounded-lg p-2 text-xs overflow-x-auto">{CSV_EXAMPLE}</pre>
+            <p>
+              Optional columns: type, cutoffHours, refundWindowHours, image, servicesCurrency, allowedRegistrants.
+            </p>
+          </div>
+
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            className="w-full text-sm"
+            data-testid="input-import-file"
+          />
+
+          {preview && (
+            <div className="space-y-2" data-testid="import-preview">
+              <p className="text-sm font-medium text-neutral-dark" data-testid="text-import-summary">
+                {preview.validCount} of {preview.rows.length} rows ready to import
+                {invalidCount > 0 && <span className="text-red-600"> • {invalidCount} with errors will be skipped</span>}
+              </p>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {preview.rows.map((row) => (
+                  <div
+                    key={row.row}
+                    className={`border rounded-lg p-2 text-xs ${row.errors.length > 0 ? "border-red-200 bg-red-50" : "border-gray-200"}`}
+                    data-testid={`import-row-${row.row}`}
+                  >
+                    <div className="font-medium text-neutral-dark">
+                      Row {row.row}: {row.name || "Untitled"}
+                    </div>
+                    <div className="text-neutral-medium">
+                      {row.startTime ? format(new Date(row.startTime), "MMM d, yyyy h:mm a") : "No start time"}
+                      {row.endTime && ` – ${format(new Date(row.endTime), "h:mm a")}`}
+                      {row.location && ` • ${row.location}`}
+                    </div>
+                    {row.supervisorEmails.length > 0 && (
+                      <div className="text-neutral-medium">Supervisors: {row.supervisorEmails.join(", ")}</div>
+                    )}
+                    {row.errors.map((error) => (
+                      <div key={error} className="text-red-600">{error}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            {preview ? (
+              <button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={importMutation.isPending || preview.validCount === 0}
+                className="flex-1 bg-primary-green text-white py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200 disabled:opacity-50"
+                data-testid="button-confirm-import"
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${preview.validCount} Event${preview.validCount === 1 ? "" : "s"}`}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => runImport(true)}
+                disabled={!file || importMutation.isPending}
+                className="flex-1 bg-primary-green text-white py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200 disabled:opacity-50"
+                data-testid="button-preview-import"
+              >
+                {importMutation.isPending ? "Checking..." : "Preview"}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-neutral-dark py-2 rounded-lg font-medium hover:bg-gray-300 transition duration-200"
+              data-testid="button-cancel-import"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LogIn, LogOut, UserX, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AttendanceAction, AttendanceStatus, EventWithSupervisor } from "@shared/schema";
+
+interface RosterEntry {
+  registrationId: string;
+  childId: string | null;
+  child: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    allergies: string | null;
+    dietaryRestrictions: string | null;
+    medicineNeeds: string | null;
+  } | null;
+  parent: {
+    firstName: string | null;
+    lastName: string | null;
+    phone: string | null;
+  } | null;
+  attendance: {
+    status: AttendanceStatus;
+    checkedInAt: string | null;
+    checkedOutAt: string | null;
+    noShowMarkedAt: string | null;
+    releasedToName: string | null;
+  } | null;
+  authorizedPickups: {
+    id: string;
+    name: string;
+    relation: string;
+    phone: string;
+    photoUrl: string | null;
+  }[];
+}
+
+interface AttendanceRequest {
+  registrationId: string;
+  action: AttendanceAction;
+  pickupId?: string;
+  releasedToParent?: boolean;
+}
+
+interface EventRosterProps {
+  event: EventWithSupervisor;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const statusStyles: Record<AttendanceStatus | "pending", { label: string; className: string }> = {
+  pending: { label: "Not arrived", className: "bg-gray-100 text-gray-600" },
+  checked_in: { label: "Checked in", className: "bg-green-100 text-green-800" },
+  checked_out: { label: "Checked out", className: "bg-blue-100 text-blue-800" },
+  no_show: { label: "No-show", className: "bg-red-100 text-red-800" },
+};
+
+export function EventRoster({ event, isOpen, onClose }: EventRosterProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const rosterQueryKey = [`/api/staff/events/${event.id}/roster`];
+  // Registration whose child is being released, and the selected collector ("parent" or a pickup id)
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+  const [releaseTo, setReleaseTo] = useState<string | null>(null);
+
+  const { data: roster = [], isLoading } = useQuery<RosterEntry[]>({
+    queryKey: rosterQueryKey,
+    enabled: isOpen,
+    staleTime: 0, // Other supervisors may be checking children in at the same time
+  });
+
+  const attendanceMutation = useMutation({
+    mutationFn: async ({ registrationId, ...body }: AttendanceRequest) => {
+      await apiRequest(`/api/staff/registrations/${registrationId}/attendance`, "POST", body);
+    },
+    onSuccess: () => {
+      setReleasingId(null);
+      setReleaseTo(null);
+      queryClient.invalidateQueries({ queryKey: rosterQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record attendance",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkedInCount = roster.filter((entry) => entry.attendance?.status === "checked_in").length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span>Roster: {event.name}</span>
+            <span className="text-sm bg-green-100 text-green-800 px-2 py-1 rounded-full" data-testid="text-roster-present">
+              {checkedInCount}/{roster.length} present
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="w-6 h-6 border-2 border-primary-green border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-neutral-medium">Loading roster...</p>
+          </div>
+        ) : roster.length === 0 ? (
+          <p className="text-center py-8 text-neutral-medium">Nobody is registered for this event yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {roster.map((entry) => {
+              const name = entry.child
+                ? `${entry.child.firstName} ${entry.child.lastName}`
+                : `${entry.parent?.firstName || ""} ${entry.parent?.lastName || ""}`.trim() || "Parent";
+              const status = entry.attendance?.status || "pending";
+              const style = statusStyles[status];
+              const isPending = attendanceMutation.isPending && attendanceMutation.variables?.registrationId === entry.registrationId;
+              const record = (action: AttendanceAction) =>
+                attendanceMutation.mutate({ registrationId: entry.registrationId, action });
+              const isReleasing = releasingId === entry.registrationId;
+              const confirmRelease = () =>
+                attendanceMutation.mutate(releaseTo === "parent"
+                  ? { registrationId: entry.registrationId, action: "check_out", releasedToParent: true }
+                  : { registrationId: entry.registrationId, action: "check_out", pickupId: releaseTo ?? undefined });
+
+              return (
+                <div
+                  key={entry.registrationId}
+                  className="p-3 border border-gray-200 rounded-lg"
+                  data-testid={`roster-entry-${entry.registrationId}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1">
+                      <div className="font-medium text-neutral-dark">
+                        {entry.child ? "👶" : "👤"} {name}
+                      </div>
+                      {entry.child && (entry.child.allergies || entry.child.medicineNeeds || entry.child.dietaryRestrictions) && (
+                        <div className="text-xs text-red-700 mt-1 space-y-0.5">
+                          {entry.child.allergies && <div>⚠️ Allergies: {entry.child.allergies}</div>}
+                          {entry.child.medicineNeeds && <div>💊 Medicine: {entry.child.medicineNeeds}</div>}
+                          {entry.child.dietaryRestrictions && <div>🍽️ Diet: {entry.child.dietaryRestrictions}</div>}
+                        </div>
+                      )}
+                      {entry.child && entry.parent?.phone && (
+                        <div className="text-xs text-neutral-medium mt-1">
+                          Parent: {entry.parent.firstName} {entry.parent.lastName} · {entry.parent.phone}
+                        </div>
+                      )}
+                      <div className="text-xs text-neutral-medium mt-1 space-x-2">
+                        {entry.attendance?.checkedInAt && (
+                          <span>In {format(new Date(entry.attendance.checkedInAt), "h:mm a")}</span>
+                        )}
+                        {entry.attendance?.checkedOutAt && (
+                          <span>Out {format(new Date(entry.attendance.checkedOutAt), "h:mm a")}</span>
+                        )}
+                        {entry.attendance?.releasedToName && (
+                          <span data-testid={`text-released-to-${entry.registrationId}`}>
+                            Released to {entry.attendance.releasedToName}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-end gap-2">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${style.className}`}
+                        data-testid={`text-attendance-status-${entry.registrationId}`}
+                      >
+                        {style.label}
+                      </span>
+                      <div className="flex gap-1">
+                        {(status === "pending" || status === "no_show") && (
+                          <Button
+                            size="sm"
+                            onClick={() => record("check_in")}
+                            disabled={isPending}
+                            data-testid={`button-check-in-${entry.registrationId}`}
+                          >
+                            <LogIn className="w-4 h-4 mr-1" />
+                            Check in
+                          </Button>
+                        )}
+                        {status === "checked_in" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              if (entry.child) {
+                                // Children may only leave with their parent or an authorized pickup
+                                setReleasingId(isReleasing ? null : entry.registrationId);
+                                setReleaseTo(null);
+                              } else {
+                                record("check_out");
+                              }
+                            }}
+                            disabled={isPending}
+                            data-testid={`button-check-out-${entry.registrationId}`}
+                          >
+                            <LogOut className="w-4 h-4 mr-1" />
+                            Check out
+                          </Button>
+                        )}
+                        {status === "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600 border-red-200 hover:bg-red-50"
+                            onClick={() => record("no_show")}
+                            disabled={isPending}
+                            data-testid={`button-no-show-${entry.registrationId}`}
+                          >
+                            <UserX className="w-4 h-4 mr-1" />
+                            No-show
+                          </Button>
+                        )}
+                        {status !== "pending" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => record("reset")}
+                            disabled={isPending}
+                            title="Clear attendance"
+                            data-testid={`button-reset-attendance-${entry.registrationId}`}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {isReleasing && entry.child && (
+                    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2" data-testid={`release-picker-${entry.registrationId}`}>
+                      <div className="text-sm font-medium text-neutral-dark">Who is collecting {entry.child.firstName}?</div>
+                      <label className="flex items-center gap-3 p-2 rounded border border-gray-200 cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="radio"
+                          name={`release-${entry.registrationId}`}
+                          checked={releaseTo === "parent"}
+                          onChange={() => setReleaseTo("parent")}
+                          data-testid={`radio-release-parent-${entry.registrationId}`}
+                        />
+                        <span className="text-sm">
+                          {entry.parent?.firstName} {entry.parent?.lastName} (Parent)
+                          {entry.parent?.phone && <span className="text-neutral-medium"> · {entry.parent.phone}</span>}
+                        </span>
+                      </label>
+                      {entry.authorizedPickups.map((pickup) => (
+                        <label
+                          key={pickup.id}
+                          className="flex items-center gap-3 p-2 rounded border border-gray-200 cursor-pointer hover:bg-gray-50"
+                        >
+                          <input
+                            type="radio"
+                            name={`release-${entry.registrationId}`}
+                            checked={releaseTo === pickup.id}
+                            onChange={() => setReleaseTo(pickup.id)}
+                            data-testid={`radio-release-pickup-${pickup.id}`}
+                          />
+                          {pickup.photoUrl ? (
+                            <img src={pickup.photoUrl} alt={pickup.name} className="w-10 h-10 rounded-full object-cover" />
+                          ) : (
+                            <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm">👤</div>
+                          )}
+                          <span className="text-sm">
+                            {pickup.name} ({pickup.relation})
+                            <span className="text-neutral-medium"> · {pickup.phone}</span>
+                          </span>
+                        </label>
+                      ))}
+                      {entry.authorizedPickups.length === 0 && (
+                        <p className="text-xs text-neutral-medium">No other pickup people are authorized today.</p>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setReleasingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={confirmRelease}
+                          disabled={!releaseTo || isPending}
+                          data-testid={`button-confirm-release-${entry.registrationId}`}
+                        >
+                          Confirm release
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
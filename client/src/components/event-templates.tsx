@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Copy, Pencil, Trash2 } from "lucide-react";
+import { formatEventDuration, type EventTemplate, type EventWithSupervisor } from "@shared/schema";
+
+// apiRequest errors read "409: {json}"; show the server's message when there is one
+function templateErrorMessage(error: Error, fallback: string): string {
+  return error.message.match(/"message":"([^"]+)"/)?.[1] ?? fallback;
+}
+
+// Template length as an event of that duration, so it reads like the event cards ("1h 30m")
+function formatTemplateDuration(template: EventTemplate): string {
+  return formatEventDuration({ startTime: new Date(0), endTime: new Date(template.durationMinutes * 60 * 1000) });
+}
+
+interface SaveTemplateModalProps {
+  event: EventWithSupervisor;
+  onClose: () => void;
+}
+
+// Name and save an existing event (with its supervisors) as a template
+export function SaveTemplateModal({ event, onClose }: SaveTemplateModalProps) {
+  const [name, setName] = useState(event.name);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/admin/events/${event.id}/template`, "POST", { name: name.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/event-templates"] });
+      toast({
+        title: "Success",
+        description: `Saved "${name.trim()}" as a template`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: templateErrorMessage(error as Error, "Failed to save template"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="modal-backdrop fixed inset-0 bg-black bg-opacity-50 z-50 flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-t-xl sm:rounded-xl max-w-md w-full m-4" onClick={(e) => e.stopPropagation()}>
+        <div className="border-b border-gray-200 p-4 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-neutral-dark">Save as Template</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-medium hover:text-neutral-dark"
+            data-testid="button-close-save-template-modal"
+          >
+            ✕
+          </button>
+        </div>
+        <form
+          className="p-4 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) saveMutation.mutate();
+          }}
+        >
+          <p className="text-sm text-neutral-medium">
+            Description, location, length, seats, credits, extra services, eligibility and supervisors of "{event.name}"
+            are saved. Dates are picked when creating an event from the template.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-neutral-dark mb-1" htmlFor="templateName">
+              Template Name *
+            </label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              data-testid="input-template-name"
+            />
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-neutral-dark py-2 rounded-lg font-medium hover:bg-gray-300 transition duration-200"
+              data-testid="button-cancel-save-template"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saveMutation.isPending || !name.trim()}
+              className="flex-1 bg-primary-green text-white py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200 disabled:opacity-50"
+              data-testid="button-save-template"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Template"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function TemplateCard({ template }: { template: EventTemplate }) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(template.name);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/admin/event-templates/${template.id}`, "PATCH", { name: name.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/event-templates"] });
+      setIsRenaming(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: templateErrorMessage(error as Error, "Failed to rename template"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/admin/event-templates/${template.id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/event-templates"] });
+      toast({
+        title: "Success",
+        description: `Deleted template "${template.name}"`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`card-event-template-${template.id}`}>
+      <CardContent className="p-4 space-y-2">
+        {isRenaming ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) renameMutation.mutate();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              data-testid={`input-rename-template-${template.id}`}
+            />
+            <Button type="submit" size="sm" disabled={renameMutation.isPending || !name.trim()}>
+              Save
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setName(template.name);
+                setIsRenaming(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </form>
+        ) : (
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium text-neutral-dark">{template.name}</div>
+              <div className="text-xs text-neutral-medium">
+                {template.eventName} • {template.location} • {formatTemplateDuration(template)}
+              </div>
+              <div className="text-xs text-neutral-medium">
+                {template.maxSeats} seats • {template.creditsRequired} credits • {template.extraServices.length} extra
+                service{template.extraServices.length === 1 ? "" : "s"} • {template.supervisorIds.length} supervisor
+                {template.supervisorIds.length === 1 ? "" : "s"}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsRenaming(true)}
+                data-testid={`button-rename-template-${template.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                data-testid={`button-delete-template-${template.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Admin list of saved templates; new ones are saved from an event in Event Management
+export function EventTemplateManager() {
+  const { data: templates = [], isLoading } = useQuery<EventTemplate[]>({
+    queryKey: ["/api/admin/event-templates"],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 mb-6">
+        <Copy className="w-6 h-6 text-primary-green" />
+        <h2 className="text-xl font-bold text-neutral-dark">Event Templates</h2>
+      </div>
+
+      <p className="text-sm text-neutral-medium">
+        Save an event as a template from the Events tab, then pick it under "Start from Template" when creating an event.
+      </p>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          [1, 2].map((i) => <div key={i} className="h-16 bg-gray-200 rounded-lg animate-pulse" />)
+        ) : templates.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-neutral-medium">
+              No templates saved yet
+            </CardContent>
+          </Card>
+        ) : (
+          templates.map((template) => <TemplateCard key={template.id} template={template} />)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Mail, UserMinus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { guardianPermissionLabels, type GuardianPermission, type HouseholdOverview, type User } from "@shared/schema";
+
+interface HouseholdSettingsProps {
+  user: User;
+}
+
+// Guardians sharing the parent's children, with invitations for co-parents and other carers
+export function HouseholdSettings({ user }: HouseholdSettingsProps) {
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<GuardianPermission>("full");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: household, isLoading } = useQuery<HouseholdOverview>({
+    queryKey: ["/api/household"],
+  });
+
+  // Membership changes which children and registrations are shared
+  const refreshHousehold = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/children"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/my-events"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("/api/household/invitations", "POST", { email, permission });
+    },
+    onSuccess: () => {
+      toast({ title: "Invitation Sent", description: `We emailed an invitation to ${email}.` });
+      setEmail("");
+      refreshHousehold();
+    },
+    onError: (error) => showError(error, "Failed to send invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest(`/api/household/invitations/${invitationId}`, "DELETE");
+    },
+    onSuccess: refreshHousehold,
+    onError: (error) => showError(error, "Failed to revoke invitation"),
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ userId, permission }: { userId: string; permission: GuardianPermission }) => {
+      await apiRequest(`/api/household/members/${userId}`, "PATCH", { permission });
+    },
+    onSuccess: refreshHousehold,
+    onError: (error) => showError(error, "Failed to change access"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest(`/api/household/members/${userId}`, "DELETE");
+    },
+    onSuccess: refreshHousehold,
+    onError: (error) => showError(error, "Failed to update household"),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate();
+  };
+
+  if (isLoading || !household) {
+    return <div className="w-5 h-5 border-2 border-primary-green border-t-transparent rounded-full animate-spin"></div>;
+  }
+
+  const canManage = household.permission === "full";
+  const others = household.members.filter(member => member.userId !== user.id);
+
+  return (
+    <div className="space-y-4" data-testid="household-settings">
+      {others.length === 0 ? (
+        <p className="text-sm text-neutral-medium">
+          You are the only guardian of your children. Invite a co-parent or another carer to share their profiles and registrations.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {household.members.map((member) => {
+            const isSelf = member.userId === user.id;
+            return (
+              <div key={member.userId} className="flex items-center justify-between gap-3" data-testid={`household-member-${member.userId}`}>
+                <div className="min-w-0">
+                  <p className="font-medium text-neutral-dark text-sm truncate">
+                    {member.firstName} {member.lastName}{isSelf ? " (you)" : ""}
+                  </p>
+                  <p className="text-xs text-neutral-medium truncate">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {canManage && !isSelf ? (
+                    <Select
+                      value={member.permission}
+                      onValueChange={(value) => updateMemberMutation.mutate({ userId: member.userId, permission: value as GuardianPermission })}
+                    >
+                      <SelectTrigger className="w-36" data-testid={`select-member-permission-${member.userId}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="full">{guardianPermissionLabels.full}</SelectItem>
+                        <SelectItem value="view">{guardianPermissionLabels.view}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{guardianPermissionLabels[member.permission]}</Badge>
+                  )}
+                  {(isSelf || canManage) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeMemberMutation.mutate(member.userId)}
+                      disabled={removeMemberMutation.isPending}
+                      data-testid={isSelf ? "button-leave-household" : `button-remove-member-${member.userId}`}
+                    >
+                      <UserMinus className="w-4 h-4 mr-1" />
+                      {isSelf ? "Leave" : "Remove"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && household.invitations.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-neutral-dark">Pending invitations</p>
+          {household.invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm" data-testid={`household-invitation-${invitation.id}`}>
+              <div className="min-w-0">
+                <p className="text-neutral-dark truncate">{invitation.email}</p>
+                <p className="text-xs text-neutral-medium">
+                  {guardianPermissionLabels[invitation.permission]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => revokeMutation.mutate(invitation.id)}
+                disabled={revokeMutation.isPending}
+                data-testid={`button-revoke-invitation-${invitation.id}`}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email address"
+            required
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-green focus:border-transparent"
+            data-testid="input-household-invite-email"
+          />
+          <Select value={permission} onValueChange={(value) => setPermission(value as GuardianPermission)}>
+            <SelectTrigger className="sm:w-36" data-testid="select-household-invite-permission">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="full">{guardianPermissionLabels.full}</SelectItem>
+              <SelectItem value="view">{guardianPermissionLabels.view}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-household-invite">
+            <Mail className="w-4 h-4 mr-1" />
+            {inviteMutation.isPending ? "Sending..." : "Invite"}
+          </Button>
+        </form>
+      )}
+
+      <p className="text-xs text-neutral-medium">
+        Full guardians can edit children and register them for events. View-only guardians see profiles and registrations.
+      </p>
+    </div>
+  );
+}
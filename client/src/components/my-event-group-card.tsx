@@ -1,6 +1,8 @@
 import { format } from "date-fns";
-import { Calendar, MapPin, Clock, User } from "lucide-react";
+import { Calendar, CalendarPlus, MapPin, Clock, User } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { CancelRegistrationButton, PayNowButton } from "./my-events-card";
+import type { GuardianPermission, RegistrationStatus } from "@shared/schema";
 
 interface MyEventGroupCardProps {
   event: {
@@ -8,15 +10,22 @@ interface MyEventGroupCardProps {
     name: string;
     type: string;
     startTime: string;
+    endTime: string;
     location: string;
-    duration: string;
     image?: string;
     description: string;
+    cutoffHours: number;
+    refundWindowHours?: number | null;
   };
   children: {
     id: string;
     firstName: string;
     lastName: string;
+    registrationId: string;
+    creditsCost?: number;
+    servicesCost?: number;
+    status?: RegistrationStatus;
+    access?: GuardianPermission;
   }[];
   onClick?: () => void;
 }
@@ -79,12 +88,39 @@ export function MyEventGroupCard({ event, children, onClick }: MyEventGroupCardP
                     {children.map((child, index) => (
                       <div
                         key={child.id}
-                        className="bg-primary-green/10 border border-primary-green/20 rounded-full px-3 py-1"
+                        className="flex items-center gap-2 bg-primary-green/10 border border-primary-green/20 rounded-full px-3 py-1"
                         data-testid={`child-tag-${child.id}`}
                       >
                         <span className="text-sm font-medium text-primary-green">
                           {child.firstName} {child.lastName}
                         </span>
+                        {isUpcoming && (
+                          <a
+                            href={`/api/registrations/${child.registrationId}/calendar.ics`}
+                            download
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-primary-green hover:text-primary-green/80"
+                            title="Add to calendar"
+                            data-testid={`link-download-ics-${child.registrationId}`}
+                          >
+                            <CalendarPlus className="w-3 h-3" />
+                          </a>
+                        )}
+                        {isUpcoming && child.access !== "view" && child.status === "pending_payment" && (
+                          <PayNowButton registrationId={child.registrationId} />
+                        )}
+                        {isUpcoming && child.access !== "view" && (
+                          <CancelRegistrationButton
+                            registration={{
+                              id: child.registrationId,
+                              creditsCost: child.creditsCost,
+                              servicesCost: child.servicesCost,
+                              status: child.status,
+                            }}
+                            event={event}
+                            attendeeName={`${child.firstName} ${child.lastName}`}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -107,7 +143,7 @@ export function MyEventGroupCard({ event, children, onClick }: MyEventGroupCardP
                   <div className="flex items-center gap-1 text-xs text-neutral-medium">
                     <Clock className="w-3 h-3" />
                     <span>
-                      {format(eventDate, "h:mm a")} • {event.duration}
+                      {format(eventDate, "h:mm a")} – {format(new Date(event.endTime), "h:mm a")}
                     </span>
                   </div>
                   
@@ -1,24 +1,174 @@
 import { format } from "date-fns";
-import { Calendar, MapPin, Clock, User } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Calendar, MapPin, Clock, User, XCircle, CreditCard } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { calculateRegistrationRefund, type RegistrationStatus } from "@shared/schema";
+
+// Reopens the checkout of a registration that is held until its extra services are paid
+export function PayNowButton({ registrationId }: { registrationId: string }) {
+  const { toast } = useToast();
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/registrations/${registrationId}/checkout`, "POST");
+      return response.json() as Promise<{ checkoutUrl: string }>;
+    },
+    onSuccess: ({ checkoutUrl }) => {
+      window.location.href = checkoutUrl;
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start the payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        checkoutMutation.mutate();
+      }}
+      disabled={checkoutMutation.isPending}
+      className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+      title="Payment pending for extra services"
+      data-testid={`button-pay-registration-${registrationId}`}
+    >
+      <CreditCard className="w-3 h-3" />
+      {checkoutMutation.isPending ? "Opening..." : "Pay Now"}
+    </button>
+  );
+}
+
+interface CancelRegistrationButtonProps {
+  registration: {
+    id: string;
+    creditsCost?: number;
+    servicesCost?: number;
+    status?: RegistrationStatus;
+  };
+  event: {
+    name: string;
+    startTime: Date | string;
+    cutoffHours: number;
+    refundWindowHours?: number | null;
+  };
+  attendeeName: string;
+}
+
+// Cancel action shared by the My Events cards; explains the refund before confirming
+export function CancelRegistrationButton({ registration, event, attendeeName }: CancelRegistrationButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const refund = calculateRegistrationRefund(
+    { ...event, startTime: new Date(event.startTime), refundWindowHours: event.refundWindowHours ?? null },
+    { creditsCost: registration.creditsCost || 0, servicesCost: registration.servicesCost || 0, status: registration.status },
+  );
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/registrations/${registration.id}/cancel`, "POST");
+      return response.json();
+    },
+    onSuccess: (data: { creditsRefunded: number }) => {
+      toast({
+        title: "Registration Cancelled",
+        description: data.creditsRefunded > 0
+          ? `${attendeeName} has been removed from ${event.name}. ${data.creditsRefunded} credits were refunded.`
+          : `${attendeeName} has been removed from ${event.name}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel registration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <button
+          onClick={(e) => e.stopPropagation()}
+          disabled={cancelMutation.isPending}
+          className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+          data-testid={`button-cancel-registration-${registration.id}`}
+        >
+          <XCircle className="w-3 h-3" />
+          {cancelMutation.isPending ? "Cancelling..." : "Cancel"}
+        </button>
+      </AlertDialogTrigger>
+      <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel registration?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {attendeeName} will be removed from "{event.name}" and the seat will be released.{" "}
+            {refund.eligible
+              ? refund.credits > 0
+                ? `You will be refunded ${refund.credits} credits.`
+                : "There is nothing to refund."
+              : `The refund window closed on ${format(refund.refundDeadline, "MMM d 'at' h:mm a")}, so no refund will be issued.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-keep-registration">Keep Registration</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => cancelMutation.mutate()}
+            className="bg-red-600 hover:bg-red-700"
+            data-testid="button-confirm-cancel-registration"
+          >
+            Cancel Registration
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
 
 interface MyEventsCardProps {
   registration: {
+    id: string;
     eventId: string;
     childId: string;
     parentId: string;
     creditsCost?: number;
     servicesCost?: number;
-    selectedServices?: number[];
+    selectedServices?: string[];
+    status?: RegistrationStatus;
     event: {
       id: string;
       name: string;
       type: string;
       startTime: Date;
+      endTime: Date;
       location: string;
-      duration: string;
       image?: string;
       description: string;
+      cutoffHours: number;
+      refundWindowHours?: number | null;
     };
     child: {
       id: string;
@@ -96,7 +246,7 @@ export function MyEventsCard({ registration, onClick }: MyEventsCardProps) {
                   <div className="flex items-center gap-1 text-xs text-neutral-medium">
                     <Clock className="w-3 h-3" />
                     <span>
-                      {format(eventDate, "h:mm a")} • {event.duration}
+                      {format(eventDate, "h:mm a")} – {format(new Date(event.endTime), "h:mm a")}
                     </span>
                   </div>
                   
@@ -127,13 +277,27 @@ export function MyEventsCard({ registration, onClick }: MyEventsCardProps) {
                 </div>
               </div>
 
-              {/* Status Badge */}
-              <div className={`px-2 py-1 rounded-full text-xs font-medium ${
-                isUpcoming 
-                  ? "bg-green-100 text-green-800" 
-                  : "bg-gray-100 text-gray-600"
-              }`}>
-                {isUpcoming ? "Upcoming" : "Past"}
+              <div className="flex flex-col items-end gap-2">
+                {/* Status Badge */}
+                <div className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  isUpcoming 
+                    ? "bg-green-100 text-green-800" 
+                    : "bg-gray-100 text-gray-600"
+                }`}>
+                  {isUpcoming ? "Upcoming" : "Past"}
+                </div>
+
+                {isUpcoming && registration.status === "pending_payment" && (
+                  <PayNowButton registrationId={registration.id} />
+                )}
+
+                {isUpcoming && (
+                  <CancelRegistrationButton
+                    registration={registration}
+                    event={event}
+                    attendeeName={`${child.firstName} ${child.lastName}`}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -1,23 +1,32 @@
 import { useQuery } from "@tanstack/react-query";
 import { MyEventGroupCard } from "./my-event-group-card";
+import { MyWaitlistCard, type MyWaitlistEntry } from "./my-waitlist-card";
+import { CalendarFeedCard } from "./calendar-feed-card";
 import { EventDetailModal } from "./event-detail-modal";
 import { useState } from "react";
-import type { Event, Child } from "@shared/schema";
+import type { Event, GuardianPermission, SharedChild, RegistrationStatus } from "@shared/schema";
 
 interface MyEventRegistration {
+  id: string;
   eventId: string;
   childId: string;
   parentId: string;
   registeredAt: string;
+  creditsCost: number;
+  servicesCost: number;
+  status: RegistrationStatus;
+  access: GuardianPermission; // "view" for registrations the parent sees through a view-only household membership
   event: {
     id: string;
     name: string;
     type: string;
     startTime: string;
+    endTime: string;
     location: string;
-    duration: string;
     image?: string;
     description: string;
+    cutoffHours: number;
+    refundWindowHours: number | null;
   };
   child: {
     id: string;
@@ -34,7 +43,12 @@ export function MyEvents() {
     staleTime: 0, // Always fetch fresh data for event registrations
   });
 
-  const { data: children = [] } = useQuery<Child[]>({
+  const { data: waitlistEntries = [] } = useQuery<MyWaitlistEntry[]>({
+    queryKey: ["/api/waitlist"],
+    staleTime: 0, // Positions move as other parents leave or get promoted
+  });
+
+  const { data: children = [] } = useQuery<SharedChild[]>({
     queryKey: ["/api/children"],
     retry: false,
   });
@@ -50,7 +64,7 @@ export function MyEvents() {
     );
   }
 
-  if (myEvents.length === 0) {
+  if (myEvents.length === 0 && waitlistEntries.length === 0) {
     return (
       <div className="text-center py-12">
         <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -76,7 +90,14 @@ export function MyEvents() {
         children: []
       };
     }
-    acc[eventId].children.push(registration.child);
+    acc[eventId].children.push({
+      ...registration.child,
+      registrationId: registration.id,
+      creditsCost: registration.creditsCost,
+      servicesCost: registration.servicesCost,
+      status: registration.status,
+      access: registration.access,
+    });
     return acc;
   }, {} as Record<string, { event: any, children: any[] }>);
   
@@ -86,6 +107,8 @@ export function MyEvents() {
 
   return (
     <div className="space-y-6">
+      <CalendarFeedCard />
+
       {/* Upcoming Events */}
       {upcomingEvents.length > 0 && (
         <div>
@@ -108,6 +131,20 @@ export function MyEvents() {
         </div>
       )}
 
+      {/* Waitlist */}
+      {waitlistEntries.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-dark mb-4" data-testid="heading-waitlist">
+            Waitlist ({waitlistEntries.length})
+          </h3>
+          <div className="space-y-3">
+            {waitlistEntries.map((entry) => (
+              <MyWaitlistCard key={entry.id} entry={entry} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Past Events */}
       {pastEvents.length > 0 && (
         <div>
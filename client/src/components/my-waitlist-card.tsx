@@ -0,0 +1,119 @@
+import { format } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Calendar, MapPin, Clock, User, XCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface MyWaitlistEntry {
+  id: string;
+  eventId: string;
+  childId: string | null;
+  parentId: string;
+  joinedAt: string;
+  position: number;
+  event: {
+    id: string;
+    name: string;
+    type: string;
+    startTime: string;
+    endTime: string;
+    location: string;
+    image?: string;
+  };
+  child: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+interface MyWaitlistCardProps {
+  entry: MyWaitlistEntry;
+}
+
+export function MyWaitlistCard({ entry }: MyWaitlistCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { event, child } = entry;
+  const eventDate = new Date(event.startTime);
+  const attendeeName = child ? `${child.firstName} ${child.lastName}` : "You";
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest(`/api/waitlist/${entry.id}`, "DELETE");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Left Waitlist",
+        description: `${attendeeName} ${child ? "has" : "have"} been removed from the waitlist for ${event.name}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to leave waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card
+      className="border-dashed"
+      data-testid={`my-waitlist-card-${entry.id}`}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <h3 className="font-semibold text-neutral-dark text-sm mb-1">
+              {event.name}
+            </h3>
+
+            <div className="flex items-center gap-1 mb-2">
+              <User className="w-3 h-3 text-primary-green" />
+              <span className="text-xs text-primary-green font-medium">
+                {attendeeName}
+              </span>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center gap-1 text-xs text-neutral-medium">
+                <Calendar className="w-3 h-3" />
+                <span>{format(eventDate, "EEE, MMM d")}</span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-neutral-medium">
+                <Clock className="w-3 h-3" />
+                <span>{format(eventDate, "h:mm a")} – {format(new Date(event.endTime), "h:mm a")}</span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-neutral-medium">
+                <MapPin className="w-3 h-3" />
+                <span className="truncate">{event.location}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-col items-end gap-2">
+            <div
+              className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+              data-testid={`text-waitlist-position-${entry.id}`}
+            >
+              #{entry.position} on waitlist
+            </div>
+
+            <button
+              onClick={() => leaveMutation.mutate()}
+              disabled={leaveMutation.isPending}
+              className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+              data-testid={`button-leave-waitlist-${entry.id}`}
+            >
+              <XCircle className="w-3 h-3" />
+              {leaveMutation.isPending ? "Leaving..." : "Leave"}
+            </button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
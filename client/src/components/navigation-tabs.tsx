@@ -1,6 +1,6 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
-import type { User } from "@shared/schema";
+import { hasPermission } from "@shared/schema";
 
 interface NavigationTabsProps {
   activeTab: string;
@@ -10,9 +10,6 @@ interface NavigationTabsProps {
 export function NavigationTabs({ activeTab, onTabChange }: NavigationTabsProps) {
   const [location] = useLocation();
   const { user } = useAuth();
-  const typedUser = user as User | undefined;
-  const isAdmin = typedUser?.role === "admin";
-  const isStaffOrAdmin = typedUser?.role === "admin" || typedUser?.role === "staff";
 
   const baseTabs = [
     { id: "events", label: "Events", icon: "📅", path: "/" },
@@ -21,20 +18,19 @@ export function NavigationTabs({ activeTab, onTabChange }: NavigationTabsProps)
     { id: "credits", label: "Credits", icon: "🪙", path: "/" },
   ];
 
-  // Add supervised events tab for staff and admin
-  const staffTabs = isStaffOrAdmin ? [
-    { id: "supervised", label: "Supervised Events", icon: "👨‍🏫", path: "/" },
-  ] : [];
-
-  const adminTabs = isAdmin ? [
-    { id: "staff", label: "Staff", icon: "👥", path: "/" },
-  ] : [];
+  // Tabs shown only when the user's role grants the permission
+  const permissionTabs = [
+    { id: "supervised", label: "Supervised Events", icon: "👨‍🏫", path: "/", permission: "roster.view" },
+    { id: "staff", label: "Staff", icon: "👥", path: "/", permission: "users.view" },
+    { id: "templates", label: "Templates", icon: "📋", path: "/", permission: "events.create" },
+    { id: "audit", label: "Audit Log", icon: "📜", path: "/", permission: "audit.view" },
+  ] as const;
 
   const settingsTabs = [
     { id: "settings", label: "Settings", icon: "⚙️", path: "/settings" },
   ];
 
-  const tabs = [...baseTabs, ...staffTabs, ...adminTabs, ...settingsTabs];
+  const tabs = [...baseTabs, ...permissionTabs.filter(tab => hasPermission(user, tab.permission)), ...settingsTabs];
 
   const handleTabClick = (tab: { id: string; path: string }) => {
     if (tab.id === "settings") {
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, Mail, UserPlus, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { INVITABLE_ROLES, type InvitableRole, type StaffInvitationSummary } from "@shared/schema";
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+// Invite links for new staff; the account is created with the role when the link is used
+export function StaffInvitations() {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("staff");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: invitations = [], isLoading } = useQuery<StaffInvitationSummary[]>({
+    queryKey: ["/api/admin/staff-invitations"],
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/staff-invitations", "POST", {
+        email,
+        role,
+        expiresInDays: Number(expiresInDays),
+      });
+      return response.json();
+    },
+    onSuccess: (data: StaffInvitationSummary & { url: string }) => {
+      toast({ title: "Invite Sent", description: `We emailed an invite link to ${data.email}.` });
+      setInviteUrl(data.url);
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff-invitations"] });
+    },
+    onError: (error) => showError(error, "Failed to send invite"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest(`/api/admin/staff-invitations/${invitationId}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/staff-invitations"] });
+    },
+    onError: (error) => showError(error, "Failed to revoke invite"),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate();
+  };
+
+  // The link is also emailed; copying it lets the admin send it another way
+  const copyUrl = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast({ title: "Copied", description: "Send the link to the new team member." });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid="staff-invitations">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <UserPlus className="w-5 h-5 text-primary-green" />
+          <h3 className="font-semibold text-neutral-dark text-sm">Invite Staff</h3>
+        </div>
+
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email address"
+            required
+            className="flex-1"
+            data-testid="input-staff-invite-email"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as InvitableRole)}>
+            <SelectTrigger className="sm:w-28" data-testid="select-staff-invite-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INVITABLE_ROLES.map((invitableRole) => (
+                <SelectItem key={invitableRole} value={invitableRole}>
+                  {invitableRole.charAt(0).toUpperCase() + invitableRole.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger className="sm:w-32" data-testid="select-staff-invite-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days === 1 ? "1 day" : `${days} days`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-staff-invite">
+            <Mail className="w-4 h-4 mr-1" />
+            {inviteMutation.isPending ? "Sending..." : "Invite"}
+          </Button>
+        </form>
+
+        {inviteUrl && (
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={inviteUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 text-xs border border-gray-300 rounded-lg bg-gray-50"
+              data-testid="input-staff-invite-url"
+            />
+            <Button size="sm" onClick={copyUrl} data-testid="button-copy-staff-invite">
+              <Copy className="w-4 h-4 mr-1" />
+              Copy link
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="w-5 h-5 border-2 border-primary-green border-t-transparent rounded-full animate-spin"></div>
+        ) : invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-neutral-dark">Pending invites</p>
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm" data-testid={`staff-invitation-${invitation.id}`}>
+                <div className="min-w-0">
+                  <p className="text-neutral-dark truncate">{invitation.email}</p>
+                  <p className="text-xs text-neutral-medium">
+                    {invitation.role} · {invitation.expired ? "expired" : "expires"} {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={invitation.expired ? "outline" : "secondary"}>
+                    {invitation.expired ? "Expired" : "Pending"}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-staff-invitation-${invitation.id}`}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
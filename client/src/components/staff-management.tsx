@@ -6,7 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { Search, Users, Crown, Shield, User } from "lucide-react";
+import { StaffInvitations } from "@/components/staff-invitations";
+import { hasPermission, formatMoney, formatReceiptNumber, type CreditPackage, type CreditPurchase } from "@shared/schema";
 
 interface StaffUser {
   id: string;
@@ -20,15 +23,81 @@ interface StaffUser {
 export function StaffManagement() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedUser, setSelectedUser] = useState<StaffUser | null>(null);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditReason, setCreditReason] = useState("");
+  const [cashPackageId, setCashPackageId] = useState("");
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const canManageRoles = hasPermission(currentUser, "users.manageRoles");
+  const canManageCredits = hasPermission(currentUser, "credits.manage");
 
   const { data: users = [], isLoading } = useQuery({
     queryKey: ["/api/admin/users"],
   });
 
+  const { data: selectedUserCredits } = useQuery<{ balance: number }>({
+    queryKey: [`/api/admin/users/${selectedUser?.id}/credits`],
+    enabled: !!selectedUser && canManageCredits,
+    staleTime: 0,
+  });
+
+  const adjustCreditsMutation = useMutation({
+    mutationFn: async ({ userId, amount, description }: { userId: string; amount: number; description: string }) => {
+      return await apiRequest(`/api/admin/users/${userId}/credits`, "POST", {
+        amount,
+        type: amount > 0 ? "top_up" : "adjustment",
+        description,
+      });
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: "Credits Updated",
+        description: "The user's credit balance has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${variables.userId}/credits`] });
+      setCreditAmount("");
+      setCreditReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to adjust credits. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: creditPackages = [] } = useQuery<CreditPackage[]>({
+    queryKey: ["/api/credit-packages"],
+    enabled: !!selectedUser && canManageCredits,
+  });
+
+  // Cash paid at the front desk for a credit package; the parent is emailed a receipt
+  const recordCashPurchaseMutation = useMutation({
+    mutationFn: async ({ userId, packageId }: { userId: string; packageId: string }) => {
+      const response = await apiRequest(`/api/admin/users/${userId}/credit-purchases`, "POST", { packageId });
+      return response.json();
+    },
+    onSuccess: (data: { purchase: CreditPurchase }, variables) => {
+      toast({
+        title: "Payment Recorded",
+        description: `${data.purchase.credits} credits added, receipt ${formatReceiptNumber(data.purchase.receiptNumber)}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${variables.userId}/credits`] });
+      setCashPackageId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record the payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateRoleMutation = useMutation({
     mutationFn: async ({ userId, newRole }: { userId: string; newRole: string }) => {
-      return await apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role: newRole });
+      return await apiRequest(`/api/admin/users/${userId}/role`, "PATCH", { role: newRole });
     },
     onSuccess: () => {
       toast({
@@ -104,6 +173,26 @@ export function StaffManagement() {
     });
   };
 
+  const handleAdjustCredits = () => {
+    if (!selectedUser) return;
+
+    const amount = parseInt(creditAmount, 10);
+    if (!amount || !creditReason.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a non-zero amount and a reason for the adjustment.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    adjustCreditsMutation.mutate({
+      userId: selectedUser.id,
+      amount,
+      description: creditReason.trim(),
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -125,6 +214,8 @@ export function StaffManagement() {
         <h2 className="text-xl font-bold text-neutral-dark">Staff Management</h2>
       </div>
 
+      {hasPermission(currentUser, "users.invite") && <StaffInvitations />}
+
       {/* Search Bar */}
       <div className="relative mb-4">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -217,18 +308,81 @@ export function StaffManagement() {
                 </div>
               </div>
 
-              <div>
-                <p className="text-sm text-neutral-medium mb-2">New Role:</p>
-                <Select onValueChange={handleRoleChange} data-testid="select-new-role">
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select new role" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="staff">Staff</SelectItem>
-                    <SelectItem value="user">User</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {canManageRoles && (
+                <div>
+                  <p className="text-sm text-neutral-medium mb-2">New Role:</p>
+                  <Select onValueChange={handleRoleChange} data-testid="select-new-role">
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select new role" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="staff">Staff</SelectItem>
+                      <SelectItem value="user">User</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {canManageCredits && (
+                <div className="pt-4 border-t border-gray-200">
+                  <p className="text-sm text-neutral-medium mb-2">
+                    Credits Balance:{" "}
+                    <span className="font-semibold text-neutral-dark" data-testid="text-user-credit-balance">
+                      {selectedUserCredits?.balance ?? "…"}
+                    </span>
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      placeholder="+/- credits"
+                      value={creditAmount}
+                      onChange={(e) => setCreditAmount(e.target.value)}
+                      className="w-28"
+                      data-testid="input-credit-amount"
+                    />
+                    <Input
+                      type="text"
+                      placeholder="Reason"
+                      value={creditReason}
+                      onChange={(e) => setCreditReason(e.target.value)}
+                      className="flex-1"
+                      data-testid="input-credit-reason"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleAdjustCredits}
+                    disabled={adjustCreditsMutation.isPending}
+                    className="w-full mt-2 bg-primary-green hover:bg-primary-green/90"
+                    data-testid="button-adjust-credits"
+                  >
+                    {adjustCreditsMutation.isPending ? "Saving..." : "Adjust Credits"}
+                  </Button>
+                  {creditPackages.length > 0 && (
+                    <div className="flex gap-2 mt-3">
+                      <Select value={cashPackageId} onValueChange={setCashPackageId}>
+                        <SelectTrigger className="flex-1" data-testid="select-cash-credit-package">
+                          <SelectValue placeholder="Package paid in cash" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {creditPackages.map((creditPackage) => (
+                            <SelectItem key={creditPackage.id} value={creditPackage.id}>
+                              {creditPackage.name} ({formatMoney(creditPackage.price, creditPackage.currency)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        onClick={() => recordCashPurchaseMutation.mutate({ userId: selectedUser.id, packageId: cashPackageId })}
+                        disabled={!cashPackageId || recordCashPurchaseMutation.isPending}
+                        data-testid="button-record-cash-purchase"
+                      >
+                        {recordCashPurchaseMutation.isPending ? "Saving..." : "Record Cash"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div className="flex gap-2 pt-4">
                 <Button
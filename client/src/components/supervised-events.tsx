@@ -2,17 +2,19 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { EventCard } from "@/components/event-card";
 import { EventDetailModal } from "@/components/event-detail-modal";
-import type { EventWithSupervisor, Child } from "@shared/schema";
+import { EventRoster } from "@/components/event-roster";
+import type { EventWithSupervisor, SharedChild } from "@shared/schema";
 
 export function SupervisedEvents() {
   const [selectedEvent, setSelectedEvent] = useState<EventWithSupervisor | null>(null);
+  const [rosterEvent, setRosterEvent] = useState<EventWithSupervisor | null>(null);
 
   const { data: supervisedEvents = [], isLoading, error } = useQuery<EventWithSupervisor[]>({
     queryKey: ["/api/supervised-events"],
     retry: false,
   });
 
-  const { data: children = [] } = useQuery<Child[]>({
+  const { data: children = [] } = useQuery<SharedChild[]>({
     queryKey: ["/api/children"],
     retry: false,
   });
@@ -73,6 +75,13 @@ export function SupervisedEvents() {
             <div className="absolute top-2 left-2 bg-primary-green text-white text-xs px-2 py-1 rounded-md z-10">
               Supervising
             </div>
+            <button
+              onClick={() => setRosterEvent(event)}
+              className="absolute top-2 right-2 bg-white text-primary-green border border-primary-green text-xs font-medium px-2 py-1 rounded-md z-10 hover:bg-green-50"
+              data-testid={`button-open-roster-${event.id}`}
+            >
+              📋 Roster
+            </button>
             <EventCard
               event={event}
               onClick={() => handleEventClick(event)}
@@ -88,6 +97,14 @@ export function SupervisedEvents() {
           onClose={handleCloseEventModal}
         />
       )}
+
+      {rosterEvent && (
+        <EventRoster
+          event={rosterEvent}
+          isOpen={!!rosterEvent}
+          onClose={() => setRosterEvent(null)}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
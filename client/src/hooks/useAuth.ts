@@ -1,7 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
+import type { AuthUser } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
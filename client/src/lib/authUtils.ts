@@ -1,3 +1,17 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
-}
\ No newline at end of file
+}
+
+// Where to go after signing in or up: the page that sent the user here (?returnTo=/path), or home.
+// The value is resolved the way the browser would follow it, so only paths on this site are kept;
+// anything that lands on another origin (//host, /\host, control characters) goes home instead.
+export function getReturnPath(): string {
+  const returnTo = new URLSearchParams(window.location.search).get("returnTo");
+  if (!returnTo) return "/";
+  try {
+    const url = new URL(returnTo, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : "/";
+  } catch {
+    return "/";
+  }
+}
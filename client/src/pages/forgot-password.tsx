@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { forgotPasswordSchema, type ForgotPasswordData } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [isSent, setIsSent] = useState(false);
+
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      const response = await apiRequest("/api/auth/forgot-password", "POST", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsSent(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Something went wrong",
+        description: error.message || "Please try again in a moment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ForgotPasswordData) => {
+    forgotPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-md mx-auto p-6">
+        <div className="text-center py-6">
+          <h1 className="text-3xl font-bold text-neutral-dark mb-2">
+            Forgot Password
+          </h1>
+          <p className="text-neutral-medium mb-8">
+            Enter your email and we'll send you a link to choose a new password
+          </p>
+        </div>
+
+        {isSent ? (
+          <div className="space-y-6 text-center">
+            <div className="p-4 rounded-lg bg-green-50 border border-green-200" data-testid="text-reset-sent">
+              <p className="text-green-800">
+                If an account exists for {form.getValues("email")}, a reset link is on its way. The link is valid for 1 hour.
+              </p>
+            </div>
+            <Link href="/login" className="text-primary-green hover:underline text-sm">
+              Back to sign in
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="email" 
+                          placeholder="john.doe@example.com" 
+                          {...field} 
+                          data-testid="input-email"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button 
+                  type="submit" 
+                  className="w-full bg-primary-green hover:bg-primary-green/90"
+                  disabled={forgotPasswordMutation.isPending}
+                  data-testid="button-send-reset-link"
+                >
+                  {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+                </Button>
+              </form>
+            </Form>
+
+            <div className="text-center">
+              <p className="text-sm text-neutral-medium">
+                Remembered it?{" "}
+                <Link href="/login" className="text-primary-green hover:underline">
+                  Sign in
+                </Link>
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,36 +7,44 @@ import { ChildProfileCard } from "@/components/child-profile-card";
 import { EventDetailModal } from "@/components/event-detail-modal";
 import { AddChildModal } from "@/components/add-child-modal";
 import { CreateEventModal } from "@/components/create-event-modal";
+import { EventImportModal } from "@/components/event-import-modal";
 import { MyEvents } from "@/components/my-events";
+import { Credits } from "@/components/credits";
+import { CreditPackageManager } from "@/components/credit-packages";
 import { StaffManagement } from "@/components/staff-management";
+import { AuditLog } from "@/components/audit-log";
 import { SupervisedEvents } from "@/components/supervised-events";
 import { AdminEventManagement } from "@/components/admin-event-management";
+import { EventTemplateManager } from "@/components/event-templates";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { EventWithSupervisor, Child, User } from "@shared/schema";
-import { isUserProfileComplete } from "@shared/schema";
+import type { EventWithSupervisor, Child, SharedChild, User } from "@shared/schema";
+import { hasPermission, isUserProfileComplete } from "@shared/schema";
 import { Link } from "wouter";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { ArrowUpDown } from "lucide-react";
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState("events");
   const [selectedEvent, setSelectedEvent] = useState<EventWithSupervisor | null>(null);
   const [showAddChild, setShowAddChild] = useState(false);
+  const [editingChild, setEditingChild] = useState<Child | null>(null);
   const [showCreateEvent, setShowCreateEvent] = useState(false);
+  const [showImportEvents, setShowImportEvents] = useState(false);
   const [eventSortBy, setEventSortBy] = useState<"startTime" | "createdAt">("startTime");
   const { toast } = useToast();
   const { user } = useAuth();
   const typedUser = user as User | undefined;
-  const isAdmin = typedUser?.role === "admin";
+  const canEditEvents = hasPermission(user, "events.edit");
 
   const { data: events, isLoading: eventsLoading, error: eventsError } = useQuery<EventWithSupervisor[]>({
-    queryKey: isAdmin ? ["/api/admin/events"] : ["/api/events"],
+    queryKey: canEditEvents ? ["/api/admin/events"] : ["/api/events"],
     retry: false,
   });
 
-  const { data: children, isLoading: childrenLoading, error: childrenError, refetch: refetchChildren } = useQuery<Child[]>({
+  const { data: children, isLoading: childrenLoading, error: childrenError, refetch: refetchChildren } = useQuery<SharedChild[]>({
     queryKey: ["/api/children"],
     retry: false,
   });
@@ -70,6 +78,27 @@ export default function Home() {
     }
   }, [childrenError, toast]);
 
+  // Back from the payment provider's checkout page: show the outcome and open My Events, or Credits
+  // when a credit package was bought
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const payment = params.get("payment");
+    if (!payment) return;
+
+    if (params.has("purchase")) {
+      setActiveTab("credits");
+      toast(payment === "success"
+        ? { title: "Payment Received", description: "Your credits are added once the payment clears." }
+        : { title: "Payment Not Completed", description: "No credits were bought. You can try again at any time." });
+    } else {
+      setActiveTab("myevents");
+      toast(payment === "success"
+        ? { title: "Payment Received", description: "Your registration is confirmed once the payment clears." }
+        : { title: "Payment Not Completed", description: "Your place is held for now; use Pay Now in My Events to finish paying." });
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [toast]);
+
   const handleEventClick = (event: EventWithSupervisor) => {
     setSelectedEvent(event);
   };
@@ -104,6 +133,15 @@ export default function Home() {
     });
   };
 
+  const handleChildUpdated = () => {
+    refetchChildren();
+    setEditingChild(null);
+    toast({
+      title: "Success",
+      description: "Child profile updated successfully!",
+    });
+  };
+
   const handleCreateEvent = () => {
     setShowCreateEvent(true);
   };
@@ -116,6 +154,31 @@ export default function Home() {
     setShowCreateEvent(false);
   };
 
+  // Create and import buttons shown above the admin event list
+  const renderAdminCreateCard = () => (
+    <div className="bg-primary-green/10 border-2 border-dashed border-primary-green rounded-xl p-6 text-center">
+      <div className="w-12 h-12 bg-primary-green rounded-full flex items-center justify-center mx-auto mb-3">
+        <span className="text-white text-xl">+</span>
+      </div>
+      <h3 className="font-semibold text-neutral-dark mb-2">Create New Event</h3>
+      <p className="text-neutral-medium text-sm mb-4">Add a new afterschool activity for children</p>
+      <button 
+        onClick={handleCreateEvent}
+        className="bg-primary-green text-white px-6 py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200"
+        data-testid="button-create-event"
+      >
+        Create Event
+      </button>
+      <button
+        onClick={() => setShowImportEvents(true)}
+        className="ml-2 bg-white text-primary-green border border-primary-green px-6 py-2 rounded-lg font-medium hover:bg-primary-green/10 transition duration-200"
+        data-testid="button-import-events"
+      >
+        Import from File
+      </button>
+    </div>
+  );
+
   const renderEventsTab = () => {
     if (eventsLoading) {
       return (
@@ -145,6 +208,16 @@ export default function Home() {
       );
     }
 
+    // Event managers see every event, including an empty list, in the event management view
+    if (canEditEvents) {
+      return (
+        <div className="space-y-4">
+          {hasPermission(user, "events.create") && renderAdminCreateCard()}
+          <AdminEventManagement />
+        </div>
+      );
+    }
+
     if (!events || events.length === 0) {
       return (
         <div className="text-center py-12" data-testid="no-events">
@@ -157,10 +230,6 @@ export default function Home() {
       );
     }
 
-    if (isAdmin) {
-      return <AdminEventManagement />;
-    }
-
     return (
       <div className="space-y-4">
         {/* Sort Controls */}
@@ -184,24 +253,6 @@ export default function Home() {
           </Select>
         </div>
 
-        {/* Admin Create Event Button */}
-        {isAdmin && (
-          <div className="bg-primary-green/10 border-2 border-dashed border-primary-green rounded-xl p-6 text-center">
-            <div className="w-12 h-12 bg-primary-green rounded-full flex items-center justify-center mx-auto mb-3">
-              <span className="text-white text-xl">+</span>
-            </div>
-            <h3 className="font-semibold text-neutral-dark mb-2">Create New Event</h3>
-            <p className="text-neutral-medium text-sm mb-4">Add a new afterschool activity for children</p>
-            <button 
-              onClick={handleCreateEvent}
-              className="bg-primary-green text-white px-6 py-2 rounded-lg font-medium hover:bg-primary-green/90 transition duration-200"
-              data-testid="button-create-event"
-            >
-              Create Event
-            </button>
-          </div>
-        )}
-        
         {sortedEvents.map((event) => (
           <EventCard
             key={event.id}
@@ -256,7 +307,11 @@ export default function Home() {
     return (
       <div className="space-y-4">
         {children.map((child) => (
-          <ChildProfileCard key={child.id} child={child} />
+          <ChildProfileCard
+            key={child.id}
+            child={child}
+            onEdit={child.access === "full" ? () => setEditingChild(child) : undefined}
+          />
         ))}
       </div>
     );
@@ -308,13 +363,16 @@ export default function Home() {
       case "credits":
         return (
           <div className="p-4">
-            <div className="text-center py-12">
-              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <span className="text-gray-400 text-2xl">🪙</span>
-              </div>
-              <h3 className="text-lg font-semibold text-neutral-dark mb-2">Credits System</h3>
-              <p className="text-neutral-medium">Coming soon in a future update!</p>
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-neutral-dark">Credits</h3>
+              <p className="text-sm text-neutral-medium">Your credit balance, purchases and transaction history</p>
             </div>
+            <Credits />
+            {hasPermission(user, "credits.manage") && (
+              <div className="mt-8">
+                <CreditPackageManager />
+              </div>
+            )}
           </div>
         );
       case "supervised":
@@ -333,6 +391,18 @@ export default function Home() {
             <StaffManagement />
           </div>
         );
+      case "templates":
+        return (
+          <div className="p-4">
+            <EventTemplateManager />
+          </div>
+        );
+      case "audit":
+        return (
+          <div className="p-4">
+            <AuditLog />
+          </div>
+        );
       case "settings":
         // Redirect to dedicated settings page
         window.location.href = "/settings";
@@ -348,6 +418,9 @@ export default function Home() {
       <NavigationTabs activeTab={activeTab} onTabChange={setActiveTab} />
       
       <main className="max-w-md mx-auto bg-white min-h-screen">
+        {typedUser?.authType === "email" && !typedUser.isEmailVerified && (
+          <EmailVerificationBanner email={typedUser.email} />
+        )}
         {renderTabContent()}
       </main>
 
@@ -366,12 +439,27 @@ export default function Home() {
         />
       )}
 
+      {editingChild && (
+        <AddChildModal
+          child={editingChild}
+          onClose={() => setEditingChild(null)}
+          onChildAdded={handleChildUpdated}
+        />
+      )}
+
       {showCreateEvent && (
         <CreateEventModal
           onClose={handleCloseCreateEvent}
           onEventCreated={handleEventCreated}
         />
       )}
+
+      {showImportEvents && (
+        <EventImportModal
+          onClose={() => setShowImportEvents(false)}
+          onImported={() => setShowImportEvents(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,149 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { guardianPermissionLabels, type GuardianPermission, type HouseholdInvitationStatus, type User } from "@shared/schema";
+
+interface InvitationDetails {
+  email: string;
+  permission: GuardianPermission;
+  status: HouseholdInvitationStatus;
+  inviterName: string | null;
+  expired: boolean;
+}
+
+export default function HouseholdInvite() {
+  const { user } = useAuth();
+  const typedUser = user as User | undefined;
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const returnTo = encodeURIComponent(`/household-invite?token=${token}`);
+
+  const { data: invitation, isLoading, isError } = useQuery<InvitationDetails>({
+    queryKey: [`/api/household/invitations/${token}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (response: "accept" | "decline") => {
+      await apiRequest(`/api/household/invitations/${token}/${response}`, "POST");
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/children"] });
+    },
+  });
+
+  const renderBody = () => {
+    if (!token || isError) {
+      return (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200 mb-6" data-testid="text-invitation-invalid">
+          <p className="text-red-800">This invitation link is invalid. Ask for a new invitation.</p>
+        </div>
+      );
+    }
+    if (isLoading || !invitation) {
+      return (
+        <div className="py-6">
+          <div className="w-6 h-6 border-2 border-primary-green border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-neutral-medium">Loading invitation...</p>
+        </div>
+      );
+    }
+    if (respondMutation.isSuccess) {
+      return (
+        <div className="p-4 rounded-lg bg-green-50 border border-green-200 mb-6" data-testid="text-invitation-answered">
+          <p className="text-green-800">
+            {respondMutation.data === "accept"
+              ? "You joined the household. The shared children now appear on your home page."
+              : "You declined the invitation."}
+          </p>
+        </div>
+      );
+    }
+    if (invitation.status !== "pending" || invitation.expired) {
+      return (
+        <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200 mb-6" data-testid="text-invitation-closed">
+          <p className="text-yellow-800">
+            {invitation.expired && invitation.status === "pending"
+              ? "This invitation has expired. Ask for a new one."
+              : "This invitation is no longer open."}
+          </p>
+        </div>
+      );
+    }
+
+    const description = (
+      <p className="text-neutral-dark mb-6">
+        {invitation.inviterName ?? "A parent"} invited {invitation.email} to join their household
+        as <span className="font-medium">{guardianPermissionLabels[invitation.permission].toLowerCase()}</span>.
+      </p>
+    );
+
+    if (!typedUser) {
+      return (
+        <>
+          {description}
+          <p className="text-sm text-neutral-medium mb-4">Sign in or create an account with {invitation.email} to accept.</p>
+          <div className="flex justify-center gap-2 mb-6">
+            <Button asChild>
+              <Link href={`/login?returnTo=${returnTo}`} data-testid="link-invitation-login">Sign in</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/register?returnTo=${returnTo}`} data-testid="link-invitation-register">Create account</Link>
+            </Button>
+          </div>
+        </>
+      );
+    }
+
+    return (
+      <>
+        {description}
+        {respondMutation.isError && (
+          <div className="p-4 rounded-lg bg-red-50 border border-red-200 mb-4">
+            <p className="text-red-800 text-sm">{respondMutation.error.message}</p>
+          </div>
+        )}
+        <div className="flex justify-center gap-2 mb-6">
+          <Button
+            onClick={() => respondMutation.mutate("accept")}
+            disabled={respondMutation.isPending}
+            data-testid="button-accept-invitation"
+          >
+            Accept
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => respondMutation.mutate("decline")}
+            disabled={respondMutation.isPending}
+            data-testid="button-decline-invitation"
+          >
+            Decline
+          </Button>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-md mx-auto p-6 text-center">
+        <div className="py-6">
+          <h1 className="text-3xl font-bold text-neutral-dark mb-2">
+            Household Invitation
+          </h1>
+        </div>
+
+        {renderBody()}
+
+        <Link href="/" className="text-primary-green hover:underline text-sm">
+          Continue
+        </Link>
+      </div>
+    </div>
+  );
+}
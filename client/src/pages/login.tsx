@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { getReturnPath } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
@@ -33,7 +34,7 @@ export default function Login() {
         description: "Welcome back to RightHere.",
       });
       // Reload to trigger auth state update
-      window.location.href = "/";
+      window.location.href = getReturnPath();
     },
     onError: (error: any) => {
       toast({
@@ -106,6 +107,12 @@ export default function Login() {
                   )}
                 />
 
+                <div className="text-right">
+                  <Link href="/forgot-password" className="text-sm text-primary-green hover:underline" data-testid="link-forgot-password">
+                    Forgot password?
+                  </Link>
+                </div>
+
                 <Button 
                   type="submit" 
                   className="w-full bg-primary-green hover:bg-primary-green/90"
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { getReturnPath } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
@@ -35,7 +36,7 @@ export default function Register() {
         description: "Welcome to RightHere. You can now start adding your children.",
       });
       // Reload to trigger auth state update
-      window.location.href = "/";
+      window.location.href = getReturnPath();
     },
     onError: (error: any) => {
       toast({
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { resetPasswordSchema, type ResetPasswordData } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+export default function ResetPassword() {
+  const { toast } = useToast();
+  const [isReset, setIsReset] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const form = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      token,
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordData) => {
+      const response = await apiRequest("/api/auth/reset-password", "POST", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsReset(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message || "Please request a new reset link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ResetPasswordData) => {
+    resetPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-md mx-auto p-6">
+        <div className="text-center py-6">
+          <h1 className="text-3xl font-bold text-neutral-dark mb-2">
+            Choose a New Password
+          </h1>
+        </div>
+
+        {!token ? (
+          <div className="space-y-6 text-center">
+            <p className="text-neutral-medium">This reset link is incomplete.</p>
+            <Link href="/forgot-password" className="text-primary-green hover:underline text-sm">
+              Request a new link
+            </Link>
+          </div>
+        ) : isReset ? (
+          <div className="space-y-6 text-center">
+            <div className="p-4 rounded-lg bg-green-50 border border-green-200" data-testid="text-password-reset">
+              <p className="text-green-800">Your password has been updated.</p>
+            </div>
+            <Link href="/login" className="text-primary-green hover:underline text-sm">
+              Sign in
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="password" 
+                          placeholder="At least 8 characters" 
+                          {...field} 
+                          data-testid="input-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="password" 
+                          placeholder="Repeat your new password" 
+                          {...field} 
+                          data-testid="input-confirm-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button 
+                  type="submit" 
+                  className="w-full bg-primary-green hover:bg-primary-green/90"
+                  disabled={resetPasswordMutation.isPending}
+                  data-testid="button-reset-password"
+                >
+                  {resetPasswordMutation.isPending ? "Saving..." : "Save Password"}
+                </Button>
+              </form>
+            </Form>
+
+            <div className="text-center">
+              <Link href="/forgot-password" className="text-sm text-primary-green hover:underline">
+                Request a new link
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
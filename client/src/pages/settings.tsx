@@ -1,11 +1,20 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Link } from "wouter";
-import type { User } from "@shared/schema";
+import { Switch } from "@/components/ui/switch";
+import { HouseholdSettings } from "@/components/household";
+import type { User, NotificationPreferences, UpdateNotificationPreferences } from "@shared/schema";
+
+const notificationOptions: { key: keyof UpdateNotificationPreferences; label: string; description: string }[] = [
+  { key: "registrationConfirmation", label: "Registration confirmations", description: "When you or your children are registered for an event" },
+  { key: "eventChanged", label: "Event changes", description: "When the time, place or duration of an event changes" },
+  { key: "eventCancelled", label: "Cancellations", description: "When an event you registered for is cancelled" },
+  { key: "eventReminder", label: "Reminders", description: "The day before an event starts" },
+];
 
 interface UserProfileForm {
   firstName: string;
@@ -36,7 +45,7 @@ export default function Settings() {
         ...profileData,
         dateOfBirth: profileData.dateOfBirth ? new Date(profileData.dateOfBirth) : undefined,
       };
-      await apiRequest("PUT", "/api/profile", dataToSend);
+      await apiRequest("/api/profile", "PUT", dataToSend);
     },
     onSuccess: () => {
       toast({
@@ -65,6 +74,28 @@ export default function Settings() {
     },
   });
 
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+    retry: false,
+  });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (preferences: UpdateNotificationPreferences) => {
+      const response = await apiRequest("/api/notification-preferences", "PUT", preferences);
+      return await response.json() as NotificationPreferences;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/notification-preferences"], updated);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update notification preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -220,6 +251,38 @@ export default function Settings() {
           </button>
         </form>
 
+        {/* Email Notifications */}
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <h2 className="text-lg font-semibold text-neutral-dark mb-1">Email Notifications</h2>
+          <p className="text-sm text-neutral-medium mb-4">Emails are sent to {typedUser?.email || "your account email"}</p>
+
+          <div className="space-y-4">
+            {notificationOptions.map((option) => (
+              <div key={option.key} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-neutral-dark text-sm">{option.label}</p>
+                  <p className="text-xs text-neutral-medium">{option.description}</p>
+                </div>
+                <Switch
+                  checked={notificationPreferences?.[option.key] ?? true}
+                  disabled={!notificationPreferences || updatePreferencesMutation.isPending}
+                  onCheckedChange={(checked) => updatePreferencesMutation.mutate({ [option.key]: checked })}
+                  data-testid={`switch-notification-${option.key}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Household */}
+        {typedUser && (
+          <div className="mt-8 pt-6 border-t border-gray-200">
+            <h2 className="text-lg font-semibold text-neutral-dark mb-1">Household</h2>
+            <p className="text-sm text-neutral-medium mb-4">Guardians who share your children's profiles and registrations</p>
+            <HouseholdSettings user={typedUser} />
+          </div>
+        )}
+
         {/* Account Information */}
         <div className="mt-8 pt-6 border-t border-gray-200">
           <h2 className="text-lg font-semibold text-neutral-dark mb-4">Account Information</h2>
@@ -0,0 +1,192 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { staffSignupSchema, type InvitableRole, type StaffInvitationStatus, type StaffSignupData } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+interface StaffInvitationDetails {
+  email: string;
+  role: InvitableRole;
+  status: StaffInvitationStatus;
+  expired: boolean;
+}
+
+export default function StaffInvite() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const { data: invitation, isLoading, isError } = useQuery<StaffInvitationDetails>({
+    queryKey: [`/api/staff-invitations/${token}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<StaffSignupData>({
+    resolver: zodResolver(staffSignupSchema),
+    defaultValues: {
+      password: "",
+      firstName: "",
+      lastName: "",
+      phone: "",
+    },
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (data: StaffSignupData) => {
+      return await apiRequest(`/api/staff-invitations/${token}/signup`, "POST", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account created successfully!",
+        description: "Welcome to the team.",
+      });
+      // Reload to trigger auth state update
+      window.location.href = "/";
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Signup failed",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderBody = () => {
+    if (!token || isError) {
+      return (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200 mb-6 text-center" data-testid="text-staff-invitation-invalid">
+          <p className="text-red-800">This invite link is invalid. Ask an admin for a new one.</p>
+        </div>
+      );
+    }
+    if (isLoading || !invitation) {
+      return (
+        <div className="py-6 text-center">
+          <div className="w-6 h-6 border-2 border-primary-green border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-neutral-medium">Loading invitation...</p>
+        </div>
+      );
+    }
+    if (invitation.status !== "pending" || invitation.expired) {
+      return (
+        <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200 mb-6 text-center" data-testid="text-staff-invitation-closed">
+          <p className="text-yellow-800">
+            {invitation.status === "accepted"
+              ? "This invite link has already been used. Sign in with the account it created."
+              : invitation.status === "revoked"
+                ? "This invite link was revoked. Ask an admin for a new one."
+                : "This invite link has expired. Ask an admin for a new one."}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => signupMutation.mutate(data))} className="space-y-4">
+          <div>
+            <p className="text-sm font-medium mb-2">Email</p>
+            <Input value={invitation.email} readOnly disabled data-testid="input-staff-invite-email" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="firstName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>First Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-first-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="lastName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Last Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-last-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone Number</FormLabel>
+                <FormControl>
+                  <Input type="tel" placeholder="(555) 123-4567" {...field} data-testid="input-phone" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="At least 8 characters" {...field} data-testid="input-password" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button
+            type="submit"
+            className="w-full bg-primary-green hover:bg-primary-green/90"
+            disabled={signupMutation.isPending}
+            data-testid="button-staff-signup"
+          >
+            {signupMutation.isPending ? "Creating Account..." : "Create Account"}
+          </Button>
+        </form>
+      </Form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-md mx-auto p-6">
+        <div className="text-center py-6">
+          <h1 className="text-3xl font-bold text-neutral-dark mb-2">
+            Join the Team
+          </h1>
+          {invitation && (
+            <p className="text-neutral-medium">
+              You've been invited to join as {invitation.role}
+            </p>
+          )}
+        </div>
+
+        {renderBody()}
+
+        <div className="text-center mt-6">
+          <Link href="/" className="text-primary-green hover:underline text-sm">
+            Back to home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
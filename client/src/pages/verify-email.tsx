@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Link } from "wouter";
+
+export default function VerifyEmail() {
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/auth/verify-email", "POST", { token });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate();
+    }
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-md mx-auto p-6 text-center">
+        <div className="py-6">
+          <h1 className="text-3xl font-bold text-neutral-dark mb-2">
+            Email Verification
+          </h1>
+        </div>
+
+        {!token || verifyMutation.isError ? (
+          <div className="p-4 rounded-lg bg-red-50 border border-red-200 mb-6" data-testid="text-verification-failed">
+            <p className="text-red-800">
+              This verification link is invalid or has expired. Sign in and request a new one from the home page.
+            </p>
+          </div>
+        ) : verifyMutation.isSuccess ? (
+          <div className="p-4 rounded-lg bg-green-50 border border-green-200 mb-6" data-testid="text-email-verified">
+            <p className="text-green-800">Thanks! Your email address is verified.</p>
+          </div>
+        ) : (
+          <div className="py-6">
+            <div className="w-6 h-6 border-2 border-primary-green border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-neutral-medium">Verifying your email...</p>
+          </div>
+        )}
+
+        <Link href="/" className="text-primary-green hover:underline text-sm">
+          Continue
+        </Link>
+      </div>
+    </div>
+  );
+}
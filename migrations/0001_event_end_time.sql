@@ -0,0 +1,28 @@
+-- Replace the free-text events.duration ("5h", "1h 30m", "1.5h", "90m", ...) with an end_time timestamp.
+-- Run this against the database before `npm run db:push`, otherwise the push drops the duration column
+-- before existing values can be converted. Durations that can't be parsed become one hour.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS end_time timestamp;
+
+WITH parsed AS (
+  SELECT
+    id,
+    regexp_match(
+      lower(trim(duration)),
+      '^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$'
+    ) AS parts
+  FROM events
+)
+UPDATE events
+SET end_time = events.start_time + make_interval(mins => COALESCE(
+  NULLIF(
+    round(COALESCE(parsed.parts[1]::numeric, 0) * 60)::int + COALESCE(parsed.parts[2]::int, 0),
+    0
+  ),
+  60
+))
+FROM parsed
+WHERE parsed.id = events.id AND events.end_time IS NULL;
+
+ALTER TABLE events ALTER COLUMN end_time SET NOT NULL;
+ALTER TABLE events DROP COLUMN duration;
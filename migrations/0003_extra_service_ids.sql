@@ -0,0 +1,52 @@
+-- Give every extra service a stable id and point selected_services at those ids instead of array positions,
+-- so reordering or removing an event's services no longer changes what past registrations selected.
+-- Safe to run more than once: services that already have an id and selections that are already ids are left alone.
+
+BEGIN;
+
+UPDATE events
+SET extra_services = (
+  SELECT jsonb_agg(
+    CASE WHEN service ? 'id' THEN service ELSE service || jsonb_build_object('id', gen_random_uuid()::text) END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(extra_services) WITH ORDINALITY AS services(service, position)
+)
+WHERE jsonb_typeof(extra_services) = 'array'
+  AND jsonb_array_length(extra_services) > 0
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(extra_services) AS services(service) WHERE NOT service ? 'id');
+
+UPDATE event_templates
+SET extra_services = (
+  SELECT jsonb_agg(
+    CASE WHEN service ? 'id' THEN service ELSE service || jsonb_build_object('id', gen_random_uuid()::text) END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(extra_services) WITH ORDINALITY AS services(service, position)
+)
+WHERE jsonb_typeof(extra_services) = 'array'
+  AND jsonb_array_length(extra_services) > 0
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(extra_services) AS services(service) WHERE NOT service ? 'id');
+
+-- Selections were zero-based indexes into the event's services; indexes past the end are dropped
+UPDATE event_registrations AS registration
+SET selected_services = COALESCE((
+  SELECT jsonb_agg(event.extra_services -> (selected.value #>> '{}')::int ->> 'id' ORDER BY selected.position)
+  FROM jsonb_array_elements(registration.selected_services) WITH ORDINALITY AS selected(value, position)
+  WHERE event.extra_services -> (selected.value #>> '{}')::int IS NOT NULL
+), '[]'::jsonb)
+FROM events AS event
+WHERE event.id = registration.event_id
+  AND jsonb_typeof(registration.selected_services -> 0) = 'number';
+
+UPDATE event_waitlist AS entry
+SET selected_services = COALESCE((
+  SELECT jsonb_agg(event.extra_services -> (selected.value #>> '{}')::int ->> 'id' ORDER BY selected.position)
+  FROM jsonb_array_elements(entry.selected_services) WITH ORDINALITY AS selected(value, position)
+  WHERE event.extra_services -> (selected.value #>> '{}')::int IS NOT NULL
+), '[]'::jsonb)
+FROM events AS event
+WHERE event.id = entry.event_id
+  AND jsonb_typeof(entry.selected_services -> 0) = 'number';
+
+COMMIT;
@@ -0,0 +1,53 @@
+import { storage } from "./storage";
+import type { AuditAction, AuditChanges, AuditEntityType, User } from "@shared/schema";
+
+// Bookkeeping fields and secrets that never belong in a diff
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "password", "calendarToken"]);
+
+export interface AuditRecord {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Field-by-field differences between two versions of a record; values are compared as JSON
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const beforeValue = beforeFields[field] ?? null;
+    const afterValue = afterFields[field] ?? null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return changes;
+}
+
+// Record an action by the signed-in user. A failed write is logged rather than thrown,
+// since the action itself has already happened by the time it is audited.
+export async function recordAudit(req: any, record: AuditRecord): Promise<void> {
+  try {
+    // Replit OAuth sessions only carry claims, so look up the account behind them
+    const actor: User | undefined = req.user?.claims
+      ? await storage.getUserByReplitId(req.user.claims.sub)
+      : req.user;
+
+    await storage.createAuditEntry({
+      actorId: actor?.id ?? null,
+      actorName: actor ? [actor.firstName, actor.lastName].filter(Boolean).join(" ") || actor.email : null,
+      action: record.action,
+      entityType: record.entityType,
+      entityId: record.entityId,
+      changes: diffRecords(record.before, record.after),
+    });
+  } catch (error) {
+    console.error("Error writing audit log entry:", error);
+  }
+}
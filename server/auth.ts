@@ -3,7 +3,7 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import type { Express, RequestHandler } from "express";
 import { storage } from "./storage";
-import { signupSchema, loginSchema, type SignupData, type LoginData, type User } from "@shared/schema";
+import { signupSchema, loginSchema, USER_ROLES, type SignupData, type LoginData, type User, type Permission } from "@shared/schema";
 import { z } from "zod";
 
 // Configure Local Strategy for email/password authentication
@@ -73,8 +73,26 @@ export const isAuthenticated: RequestHandler = (req, res, next) => {
   return res.status(401).json({ message: "Unauthorized" });
 };
 
-// Admin middleware
-export function createIsAdminMiddleware(): RequestHandler {
+// Permissions granted by the user's role
+export async function getUserPermissions(user: Pick<User, "role"> | undefined): Promise<Permission[]> {
+  return user ? await storage.getRolePermissions(user.role) : [];
+}
+
+export async function userHasPermission(user: Pick<User, "role"> | undefined, permission: Permission): Promise<boolean> {
+  return (await getUserPermissions(user)).includes(permission);
+}
+
+// Users whose role grants the permission
+export async function getUsersWithPermission(permission: Permission): Promise<User[]> {
+  const roles: string[] = [];
+  for (const role of USER_ROLES) {
+    if (await userHasPermission({ role }, permission)) roles.push(role);
+  }
+  return roles.length > 0 ? await storage.getUsersByRoles(roles) : [];
+}
+
+// Middleware allowing only users whose role grants the permission
+export function requirePermission(permission: Permission): RequestHandler {
   return async (req, res, next) => {
     if (!req.isAuthenticated() || !req.user) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -94,14 +112,14 @@ export function createIsAdminMiddleware(): RequestHandler {
         user = sessionUser;
       }
       
-      if (!user || user.role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!(await userHasPermission(user, permission))) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
       }
       
       return next();
     } catch (error) {
-      console.error("Error checking admin status:", error);
-      return res.status(500).json({ message: "Failed to verify admin status" });
+      console.error("Error checking permissions:", error);
+      return res.status(500).json({ message: "Failed to verify permissions" });
     }
   };
 }
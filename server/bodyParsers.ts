@@ -0,0 +1,12 @@
+import express, { type Express, type Request } from "express";
+
+// JSON and form bodies for the API. Payment webhooks are signed over the exact request body,
+// so a copy of it is kept as req.rawBody.
+export function setupBodyParsers(app: Express) {
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  }));
+  app.use(express.urlencoded({ extended: false }));
+}
@@ -0,0 +1,104 @@
+import nodemailer from "nodemailer";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Delivery mechanism for outgoing email
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpTransport implements EmailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(private options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message });
+  }
+}
+
+// Writes each message to its own file so local development can inspect what would be sent
+export class FileTransport implements EmailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const slug = message.subject.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase();
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}.txt`;
+    const content = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.writeFile(path.join(this.directory, filename), content, "utf8");
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Creates the transport for the first message, so a deployment that never sends email starts
+// without email settings and a missing one fails the send instead of the boot
+export class LazyTransport implements EmailTransport {
+  private transport?: EmailTransport;
+
+  constructor(private create: () => EmailTransport) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.transport ??= this.create();
+    await this.transport.send(message);
+  }
+}
+
+// Pick the transport from EMAIL_TRANSPORT ("smtp", "file" or "console").
+// Without it, SMTP is used when SMTP_HOST is configured and the console otherwise, except in
+// production: the console prints password reset and verification links, so it has to be asked for explicitly there.
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? "smtp" : env.NODE_ENV === "production" ? undefined : "console");
+  if (!kind) {
+    throw new Error("No email transport configured: set SMTP_HOST to send email, or EMAIL_TRANSPORT to choose a transport");
+  }
+
+  switch (kind) {
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set to send email over SMTP");
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || "587", 10),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from: env.EMAIL_FROM || "no-reply@localhost",
+      });
+    case "file":
+      return new FileTransport(env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), ".outbox"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
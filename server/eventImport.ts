@@ -0,0 +1,206 @@
+import { insertEventSchema, MAX_IMPORT_ROWS, type EventImportRow, type InsertEvent, type User } from "@shared/schema";
+
+// Columns (CSV) or keys (JSON) an import row may use; anything else is reported so typos don't go unnoticed
+const IMPORT_FIELDS = new Set([
+  "name",
+  "type",
+  "description",
+  "startTime",
+  "endTime",
+  "location",
+  "maxSeats",
+  "creditsRequired",
+  "cutoffHours",
+  "refundWindowHours",
+  "image",
+  "servicesCurrency",
+  "allowedRegistrants",
+  "extraServices",
+  "eligibility",
+  "supervisorEmails",
+]);
+
+const NUMBER_FIELDS = ["maxSeats", "creditsRequired", "cutoffHours", "refundWindowHours"];
+
+// Raised when the file as a whole can't be read; the message is safe to show to the user
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+  }
+}
+
+// A valid row, ready to be inserted with its supervisors
+export interface PreparedImportEvent {
+  row: number;
+  event: InsertEvent;
+  staffIds: string[];
+}
+
+export interface PreparedImport {
+  rows: EventImportRow[];
+  events: PreparedImportEvent[];
+}
+
+// RFC 4180 parser: quoted cells may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    throw new ImportFileError("The CSV file has an unterminated quoted cell");
+  }
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  // Spreadsheet apps often leave blank lines at the end
+  return records.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+// Turn the uploaded file into one object per event
+export function parseImportFile(format: "csv" | "json", content: string): Record<string, unknown>[] {
+  let records: unknown[];
+  if (format === "json") {
+    try {
+      records = JSON.parse(content);
+    } catch {
+      throw new ImportFileError("The JSON file could not be parsed");
+    }
+    if (!Array.isArray(records) || records.some(record => typeof record !== "object" || record === null || Array.isArray(record))) {
+      throw new ImportFileError("The JSON file must contain an array of event objects");
+    }
+  } else {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) {
+      throw new ImportFileError("The CSV file has no header row");
+    }
+    const columns = header.map(column => column.trim());
+    records = lines.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+  }
+
+  if (records.length === 0) {
+    throw new ImportFileError("The file does not contain any events");
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Import at most ${MAX_IMPORT_ROWS} events at a time`);
+  }
+  return records as Record<string, unknown>[];
+}
+
+function parseEmails(value: unknown): string[] {
+  const emails = Array.isArray(value) ? value.map(String) : String(value ?? "").split(/[;,]/);
+  return emails.map(email => email.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  return value === undefined || value === "" ? undefined : new Date(String(value));
+}
+
+function toIso(date: Date | undefined): string | null {
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+// Validate every row the same way as a single event created in the admin form.
+// Supervisors are matched by email against the staff and admin accounts passed in.
+export function prepareEventImport(records: Record<string, unknown>[], supervisors: User[]): PreparedImport {
+  const supervisorsByEmail = new Map(
+    supervisors.filter(user => user.email).map(user => [user.email!.toLowerCase(), user])
+  );
+  const result: PreparedImport = { rows: [], events: [] };
+
+  records.forEach((record, index) => {
+    const errors: string[] = [];
+    // CSV cells are always strings; blank ones fall back to the column defaults
+    const fields = Object.fromEntries(
+      Object.entries(record).filter(([_, value]) => value !== "" && value !== null && value !== undefined)
+    );
+
+    for (const key of Object.keys(fields)) {
+      if (!IMPORT_FIELDS.has(key)) errors.push(`Unknown column "${key}"`);
+    }
+
+    const startTime = parseDate(fields.startTime);
+    const endTime = parseDate(fields.endTime);
+    const supervisorEmails = parseEmails(fields.supervisorEmails);
+    const staffIds: string[] = [];
+    if (supervisorEmails.length === 0) {
+      errors.push("supervisorEmails: at least one supervisor is required");
+    }
+    for (const email of supervisorEmails) {
+      const supervisor = supervisorsByEmail.get(email);
+      if (supervisor) {
+        staffIds.push(supervisor.id);
+      } else {
+        errors.push(`supervisorEmails: ${email} is not a staff or admin account`);
+      }
+    }
+
+    const { supervisorEmails: _, ...eventFields } = fields;
+    for (const field of NUMBER_FIELDS) {
+      if (typeof eventFields[field] === "string") eventFields[field] = Number(eventFields[field]);
+    }
+
+    const parsed = insertEventSchema.safeParse({
+      ...eventFields,
+      startTime,
+      endTime,
+      // Imported events start with every seat available
+      remainingSeats: eventFields.maxSeats,
+      staffId: staffIds[0] ?? null,
+    });
+    if (parsed.success) {
+      if (parsed.data.endTime <= parsed.data.startTime) {
+        errors.push("endTime: the event must end after it starts");
+      }
+    } else {
+      errors.push(...parsed.error.errors.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`));
+    }
+
+    const row = index + 1;
+    result.rows.push({
+      row,
+      name: typeof fields.name === "string" ? fields.name : "",
+      startTime: toIso(startTime),
+      endTime: toIso(endTime),
+      location: typeof fields.location === "string" ? fields.location : "",
+      supervisorEmails,
+      errors,
+    });
+    if (parsed.success && errors.length === 0) {
+      result.events.push({ row, event: parsed.data, staffIds });
+    }
+  });
+
+  return result;
+}
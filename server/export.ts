@@ -0,0 +1,133 @@
+import ExcelJS from "exceljs";
+import { format } from "date-fns";
+import { calculateAgeOn } from "@shared/schema";
+import type { RegistrationExportRow } from "./storage";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// One column of an export; width is in characters and only used for XLSX
+export interface ExportColumn<T> {
+  header: string;
+  width?: number;
+  value: (row: T) => string | number | null;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with a byte order mark so Excel reads it as UTF-8
+export function toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map(column => csvCell(column.header)),
+    ...rows.map(row => columns.map(column => csvCell(column.value(row)))),
+  ];
+  return `\uFEFF${lines.map(cells => cells.join(",")).join("\r\n")}\r\n`;
+}
+
+export async function toXlsx<T>(sheetName: string, columns: ExportColumn<T>[], rows: T[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31));
+
+  sheet.columns = columns.map(column => ({ header: column.header, width: column.width ?? 16 }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  for (const row of rows) {
+    sheet.addRow(columns.map(column => column.value(row)));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Build the file body for either format
+export async function renderExport<T>(
+  exportFormat: ExportFormat,
+  sheetName: string,
+  columns: ExportColumn<T>[],
+  rows: T[],
+): Promise<Buffer> {
+  return exportFormat === "csv"
+    ? Buffer.from(toCsv(columns, rows), "utf8")
+    : await toXlsx(sheetName, columns, rows);
+}
+
+// "art-club-roster-2025-09-01.csv"
+export function exportFilename(parts: string[], exportFormat: ExportFormat): string {
+  const slug = parts
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "export"}.${exportFormat}`;
+}
+
+function attendeeName({ child, parent }: RegistrationExportRow): string {
+  if (child) return `${child.firstName} ${child.lastName}`;
+  return parent ? `${parent.firstName ?? ""} ${parent.lastName ?? ""}`.trim() + " (parent)" : "Parent";
+}
+
+function parentName({ parent }: RegistrationExportRow): string | null {
+  return parent ? `${parent.firstName ?? ""} ${parent.lastName ?? ""}`.trim() || parent.email : null;
+}
+
+function selectedServiceNames({ registration, event }: RegistrationExportRow): string {
+  return (registration.selectedServices ?? [])
+    .map(serviceId => event.extraServices?.find(service => service.id === serviceId)?.description)
+    .filter(Boolean)
+    .join("; ");
+}
+
+// Age on the event date, so the roster matches the eligibility rules
+const ageColumn: ExportColumn<RegistrationExportRow> = {
+  header: "Age",
+  width: 6,
+  value: ({ child, event }) => child ? calculateAgeOn(child.dateOfBirth, new Date(event.startTime)) : null,
+};
+
+export const rosterColumns: ExportColumn<RegistrationExportRow>[] = [
+  { header: "Name", width: 24, value: attendeeName },
+  ageColumn,
+  { header: "Allergies", width: 24, value: ({ child }) => child?.allergies ?? null },
+  { header: "Dietary Restrictions", width: 24, value: ({ child }) => child?.dietaryRestrictions ?? null },
+  { header: "Medicine Needs", width: 24, value: ({ child }) => child?.medicineNeeds ?? null },
+  { header: "Parent", width: 22, value: parentName },
+  { header: "Parent Phone", width: 16, value: ({ parent }) => parent?.phone ?? null },
+  { header: "Extra Services", width: 24, value: selectedServiceNames },
+];
+
+export const registrationColumns: ExportColumn<RegistrationExportRow>[] = [
+  { header: "Event", width: 28, value: ({ event }) => event.name },
+  { header: "Event Start", width: 18, value: ({ event }) => format(new Date(event.startTime), "yyyy-MM-dd HH:mm") },
+  { header: "Location", width: 18, value: ({ event }) => event.location },
+  { header: "Name", width: 24, value: attendeeName },
+  ageColumn,
+  { header: "Parent", width: 22, value: parentName },
+  { header: "Parent Email", width: 26, value: ({ parent }) => parent?.email ?? null },
+  { header: "Parent Phone", width: 16, value: ({ parent }) => parent?.phone ?? null },
+  { header: "Status", width: 12, value: ({ registration }) => registration.status },
+  { header: "Credits", width: 8, value: ({ registration }) => registration.creditsCost },
+  { header: "Extra Services", width: 24, value: selectedServiceNames },
+  {
+    header: "Services Cost",
+    width: 14,
+    value: ({ registration, event }) => `${event.servicesCurrency} ${(registration.servicesCost / 100).toFixed(2)}`,
+  },
+  {
+    header: "Registered At",
+    width: 18,
+    value: ({ registration }) => registration.registeredAt ? format(new Date(registration.registeredAt), "yyyy-MM-dd HH:mm") : null,
+  },
+];
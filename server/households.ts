@@ -0,0 +1,97 @@
+import { storage } from "./storage";
+import type { Child, EventRegistration, GuardianPermission, HouseholdInvitation, HouseholdMember, SharedChild, User } from "@shared/schema";
+
+// How long an emailed household invitation stays valid
+export const HOUSEHOLD_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The account behind a parent id; Replit OAuth sessions carry the Replit id instead of the account id
+async function resolveAccount(userId: string): Promise<User | undefined> {
+  return (await storage.getUser(userId)) ?? (await storage.getUserByReplitId(userId));
+}
+
+// The token is the credential in the emailed link, so it is only ever sent to the invitee
+export function withoutToken(invitation: HouseholdInvitation): Omit<HouseholdInvitation, "token"> {
+  const { token: _token, ...rest } = invitation;
+  return rest;
+}
+
+// Children and registrations of Replit OAuth users are stored under their Replit id
+function parentIdsOf(user: User): string[] {
+  return [user.id, user.replitId].filter((id): id is string => !!id);
+}
+
+interface Guardianship {
+  membership: HouseholdMember | undefined;
+  ownParentIds: string[];
+  householdParentIds: string[]; // The user's own ids first, then the other guardians'
+}
+
+async function getGuardianship(userId: string): Promise<Guardianship> {
+  const account = await resolveAccount(userId);
+  const ownParentIds = Array.from(new Set([userId, ...(account ? parentIdsOf(account) : [])]));
+  const membership = account ? await storage.getHouseholdMembership(account.id) : undefined;
+  if (!membership) {
+    return { membership, ownParentIds, householdParentIds: ownParentIds };
+  }
+
+  const householdParentIds = [...ownParentIds];
+  for (const member of await storage.getHouseholdMembers(membership.householdId)) {
+    const guardian = await storage.getUser(member.userId);
+    for (const parentId of guardian ? parentIdsOf(guardian) : []) {
+      if (!householdParentIds.includes(parentId)) householdParentIds.push(parentId);
+    }
+  }
+  return { membership, ownParentIds, householdParentIds };
+}
+
+// What the user may do with a child: "full" for their own children, their household permission for
+// children of the other guardians, and null when the child isn't theirs to see
+export async function getChildAccess(userId: string, child: Pick<Child, "parentId">): Promise<GuardianPermission | null> {
+  if (child.parentId === userId) return "full";
+
+  const { membership, ownParentIds, householdParentIds } = await getGuardianship(userId);
+  if (ownParentIds.includes(child.parentId)) return "full";
+  if (membership && householdParentIds.includes(child.parentId)) return membership.permission;
+  return null;
+}
+
+// The children of every guardian in the user's household
+export async function getSharedChildren(userId: string): Promise<SharedChild[]> {
+  const { membership, ownParentIds, householdParentIds } = await getGuardianship(userId);
+  const children: SharedChild[] = [];
+  for (const parentId of householdParentIds) {
+    const access = ownParentIds.includes(parentId) ? "full" : membership!.permission;
+    for (const child of await storage.getChildrenByParentId(parentId)) {
+      children.push({ ...child, access });
+    }
+  }
+  return children;
+}
+
+// The user's own registrations and the other guardians' registrations of household children.
+// A guardian registering themselves for an event stays private to them.
+export async function getSharedRegistrations(userId: string): Promise<EventRegistration[]> {
+  const { ownParentIds, householdParentIds } = await getGuardianship(userId);
+  const registrations: EventRegistration[] = [];
+  for (const parentId of householdParentIds) {
+    const isOwn = ownParentIds.includes(parentId);
+    for (const registration of await storage.getEventRegistrationsByParent(parentId)) {
+      if (isOwn || registration.childId) registrations.push(registration);
+    }
+  }
+  return registrations;
+}
+
+// The household's child registrations with the event and child details used by My Events and the calendar.
+// Each row says whether the user may act on it (cancel, pay) or only see it.
+export async function getSharedRegistrationDetails(userId: string): Promise<any[]> {
+  const { membership, ownParentIds, householdParentIds } = await getGuardianship(userId);
+  const registrations: any[] = [];
+  for (const parentId of householdParentIds) {
+    const access: GuardianPermission = ownParentIds.includes(parentId) ? "full" : membership!.permission;
+    for (const registration of await storage.getEventRegistrationsWithDetailsForParent(parentId)) {
+      registrations.push({ ...registration, access });
+    }
+  }
+  return registrations.sort((a, b) => new Date(a.event.startTime).getTime() - new Date(b.event.startTime).getTime());
+}
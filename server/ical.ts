@@ -0,0 +1,97 @@
+// Registration row as returned by storage.getEventRegistrationsWithDetailsForParent
+export interface CalendarRegistration {
+  id: string;
+  event: {
+    id: string;
+    name: string;
+    startTime: Date;
+    endTime: Date;
+    location: string;
+    description: string;
+    deleted: boolean;
+    updatedAt: Date | null;
+  };
+  child: {
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+const PRODUCT_ID = "-//Camp Registration//Events//EN";
+
+// RFC 5545 date-time in UTC, e.g. 20250901T150000Z
+function formatIcalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function buildEvent(registration: CalendarRegistration, uidDomain: string): string[] {
+  const { event, child } = registration;
+  const start = new Date(event.startTime);
+  const lastModified = event.updatedAt ? new Date(event.updatedAt) : start;
+  const summary = child ? `${event.name} (${child.firstName} ${child.lastName})` : event.name;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    // One entry per registration, so two children at the same event show up separately
+    `UID:${registration.id}@${uidDomain}`,
+    `DTSTAMP:${formatIcalDate(lastModified)}`,
+    `LAST-MODIFIED:${formatIcalDate(lastModified)}`,
+    // Calendar apps replace their copy when the sequence grows; every admin edit bumps updatedAt
+    `SEQUENCE:${Math.floor(lastModified.getTime() / 1000)}`,
+    `DTSTART:${formatIcalDate(start)}`,
+    `DTEND:${formatIcalDate(new Date(event.endTime))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    // Soft-deleted events stay in the feed so subscribed calendars drop them
+    `STATUS:${event.deleted ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ];
+  return lines;
+}
+
+// Build an iCalendar document for the given registrations
+export function buildCalendar(
+  registrations: CalendarRegistration[],
+  options: { name: string; uidDomain: string },
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...registrations.flatMap(registration => buildEvent(registration, options.uidDomain)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,10 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { notificationService } from "./notifications";
+import { setupBodyParsers } from "./bodyParsers";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+setupBodyParsers(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -68,4 +69,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Email parents about events starting within the next 24 hours
+  notificationService.startReminderScheduler();
 })();
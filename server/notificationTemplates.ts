@@ -0,0 +1,221 @@
+import { format } from "date-fns";
+import { formatEventDuration, formatMoney, formatReceiptNumber, type CreditPurchase, type Event, type HouseholdInvitation, type NotificationType, type StaffInvitation } from "@shared/schema";
+import type { TokenPurpose } from "./tokens";
+
+// A field of an event that parents care about, before and after an admin edit
+export interface EventChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface NotificationContext {
+  recipientName: string | null;
+  attendeeNames: string[]; // Registered children; empty when the parent registered themselves
+  event: Pick<Event, "name" | "startTime" | "endTime" | "location">;
+  changes?: EventChange[];
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function formatEventTime(startTime: Date): string {
+  return format(new Date(startTime), "EEEE, MMMM d 'at' h:mm a");
+}
+
+// "Saturday, September 6, 9:00 AM – 12:00 PM"
+function formatEventTimeRange(event: Pick<Event, "startTime" | "endTime">): string {
+  return `${format(new Date(event.startTime), "EEEE, MMMM d, h:mm a")} – ${format(new Date(event.endTime), "h:mm a")}`;
+}
+
+function formatAttendees(names: string[]): string {
+  if (names.length === 0) return "you";
+  if (names.length === 1) return names[0];
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+// "Ana is", "Ana and Ben are" or "you are"
+function attendeesAre(names: string[]): string {
+  return `${formatAttendees(names)} ${names.length === 1 ? "is" : "are"}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// List the changes parents need to know about; other fields (seats, services, ...) are ignored
+export function describeEventChanges(before: Event, after: Event): EventChange[] {
+  const changes: EventChange[] = [];
+  if (before.name !== after.name) {
+    changes.push({ label: "Name", before: before.name, after: after.name });
+  }
+  if (
+    new Date(before.startTime).getTime() !== new Date(after.startTime).getTime() ||
+    new Date(before.endTime).getTime() !== new Date(after.endTime).getTime()
+  ) {
+    changes.push({ label: "Time", before: formatEventTimeRange(before), after: formatEventTimeRange(after) });
+  }
+  if (before.location !== after.location) {
+    changes.push({ label: "Location", before: before.location, after: after.location });
+  }
+  return changes;
+}
+
+export function renderNotification(type: NotificationType, context: NotificationContext): RenderedNotification {
+  const { event } = context;
+  const details = [
+    `When: ${formatEventTimeRange(event)}`,
+    `Where: ${event.location}`,
+    `Duration: ${formatEventDuration(event)}`,
+  ];
+
+  let subject: string;
+  let body: string[];
+  switch (type) {
+    case "registration_confirmation":
+      subject = `Registration confirmed: ${event.name}`;
+      body = [`${capitalize(attendeesAre(context.attendeeNames))} registered for ${event.name}.`, ...details];
+      break;
+    case "event_changed":
+      subject = `Event updated: ${event.name}`;
+      body = [
+        `${event.name}, which ${attendeesAre(context.attendeeNames)} registered for, has changed:`,
+        ...(context.changes ?? []).map(change => `${change.label}: ${change.before} → ${change.after}`),
+        "",
+        ...details,
+      ];
+      break;
+    case "event_cancelled":
+      subject = `Event cancelled: ${event.name}`;
+      body = [
+        `${event.name} on ${formatEventTime(event.startTime)} has been cancelled.`,
+        context.attendeeNames.length === 0
+          ? "Your registration no longer applies."
+          : `The registration for ${formatAttendees(context.attendeeNames)} no longer applies.`,
+      ];
+      break;
+    case "event_reminder":
+      subject = `Reminder: ${event.name} starts soon`;
+      body = [`This is a reminder that ${attendeesAre(context.attendeeNames)} registered for ${event.name}.`, ...details];
+      break;
+  }
+
+  const greeting = context.recipientName ? `Hi ${context.recipientName},` : "Hi,";
+  const lines = [greeting, "", ...body];
+
+  return {
+    subject,
+    text: lines.join("\n"),
+    html: lines.map(line => line === "" ? "<br>" : `<p>${escapeHtml(line)}</p>`).join("\n"),
+  };
+}
+
+// Account emails carrying a signed link; sent regardless of notification preferences
+export function renderAccountEmail(
+  purpose: TokenPurpose,
+  context: { recipientName: string | null; url: string },
+): RenderedNotification {
+  const greeting = context.recipientName ? `Hi ${context.recipientName},` : "Hi,";
+  const { subject, intro, action, footer } = purpose === "verify_email"
+    ? {
+        subject: "Verify your email address",
+        intro: "Please confirm this is your email address by opening the link below.",
+        action: "Verify email",
+        footer: "The link is valid for 48 hours.",
+      }
+    : {
+        subject: "Reset your password",
+        intro: "We received a request to reset your password. Open the link below to choose a new one.",
+        action: "Reset password",
+        footer: "The link is valid for 1 hour and can be used once. If you didn't ask for this, you can ignore this email.",
+      };
+
+  return {
+    subject,
+    text: [greeting, "", intro, "", context.url, "", footer].join("\n"),
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(context.url)}">${action}</a></p>`,
+      `<p>${escapeHtml(footer)}</p>`,
+    ].join("\n"),
+  };
+}
+
+// Receipt for a credit package bought online or paid in cash; sent regardless of notification preferences
+export function renderCreditReceipt(purchase: CreditPurchase, context: { recipientName: string | null }): RenderedNotification {
+  const greeting = context.recipientName ? `Hi ${context.recipientName},` : "Hi,";
+  const receiptNumber = formatReceiptNumber(purchase.receiptNumber);
+  const lines = [
+    greeting,
+    "",
+    `Thank you for your purchase. ${purchase.credits} credits have been added to your balance.`,
+    "",
+    `Receipt: ${receiptNumber}`,
+    `Date: ${format(new Date(purchase.completedAt ?? purchase.createdAt ?? new Date()), "MMMM d, yyyy")}`,
+    `Package: ${purchase.packageName}`,
+    `Credits: ${purchase.credits}`,
+    `Amount paid: ${formatMoney(purchase.amount, purchase.currency)}`,
+    `Payment method: ${purchase.method === "cash" ? "Cash" : "Online"}`,
+  ];
+
+  return {
+    subject: `Your receipt ${receiptNumber}`,
+    text: lines.join("\n"),
+    html: lines.map(line => line === "" ? "<br>" : `<p>${escapeHtml(line)}</p>`).join("\n"),
+  };
+}
+
+// Invitation to share a household's children; sent to an address that may not have an account yet
+export function renderHouseholdInvitation(
+  invitation: Pick<HouseholdInvitation, "permission" | "expiresAt">,
+  context: { inviterName: string; url: string },
+): RenderedNotification {
+  const access = invitation.permission === "full"
+    ? "see and manage your children's profiles and registrations together"
+    : "see your children's profiles and registrations";
+  const intro = `${context.inviterName} has invited you to join their household, so you can ${access}.`;
+  const footer = `The invitation is valid until ${format(new Date(invitation.expiresAt), "MMMM d, yyyy")}. Sign in or create an account with this email address to accept it.`;
+
+  return {
+    subject: `${context.inviterName} invited you to their household`,
+    text: ["Hi,", "", intro, "", context.url, "", footer].join("\n"),
+    html: [
+      "<p>Hi,</p>",
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(context.url)}">View invitation</a></p>`,
+      `<p>${escapeHtml(footer)}</p>`,
+    ].join("\n"),
+  };
+}
+
+// Invite link for a new staff account; the address has no account yet
+export function renderStaffInvitation(
+  invitation: Pick<StaffInvitation, "role" | "expiresAt">,
+  context: { inviterName: string; url: string },
+): RenderedNotification {
+  const intro = `${context.inviterName} has invited you to join the team as ${invitation.role}. Open the link below to create your account.`;
+  const footer = `The link is valid until ${format(new Date(invitation.expiresAt), "MMMM d, yyyy")} and can be used once.`;
+
+  return {
+    subject: `${context.inviterName} invited you to join the team`,
+    text: ["Hi,", "", intro, "", context.url, "", footer].join("\n"),
+    html: [
+      "<p>Hi,</p>",
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(context.url)}">Create account</a></p>`,
+      `<p>${escapeHtml(footer)}</p>`,
+    ].join("\n"),
+  };
+}
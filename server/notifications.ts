@@ -0,0 +1,193 @@
+import { storage, type NotificationRegistration } from "./storage";
+import { createEmailTransport, LazyTransport, type EmailTransport } from "./email";
+import { renderNotification, renderAccountEmail, renderCreditReceipt, renderHouseholdInvitation, renderStaffInvitation, describeEventChanges, type NotificationContext } from "./notificationTemplates";
+import type { TokenPurpose } from "./tokens";
+import type { CreditPurchase, Event, EventRegistration, HouseholdInvitation, NotificationPreferences, NotificationType, StaffInvitation, User } from "@shared/schema";
+
+// Preference flag that switches each notification type on or off
+const preferenceByType: Record<NotificationType, keyof Omit<NotificationPreferences, "userId" | "updatedAt">> = {
+  registration_confirmation: "registrationConfirmation",
+  event_changed: "eventChanged",
+  event_cancelled: "eventCancelled",
+  event_reminder: "eventReminder",
+};
+
+export const REMINDER_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+function attendeeNames(rows: NotificationRegistration[]): string[] {
+  return rows
+    .filter(row => row.child)
+    .map(row => `${row.child!.firstName} ${row.child!.lastName}`);
+}
+
+// Group rows by event and parent so a family gets one message per event
+function groupByEventAndParent(rows: NotificationRegistration[]): NotificationRegistration[][] {
+  const groups = new Map<string, NotificationRegistration[]>();
+  for (const row of rows) {
+    const key = `${row.event.id}:${row.registration.parentId}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return Array.from(groups.values());
+}
+
+export class NotificationService {
+  constructor(private transport: EmailTransport) {}
+
+  // Email the parent behind a registration's parentId, honoring their preferences.
+  // Returns false when nothing was sent (no email, opted out, or already sent under this dedupe key).
+  private async sendToParent(
+    parentId: string,
+    type: NotificationType,
+    dedupeKey: string,
+    context: Omit<NotificationContext, "recipientName">,
+  ): Promise<boolean> {
+    // Parent ids are Replit ids for Replit OAuth users
+    const parent = (await storage.getUser(parentId)) ?? (await storage.getUserByReplitId(parentId));
+    if (!parent?.email) return false;
+
+    const preferences = await storage.getNotificationPreferences(parent.id);
+    if (!preferences[preferenceByType[type]]) return false;
+
+    if (!(await storage.claimNotification(parent.id, type, dedupeKey))) return false;
+
+    const message = renderNotification(type, { ...context, recipientName: parent.firstName });
+    try {
+      await this.transport.send({ to: parent.email, ...message });
+    } catch (error) {
+      await storage.releaseNotification(dedupeKey);
+      throw error;
+    }
+    return true;
+  }
+
+  // Email verification and password reset links; these throw so the caller can report the failure
+  async sendAccountEmail(user: User, purpose: TokenPurpose, url: string): Promise<void> {
+    if (!user.email) return;
+    const message = renderAccountEmail(purpose, { recipientName: user.firstName, url });
+    await this.transport.send({ to: user.email, ...message });
+  }
+
+  // The public methods run in the background of a request, so they log failures instead of throwing
+
+  async registrationConfirmed(registration: EventRegistration): Promise<void> {
+    try {
+      const event = await storage.getEvent(registration.eventId);
+      if (!event) return;
+      const child = registration.childId ? await storage.getChild(registration.childId) : undefined;
+
+      await this.sendToParent(
+        registration.parentId,
+        "registration_confirmation",
+        `registration_confirmation:${registration.id}`,
+        { attendeeNames: child ? [`${child.firstName} ${child.lastName}`] : [], event },
+      );
+    } catch (error) {
+      console.error("Error sending registration confirmation:", error);
+    }
+  }
+
+  async creditReceipt(purchase: CreditPurchase): Promise<void> {
+    try {
+      const user = (await storage.getUser(purchase.userId)) ?? (await storage.getUserByReplitId(purchase.userId));
+      if (!user?.email) return;
+      const message = renderCreditReceipt(purchase, { recipientName: user.firstName });
+      await this.transport.send({ to: user.email, ...message });
+    } catch (error) {
+      console.error("Error sending credit receipt:", error);
+    }
+  }
+
+  async householdInvitation(invitation: HouseholdInvitation, inviterName: string, url: string): Promise<void> {
+    try {
+      const message = renderHouseholdInvitation(invitation, { inviterName, url });
+      await this.transport.send({ to: invitation.email, ...message });
+    } catch (error) {
+      console.error("Error sending household invitation:", error);
+    }
+  }
+
+  async staffInvitation(invitation: StaffInvitation, inviterName: string, url: string): Promise<void> {
+    try {
+      const message = renderStaffInvitation(invitation, { inviterName, url });
+      await this.transport.send({ to: invitation.email, ...message });
+    } catch (error) {
+      console.error("Error sending staff invitation:", error);
+    }
+  }
+
+  async eventChanged(before: Event, after: Event): Promise<void> {
+    try {
+      const changes = describeEventChanges(before, after);
+      if (changes.length === 0) return;
+
+      const rows = await storage.getNotificationRegistrationsForEvent(after.id);
+      for (const group of groupByEventAndParent(rows)) {
+        const { registration } = group[0];
+        await this.sendToParent(
+          registration.parentId,
+          "event_changed",
+          `event_changed:${after.id}:${registration.parentId}:${after.updatedAt?.getTime()}`,
+          { attendeeNames: attendeeNames(group), event: after, changes },
+        );
+      }
+    } catch (error) {
+      console.error("Error sending event change notifications:", error);
+    }
+  }
+
+  async eventCancelled(eventId: string): Promise<void> {
+    try {
+      const rows = await storage.getNotificationRegistrationsForEvent(eventId);
+      for (const group of groupByEventAndParent(rows)) {
+        const { registration, event } = group[0];
+        await this.sendToParent(
+          registration.parentId,
+          "event_cancelled",
+          `event_cancelled:${eventId}:${registration.parentId}:${event.updatedAt?.getTime()}`,
+          { attendeeNames: attendeeNames(group), event },
+        );
+      }
+    } catch (error) {
+      console.error("Error sending event cancellation notifications:", error);
+    }
+  }
+
+  // Remind parents of events starting within the next 24 hours; returns the number of emails sent.
+  // The dedupe key includes the start time, so a rescheduled event is reminded about again.
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const rows = await storage.getNotificationRegistrationsStartingBetween(
+      now,
+      new Date(now.getTime() + REMINDER_LEAD_TIME_MS),
+    );
+
+    let sent = 0;
+    for (const group of groupByEventAndParent(rows)) {
+      const { registration, event } = group[0];
+      try {
+        const wasSent = await this.sendToParent(
+          registration.parentId,
+          "event_reminder",
+          `event_reminder:${event.id}:${registration.parentId}:${new Date(event.startTime).getTime()}`,
+          { attendeeNames: attendeeNames(group), event },
+        );
+        if (wasSent) sent++;
+      } catch (error) {
+        console.error("Error sending event reminder:", error);
+      }
+    }
+    return sent;
+  }
+
+  startReminderScheduler(intervalMs: number = REMINDER_CHECK_INTERVAL_MS): NodeJS.Timeout {
+    const run = () => {
+      this.sendDueReminders().catch(error => console.error("Error checking event reminders:", error));
+    };
+    run();
+    const timer = setInterval(run, intervalMs);
+    timer.unref(); // Don't keep the process alive just for reminders
+    return timer;
+  }
+}
+
+export const notificationService = new NotificationService(new LazyTransport(() => createEmailTransport()));
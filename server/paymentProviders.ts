@@ -0,0 +1,261 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+// What is being paid for: a registration's services cost or a credit purchase
+export interface CheckoutRequest {
+  registrationId?: string;
+  creditPurchaseId?: string;
+  amount: number; // In cents
+  currency: string;
+  description: string;
+  customerEmail?: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface Checkout {
+  reference: string; // The provider's id for the checkout, sent back in its webhooks
+  url: string; // Page where the parent pays
+}
+
+// Outcome of a checkout as reported by a provider webhook
+export interface PaymentWebhookEvent {
+  reference: string;
+  status: "succeeded" | "failed";
+  failureReason?: string;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+// Raised when a webhook request can't be trusted or read; answered with a 400 so the provider doesn't retry it forever
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
+
+// Collects a payment through a hosted checkout page
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  // Return part or all of a succeeded checkout's payment to the payer; throws if the provider refuses
+  refund(reference: string, amount: number): Promise<void>;
+  // Verify a webhook request; null for events that don't complete a checkout
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null;
+}
+
+export interface StripeProviderOptions {
+  secretKey: string;
+  webhookSecret: string;
+  apiBase?: string;
+}
+
+// Signed webhooks older than this are rejected so a captured request can't be replayed later
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Stripe Checkout over its REST API, so no SDK is needed
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe";
+
+  constructor(private options: StripeProviderOptions) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    const form = new URLSearchParams({
+      mode: "payment",
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": request.currency.toLowerCase(),
+      "line_items[0][price_data][unit_amount]": String(request.amount),
+      "line_items[0][price_data][product_data][name]": request.description,
+    });
+    if (request.registrationId) {
+      form.set("client_reference_id", request.registrationId);
+      form.set("metadata[registration_id]", request.registrationId);
+    } else if (request.creditPurchaseId) {
+      form.set("client_reference_id", request.creditPurchaseId);
+      form.set("metadata[credit_purchase_id]", request.creditPurchaseId);
+    }
+    if (request.customerEmail) {
+      form.set("customer_email", request.customerEmail);
+    }
+
+    const session = await this.request("checkout", "/v1/checkout/sessions", { body: form });
+    return { reference: session.id, url: session.url };
+  }
+
+  // Refunds go against the checkout's payment intent. The idempotency key stops a retried request
+  // from refunding twice.
+  async refund(reference: string, amount: number): Promise<void> {
+    const session = await this.request("refund", `/v1/checkout/sessions/${encodeURIComponent(reference)}`);
+    if (!session.payment_intent) {
+      throw new Error(`Stripe refund failed: checkout ${reference} has no payment`);
+    }
+    await this.request("refund", "/v1/refunds", {
+      body: new URLSearchParams({ payment_intent: session.payment_intent, amount: String(amount) }),
+      idempotencyKey: `refund-${reference}`,
+    });
+  }
+
+  // GET without a body, form-encoded POST with one
+  private async request(action: string, path: string, options: { body?: URLSearchParams; idempotencyKey?: string } = {}): Promise<any> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.options.secretKey}` };
+    if (options.body) headers["Content-Type"] = "application/x-www-form-urlencoded";
+    if (options.idempotencyKey) headers["Idempotency-Key"] = options.idempotencyKey;
+
+    const response = await fetch(`${this.options.apiBase ?? "https://api.stripe.com"}${path}`, {
+      method: options.body ? "POST" : "GET",
+      headers,
+      body: options.body?.toString(),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`Stripe ${action} failed (${response.status}): ${result?.error?.message ?? "unknown error"}`);
+    }
+    return result;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders, now: Date = new Date()): PaymentWebhookEvent | null {
+    this.verifySignature(rawBody, headers["stripe-signature"], now);
+
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentWebhookError("Webhook body is not valid JSON");
+    }
+
+    const session = event?.data?.object;
+    switch (event?.type) {
+      case "checkout.session.completed":
+        // Delayed methods (bank debits) complete unpaid and report the outcome in a later async_payment event
+        return session.payment_status === "paid" ? { reference: session.id, status: "succeeded" } : null;
+      case "checkout.session.async_payment_succeeded":
+        return { reference: session.id, status: "succeeded" };
+      case "checkout.session.async_payment_failed":
+        return { reference: session.id, status: "failed", failureReason: "The payment was declined" };
+      case "checkout.session.expired":
+        return { reference: session.id, status: "failed", failureReason: "The checkout expired before it was paid" };
+      default:
+        return null;
+    }
+  }
+
+  // Stripe-Signature is "t=<unix time>,v1=<hex hmac>[,v1=...]", signed over "<t>.<raw body>"
+  private verifySignature(rawBody: Buffer, header: string | string[] | undefined, now: Date): void {
+    if (typeof header !== "string") {
+      throw new PaymentWebhookError("Missing Stripe-Signature header");
+    }
+    const parts = header.split(",").map(part => part.split("="));
+    const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+    const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+    if (!timestamp || signatures.length === 0) {
+      throw new PaymentWebhookError("Malformed Stripe-Signature header");
+    }
+    if (Math.abs(now.getTime() / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+      throw new PaymentWebhookError("Webhook signature has expired");
+    }
+
+    const expected = createHmac("sha256", this.options.webhookSecret)
+      .update(`${timestamp}.${rawBody.toString("utf8")}`)
+      .digest();
+    const matches = signatures.some(signature => {
+      const actual = Buffer.from(signature, "hex");
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+    if (!matches) {
+      throw new PaymentWebhookError("Webhook signature does not match");
+    }
+  }
+}
+
+// Keeps checkouts in memory for tests and local development. Its webhook takes an unsigned
+// {"reference", "status"} body, so a payment can be completed with a plain POST.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly checkouts = new Map<string, CheckoutRequest>();
+  readonly refunds: { reference: string; amount: number }[] = [];
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    const reference = `fake_${randomUUID()}`;
+    this.checkouts.set(reference, request);
+    // There is no payment page; go straight back to the app as if the parent had paid
+    return { reference, url: request.successUrl };
+  }
+
+  async refund(reference: string, amount: number): Promise<void> {
+    if (!this.checkouts.has(reference)) {
+      throw new Error(`Unknown checkout ${reference}`);
+    }
+    this.refunds.push({ reference, amount });
+  }
+
+  parseWebhook(rawBody: Buffer): PaymentWebhookEvent | null {
+    let body;
+    try {
+      body = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentWebhookError("Webhook body is not valid JSON");
+    }
+    if (typeof body?.reference !== "string" || (body.status !== "succeeded" && body.status !== "failed")) {
+      throw new PaymentWebhookError('Expected {"reference": string, "status": "succeeded" | "failed"}');
+    }
+    if (!this.checkouts.has(body.reference)) return null;
+    return { reference: body.reference, status: body.status, failureReason: body.failureReason };
+  }
+
+  // Body of the webhook the fake provider expects for one of its checkouts
+  webhookBody(reference: string, status: PaymentWebhookEvent["status"], failureReason?: string): Buffer {
+    return Buffer.from(JSON.stringify({ reference, status, failureReason }));
+  }
+}
+
+// Creates the provider when a payment is first taken, refunded or confirmed, so a deployment without
+// paid services starts without payment settings and a missing one fails that request instead of the boot
+export class LazyPaymentProvider implements PaymentProvider {
+  private provider?: PaymentProvider;
+
+  constructor(private create: () => PaymentProvider) {}
+
+  private get instance(): PaymentProvider {
+    return (this.provider ??= this.create());
+  }
+
+  get name(): string {
+    return this.instance.name;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    return this.instance.createCheckout(request);
+  }
+
+  async refund(reference: string, amount: number): Promise<void> {
+    return this.instance.refund(reference, amount);
+  }
+
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null {
+    return this.instance.parseWebhook(rawBody, headers);
+  }
+}
+
+// Pick the provider from PAYMENT_PROVIDER ("stripe" or "fake").
+// Without it, Stripe is used when STRIPE_SECRET_KEY is configured and the fake provider otherwise,
+// except in production: the fake provider takes no money, so it has to be asked for explicitly there.
+export function createPaymentProvider(env: NodeJS.ProcessEnv = process.env): PaymentProvider {
+  const kind = env.PAYMENT_PROVIDER || (env.STRIPE_SECRET_KEY ? "stripe" : env.NODE_ENV === "production" ? undefined : "fake");
+  if (!kind) {
+    throw new Error("No payment provider configured: set STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET, or PAYMENT_PROVIDER=fake to run without taking payments");
+  }
+
+  switch (kind) {
+    case "stripe":
+      if (!env.STRIPE_SECRET_KEY || !env.STRIPE_WEBHOOK_SECRET) {
+        throw new Error("STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET must be set to take payments with Stripe");
+      }
+      return new StripePaymentProvider({ secretKey: env.STRIPE_SECRET_KEY, webhookSecret: env.STRIPE_WEBHOOK_SECRET });
+    case "fake":
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${kind}"`);
+  }
+}
@@ -0,0 +1,146 @@
+import { storage } from "./storage";
+import { notificationService } from "./notifications";
+import { promoteWaitlist } from "./waitlist";
+import { userHasPermission } from "./auth";
+import { createPaymentProvider, LazyPaymentProvider, type PaymentProvider, type WebhookHeaders } from "./paymentProviders";
+import { registrationTakesSeat, type CreditPurchase, type Event, type EventRegistration, type Payment } from "@shared/schema";
+
+export class PaymentService {
+  constructor(private provider: PaymentProvider) {}
+
+  // Open a checkout for a pending registration's services cost. An unfinished checkout is reused
+  // so a parent who comes back to pay can't end up paying twice.
+  async startCheckout(registration: EventRegistration, event: Event, baseUrl: string): Promise<Payment> {
+    const pending = await storage.getPendingPayment(registration.id);
+    if (pending) return pending;
+
+    // Parent ids are Replit ids for Replit OAuth users
+    const parent = (await storage.getUser(registration.parentId)) ?? (await storage.getUserByReplitId(registration.parentId));
+    const checkout = await this.provider.createCheckout({
+      registrationId: registration.id,
+      amount: registration.servicesCost,
+      currency: event.servicesCurrency,
+      description: `Extra services for ${event.name}`,
+      customerEmail: parent?.email,
+      successUrl: `${baseUrl}/?payment=success&registration=${registration.id}`,
+      cancelUrl: `${baseUrl}/?payment=cancelled&registration=${registration.id}`,
+    });
+
+    return await storage.createPayment({
+      registrationId: registration.id,
+      provider: this.provider.name,
+      providerReference: checkout.reference,
+      amount: registration.servicesCost,
+      currency: event.servicesCurrency,
+      checkoutUrl: checkout.url,
+    });
+  }
+
+  // Open a checkout for a pending credit purchase. Each purchase gets a single checkout; buying again
+  // starts a new purchase.
+  async startCreditPurchaseCheckout(purchase: CreditPurchase, baseUrl: string): Promise<Payment> {
+    const buyer = (await storage.getUser(purchase.userId)) ?? (await storage.getUserByReplitId(purchase.userId));
+    const checkout = await this.provider.createCheckout({
+      creditPurchaseId: purchase.id,
+      amount: purchase.amount,
+      currency: purchase.currency,
+      description: `${purchase.packageName} (${purchase.credits} credits)`,
+      customerEmail: buyer?.email,
+      successUrl: `${baseUrl}/?payment=success&purchase=${purchase.id}`,
+      cancelUrl: `${baseUrl}/?payment=cancelled&purchase=${purchase.id}`,
+    });
+
+    return await storage.createPayment({
+      creditPurchaseId: purchase.id,
+      provider: this.provider.name,
+      providerReference: checkout.reference,
+      amount: purchase.amount,
+      currency: purchase.currency,
+      checkoutUrl: checkout.url,
+    });
+  }
+
+  // Apply a provider webhook. Paid registrations are confirmed and paid credit purchases are added to
+  // the balance; failed or expired checkouts release the registration's seat and credits.
+  // Repeated webhooks for a completed payment are ignored.
+  async handleWebhook(rawBody: Buffer, headers: WebhookHeaders): Promise<Payment | undefined> {
+    const outcome = this.provider.parseWebhook(rawBody, headers);
+    if (!outcome) return undefined;
+
+    const payment = await storage.getPaymentByReference(this.provider.name, outcome.reference);
+    if (!payment) return undefined;
+
+    const completed = await storage.completePayment(payment.id, outcome.status, outcome.failureReason ?? null);
+    if (!completed) return undefined;
+
+    if (payment.creditPurchaseId) {
+      if (completed.creditPurchase?.status === "completed") {
+        // Sent in the background; failures are logged
+        notificationService.creditReceipt(completed.creditPurchase);
+      }
+      return completed.payment;
+    }
+
+    if (!completed.registration) {
+      // Cancelled (or already settled) while the parent was paying; nothing was bought, so give the money back
+      if (outcome.status === "succeeded") {
+        await this.refundPayment(completed.payment, completed.payment.amount);
+      }
+      return completed.payment;
+    }
+
+    if (outcome.status === "succeeded") {
+      // Sent in the background; failures are logged
+      notificationService.registrationConfirmed(completed.registration);
+    } else {
+      await this.releaseRegistration(completed.registration);
+    }
+    return completed.payment;
+  }
+
+  // Refund services paid online for a cancelled registration. Returns the amount refunded: 0 when nothing
+  // was paid online or the refund has to be made by hand.
+  async refundRegistrationServices(registrationId: string, amount: number): Promise<number> {
+    const payment = await storage.getSucceededPayment(registrationId);
+    if (!payment || amount <= 0) return 0;
+    return await this.refundPayment(payment, Math.min(amount, payment.amount));
+  }
+
+  // Refund through the provider. If it refuses, the payment is marked refund_required so the money
+  // is returned by hand from the provider's dashboard.
+  async refundPayment(payment: Payment, amount: number): Promise<number> {
+    try {
+      await this.provider.refund(payment.providerReference, amount);
+      await storage.recordPaymentRefund(payment.id, "refunded");
+      return amount;
+    } catch (error) {
+      console.error(`Refund of payment ${payment.id} failed; it needs a manual refund:`, error);
+      await storage.recordPaymentRefund(payment.id, "refund_required");
+      return 0;
+    }
+  }
+
+  // Give back what an unpaid registration held: its seat and, in full, its credits
+  async releaseRegistration(registration: EventRegistration): Promise<void> {
+    const event = await storage.getEvent(registration.eventId);
+    const parent = (await storage.getUser(registration.parentId)) ?? (await storage.getUserByReplitId(registration.parentId));
+
+    if (event && registrationTakesSeat(registration, await userHasPermission(parent, "events.attendWithoutSeat"))) {
+      await storage.updateEventSeats(event.id, 1);
+    }
+    if (registration.creditsCost > 0) {
+      await storage.createCreditTransaction({
+        userId: registration.parentId,
+        amount: registration.creditsCost,
+        type: "refund",
+        description: `Unpaid registration${event ? ` for ${event.name}` : ""}`,
+        registrationId: registration.id,
+      });
+    }
+    if (event) {
+      await promoteWaitlist(event.id);
+    }
+  }
+}
+
+export const paymentService = new PaymentService(new LazyPaymentProvider(() => createPaymentProvider()));
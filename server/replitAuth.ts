@@ -6,6 +6,7 @@ import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
 import { storage } from "./storage";
 
 if (!process.env.REPLIT_DOMAINS) {
@@ -24,13 +25,17 @@ const getOidcConfig = memoize(
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  // Sessions live with the rest of the data: in process memory under STORAGE=memory, otherwise in Postgres
   const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
+  const MemoryStore = createMemoryStore(session);
+  const sessionStore = process.env.STORAGE === "memory"
+    ? new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }) // Prune expired sessions daily
+    : new pgStore({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: false,
+        ttl: sessionTtl,
+        tableName: "sessions",
+      });
   return session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
@@ -179,26 +184,3 @@ export const isReplitAuthenticated: RequestHandler = async (req, res, next) => {
     return;
   }
 };
-
-export const createIsAdminMiddleware = (storage: any): RequestHandler => {
-  return async (req, res, next) => {
-    const user = req.user as any;
-    
-    if (!req.isAuthenticated() || !user.claims) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    try {
-      const userId = user.claims.sub;
-      const dbUser = await storage.getUser(userId);
-      
-      if (!dbUser || dbUser.role !== "admin") {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      return next();
-    } catch (error) {
-      return res.status(500).json({ message: "Failed to verify admin status" });
-    }
-  };
-};
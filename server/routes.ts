@@ -1,28 +1,79 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, BookingError } from "./storage";
+import { promoteWaitlist } from "./waitlist";
+import { paymentService } from "./payments";
+import { PaymentWebhookError } from "./paymentProviders";
+import { buildCalendar } from "./ical";
+import { notificationService } from "./notifications";
+import { recordAudit } from "./audit";
+import { withoutToken, getChildAccess, getSharedChildren, getSharedRegistrations, getSharedRegistrationDetails, HOUSEHOLD_INVITATION_TTL_MS } from "./households";
+import { parseImportFile, prepareEventImport, ImportFileError } from "./eventImport";
+import { renderExport, exportFilename, rosterColumns, registrationColumns, EXPORT_CONTENT_TYPES, type ExportFormat } from "./export";
+import { createSignedToken, verifySignedToken, tokenBinding, EMAIL_VERIFICATION_TTL_MS, PASSWORD_RESET_TTL_MS } from "./tokens";
 import { setupAuth, isReplitAuthenticated } from "./replitAuth";
-import { setupLocalAuth, isAuthenticated, createIsAdminMiddleware, hashPassword, validateSignup, validateLogin } from "./auth";
-import { insertChildSchema, insertEventRegistrationSchema, insertEventSchema, updateUserSchema, isUserProfileComplete, type SignupData, type LoginData } from "@shared/schema";
+import { setupLocalAuth, isAuthenticated, requirePermission, getUserPermissions, userHasPermission, getUsersWithPermission, hashPassword, validateSignup, validateLogin } from "./auth";
+import { insertChildSchema, authorizedPickupInputSchema, insertEventRegistrationSchema, insertEventSchema, insertEventWaitlistSchema, updateUserSchema, updateNotificationPreferencesSchema, forgotPasswordSchema, resetPasswordSchema, creditAdjustmentSchema, insertCreditPackageSchema, updateCreditPackageSchema, creditPurchaseRequestSchema, householdInvitationRequestSchema, staffInvitationRequestSchema, staffSignupSchema, updateRolePermissionsSchema, updateHouseholdMemberSchema, auditLogQuerySchema, registrationExportQuerySchema, eventImportRequestSchema, insertEventTemplateSchema, updateEventTemplateSchema, saveEventAsTemplateSchema, recurrenceRuleSchema, eventEligibilitySchema, extraServicesSchema, attendanceActionSchema, isPickupAuthorized, getEligibilityIssues, generateOccurrences, templateFromEvent, isUserProfileComplete, registrationTakesSeat, USER_ROLES, formatReceiptNumber, calculateRegistrationRefund, calculateServicesCost, getServiceSelectionIssues, getServiceAvailability, type SignupData, type LoginData, type User, type Event, type EventRegistration, type HouseholdOverview, type StaffInvitation, type StaffInvitationSummary, type EventImportResult, type InsertEventTemplate } from "@shared/schema";
 import { z } from "zod";
 import passport from "passport";
+import { randomBytes } from "crypto";
+import { format } from "date-fns";
+
+const authorizedPickupListSchema = z.array(authorizedPickupInputSchema).optional();
 
 const registrationSchema = insertEventRegistrationSchema.extend({
   eventId: z.string().min(1, "Event ID is required"),
   childId: z.string().nullable(), // Allow null for parent registrations
 });
 
+// Convert an optional numeric form value: missing stays undefined, blank clears to null
+function parseOptionalInteger(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  return Number(value);
+}
+
+// Absolute link to a client page carrying a signed token
+function tokenLink(req: Request, page: string, token: string): string {
+  return `${req.protocol}://${req.get("host")}/${page}?token=${encodeURIComponent(token)}`;
+}
+
+async function sendVerificationEmail(req: Request, user: User): Promise<void> {
+  const token = createSignedToken("verify_email", user.id, tokenBinding(user.email), EMAIL_VERIFICATION_TTL_MS);
+  await notificationService.sendAccountEmail(user, "verify_email", tokenLink(req, "verify-email", token));
+}
+
+// Staff invitation as listed to admins, with expiry worked out from expiresAt
+function summarizeStaffInvitation(invitation: StaffInvitation, now: Date = new Date()): StaffInvitationSummary {
+  const { token: _token, ...rest } = invitation;
+  return { ...rest, expired: new Date(invitation.expiresAt) < now };
+}
+
+// Whoever made a registration or waitlist entry can pay for, cancel or remove it, and so can the child's other full guardians
+async function canManageRegistration(userId: string, registration: Pick<EventRegistration, "parentId" | "childId">): Promise<boolean> {
+  if (registration.parentId === userId) return true;
+  if (!registration.childId) return false;
+  const child = await storage.getChild(registration.childId);
+  return !!child && (await getChildAccess(userId, child)) === "full";
+}
+
+// 400 body for a registration that overlaps another event the same person is registered for
+function scheduleConflict(conflict: Event, registrantName: string | null) {
+  return {
+    message: `Schedule conflict: ${registrantName ?? "you"} ${registrantName ? "is" : "are"} registered for ${conflict.name} at the same time`,
+    conflictingEvent: { id: conflict.id, name: conflict.name, startTime: conflict.startTime, endTime: conflict.endTime },
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication strategies
   await setupAuth(app); // Replit OAuth
   setupLocalAuth(); // Email/password auth
 
-  // Create admin middleware
-  const isAdmin = createIsAdminMiddleware();
-
-  // Seed events and admin user on startup
+  // Seed events, admin user and role permissions on startup
   await storage.seedEvents();
   await storage.seedAdminUser();
+  await storage.seedRolePermissions();
 
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
@@ -37,7 +88,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Email/password user
         user = req.user;
       }
-      res.json(user);
+      // The client hides the controls the user's role doesn't grant
+      const permissions = await getUserPermissions(user);
+      res.json(user && { ...user, permissions });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -66,9 +119,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastName: signupData.lastName,
         phone: signupData.phone,
         authType: "email",
-        isEmailVerified: false, // TODO: Implement email verification
+        isEmailVerified: false, // Set by the link in the verification email
       });
 
+      sendVerificationEmail(req, newUser).catch(error => console.error("Error sending verification email:", error));
+
       // Log user in automatically
       req.login(newUser, (err) => {
         if (err) {
@@ -144,6 +199,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Forgot password - always answers the same way so it can't be used to probe for accounts
+  app.post('/api/auth/forgot-password', async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      // Sent in the background with failures logged, so the response is the same whether or not the account exists
+      const user = await storage.getUserByEmail(email);
+      if (user && user.authType === "email" && user.password) {
+        const token = createSignedToken("password_reset", user.id, tokenBinding(user.password), PASSWORD_RESET_TTL_MS);
+        notificationService.sendAccountEmail(user, "password_reset", tokenLink(req, "reset-password", token))
+          .catch(error => console.error("Error sending password reset email:", error));
+      }
+
+      res.json({ message: "If an account exists for this email, a reset link has been sent" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to send reset email" });
+    }
+  });
+
+  app.post('/api/auth/reset-password', async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      // The token is bound to the current password hash, so it stops working once used
+      const verified = verifySignedToken(token, "password_reset");
+      const user = verified ? await storage.getUser(verified.userId) : undefined;
+      if (!verified || !user || !user.password || verified.binding !== tokenBinding(user.password)) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(password) });
+      res.json({ message: "Password updated. You can now sign in." });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reset data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.post('/api/auth/verify-email', async (req, res) => {
+    try {
+      const token = typeof req.body.token === "string" ? req.body.token : "";
+
+      // The token is bound to the address it was sent to
+      const verified = verifySignedToken(token, "verify_email");
+      const user = verified ? await storage.getUser(verified.userId) : undefined;
+      if (!verified || !user || verified.binding !== tokenBinding(user.email)) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      if (!user.isEmailVerified) {
+        await storage.updateUser(user.id, { isEmailVerified: true });
+      }
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post('/api/auth/resend-verification', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit accounts come with an address verified by Replit
+      if (req.user.claims) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.isEmailVerified) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+
+      await sendVerificationEmail(req, user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Staff invite links: public, so the invitee can look the invitation up and create their account
+  app.get('/api/staff-invitations/:token', async (req, res) => {
+    try {
+      const invitation = await storage.getStaffInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const { email, role, status, expired } = summarizeStaffInvitation(invitation);
+      res.json({ email, role, status, expired });
+    } catch (error) {
+      console.error("Error fetching staff invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post('/api/staff-invitations/:token/signup', async (req, res) => {
+    try {
+      const invitation = await storage.getStaffInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.status !== "pending") {
+        return res.status(400).json({ message: "This invitation has already been used or was revoked" });
+      }
+      if (new Date(invitation.expiresAt) < new Date()) {
+        return res.status(400).json({ message: "This invitation has expired. Ask an admin for a new one." });
+      }
+
+      const signupData = staffSignupSchema.parse(req.body);
+      if (await storage.getUserByEmail(invitation.email)) {
+        return res.status(400).json({ message: "An account with this email already exists. Ask an admin to change its role instead." });
+      }
+
+      // The invite link went to this address, so it counts as verified
+      const newUser = await storage.acceptStaffInvitation(invitation.id, {
+        password: await hashPassword(signupData.password),
+        firstName: signupData.firstName,
+        lastName: signupData.lastName,
+        phone: signupData.phone,
+        authType: "email",
+        isEmailVerified: true,
+      });
+      if (!newUser) {
+        return res.status(400).json({ message: "This invitation has already been used or was revoked" });
+      }
+
+      req.login(newUser, (err) => {
+        if (err) {
+          return res.status(500).json({ message: "Failed to log in after signup" });
+        }
+        res.status(201).json({
+          message: "Account created successfully",
+          user: {
+            id: newUser.id,
+            email: newUser.email,
+            firstName: newUser.firstName,
+            lastName: newUser.lastName,
+            phone: newUser.phone,
+            role: newUser.role,
+            isEmailVerified: newUser.isEmailVerified,
+          }
+        });
+      });
+    } catch (error) {
+      console.error("Error signing up with staff invitation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid signup data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
   app.put('/api/profile', isAuthenticated, async (req: any, res) => {
     try {
       // Handle both email/password and Replit auth users
@@ -156,12 +372,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId = req.user.id;
       }
       
-      const profileData = updateUserSchema.parse(req.body);
+      // Verification is only ever set by the verification link
+      const { isEmailVerified, ...profileData } = updateUserSchema.parse(req.body);
+
+      // A new address has to be verified again
+      const emailChanged = !req.user.claims && profileData.email !== undefined && profileData.email !== req.user.email;
       
-      const updatedUser = await storage.updateUser(userId, profileData);
+      const updatedUser = await storage.updateUser(userId, emailChanged ? { ...profileData, isEmailVerified: false } : profileData);
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+
+      if (emailChanged) {
+        sendVerificationEmail(req, updatedUser).catch(error => console.error("Error sending verification email:", error));
+      }
       
       res.json(updatedUser);
     } catch (error) {
@@ -173,6 +397,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let user;
+      if (req.user.claims) {
+        // Replit OAuth user
+        user = await storage.getUserByReplitId(req.user.claims.sub);
+      } else {
+        // Email/password user
+        user = req.user;
+      }
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const preferences = await storage.getNotificationPreferences(user.id);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let user;
+      if (req.user.claims) {
+        // Replit OAuth user
+        user = await storage.getUserByReplitId(req.user.claims.sub);
+      } else {
+        // Email/password user
+        user = req.user;
+      }
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const preferences = updateNotificationPreferencesSchema.parse(req.body);
+      const updated = await storage.updateNotificationPreferences(user.id, preferences);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
   // Events routes - filtered for regular users
   app.get('/api/events', async (req, res) => {
     try {
@@ -185,7 +459,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin events route - shows all events including past and editing status
-  app.get('/api/admin/events', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/admin/events', isAuthenticated, requirePermission("events.edit"), async (req, res) => {
     try {
       const events = await storage.getAllEventsForAdmin();
       res.json(events);
@@ -208,8 +482,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Extra services of an event with how many places each has taken and left
+  app.get('/api/events/:id/services', isAuthenticated, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const bookingCounts = await storage.getServiceBookingCounts(event.id);
+      res.json(getServiceAvailability(event, bookingCounts));
+    } catch (error) {
+      console.error("Error fetching event services:", error);
+      res.status(500).json({ message: "Failed to fetch event services" });
+    }
+  });
+
   // Supervised events route for staff and admin
-  app.get('/api/supervised-events', isAuthenticated, async (req: any, res) => {
+  app.get('/api/supervised-events', isAuthenticated, requirePermission("roster.view"), async (req: any, res) => {
     try {
       // Handle both email/password and Replit auth users
       let userId;
@@ -221,15 +510,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId = req.user.id;
       }
 
-      // Check if user is staff or admin
-      const user = req.user.claims 
-        ? await storage.getUserByReplitId(userId) 
-        : await storage.getUser(userId);
-      
-      if (!user || (user.role !== 'staff' && user.role !== 'admin')) {
-        return res.status(403).json({ message: "Access denied. Staff or admin role required." });
-      }
-
       const supervisedEvents = await storage.getSupervisedEventsByStaff(userId);
       res.json(supervisedEvents);
     } catch (error) {
@@ -238,17 +518,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Attendance routes for supervising staff
+  app.get('/api/staff/events/:eventId/roster', isAuthenticated, requirePermission("roster.view"), async (req: any, res) => {
+    try {
+      const staffUser = req.user.claims 
+        ? await storage.getUserByReplitId(req.user.claims.sub) 
+        : req.user;
+
+      const event = await storage.getEvent(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      // Supervisors see their events' rosters; roster.viewAll opens every event's
+      if (!(await userHasPermission(staffUser, "roster.viewAll")) && !(await storage.isEventSupervisor(event.id, staffUser.id))) {
+        return res.status(403).json({ message: "You are not supervising this event" });
+      }
+
+      const roster = await storage.getEventRoster(event.id);
+      res.json(roster);
+    } catch (error) {
+      console.error("Error fetching event roster:", error);
+      res.status(500).json({ message: "Failed to fetch event roster" });
+    }
+  });
+
+  app.post('/api/staff/registrations/:registrationId/attendance', isAuthenticated, requirePermission("attendance.record"), async (req: any, res) => {
+    try {
+      const staffUser = req.user.claims 
+        ? await storage.getUserByReplitId(req.user.claims.sub) 
+        : req.user;
+
+      const { action, pickupId, releasedToParent } = attendanceActionSchema.parse(req.body);
+
+      const registration = await storage.getEventRegistration(req.params.registrationId);
+      if (!registration || registration.status === "cancelled") {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      if (!(await userHasPermission(staffUser, "roster.viewAll")) && !(await storage.isEventSupervisor(registration.eventId, staffUser.id))) {
+        return res.status(403).json({ message: "You are not supervising this event" });
+      }
+
+      const current = await storage.getAttendanceByRegistration(registration.id);
+
+      if (action === "reset") {
+        await storage.deleteAttendance(registration.id);
+        await recordAudit(req, { action: "attendance.reset", entityType: "registration", entityId: registration.id, before: current, after: null });
+        return res.json({ message: "Attendance cleared" });
+      }
+
+      const now = new Date();
+      const baseRecord = { registrationId: registration.id, eventId: registration.eventId };
+
+      let record;
+      if (action === "check_in") {
+        if (current?.status === "checked_in" || current?.status === "checked_out") {
+          return res.status(400).json({ message: "Already checked in" });
+        }
+        // A late arrival replaces an earlier no-show mark
+        record = { ...baseRecord, status: "checked_in" as const, checkedInAt: now, checkedInBy: staffUser.id, noShowMarkedAt: null, noShowMarkedBy: null };
+      } else if (action === "check_out") {
+        if (current?.status !== "checked_in") {
+          return res.status(400).json({ message: "Must be checked in before checking out" });
+        }
+        // Children may only be released to their parent or a currently authorized pickup person
+        let releasedToPickupId = null;
+        let releasedToName = null;
+        if (registration.childId) {
+          if (pickupId) {
+            const pickup = await storage.getAuthorizedPickup(pickupId);
+            if (!pickup || pickup.childId !== registration.childId || !isPickupAuthorized(pickup, now)) {
+              return res.status(400).json({ message: "This person is not authorized to collect the child today" });
+            }
+            releasedToPickupId = pickup.id;
+            releasedToName = `${pickup.name} (${pickup.relation})`;
+          } else if (releasedToParent) {
+            const parent = (await storage.getUser(registration.parentId)) ?? (await storage.getUserByReplitId(registration.parentId));
+            releasedToName = parent ? `${parent.firstName} ${parent.lastName} (Parent)` : "Parent";
+          } else {
+            return res.status(400).json({ message: "Select who is collecting the child" });
+          }
+        }
+        record = { ...baseRecord, status: "checked_out" as const, checkedOutAt: now, checkedOutBy: staffUser.id, releasedToPickupId, releasedToName };
+      } else {
+        if (current && current.status !== "no_show") {
+          return res.status(400).json({ message: "Cannot mark a checked-in attendee as a no-show" });
+        }
+        record = { ...baseRecord, status: "no_show" as const, noShowMarkedAt: now, noShowMarkedBy: staffUser.id };
+      }
+
+      const saved = await storage.upsertAttendance(record);
+      await recordAudit(req, { action: "attendance.record", entityType: "registration", entityId: registration.id, before: current, after: saved });
+      res.json(saved);
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid attendance action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record attendance" });
+    }
+  });
+
   // Event status management routes for admin
-  app.put('/api/admin/events/:id/status', isAuthenticated, isAdmin, async (req, res) => {
+  app.put('/api/admin/events/:id/status', isAuthenticated, requirePermission("events.edit"), async (req, res) => {
     try {
       const { status } = req.body;
       const eventId = req.params.id;
       
+      const existingEvent = await storage.getEvent(eventId);
       const updatedEvent = await storage.updateEventStatus(eventId, status);
       if (!updatedEvent) {
         return res.status(404).json({ message: "Event not found" });
       }
       
+      await recordAudit(req, { action: "event.status_change", entityType: "event", entityId: eventId, before: existingEvent, after: updatedEvent });
       res.json(updatedEvent);
     } catch (error) {
       console.error("Error updating event status:", error);
@@ -256,15 +640,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/admin/events/:id', isAuthenticated, isAdmin, async (req, res) => {
+  app.delete('/api/admin/events/:id', isAuthenticated, requirePermission("events.edit"), async (req, res) => {
     try {
       const eventId = req.params.id;
+      const existingEvent = await storage.getEvent(eventId);
       const success = await storage.softDeleteEvent(eventId);
       
       if (!success) {
         return res.status(404).json({ message: "Event not found" });
       }
       
+      await recordAudit(req, { action: "event.delete", entityType: "event", entityId: eventId, before: existingEvent, after: await storage.getEvent(eventId) });
+      notificationService.eventCancelled(eventId);
       res.json({ message: "Event deleted successfully" });
     } catch (error) {
       console.error("Error deleting event:", error);
@@ -272,15 +659,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/admin/events/:id/restore', isAuthenticated, isAdmin, async (req, res) => {
+  app.put('/api/admin/events/:id/restore', isAuthenticated, requirePermission("events.edit"), async (req, res) => {
     try {
       const eventId = req.params.id;
+      const existingEvent = await storage.getEvent(eventId);
       const success = await storage.restoreEvent(eventId);
       
       if (!success) {
         return res.status(404).json({ message: "Event not found" });
       }
       
+      await recordAudit(req, { action: "event.restore", entityType: "event", entityId: eventId, before: existingEvent, after: await storage.getEvent(eventId) });
       res.json({ message: "Event restored successfully" });
     } catch (error) {
       console.error("Error restoring event:", error);
@@ -289,36 +678,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update event route for admin
-  app.put('/api/admin/events/:id', isAuthenticated, isAdmin, async (req, res) => {
+  app.put('/api/admin/events/:id', isAuthenticated, requirePermission("events.edit"), async (req, res) => {
     try {
       const eventId = req.params.id;
-      const { staffIds, ...eventData } = req.body;
+      // Free seats follow bookings and capacity on the server; the client's copy may be stale
+      const { staffIds, scope, remainingSeats: _remainingSeats, ...eventData } = req.body;
       
-      // Convert startTime string to Date object before validation
+      // Convert startTime and endTime strings to Date objects before validation
       const processedEventData = {
         ...eventData,
         startTime: new Date(eventData.startTime),
+        endTime: new Date(eventData.endTime),
         maxSeats: Number(eventData.maxSeats),
-        remainingSeats: Number(eventData.remainingSeats),
         creditsRequired: Number(eventData.creditsRequired),
         cutoffHours: Number(eventData.cutoffHours),
-        extraServices: eventData.extraServices || [],
+        refundWindowHours: parseOptionalInteger(eventData.refundWindowHours),
+        extraServices: extraServicesSchema.parse(eventData.extraServices || []),
+        eligibility: eventData.eligibility === undefined ? undefined : eventEligibilitySchema.parse(eventData.eligibility),
       };
+
+      // Written this way round so a missing or invalid date is rejected too
+      if (!(processedEventData.endTime > processedEventData.startTime)) {
+        return res.status(400).json({ message: "The event must end after it starts" });
+      }
+
+      const existingEvent = await storage.getEvent(eventId);
+      if (!existingEvent) {
+        return res.status(404).json({ message: "Event not found" });
+      }
       
       const updatedEvent = await storage.updateEvent(eventId, processedEventData);
       if (!updatedEvent) {
         return res.status(404).json({ message: "Event not found" });
       }
 
+      // "future" applies the edit to the later occurrences of the series as well
+      const seriesEventsBefore = scope === "future" && existingEvent.seriesId
+        ? await storage.getSeriesEventsAfter(existingEvent)
+        : [];
+      const seriesEvents = scope === "future" && existingEvent.seriesId
+        ? await storage.updateSeriesEventsAfter(
+            existingEvent,
+            processedEventData,
+            {
+              startMs: updatedEvent.startTime.getTime() - existingEvent.startTime.getTime(),
+              endMs: updatedEvent.endTime.getTime() - existingEvent.endTime.getTime(),
+            },
+            updatedEvent.maxSeats - existingEvent.maxSeats,
+          )
+        : [];
+
       // Handle supervisor updates if staffIds provided
       if (Array.isArray(staffIds)) {
         // Remove existing supervisors and add new ones
         await storage.updateEventSupervisors(eventId, staffIds);
+        for (const seriesEvent of seriesEvents) {
+          await storage.updateEventSupervisors(seriesEvent.id, staffIds);
+        }
+      }
+
+      await recordAudit(req, { action: "event.update", entityType: "event", entityId: eventId, before: existingEvent, after: updatedEvent });
+      for (const seriesEvent of seriesEvents) {
+        const before = seriesEventsBefore.find(event => event.id === seriesEvent.id);
+        await recordAudit(req, { action: "event.update", entityType: "event", entityId: seriesEvent.id, before, after: seriesEvent });
+      }
+
+      // Let registered parents know about changed times or places
+      notificationService.eventChanged(existingEvent, updatedEvent);
+      for (const seriesEvent of seriesEvents) {
+        const before = seriesEventsBefore.find(event => event.id === seriesEvent.id);
+        if (before) notificationService.eventChanged(before, seriesEvent);
+      }
+
+      for (const seriesEvent of seriesEvents) {
+        await promoteWaitlist(seriesEvent.id);
+      }
+
+      // Seats added by a larger capacity (counted by updateEvent) go to the waitlist first
+      const promoted = await promoteWaitlist(eventId);
+      if (promoted.length > 0) {
+        return res.json(await storage.getEvent(eventId));
       }
       
       res.json(updatedEvent);
     } catch (error) {
       console.error("Error updating event:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update event" });
     }
   });
@@ -336,7 +783,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId = req.user.id;
       }
       
-      const children = await storage.getChildrenByParentId(userId);
+      // Includes the children of the other guardians in the user's household
+      const children = await getSharedChildren(userId);
       res.json(children);
     } catch (error) {
       console.error("Error fetching children:", error);
@@ -374,8 +822,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         parentId: userId,
       });
+      const pickups = authorizedPickupListSchema.parse(req.body.authorizedPickups);
       
       const newChild = await storage.createChild(childData);
+      if (pickups) {
+        await storage.replaceAuthorizedPickups(newChild.id, pickups);
+      }
       res.status(201).json(newChild);
     } catch (error) {
       console.error("Error creating child:", error);
@@ -400,18 +852,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const childId = req.params.id;
       
-      // Verify child belongs to user
+      // Verify the user is a guardian of the child who may change it
       const existingChild = await storage.getChild(childId);
-      if (!existingChild || existingChild.parentId !== userId) {
+      const access = existingChild ? await getChildAccess(userId, existingChild) : null;
+      if (!access) {
         return res.status(404).json({ message: "Child not found" });
       }
+      if (access !== "full") {
+        return res.status(403).json({ message: "You have view-only access to this child" });
+      }
       
       const childData = insertChildSchema.partial().parse(req.body);
+      const pickups = authorizedPickupListSchema.parse(req.body.authorizedPickups);
       const updatedChild = await storage.updateChild(childId, childData);
       
       if (!updatedChild) {
         return res.status(404).json({ message: "Child not found" });
       }
+
+      // The pickup list is only replaced when it is sent
+      if (pickups) {
+        await storage.replaceAuthorizedPickups(childId, pickups);
+      }
       
       res.json(updatedChild);
     } catch (error) {
@@ -423,6 +885,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/children/:id/pickups', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      // Verify the user is one of the child's guardians
+      const child = await storage.getChild(req.params.id);
+      if (!child || !(await getChildAccess(userId, child))) {
+        return res.status(404).json({ message: "Child not found" });
+      }
+
+      const pickups = await storage.getAuthorizedPickupsByChild(child.id);
+      res.json(pickups);
+    } catch (error) {
+      console.error("Error fetching authorized pickups:", error);
+      res.status(500).json({ message: "Failed to fetch authorized pickups" });
+    }
+  });
+
   app.delete('/api/children/:id', isAuthenticated, async (req: any, res) => {
     try {
       // Handle both email/password and Replit auth users
@@ -437,11 +925,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const childId = req.params.id;
       
-      // Verify child belongs to user
+      // Verify the user is a guardian of the child who may change it
       const existingChild = await storage.getChild(childId);
-      if (!existingChild || existingChild.parentId !== userId) {
+      const access = existingChild ? await getChildAccess(userId, existingChild) : null;
+      if (!access) {
         return res.status(404).json({ message: "Child not found" });
       }
+      if (access !== "full") {
+        return res.status(403).json({ message: "You have view-only access to this child" });
+      }
       
       const deleted = await storage.deleteChild(childId);
       if (!deleted) {
@@ -455,34 +947,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Event registration routes
-  app.post('/api/events/:eventId/register', isAuthenticated, async (req: any, res) => {
+  // Household routes: guardians in one household share their children and the children's registrations
+  app.get('/api/household', isAuthenticated, async (req: any, res) => {
     try {
-      // Handle both email/password and Replit auth users
-      let userId;
-      if (req.user.claims) {
-        // Replit OAuth user
-        userId = req.user.claims.sub;
-      } else {
-        // Email/password user
-        userId = req.user.id;
-      }
-      
-      const eventId = req.params.eventId;
-      
-      const registrationData = registrationSchema.parse({
-        eventId,
-        childId: req.body.childId || null,
-        parentId: userId,
-        selectedServices: req.body.selectedServices || [],
-      });
-
-      // Check if event exists and has seats available
-      const event = await storage.getEvent(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      if (!account) {
+        return res.status(404).json({ message: "User not found" });
       }
 
+      // Users who haven't invited anyone yet are the only full guardian of their own children
+      const membership = await storage.getHouseholdMembership(account.id);
+      const overview: HouseholdOverview = membership
+        ? {
+            members: await storage.getHouseholdMembers(membership.householdId),
+            invitations: (await storage.getPendingHouseholdInvitations(membership.householdId)).map(withoutToken),
+            permission: membership.permission,
+          }
+        : { members: [], invitations: [], permission: "full" };
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching household:", error);
+      res.status(500).json({ message: "Failed to fetch household" });
+    }
+  });
+
+  app.post('/api/household/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      if (!account) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { email, permission } = householdInvitationRequestSchema.parse(req.body);
+      if (email === account.email?.toLowerCase()) {
+        return res.status(400).json({ message: "You can't invite yourself" });
+      }
+
+      // The household is created with the first invitation
+      const membership = (await storage.getHouseholdMembership(account.id)) ?? (await storage.createHousehold(account.id));
+      if (membership.permission !== "full") {
+        return res.status(403).json({ message: "Only full guardians can invite others to the household" });
+      }
+
+      const members = await storage.getHouseholdMembers(membership.householdId);
+      if (members.some(member => member.email?.toLowerCase() === email)) {
+        return res.status(400).json({ message: `${email} is already in your household` });
+      }
+      const pending = await storage.getPendingHouseholdInvitations(membership.householdId);
+      if (pending.some(invitation => invitation.email === email)) {
+        return res.status(400).json({ message: `An invitation has already been sent to ${email}` });
+      }
+
+      const invitation = await storage.createHouseholdInvitation({
+        householdId: membership.householdId,
+        email,
+        permission,
+        token: randomBytes(24).toString("hex"),
+        invitedBy: account.id,
+        expiresAt: new Date(Date.now() + HOUSEHOLD_INVITATION_TTL_MS),
+      });
+
+      // Sent in the background; failures are logged
+      const inviterName = [account.firstName, account.lastName].filter(Boolean).join(" ") || account.email || "A parent";
+      notificationService.householdInvitation(invitation, inviterName, tokenLink(req, "household-invite", invitation.token));
+
+      res.status(201).json(withoutToken(invitation));
+    } catch (error) {
+      console.error("Error creating household invitation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invitation data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to send invitation" });
+    }
+  });
+
+  app.delete('/api/household/invitations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const membership = account ? await storage.getHouseholdMembership(account.id) : undefined;
+
+      const invitation = await storage.getHouseholdInvitation(req.params.id);
+      if (!membership || !invitation || invitation.householdId !== membership.householdId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (membership.permission !== "full") {
+        return res.status(403).json({ message: "Only full guardians can revoke invitations" });
+      }
+
+      const revoked = await storage.closeHouseholdInvitation(invitation.id, "revoked");
+      if (!revoked) {
+        return res.status(400).json({ message: "This invitation is no longer pending" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking household invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Public, so the invitation page can show who is inviting before the invitee signs in or signs up
+  app.get('/api/household/invitations/:token', async (req, res) => {
+    try {
+      const invitation = await storage.getHouseholdInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const inviter = invitation.invitedBy ? await storage.getUser(invitation.invitedBy) : undefined;
+      res.json({
+        email: invitation.email,
+        permission: invitation.permission,
+        status: invitation.status,
+        inviterName: inviter ? [inviter.firstName, inviter.lastName].filter(Boolean).join(" ") || inviter.email : null,
+        expired: new Date(invitation.expiresAt) < new Date(),
+      });
+    } catch (error) {
+      console.error("Error fetching household invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post('/api/household/invitations/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      if (!account) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const invitation = await storage.getHouseholdInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.email !== account.email?.toLowerCase()) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+      if (invitation.status !== "pending") {
+        return res.status(400).json({ message: "This invitation is no longer pending" });
+      }
+      if (new Date(invitation.expiresAt) < new Date()) {
+        return res.status(400).json({ message: "This invitation has expired" });
+      }
+
+      // Someone sharing children with others has to leave that household first
+      const current = await storage.getHouseholdMembership(account.id);
+      if (current?.householdId === invitation.householdId) {
+        return res.status(400).json({ message: "You are already in this household" });
+      }
+      if (current && (await storage.getHouseholdMembers(current.householdId)).length > 1) {
+        return res.status(400).json({ message: "Leave your current household before joining another one" });
+      }
+
+      const member = await storage.acceptHouseholdInvitation(invitation.id, account.id);
+      if (!member) {
+        return res.status(400).json({ message: "This invitation is no longer pending" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error accepting household invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  app.post('/api/household/invitations/:token/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const invitation = await storage.getHouseholdInvitationByToken(req.params.token);
+      if (!account || !invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.email !== account.email?.toLowerCase()) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
+      const declined = await storage.closeHouseholdInvitation(invitation.id, "declined");
+      if (!declined) {
+        return res.status(400).json({ message: "This invitation is no longer pending" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error declining household invitation:", error);
+      res.status(500).json({ message: "Failed to decline invitation" });
+    }
+  });
+
+  app.patch('/api/household/members/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const membership = account ? await storage.getHouseholdMembership(account.id) : undefined;
+      const target = await storage.getHouseholdMembership(req.params.userId);
+      if (!account || !membership || !target || target.householdId !== membership.householdId) {
+        return res.status(404).json({ message: "Household member not found" });
+      }
+      if (membership.permission !== "full") {
+        return res.status(403).json({ message: "Only full guardians can change access" });
+      }
+      if (target.userId === account.id) {
+        return res.status(400).json({ message: "You can't change your own access" });
+      }
+
+      const { permission } = updateHouseholdMemberSchema.parse(req.body);
+      const updated = await storage.updateHouseholdMember(target.userId, permission);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating household member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid access level", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update household member" });
+    }
+  });
+
+  // Guardians can leave on their own; full guardians can also remove the others
+  app.delete('/api/household/members/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const account: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const membership = account ? await storage.getHouseholdMembership(account.id) : undefined;
+      const target = await storage.getHouseholdMembership(req.params.userId);
+      if (!account || !membership || !target || target.householdId !== membership.householdId) {
+        return res.status(404).json({ message: "Household member not found" });
+      }
+      if (target.userId !== account.id && membership.permission !== "full") {
+        return res.status(403).json({ message: "Only full guardians can remove others from the household" });
+      }
+
+      // Someone has to stay able to manage the children and the household
+      const members = await storage.getHouseholdMembers(membership.householdId);
+      const otherFullGuardians = members.filter(member => member.userId !== target.userId && member.permission === "full");
+      if (members.length > 1 && otherFullGuardians.length === 0) {
+        return res.status(400).json({ message: "Give another member full access before leaving the household" });
+      }
+
+      await storage.removeHouseholdMember(target.userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing household member:", error);
+      res.status(500).json({ message: "Failed to remove household member" });
+    }
+  });
+
+  // Event registration routes
+  app.post('/api/events/:eventId/register', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+      
+      // Optionally require a verified email before booking; Replit accounts are verified by Replit
+      if (process.env.REQUIRE_EMAIL_VERIFICATION === "true" && !req.user.claims && !req.user.isEmailVerified) {
+        return res.status(403).json({ message: "Please verify your email address before registering for events" });
+      }
+
+      const eventId = req.params.eventId;
+      
+      const registrationData = registrationSchema.parse({
+        eventId,
+        childId: req.body.childId || null,
+        parentId: userId,
+        selectedServices: req.body.selectedServices || [],
+      });
+
+      // Check if event exists and has seats available
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      // Early exit only; the booking transaction below re-checks the seat atomically
       if (event.remainingSeats <= 0) {
         return res.status(400).json({ message: "No seats available for this event" });
       }
@@ -494,6 +1237,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Registration deadline has passed" });
       }
 
+      const serviceIssues = getServiceSelectionIssues(event, registrationData.selectedServices ?? []);
+      if (serviceIssues.length > 0) {
+        return res.status(400).json({ message: serviceIssues.join("; "), reasons: serviceIssues });
+      }
+
       // Check allowed registrants - determine if this registration is allowed based on event settings
       const allowedRegistrants = event.allowedRegistrants || "attendee";
       const isChildRegistration = !!req.body.childId;
@@ -518,11 +1266,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Child is already registered for this event" });
         }
 
-        // Verify child belongs to parent
+        // Verify the parent is a guardian of the child who may register it
         const child = await storage.getChild(registrationData.childId!);
-        if (!child || child.parentId !== userId) {
+        const access = child ? await getChildAccess(userId, child) : null;
+        if (!child || !access) {
           return res.status(404).json({ message: "Child not found" });
         }
+        if (access !== "full") {
+          return res.status(403).json({ message: "You have view-only access to this child" });
+        }
+
+        const eligibilityIssues = getEligibilityIssues(child, event);
+        if (eligibilityIssues.length > 0) {
+          return res.status(400).json({
+            message: `${child.firstName} is not eligible for this event: ${eligibilityIssues.join("; ")}`,
+            reasons: eligibilityIssues,
+          });
+        }
+
+        const conflict = await storage.getConflictingEvent(userId, child.id, event);
+        if (conflict) {
+          return res.status(400).json(scheduleConflict(conflict, child.firstName));
+        }
       } else {
         // Parent registration logic
         // Check if parent is already registered for this event
@@ -534,6 +1299,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (isParentAlreadyRegistered) {
           return res.status(400).json({ message: "You are already registered for this event" });
         }
+
+        const conflict = await storage.getConflictingEvent(userId, null, event);
+        if (conflict) {
+          return res.status(400).json(scheduleConflict(conflict, null));
+        }
         
         // For parent registrations, childId should be null
         // We'll modify the data after validation since Zod expects a string
@@ -541,47 +1311,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Calculate costs separately
       const creditsCost = event.creditsRequired;
-      const servicesCost = (req.body.selectedServices || []).reduce((total: number, serviceIndex: number) => {
-        const service = event.extraServices?.[serviceIndex];
-        return total + (service ? Math.round(service.price * 100) : 0); // Convert to cents
-      }, 0);
+      const servicesCost = calculateServicesCost(event, registrationData.selectedServices ?? []); // In cents
 
-      // Create registration with costs and update seat count
       const registrationWithCosts = {
         ...registrationData,
         childId: isParentRegistration ? null : registrationData.childId,
         creditsCost,
-        servicesCost
+        servicesCost,
+        // Held until the services are paid for; the seat and credits are claimed now
+        status: servicesCost > 0 ? "pending_payment" as const : "confirmed" as const,
       };
-      const registration = await storage.createEventRegistration(registrationWithCosts);
-      
-      // Decrease seats for all child registrations, regardless of parent role
-      // Staff/admin registering their children should count toward seat limits
-      // Only staff supervising the event (registered as parent with no child) don't count
-      if (isChildRegistration) {
-        // Child registrations always count toward seat limits
-        await storage.updateEventSeats(eventId, -1);
-      } else {
-        // Parent/self registrations: only count if not admin/staff
-        let userRole;
-        if (req.user.claims) {
-          // Replit OAuth user
-          const user = await storage.getUserByReplitId(userId);
-          userRole = user?.role;
-        } else {
-          // Email/password user
-          userRole = req.user.role;
-        }
-        
-        // Only decrease seat count for parent registrations if not admin or staff
-        if (userRole !== 'admin' && userRole !== 'staff') {
-          await storage.updateEventSeats(eventId, -1);
+
+      // Child registrations always count toward seat limits. Registrants with events.attendWithoutSeat
+      // registering themselves are supervising and don't take a seat.
+      const registrant: User | undefined = req.user.claims ? await storage.getUserByReplitId(userId) : req.user;
+      const attendsWithoutSeat = await userHasPermission(registrant, "events.attendWithoutSeat");
+
+      // Credit check, seat decrement, registration insert and credit deduction run in one transaction
+      const registration = await storage.bookEventRegistration(registrationWithCosts, {
+        takesSeat: registrationTakesSeat(registrationWithCosts, attendsWithoutSeat),
+        spendDescription: `Registration for ${event.name}`,
+      });
+
+      if (registration.status === "pending_payment") {
+        let payment;
+        try {
+          payment = await paymentService.startCheckout(registration, event, `${req.protocol}://${req.get("host")}`);
+        } catch (paymentError) {
+          console.error("Error starting checkout:", paymentError);
+          await storage.cancelEventRegistration(registration.id);
+          await paymentService.releaseRegistration(registration);
+          return res.status(502).json({ message: "The payment could not be started, please try again" });
         }
+        return res.status(201).json({ ...registration, checkoutUrl: payment.checkoutUrl });
       }
 
+      // Sent in the background; failures are logged
+      notificationService.registrationConfirmed(registration);
+
       res.status(201).json(registration);
     } catch (error) {
       console.error("Error creating event registration:", error);
+      if (error instanceof BookingError) {
+        return res.status(400).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
       }
@@ -601,7 +1374,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId = req.user.id;
       }
       
-      const registrations = await storage.getEventRegistrationsByParent(userId);
+      // Includes registrations of household children made by the other guardians
+      const registrations = await getSharedRegistrations(userId);
       res.json(registrations);
     } catch (error) {
       console.error("Error fetching registrations:", error);
@@ -622,7 +1396,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId = req.user.id;
       }
       
-      const registrations = await storage.getEventRegistrationsWithDetailsForParent(userId);
+      const registrations = await getSharedRegistrationDetails(userId);
       res.json(registrations);
     } catch (error) {
       console.error("Error fetching my events:", error);
@@ -630,118 +1404,1164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin routes for event management
-  app.post('/api/admin/events', isAuthenticated, isAdmin, async (req: any, res) => {
+  // Get (creating on first use) the personal iCal feed URL
+  app.get('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
     try {
-      // Get admin user ID for potential auto-registration
-      let adminUserId;
+      // Handle both email/password and Replit auth users
+      let user;
       if (req.user.claims) {
         // Replit OAuth user
-        adminUserId = req.user.claims.sub;
+        user = await storage.getUserByReplitId(req.user.claims.sub);
       } else {
         // Email/password user
-        adminUserId = req.user.id;
+        user = await storage.getUser(req.user.id);
+      }
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Convert startTime string to Date object before validation
-      const eventData = {
-        ...req.body,
-        startTime: new Date(req.body.startTime),
-        maxSeats: Number(req.body.maxSeats),
-        remainingSeats: Number(req.body.remainingSeats),
-        creditsRequired: Number(req.body.creditsRequired),
-        cutoffHours: Number(req.body.cutoffHours),
-        extraServices: req.body.extraServices || [],
-        allowedRegistrants: req.body.allowedRegistrants || "attendee",
-        // Set the first selected staff member as the primary supervisor
-        staffId: req.body.staffIds && req.body.staffIds.length > 0 ? req.body.staffIds[0] : null
-      };
-      
-      const validatedData = insertEventSchema.parse(eventData);
-      const newEvent = await storage.createEvent({
-        ...validatedData,
-        staffIds: req.body.staffIds // Pass the staffIds to create supervisor relationships
-      });
-      
-      // Auto-register admin if they selected staff attending (staffIds contains their ID)
-      if (req.body.staffIds && Array.isArray(req.body.staffIds) && req.body.staffIds.includes(adminUserId)) {
-        try {
-          await storage.createEventRegistration({
-            eventId: newEvent.id,
-            parentId: adminUserId,
-            childId: null, // null for parent/staff registration
-            selectedServices: [], // no extra services for auto-registration
-          });
-          
-          // Note: Staff registrations do not decrease available seats
-          // Available seats are for regular attendees only
-        } catch (registrationError) {
-          console.error("Error auto-registering admin for event:", registrationError);
-          // Don't fail event creation if auto-registration fails
-        }
+      let token = user.calendarToken;
+      if (!token) {
+        token = randomBytes(24).toString("hex");
+        await storage.updateUser(user.id, { calendarToken: token });
       }
-      
-      res.status(201).json(newEvent);
+
+      res.json({ url: `${req.protocol}://${req.get("host")}/api/calendar/${token}.ics` });
     } catch (error) {
-      console.error("Error creating event:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create event" });
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
     }
   });
 
-  // Admin routes for user management
-  app.get('/api/admin/users', isAuthenticated, isAdmin, async (req: any, res) => {
+  // Replace the feed token, invalidating any previously shared URL
+  app.post('/api/calendar/feed/reset', isAuthenticated, async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      // Handle both email/password and Replit auth users
+      let user;
+      if (req.user.claims) {
+        // Replit OAuth user
+        user = await storage.getUserByReplitId(req.user.claims.sub);
+      } else {
+        // Email/password user
+        user = await storage.getUser(req.user.id);
+      }
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const token = randomBytes(24).toString("hex");
+      await storage.updateUser(user.id, { calendarToken: token });
+
+      res.json({ url: `${req.protocol}://${req.get("host")}/api/calendar/${token}.ics` });
     } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
+      console.error("Error resetting calendar feed:", error);
+      res.status(500).json({ message: "Failed to reset calendar feed" });
     }
   });
 
-  // Get users by roles for staff selection
-  app.get('/api/admin/users/by-roles', isAuthenticated, isAdmin, async (req: any, res) => {
+  // Public iCal feed; calendar apps can't log in, so the secret token is the credential
+  app.get('/api/calendar/:token.ics', async (req, res) => {
     try {
-      const roles = req.query.roles ? req.query.roles.split(',') : [];
-      if (roles.length === 0) {
-        return res.status(400).json({ message: "Roles parameter is required" });
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar not found" });
       }
-      
-      const users = await storage.getUsersByRoles(roles);
-      res.json(users);
+
+      // Covers registrations stored under a Replit id and those of the other guardians in the household
+      const registrations = await getSharedRegistrationDetails(user.id);
+
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Cache-Control", "no-cache");
+      res.send(buildCalendar(registrations, { name: "My Events", uidDomain: req.hostname }));
     } catch (error) {
-      console.error("Error fetching users by roles:", error);
-      res.status(500).json({ message: "Failed to fetch users by roles" });
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
     }
   });
 
-  app.patch('/api/admin/users/:userId/role', isAuthenticated, isAdmin, async (req: any, res) => {
+  // Download a single registration as an .ics file
+  app.get('/api/registrations/:id/calendar.ics', isAuthenticated, async (req: any, res) => {
     try {
-      const { userId } = req.params;
-      const { role } = req.body;
-      
-      // Validate role
-      if (!['admin', 'staff', 'user', 'attendee'].includes(role)) {
-        return res.status(400).json({ message: "Invalid role" });
-      }
-      
-      // Don't allow changing admin roles (security measure)
-      if (role === 'admin') {
-        return res.status(403).json({ message: "Cannot assign admin role" });
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
       }
-      
-      const updatedUser = await storage.updateUserRole(userId, role);
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+
+      const registrations = await getSharedRegistrationDetails(userId);
+      const registration = registrations.find(reg => reg.id === req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
       }
-      
-      res.json(updatedUser);
+
+      const filename = registration.event.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "event";
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Content-Disposition", `attachment; filename="${filename}.ics"`);
+      res.send(buildCalendar([registration], { name: registration.event.name, uidDomain: req.hostname }));
     } catch (error) {
-      console.error("Error updating user role:", error);
-      res.status(500).json({ message: "Failed to update user role" });
+      console.error("Error exporting registration:", error);
+      res.status(500).json({ message: "Failed to export registration" });
+    }
+  });
+
+  // Open (or reopen) the checkout for a registration that is waiting for its services to be paid
+  app.post('/api/registrations/:id/checkout', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const registration = await storage.getEventRegistration(req.params.id);
+      if (!registration || !(await canManageRegistration(userId, registration))) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.status !== "pending_payment") {
+        return res.status(400).json({ message: "This registration has nothing left to pay" });
+      }
+
+      const event = await storage.getEvent(registration.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const payment = await paymentService.startCheckout(registration, event, `${req.protocol}://${req.get("host")}`);
+      res.json({ checkoutUrl: payment.checkoutUrl });
+    } catch (error) {
+      console.error("Error starting checkout:", error);
+      res.status(502).json({ message: "The payment could not be started, please try again" });
+    }
+  });
+
+  // Payment provider webhook; authenticated by the provider's signature rather than a session
+  app.post('/api/payments/webhook', async (req: any, res) => {
+    try {
+      await paymentService.handleWebhook(req.rawBody ?? Buffer.from(""), req.headers);
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof PaymentWebhookError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ message: "Failed to handle payment webhook" });
+    }
+  });
+
+  // Cancel a registration, releasing its seat and refunding according to the event's refund window
+  app.post('/api/registrations/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      // Verify the user made the registration or is a full guardian of its child
+      const registration = await storage.getEventRegistration(req.params.id);
+      if (!registration || !(await canManageRegistration(userId, registration))) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      if (registration.status === "cancelled") {
+        return res.status(400).json({ message: "Registration is already cancelled" });
+      }
+
+      const event = await storage.getEvent(registration.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      if (new Date(event.startTime) <= new Date()) {
+        return res.status(400).json({ message: "Cannot cancel a registration for an event that has already started" });
+      }
+
+      const refund = calculateRegistrationRefund(event, registration);
+
+      const cancelledRegistration = await storage.cancelEventRegistration(registration.id);
+      if (!cancelledRegistration) {
+        return res.status(400).json({ message: "Registration is already cancelled" });
+      }
+
+      // Return the seat to the event. Whether it took one depends on who registered, which isn't
+      // always who cancels (a co-guardian can cancel); parent ids are Replit ids for Replit OAuth users
+      const registrant = (await storage.getUser(registration.parentId)) ?? (await storage.getUserByReplitId(registration.parentId));
+      if (registrationTakesSeat(registration, await userHasPermission(registrant, "events.attendWithoutSeat"))) {
+        await storage.updateEventSeats(event.id, 1);
+      }
+
+      // Refund credits when cancelled inside the refund window, to whoever paid them
+      if (refund.credits > 0) {
+        await storage.createCreditTransaction({
+          userId: registration.parentId,
+          amount: refund.credits,
+          type: "refund",
+          description: `Cancelled registration for ${event.name}`,
+          registrationId: registration.id,
+        });
+      }
+
+      // Services paid by card go back through the payment provider
+      const servicesRefunded = await paymentService.refundRegistrationServices(registration.id, refund.servicesCost);
+
+      // Offer the freed seat to the waitlist
+      await promoteWaitlist(event.id);
+
+      res.json({
+        registration: cancelledRegistration,
+        creditsRefunded: refund.credits,
+        servicesRefunded,
+      });
+    } catch (error) {
+      console.error("Error cancelling registration:", error);
+      res.status(500).json({ message: "Failed to cancel registration" });
+    }
+  });
+
+  // Waitlist routes
+  app.post('/api/events/:eventId/waitlist', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const eventId = req.params.eventId;
+      const childId = req.body.childId || null;
+
+      const entryData = insertEventWaitlistSchema.parse({
+        eventId,
+        childId,
+        parentId: userId,
+        selectedServices: req.body.selectedServices || [],
+      });
+
+      const event = await storage.getEvent(eventId);
+      if (!event || event.deleted) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      if (event.remainingSeats > 0) {
+        return res.status(400).json({ message: "Seats are still available for this event, please register instead" });
+      }
+
+      // Check cutoff time
+      const cutoffTime = new Date(event.startTime);
+      cutoffTime.setHours(cutoffTime.getHours() - event.cutoffHours);
+      if (new Date() > cutoffTime) {
+        return res.status(400).json({ message: "Registration deadline has passed" });
+      }
+
+      const serviceIssues = getServiceSelectionIssues(event, entryData.selectedServices ?? []);
+      if (serviceIssues.length > 0) {
+        return res.status(400).json({ message: serviceIssues.join("; "), reasons: serviceIssues });
+      }
+
+      const allowedRegistrants = event.allowedRegistrants || "attendee";
+      if (allowedRegistrants === "attendee" && !childId) {
+        return res.status(400).json({ message: "This event is only open to children (attendees)" });
+      }
+      if (allowedRegistrants === "user" && childId) {
+        return res.status(400).json({ message: "This event is only open to parents (users)" });
+      }
+
+      if (childId) {
+        // Verify the parent is a guardian of the child who may register it
+        const child = await storage.getChild(childId);
+        const access = child ? await getChildAccess(userId, child) : null;
+        if (!child || !access) {
+          return res.status(404).json({ message: "Child not found" });
+        }
+        if (access !== "full") {
+          return res.status(403).json({ message: "You have view-only access to this child" });
+        }
+
+        const eligibilityIssues = getEligibilityIssues(child, event);
+        if (eligibilityIssues.length > 0) {
+          return res.status(400).json({
+            message: `${child.firstName} is not eligible for this event: ${eligibilityIssues.join("; ")}`,
+            reasons: eligibilityIssues,
+          });
+        }
+
+        if (await storage.isChildRegisteredForEvent(childId, eventId)) {
+          return res.status(400).json({ message: "Child is already registered for this event" });
+        }
+
+        const conflict = await storage.getConflictingEvent(userId, childId, event);
+        if (conflict) {
+          return res.status(400).json(scheduleConflict(conflict, child.firstName));
+        }
+      } else {
+        const existingRegistrations = await storage.getEventRegistrationsByParent(userId);
+        if (existingRegistrations.some(reg => reg.eventId === eventId && reg.childId === null)) {
+          return res.status(400).json({ message: "You are already registered for this event" });
+        }
+
+        const conflict = await storage.getConflictingEvent(userId, null, event);
+        if (conflict) {
+          return res.status(400).json(scheduleConflict(conflict, null));
+        }
+      }
+
+      if (await storage.isOnWaitlist(eventId, userId, childId)) {
+        return res.status(400).json({ message: "Already on the waitlist for this event" });
+      }
+
+      const entry = await storage.createWaitlistEntry(entryData);
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waitlist data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  // Waiting entries for the current user, with their position in each event's queue
+  app.get('/api/waitlist', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const entries = await storage.getWaitlistEntriesWithDetailsForParent(userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.delete('/api/waitlist/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      // Verify the user made the entry or is a full guardian of its child
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || !(await canManageRegistration(userId, entry))) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      const leftEntry = await storage.leaveWaitlist(entry.id);
+      if (!leftEntry) {
+        return res.status(400).json({ message: "No longer on the waitlist" });
+      }
+
+      res.json({ message: "Left waitlist successfully" });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Credit balance and transaction history for the current user
+  app.get('/api/credits', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const [balance, transactions] = await Promise.all([
+        storage.getCreditBalance(userId),
+        storage.getCreditTransactions(userId),
+      ]);
+      res.json({ balance, transactions });
+    } catch (error) {
+      console.error("Error fetching credits:", error);
+      res.status(500).json({ message: "Failed to fetch credits" });
+    }
+  });
+
+  // Credit packages parents can buy
+  app.get('/api/credit-packages', isAuthenticated, async (req, res) => {
+    try {
+      const packages = await storage.getCreditPackages();
+      res.json(packages);
+    } catch (error) {
+      console.error("Error fetching credit packages:", error);
+      res.status(500).json({ message: "Failed to fetch credit packages" });
+    }
+  });
+
+  // Buy a credit package online; the credits are added once the payment provider confirms the payment
+  app.post('/api/credits/purchase', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const { packageId } = creditPurchaseRequestSchema.parse(req.body);
+      const creditPackage = await storage.getCreditPackage(packageId);
+      if (!creditPackage || !creditPackage.active) {
+        return res.status(404).json({ message: "Credit package not found" });
+      }
+
+      const purchase = await storage.createCreditPurchase({
+        userId,
+        packageId: creditPackage.id,
+        packageName: creditPackage.name,
+        credits: creditPackage.credits,
+        amount: creditPackage.price,
+        currency: creditPackage.currency,
+        method: "online",
+      });
+
+      try {
+        const payment = await paymentService.startCreditPurchaseCheckout(purchase, `${req.protocol}://${req.get("host")}`);
+        res.status(201).json({ purchase, checkoutUrl: payment.checkoutUrl });
+      } catch (error) {
+        console.error("Error starting credit purchase checkout:", error);
+        res.status(502).json({ message: "The payment could not be started, please try again" });
+      }
+    } catch (error) {
+      console.error("Error purchasing credits:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to purchase credits" });
+    }
+  });
+
+  // Receipts for the current user's completed credit purchases
+  app.get('/api/credits/purchases', isAuthenticated, async (req: any, res) => {
+    try {
+      // Handle both email/password and Replit auth users
+      let userId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        userId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        userId = req.user.id;
+      }
+
+      const purchases = await storage.getCompletedCreditPurchases(userId);
+      res.json(purchases);
+    } catch (error) {
+      console.error("Error fetching credit purchases:", error);
+      res.status(500).json({ message: "Failed to fetch credit purchases" });
+    }
+  });
+
+  // Admin routes for event management
+  app.post('/api/admin/events', isAuthenticated, requirePermission("events.create"), async (req: any, res) => {
+    try {
+      // Get admin user ID for potential auto-registration
+      let adminUserId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        adminUserId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        adminUserId = req.user.id;
+      }
+
+      // Convert startTime and endTime strings to Date objects before validation
+      const eventData = {
+        ...req.body,
+        startTime: new Date(req.body.startTime),
+        endTime: new Date(req.body.endTime),
+        maxSeats: Number(req.body.maxSeats),
+        remainingSeats: Number(req.body.remainingSeats),
+        creditsRequired: Number(req.body.creditsRequired),
+        cutoffHours: Number(req.body.cutoffHours),
+        refundWindowHours: parseOptionalInteger(req.body.refundWindowHours),
+        extraServices: req.body.extraServices || [],
+        allowedRegistrants: req.body.allowedRegistrants || "attendee",
+        // Set the first selected staff member as the primary supervisor
+        staffId: req.body.staffIds && req.body.staffIds.length > 0 ? req.body.staffIds[0] : null
+      };
+      
+      const validatedData = insertEventSchema.parse(eventData);
+      if (validatedData.endTime <= validatedData.startTime) {
+        return res.status(400).json({ message: "The event must end after it starts" });
+      }
+
+      const newEvent = await storage.createEvent({
+        ...validatedData,
+        staffIds: req.body.staffIds // Pass the staffIds to create supervisor relationships
+      });
+      await recordAudit(req, { action: "event.create", entityType: "event", entityId: newEvent.id, before: null, after: newEvent });
+      
+      // Auto-register admin if they selected staff attending (staffIds contains their ID)
+      if (req.body.staffIds && Array.isArray(req.body.staffIds) && req.body.staffIds.includes(adminUserId)) {
+        try {
+          await storage.createEventRegistration({
+            eventId: newEvent.id,
+            parentId: adminUserId,
+            childId: null, // null for parent/staff registration
+            selectedServices: [], // no extra services for auto-registration
+          });
+          
+          // Note: Staff registrations do not decrease available seats
+          // Available seats are for regular attendees only
+        } catch (registrationError) {
+          console.error("Error auto-registering admin for event:", registrationError);
+          // Don't fail event creation if auto-registration fails
+        }
+      }
+      
+      res.status(201).json(newEvent);
+    } catch (error) {
+      console.error("Error creating event:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+
+  // Create a recurring series; every occurrence becomes its own event linked by seriesId
+  app.post('/api/admin/event-series', isAuthenticated, requirePermission("events.create"), async (req: any, res) => {
+    try {
+      // Get admin user ID for potential auto-registration
+      let adminUserId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        adminUserId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        adminUserId = req.user.id;
+      }
+
+      const { recurrence, staffIds = [], ...body } = req.body;
+      const recurrenceRule = recurrenceRuleSchema.parse(recurrence);
+
+      // Convert the first occurrence the same way as a single event
+      const eventData = insertEventSchema.parse({
+        ...body,
+        startTime: new Date(body.startTime),
+        endTime: new Date(body.endTime),
+        maxSeats: Number(body.maxSeats),
+        remainingSeats: Number(body.maxSeats),
+        creditsRequired: Number(body.creditsRequired),
+        cutoffHours: Number(body.cutoffHours),
+        refundWindowHours: parseOptionalInteger(body.refundWindowHours),
+        extraServices: body.extraServices || [],
+        allowedRegistrants: body.allowedRegistrants || "attendee",
+        // Set the first selected staff member as the primary supervisor
+        staffId: staffIds.length > 0 ? staffIds[0] : null
+      });
+
+      if (eventData.endTime <= eventData.startTime) {
+        return res.status(400).json({ message: "The event must end after it starts" });
+      }
+
+      const occurrenceTimes = generateOccurrences(eventData.startTime, recurrenceRule);
+      const lengthMs = eventData.endTime.getTime() - eventData.startTime.getTime();
+      if (occurrenceTimes.length === 0) {
+        return res.status(400).json({ message: "The recurrence rule does not produce any occurrences" });
+      }
+
+      const { series, events: seriesEvents } = await storage.createEventSeries(
+        { name: eventData.name, recurrence: recurrenceRule, createdBy: adminUserId },
+        occurrenceTimes.map(startTime => ({ ...eventData, startTime, endTime: new Date(startTime.getTime() + lengthMs) })),
+        staffIds,
+      );
+      await recordAudit(req, {
+        action: "event_series.create",
+        entityType: "event_series",
+        entityId: series.id,
+        before: null,
+        after: { ...series, eventIds: seriesEvents.map(event => event.id) },
+      });
+
+      // Auto-register admin if they selected staff attending (staffIds contains their ID)
+      if (staffIds.includes(adminUserId)) {
+        for (const event of seriesEvents) {
+          try {
+            await storage.createEventRegistration({
+              eventId: event.id,
+              parentId: adminUserId,
+              childId: null, // null for parent/staff registration
+              selectedServices: [], // no extra services for auto-registration
+            });
+          } catch (registrationError) {
+            console.error("Error auto-registering admin for event:", registrationError);
+            // Don't fail series creation if auto-registration fails
+          }
+        }
+      }
+
+      res.status(201).json({ series, events: seriesEvents });
+    } catch (error) {
+      console.error("Error creating event series:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event series data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event series" });
+    }
+  });
+
+  // Bulk import events from a CSV or JSON file. A dry run returns the row-by-row validation;
+  // otherwise every valid row is created in a single transaction and invalid rows are skipped.
+  app.post('/api/admin/events/import', isAuthenticated, requirePermission("events.create"), async (req, res) => {
+    try {
+      const { format: fileFormat, content, dryRun } = eventImportRequestSchema.parse(req.body);
+      const records = parseImportFile(fileFormat, content);
+      // Supervisors are whoever can see the rosters of the events they supervise
+      const supervisors = await getUsersWithPermission("roster.view");
+      const { rows, events: validEvents } = prepareEventImport(records, supervisors);
+
+      const result: EventImportResult = { rows, validCount: validEvents.length, createdCount: 0 };
+      if (dryRun) {
+        return res.json(result);
+      }
+      if (validEvents.length === 0) {
+        return res.status(400).json({ ...result, message: "None of the rows are valid, so nothing was imported" });
+      }
+
+      const created = await storage.createEvents(validEvents.map(({ event, staffIds }) => ({ ...event, staffIds })));
+      for (const event of created) {
+        await recordAudit(req, { action: "event.create", entityType: "event", entityId: event.id, before: null, after: event });
+      }
+
+      res.status(201).json({ ...result, createdCount: created.length });
+    } catch (error) {
+      console.error("Error importing events:", error);
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to import events" });
+    }
+  });
+
+  // Event templates: saved defaults admins can start a new event from
+  app.get('/api/admin/event-templates', isAuthenticated, requirePermission("events.create"), async (req, res) => {
+    try {
+      const templates = await storage.getEventTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching event templates:", error);
+      res.status(500).json({ message: "Failed to fetch event templates" });
+    }
+  });
+
+  // Shared by both ways of creating a template; names must be unique so the picker is unambiguous
+  const createTemplate = async (req: any, res: any, template: InsertEventTemplate) => {
+    const existing = await storage.getEventTemplates();
+    if (existing.some(other => other.name.toLowerCase() === template.name.toLowerCase())) {
+      return res.status(409).json({ message: `A template named "${template.name}" already exists` });
+    }
+
+    // Replit OAuth sessions only carry claims, so look up the account behind them
+    const creator: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+    const newTemplate = await storage.createEventTemplate(template, creator?.id ?? null);
+    await recordAudit(req, { action: "event_template.create", entityType: "event_template", entityId: newTemplate.id, before: null, after: newTemplate });
+    res.status(201).json(newTemplate);
+  };
+
+  app.post('/api/admin/event-templates', isAuthenticated, requirePermission("events.create"), async (req: any, res) => {
+    try {
+      await createTemplate(req, res, insertEventTemplateSchema.parse(req.body));
+    } catch (error) {
+      console.error("Error creating event template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event template" });
+    }
+  });
+
+  // Save an existing event, including its supervisors, as a template
+  app.post('/api/admin/events/:id/template', isAuthenticated, requirePermission("events.create"), async (req: any, res) => {
+    try {
+      const { name } = saveEventAsTemplateSchema.parse(req.body);
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const supervisorIds = await storage.getEventSupervisorIds(event.id);
+      await createTemplate(req, res, templateFromEvent(event, supervisorIds, name));
+    } catch (error) {
+      console.error("Error saving event as template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save event as template" });
+    }
+  });
+
+  app.patch('/api/admin/event-templates/:id', isAuthenticated, requirePermission("events.create"), async (req, res) => {
+    try {
+      const templateData = updateEventTemplateSchema.parse(req.body);
+      const existingTemplate = await storage.getEventTemplate(req.params.id);
+      if (!existingTemplate) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      if (templateData.name) {
+        const templates = await storage.getEventTemplates();
+        const nameTaken = templates.some(other =>
+          other.id !== existingTemplate.id && other.name.toLowerCase() === templateData.name!.toLowerCase()
+        );
+        if (nameTaken) {
+          return res.status(409).json({ message: `A template named "${templateData.name}" already exists` });
+        }
+      }
+
+      const updatedTemplate = await storage.updateEventTemplate(existingTemplate.id, templateData);
+      await recordAudit(req, { action: "event_template.update", entityType: "event_template", entityId: existingTemplate.id, before: existingTemplate, after: updatedTemplate });
+      res.json(updatedTemplate);
+    } catch (error) {
+      console.error("Error updating event template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update event template" });
+    }
+  });
+
+  app.delete('/api/admin/event-templates/:id', isAuthenticated, requirePermission("events.create"), async (req, res) => {
+    try {
+      const existingTemplate = await storage.getEventTemplate(req.params.id);
+      if (!existingTemplate || !(await storage.deleteEventTemplate(existingTemplate.id))) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      await recordAudit(req, { action: "event_template.delete", entityType: "event_template", entityId: existingTemplate.id, before: existingTemplate, after: null });
+      res.json({ message: "Template deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting event template:", error);
+      res.status(500).json({ message: "Failed to delete event template" });
+    }
+  });
+
+  // Audit log of admin and staff actions, newest first
+  app.get('/api/admin/audit-log', isAuthenticated, requirePermission("audit.view"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const entries = await storage.getAuditLog(query);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit log filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Roster of an event's attendees as a CSV or Excel download
+  app.get('/api/admin/events/:id/roster.:format', isAuthenticated, requirePermission("reports.export"), async (req, res) => {
+    try {
+      const exportFormat = req.params.format as ExportFormat;
+      if (!(exportFormat in EXPORT_CONTENT_TYPES)) {
+        return res.status(400).json({ message: "Export format must be csv or xlsx" });
+      }
+
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const rows = await storage.getRegistrationExportRows({ eventId: event.id });
+      const filename = exportFilename([event.name, "roster", format(new Date(event.startTime), "yyyy-MM-dd")], exportFormat);
+      res.set("Content-Type", EXPORT_CONTENT_TYPES[exportFormat]);
+      res.set("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(await renderExport(exportFormat, event.name, rosterColumns, rows));
+    } catch (error) {
+      console.error("Error exporting roster:", error);
+      res.status(500).json({ message: "Failed to export roster" });
+    }
+  });
+
+  // Every registration (including cancelled ones) for events starting in a date range
+  app.get('/api/admin/registrations/export.:format', isAuthenticated, requirePermission("reports.export"), async (req, res) => {
+    try {
+      const exportFormat = req.params.format as ExportFormat;
+      if (!(exportFormat in EXPORT_CONTENT_TYPES)) {
+        return res.status(400).json({ message: "Export format must be csv or xlsx" });
+      }
+
+      const { from, to } = registrationExportQuerySchema.parse(req.query);
+      const rows = await storage.getRegistrationExportRows({ from, to });
+      const filename = exportFilename(["registrations", format(from, "yyyy-MM-dd"), format(to, "yyyy-MM-dd")], exportFormat);
+      res.set("Content-Type", EXPORT_CONTENT_TYPES[exportFormat]);
+      res.set("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(await renderExport(exportFormat, "Registrations", registrationColumns, rows));
+    } catch (error) {
+      console.error("Error exporting registrations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export registrations" });
+    }
+  });
+
+  // Admin routes for user management
+  app.get('/api/admin/users', isAuthenticated, requirePermission("users.view"), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Get users by roles for staff selection
+  app.get('/api/admin/users/by-roles', isAuthenticated, requirePermission("users.view"), async (req: any, res) => {
+    try {
+      const roles = req.query.roles ? req.query.roles.split(',') : [];
+      if (roles.length === 0) {
+        return res.status(400).json({ message: "Roles parameter is required" });
+      }
+      
+      const users = await storage.getUsersByRoles(roles);
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users by roles:", error);
+      res.status(500).json({ message: "Failed to fetch users by roles" });
+    }
+  });
+
+  app.patch('/api/admin/users/:userId/role', isAuthenticated, requirePermission("users.manageRoles"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+      
+      // Validate role
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      
+      // Don't allow changing admin roles (security measure)
+      if (role === 'admin') {
+        return res.status(403).json({ message: "Cannot assign admin role" });
+      }
+      
+      const existingUser = await storage.getUser(userId);
+      const updatedUser = await storage.updateUserRole(userId, role);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "user.role_change", entityType: "user", entityId: userId, before: existingUser, after: updatedUser });
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  app.put('/api/admin/roles/:role/permissions', isAuthenticated, requirePermission("users.manageRoles"), async (req: any, res) => {
+    try {
+      const { role } = req.params;
+      if (!USER_ROLES.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      const permissions = Array.from(new Set(updateRolePermissionsSchema.parse(req.body).permissions)).sort();
+
+      // Otherwise no one could change roles or permissions again
+      if (role === "admin" && !permissions.includes("users.manageRoles")) {
+        return res.status(400).json({ message: "The admin role must keep users.manageRoles" });
+      }
+
+      const existing = [...await storage.getRolePermissions(role)].sort();
+      await storage.setRolePermissions(role, permissions);
+
+      await recordAudit(req, { action: "role.permissions_change", entityType: "role", entityId: role, before: { permissions: existing }, after: { permissions } });
+      res.json({ role, permissions });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid permissions", errors: error.errors });
+      }
+      console.error("Error updating role permissions:", error);
+      res.status(500).json({ message: "Failed to update role permissions" });
+    }
+  });
+
+  // Staff invitations: admins send invite links that create accounts with a preset role
+  app.get('/api/admin/staff-invitations', isAuthenticated, requirePermission("users.invite"), async (req, res) => {
+    try {
+      const invitations = await storage.getPendingStaffInvitations();
+      const now = new Date();
+      res.json(invitations.map(invitation => summarizeStaffInvitation(invitation, now)));
+    } catch (error) {
+      console.error("Error fetching staff invitations:", error);
+      res.status(500).json({ message: "Failed to fetch staff invitations" });
+    }
+  });
+
+  app.post('/api/admin/staff-invitations', isAuthenticated, requirePermission("users.invite"), async (req: any, res) => {
+    try {
+      const { email, role, expiresInDays } = staffInvitationRequestSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "An account with this email already exists. Change its role from the user list instead." });
+      }
+      const pending = await storage.getPendingStaffInvitations();
+      if (pending.some(invitation => invitation.email === email && new Date(invitation.expiresAt) >= new Date())) {
+        return res.status(400).json({ message: `${email} already has a pending invitation` });
+      }
+
+      const admin: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const invitation = await storage.createStaffInvitation({
+        email,
+        role,
+        token: randomBytes(24).toString("hex"),
+        invitedBy: admin?.id ?? null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      const url = tokenLink(req, "staff-invite", invitation.token);
+      // Sent in the background; failures are logged and the admin can share the link directly
+      const inviterName = [admin?.firstName, admin?.lastName].filter(Boolean).join(" ") || "An admin";
+      notificationService.staffInvitation(invitation, inviterName, url);
+
+      const summary = summarizeStaffInvitation(invitation);
+      await recordAudit(req, { action: "staff_invitation.create", entityType: "staff_invitation", entityId: invitation.id, before: null, after: summary });
+      res.status(201).json({ ...summary, url });
+    } catch (error) {
+      console.error("Error creating staff invitation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invitation data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create staff invitation" });
+    }
+  });
+
+  app.delete('/api/admin/staff-invitations/:id', isAuthenticated, requirePermission("users.invite"), async (req, res) => {
+    try {
+      const existing = await storage.getStaffInvitation(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const revoked = await storage.revokeStaffInvitation(existing.id);
+      if (!revoked) {
+        return res.status(400).json({ message: "This invitation is no longer pending" });
+      }
+
+      await recordAudit(req, {
+        action: "staff_invitation.revoke",
+        entityType: "staff_invitation",
+        entityId: existing.id,
+        before: summarizeStaffInvitation(existing),
+        after: summarizeStaffInvitation(revoked),
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking staff invitation:", error);
+      res.status(500).json({ message: "Failed to revoke staff invitation" });
+    }
+  });
+
+  // Admin credit adjustments (top-ups and corrections)
+  app.get('/api/admin/users/:userId/credits', isAuthenticated, requirePermission("credits.manage"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const [balance, transactions] = await Promise.all([
+        storage.getCreditBalance(userId),
+        storage.getCreditTransactions(userId),
+      ]);
+      res.json({ balance, transactions });
+    } catch (error) {
+      console.error("Error fetching user credits:", error);
+      res.status(500).json({ message: "Failed to fetch user credits" });
+    }
+  });
+
+  app.post('/api/admin/users/:userId/credits', isAuthenticated, requirePermission("credits.manage"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+
+      // Record which admin made the adjustment
+      let adminUserId;
+      if (req.user.claims) {
+        // Replit OAuth user
+        adminUserId = req.user.claims.sub;
+      } else {
+        // Email/password user
+        adminUserId = req.user.id;
+      }
+
+      const adjustment = creditAdjustmentSchema.parse(req.body);
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Never let an adjustment take a balance below zero
+      const balance = await storage.getCreditBalance(userId);
+      if (balance + adjustment.amount < 0) {
+        return res.status(400).json({ message: `Adjustment would leave a negative balance (current balance: ${balance})` });
+      }
+
+      const transaction = await storage.createCreditTransaction({
+        userId,
+        amount: adjustment.amount,
+        type: adjustment.type,
+        description: adjustment.description,
+        createdBy: adminUserId,
+      });
+      await recordAudit(req, {
+        action: "user.credit_adjustment",
+        entityType: "user",
+        entityId: userId,
+        before: { creditBalance: balance },
+        after: { creditBalance: balance + adjustment.amount, creditReason: adjustment.description },
+      });
+
+      res.status(201).json({ transaction, balance: balance + adjustment.amount });
+    } catch (error) {
+      console.error("Error adjusting user credits:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid credit adjustment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to adjust user credits" });
+    }
+  });
+
+  // Record a credit package paid in cash; the credits are added and the receipt emailed straight away
+  app.post('/api/admin/users/:userId/credit-purchases', isAuthenticated, requirePermission("credits.manage"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const { packageId } = creditPurchaseRequestSchema.parse(req.body);
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const creditPackage = await storage.getCreditPackage(packageId);
+      if (!creditPackage || !creditPackage.active) {
+        return res.status(404).json({ message: "Credit package not found" });
+      }
+
+      // Replit OAuth sessions only carry claims, so look up the account behind them
+      const admin: User | undefined = req.user.claims ? await storage.getUserByReplitId(req.user.claims.sub) : req.user;
+      const balance = await storage.getCreditBalance(userId);
+      const purchase = await storage.createCreditPurchase({
+        userId,
+        packageId: creditPackage.id,
+        packageName: creditPackage.name,
+        credits: creditPackage.credits,
+        amount: creditPackage.price,
+        currency: creditPackage.currency,
+        method: "cash",
+        status: "completed",
+        recordedBy: admin?.id ?? null,
+        completedAt: new Date(),
+      });
+      await recordAudit(req, {
+        action: "user.credit_purchase",
+        entityType: "user",
+        entityId: userId,
+        before: { creditBalance: balance },
+        after: { creditBalance: balance + purchase.credits, receiptNumber: formatReceiptNumber(purchase.receiptNumber) },
+      });
+      // Sent in the background; failures are logged
+      notificationService.creditReceipt(purchase);
+
+      res.status(201).json({ purchase, balance: balance + purchase.credits });
+    } catch (error) {
+      console.error("Error recording credit purchase:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record credit purchase" });
+    }
+  });
+
+  // Credit packages, including deactivated ones
+  app.get('/api/admin/credit-packages', isAuthenticated, requirePermission("credits.manage"), async (req, res) => {
+    try {
+      const packages = await storage.getCreditPackages(true);
+      res.json(packages);
+    } catch (error) {
+      console.error("Error fetching credit packages:", error);
+      res.status(500).json({ message: "Failed to fetch credit packages" });
+    }
+  });
+
+  app.post('/api/admin/credit-packages', isAuthenticated, requirePermission("credits.manage"), async (req, res) => {
+    try {
+      const packageData = insertCreditPackageSchema.parse(req.body);
+      const newPackage = await storage.createCreditPackage(packageData);
+      await recordAudit(req, { action: "credit_package.create", entityType: "credit_package", entityId: newPackage.id, before: null, after: newPackage });
+      res.status(201).json(newPackage);
+    } catch (error) {
+      console.error("Error creating credit package:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid credit package", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create credit package" });
+    }
+  });
+
+  // Packages that were bought are referenced by receipts, so they are deactivated rather than deleted
+  app.patch('/api/admin/credit-packages/:id', isAuthenticated, requirePermission("credits.manage"), async (req, res) => {
+    try {
+      const packageData = updateCreditPackageSchema.parse(req.body);
+      const existingPackage = await storage.getCreditPackage(req.params.id);
+      if (!existingPackage) {
+        return res.status(404).json({ message: "Credit package not found" });
+      }
+
+      const updatedPackage = await storage.updateCreditPackage(existingPackage.id, packageData);
+      await recordAudit(req, { action: "credit_package.update", entityType: "credit_package", entityId: existingPackage.id, before: existingPackage, after: updatedPackage });
+      res.json(updatedPackage);
+    } catch (error) {
+      console.error("Error updating credit package:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid credit package", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update credit package" });
     }
   });
 
@@ -1,35 +1,120 @@
 import {
   users,
+  rolePermissions,
+  staffInvitations,
   attendee,
   events,
   eventRegistrations,
   eventSupervisors,
+  creditTransactions,
+  eventWaitlist,
+  eventSeries,
+  eventTemplates,
+  attendance,
+  authorizedPickups,
+  households,
+  householdMembers,
+  householdInvitations,
+  notificationPreferences,
+  notificationLog,
+  auditLog,
+  payments,
+  creditPackages,
+  creditPurchases,
   type User,
   type ExtraService,
   type UpsertUser,
+  type StaffInvitation,
+  type InsertStaffInvitation,
   type Child,
   type InsertChild,
+  type AuthorizedPickup,
+  type AuthorizedPickupInput,
+  type GuardianPermission,
+  type HouseholdMember,
+  type HouseholdMemberWithUser,
+  type HouseholdInvitation,
+  type InsertHouseholdInvitation,
   type Event,
   type InsertEvent,
+  type EventSeries,
+  type InsertEventSeries,
+  type EventTemplate,
+  type InsertEventTemplate,
   type EventRegistration,
   type InsertEventRegistration,
+  type CreditTransaction,
+  type InsertCreditTransaction,
+  type Attendance,
+  type UpsertAttendance,
+  type WaitlistEntry,
+  type InsertWaitlistEntry,
+  type Payment,
+  type InsertPayment,
+  type CreditPackage,
+  type InsertCreditPackage,
+  type CreditPurchase,
+  type InsertCreditPurchase,
+  type NotificationType,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditLogQuery,
   type EventStatus,
   calculateEventStatus,
+  type Permission,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  registrationTakesSeat,
+  isPickupAuthorized,
+  formatReceiptNumber,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { eq, ne, gt, gte, lt, lte, like, desc, asc, and, or, sql, inArray, isNull } from "drizzle-orm";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type BookingErrorCode = "no_seats" | "insufficient_credits" | "service_full";
+
+// Raised when a booking can't be completed; the message is safe to show to the user
+export class BookingError extends Error {
+  constructor(public code: BookingErrorCode, message: string) {
+    super(message);
+    this.name = "BookingError";
+  }
+}
+
+export interface BookingOptions {
+  takesSeat: boolean; // Whether the registration occupies one of the event's seats
+  spendDescription: string; // Ledger description for the credit deduction
+}
 
 export interface IStorage {
   // User operations (supports both email/password and Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByReplitId(replitId: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
   createUser(user: UpsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUser(id: string, user: Partial<UpsertUser>): Promise<User | undefined>;
   createAdminUser(email: string): Promise<User>;
   getAllUsers(): Promise<User[]>;
   updateUserRole(userId: string, role: string): Promise<User | undefined>;
+
+  // Role permissions
+  getRolePermissions(role: string): Promise<Permission[]>;
+  setRolePermissions(role: string, permissions: Permission[]): Promise<void>; // Replaces the role's grants
+
+  // Staff invitation operations
+  createStaffInvitation(invitation: InsertStaffInvitation): Promise<StaffInvitation>;
+  getStaffInvitation(id: string): Promise<StaffInvitation | undefined>;
+  getStaffInvitationByToken(token: string): Promise<StaffInvitation | undefined>;
+  getPendingStaffInvitations(): Promise<StaffInvitation[]>; // Including expired ones, newest first
+  revokeStaffInvitation(id: string): Promise<StaffInvitation | undefined>;
+  acceptStaffInvitation(id: string, user: UpsertUser): Promise<User | undefined>; // Creates the account with the invitation's role
   
   // Child operations
   getChildrenByParentId(parentId: string): Promise<Child[]>;
@@ -37,27 +122,116 @@ export interface IStorage {
   updateChild(id: string, child: Partial<InsertChild>): Promise<Child | undefined>;
   deleteChild(id: string): Promise<boolean>;
   getChild(id: string): Promise<Child | undefined>;
+
+  // Authorized pickup operations
+  getAuthorizedPickupsByChild(childId: string): Promise<AuthorizedPickup[]>;
+  getAuthorizedPickup(id: string): Promise<AuthorizedPickup | undefined>;
+  replaceAuthorizedPickups(childId: string, pickups: AuthorizedPickupInput[]): Promise<AuthorizedPickup[]>;
+
+  // Household operations
+  getHouseholdMembership(userId: string): Promise<HouseholdMember | undefined>;
+  getHouseholdMembers(householdId: string): Promise<HouseholdMemberWithUser[]>;
+  createHousehold(userId: string): Promise<HouseholdMember>; // The user becomes its first full guardian
+  updateHouseholdMember(userId: string, permission: GuardianPermission): Promise<HouseholdMember | undefined>;
+  removeHouseholdMember(userId: string): Promise<boolean>; // Removes the household along with its last member
+  createHouseholdInvitation(invitation: InsertHouseholdInvitation): Promise<HouseholdInvitation>;
+  getHouseholdInvitation(id: string): Promise<HouseholdInvitation | undefined>;
+  getHouseholdInvitationByToken(token: string): Promise<HouseholdInvitation | undefined>;
+  getPendingHouseholdInvitations(householdId: string): Promise<HouseholdInvitation[]>;
+  closeHouseholdInvitation(id: string, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined>;
+  acceptHouseholdInvitation(id: string, userId: string): Promise<HouseholdMember | undefined>;
   
   // Event operations
   getAllEvents(includeDeleted?: boolean): Promise<Event[]>;
   getAllEventsForAdmin(): Promise<Event[]>; // Shows all events including past and editing for admin
   getEvent(id: string): Promise<Event | undefined>;
-  createEvent(event: InsertEvent): Promise<Event>;
+  createEvent(event: InsertEvent & { staffIds?: string[] }): Promise<Event>;
+  createEvents(newEvents: Array<InsertEvent & { staffIds: string[] }>): Promise<Event[]>;
+  // Without remainingSeats, a changed maxSeats adds or removes the same number of free seats
   updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event | undefined>;
   updateEventStatus(id: string, status: EventStatus): Promise<Event | undefined>;
   softDeleteEvent(id: string): Promise<boolean>;
   restoreEvent(id: string): Promise<boolean>;
   updateEventSupervisors(eventId: string, staffIds: string[]): Promise<void>;
+  getEventSupervisorIds(eventId: string): Promise<string[]>;
   getEventsForUser(): Promise<any[]>;
   updateEventSeats(eventId: string, seatsChange: number): Promise<Event | undefined>;
   getSupervisedEventsByStaff(staffId: string): Promise<Event[]>;
+
+  // Event series operations
+  createEventSeries(series: InsertEventSeries, occurrences: InsertEvent[], staffIds: string[]): Promise<{ series: EventSeries; events: Event[] }>;
+  getEventSeries(id: string): Promise<EventSeries | undefined>;
+  getSeriesEventsAfter(event: Event): Promise<Event[]>;
+  updateSeriesEventsAfter(event: Event, eventData: Partial<InsertEvent>, timeShift: { startMs: number; endMs: number }, seatsChange: number): Promise<Event[]>;
+
+  // Event template operations
+  getEventTemplates(): Promise<EventTemplate[]>;
+  getEventTemplate(id: string): Promise<EventTemplate | undefined>;
+  createEventTemplate(template: InsertEventTemplate, createdBy: string | null): Promise<EventTemplate>;
+  updateEventTemplate(id: string, template: Partial<InsertEventTemplate>): Promise<EventTemplate | undefined>;
+  deleteEventTemplate(id: string): Promise<boolean>;
   
   // Event registration operations
   createEventRegistration(registration: InsertEventRegistration): Promise<EventRegistration>;
+  bookEventRegistration(registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration>;
+  getEventRegistration(id: string): Promise<EventRegistration | undefined>;
+  cancelEventRegistration(id: string): Promise<EventRegistration | undefined>;
   getEventRegistrationsByParent(parentId: string): Promise<EventRegistration[]>;
   getEventRegistrationsByEvent(eventId: string): Promise<EventRegistration[]>;
   getEventRegistrationsWithDetailsForParent(parentId: string): Promise<any[]>;
   isChildRegisteredForEvent(childId: string, eventId: string): Promise<boolean>;
+  getConflictingEvent(parentId: string, childId: string | null, event: Event): Promise<Event | undefined>;
+  getServiceBookingCounts(eventId: string): Promise<Record<string, number>>;
+
+  // Attendance operations
+  isEventSupervisor(eventId: string, userId: string): Promise<boolean>;
+  getEventRoster(eventId: string): Promise<any[]>;
+  getRegistrationExportRows(filter: RegistrationExportFilter): Promise<RegistrationExportRow[]>;
+  getAttendanceByRegistration(registrationId: string): Promise<Attendance | undefined>;
+  upsertAttendance(record: UpsertAttendance): Promise<Attendance>;
+  deleteAttendance(registrationId: string): Promise<boolean>;
+
+  // Credit ledger operations
+  getCreditBalance(userId: string): Promise<number>;
+  getCreditTransactions(userId: string): Promise<CreditTransaction[]>;
+  createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction>;
+
+  // Credit package operations
+  getCreditPackages(includeInactive?: boolean): Promise<CreditPackage[]>;
+  getCreditPackage(id: string): Promise<CreditPackage | undefined>;
+  createCreditPackage(creditPackage: InsertCreditPackage): Promise<CreditPackage>;
+  updateCreditPackage(id: string, creditPackage: Partial<InsertCreditPackage>): Promise<CreditPackage | undefined>;
+  createCreditPurchase(purchase: InsertCreditPurchase): Promise<CreditPurchase>;
+  getCompletedCreditPurchases(userId: string): Promise<CreditPurchase[]>;
+
+  // Payment operations
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  getPaymentByReference(provider: string, providerReference: string): Promise<Payment | undefined>;
+  getPendingPayment(registrationId: string): Promise<Payment | undefined>;
+  getSucceededPayment(registrationId: string): Promise<Payment | undefined>;
+  completePayment(id: string, status: "succeeded" | "failed", failureReason: string | null): Promise<CompletedPayment | undefined>;
+  recordPaymentRefund(id: string, status: "refunded" | "refund_required"): Promise<Payment | undefined>; // Only for succeeded or refund_required payments
+
+  // Waitlist operations
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitingEntriesForEvent(eventId: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntriesWithDetailsForParent(parentId: string): Promise<any[]>;
+  isOnWaitlist(eventId: string, parentId: string, childId: string | null): Promise<boolean>;
+  leaveWaitlist(id: string): Promise<WaitlistEntry | undefined>;
+  promoteWaitlistEntry(id: string, registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration | undefined>;
+
+  // Notification operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, preferences: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  getNotificationRegistrationsForEvent(eventId: string): Promise<NotificationRegistration[]>;
+  getNotificationRegistrationsStartingBetween(from: Date, to: Date): Promise<NotificationRegistration[]>;
+  claimNotification(userId: string, type: NotificationType, dedupeKey: string): Promise<boolean>;
+  releaseNotification(dedupeKey: string): Promise<void>;
+
+  // Audit log operations (append-only: entries are never updated or deleted)
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]>;
 
   // User operations for staff selection
   getUsersByRoles(roles: string[]): Promise<User[]>;
@@ -65,6 +239,86 @@ export interface IStorage {
   // Seeding
   seedEvents(): Promise<void>;
   seedAdminUser(): Promise<void>;
+  seedRolePermissions(): Promise<void>;
+}
+
+// A settled payment and what it paid for: the registration it moved out of pending_payment, or the credit
+// purchase it completed (undefined if it was no longer pending)
+export interface CompletedPayment {
+  payment: Payment;
+  registration: EventRegistration | undefined;
+  creditPurchase?: CreditPurchase;
+}
+
+// Registration with everything an admin export needs; parent is null if the account was removed
+export interface RegistrationExportRow {
+  registration: EventRegistration;
+  event: Event;
+  child: Child | null;
+  parent: User | null;
+}
+
+// Either one event's roster, or every registration for events starting in [from, to]
+export type RegistrationExportFilter =
+  | { eventId: string }
+  | { from: Date; to: Date };
+
+// Confirmed registration with the event and child, as needed to address a notification
+export interface NotificationRegistration {
+  registration: EventRegistration;
+  event: Event;
+  child: Child | null;
+}
+
+// Sample events for a fresh install, starting a few hours from now
+function buildSeedEvents(): InsertEvent[] {
+  return [
+    {
+      name: "Creative Arts Workshop",
+      type: "afterschool",
+      startTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
+      endTime: new Date(Date.now() + 5 * 60 * 60 * 1000),
+      location: "Art Room A",
+      maxSeats: 5,
+      remainingSeats: 2,
+      creditsRequired: 3,
+      staffId: "staff_1",
+      description: "Let your child explore their creativity through painting, drawing, and crafts in our well-equipped art studio. All materials provided.",
+      image: "https://images.unsplash.com/photo-1513475382585-d06e58bcb0e0?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
+      cutoffHours: 12,
+      extraServices: [{ id: "food", description: "Food", price: 10 }],
+    },
+    {
+      name: "Science Discovery Lab",
+      type: "afterschool",
+      startTime: new Date(Date.now() + 3 * 60 * 60 * 1000), // 3 hours from now
+      endTime: new Date(Date.now() + 5.5 * 60 * 60 * 1000),
+      location: "Lab 101",
+      maxSeats: 3,
+      remainingSeats: 1,
+      creditsRequired: 4,
+      staffId: "staff_2",
+      description: "Hands-on experiments and discoveries await! Perfect for curious minds who love to explore how things work.",
+      image: "https://images.unsplash.com/photo-1532094349884-543bc11b234d?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
+      cutoffHours: 12,
+      extraServices: [],
+    },
+    {
+      name: "Soccer Skills Training",
+      type: "afterschool",
+      startTime: new Date(Date.now() + 4 * 60 * 60 * 1000), // 4 hours from now
+      endTime: new Date(Date.now() + 6 * 60 * 60 * 1000),
+      location: "Field A",
+      maxSeats: 8,
+      remainingSeats: 0,
+      creditsRequired: 2,
+      staffId: "staff_3",
+      description: "Build teamwork and soccer skills in a fun, supportive environment. All skill levels welcome!",
+      image: "https://images.unsplash.com/photo-1551698618-1dfe5d97d256?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
+      cutoffHours: 12,
+      extraServices: [{ id: "snacks", description: "Snacks", price: 5 }],
+    },
+  ];
 }
 
 export class DatabaseStorage implements IStorage {
@@ -84,6 +338,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
   async createUser(userData: UpsertUser): Promise<User> {
     const [user] = await db.insert(users).values([userData]).returning();
     return user;
@@ -156,6 +415,169 @@ export class DatabaseStorage implements IStorage {
     return child;
   }
   
+  // Authorized pickup operations
+  async getAuthorizedPickupsByChild(childId: string): Promise<AuthorizedPickup[]> {
+    return await db
+      .select()
+      .from(authorizedPickups)
+      .where(eq(authorizedPickups.childId, childId))
+      .orderBy(authorizedPickups.createdAt);
+  }
+
+  async getAuthorizedPickup(id: string): Promise<AuthorizedPickup | undefined> {
+    const [pickup] = await db.select().from(authorizedPickups).where(eq(authorizedPickups.id, id));
+    return pickup;
+  }
+
+  async replaceAuthorizedPickups(childId: string, pickups: AuthorizedPickupInput[]): Promise<AuthorizedPickup[]> {
+    // The parent edits the list as a whole; keep existing rows (matched by id) so attendance links survive
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(authorizedPickups).where(eq(authorizedPickups.childId, childId));
+      const keptIds = pickups.map(pickup => pickup.id).filter((id): id is string => !!id && existing.some(e => e.id === id));
+
+      const removedIds = existing.map(e => e.id).filter(id => !keptIds.includes(id));
+      if (removedIds.length > 0) {
+        await tx.delete(authorizedPickups).where(inArray(authorizedPickups.id, removedIds));
+      }
+
+      const saved: AuthorizedPickup[] = [];
+      for (const { id, ...pickup } of pickups) {
+        const values = {
+          ...pickup,
+          photoUrl: pickup.photoUrl || null,
+          validFrom: pickup.validFrom || null,
+          validUntil: pickup.validUntil || null,
+        };
+        if (id && keptIds.includes(id)) {
+          const [updated] = await tx
+            .update(authorizedPickups)
+            .set({ ...values, updatedAt: new Date() })
+            .where(eq(authorizedPickups.id, id))
+            .returning();
+          saved.push(updated);
+        } else {
+          const [created] = await tx.insert(authorizedPickups).values([{ ...values, childId }]).returning();
+          saved.push(created);
+        }
+      }
+      return saved;
+    });
+  }
+
+  // Household operations
+  async getHouseholdMembership(userId: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db.select().from(householdMembers).where(eq(householdMembers.userId, userId));
+    return member;
+  }
+
+  async getHouseholdMembers(householdId: string): Promise<HouseholdMemberWithUser[]> {
+    return await db
+      .select({
+        userId: householdMembers.userId,
+        householdId: householdMembers.householdId,
+        permission: householdMembers.permission,
+        joinedAt: householdMembers.joinedAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(householdMembers)
+      .innerJoin(users, eq(householdMembers.userId, users.id))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.joinedAt);
+  }
+
+  async createHousehold(userId: string): Promise<HouseholdMember> {
+    return await db.transaction(async (tx) => {
+      const [household] = await tx.insert(households).values({}).returning();
+      const [member] = await tx
+        .insert(householdMembers)
+        .values({ userId, householdId: household.id, permission: "full" })
+        .returning();
+      return member;
+    });
+  }
+
+  async updateHouseholdMember(userId: string, permission: GuardianPermission): Promise<HouseholdMember | undefined> {
+    const [member] = await db
+      .update(householdMembers)
+      .set({ permission })
+      .where(eq(householdMembers.userId, userId))
+      .returning();
+    return member;
+  }
+
+  async removeHouseholdMember(userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => this.leaveHousehold(tx, userId));
+  }
+
+  // Drops the user's membership, and the household with it when nobody is left
+  private async leaveHousehold(tx: DbTransaction, userId: string): Promise<boolean> {
+    const [removed] = await tx.delete(householdMembers).where(eq(householdMembers.userId, userId)).returning();
+    if (!removed) return false;
+
+    const [remaining] = await tx
+      .select({ userId: householdMembers.userId })
+      .from(householdMembers)
+      .where(eq(householdMembers.householdId, removed.householdId))
+      .limit(1);
+    if (!remaining) {
+      await tx.delete(households).where(eq(households.id, removed.householdId));
+    }
+    return true;
+  }
+
+  async createHouseholdInvitation(invitation: InsertHouseholdInvitation): Promise<HouseholdInvitation> {
+    const [created] = await db.insert(householdInvitations).values([invitation]).returning();
+    return created;
+  }
+
+  async getHouseholdInvitation(id: string): Promise<HouseholdInvitation | undefined> {
+    const [invitation] = await db.select().from(householdInvitations).where(eq(householdInvitations.id, id));
+    return invitation;
+  }
+
+  async getHouseholdInvitationByToken(token: string): Promise<HouseholdInvitation | undefined> {
+    const [invitation] = await db.select().from(householdInvitations).where(eq(householdInvitations.token, token));
+    return invitation;
+  }
+
+  async getPendingHouseholdInvitations(householdId: string): Promise<HouseholdInvitation[]> {
+    return await db
+      .select()
+      .from(householdInvitations)
+      .where(and(eq(householdInvitations.householdId, householdId), eq(householdInvitations.status, "pending")))
+      .orderBy(desc(householdInvitations.createdAt));
+  }
+
+  async closeHouseholdInvitation(id: string, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined> {
+    const [invitation] = await db
+      .update(householdInvitations)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(householdInvitations.id, id), eq(householdInvitations.status, "pending")))
+      .returning();
+    return invitation;
+  }
+
+  async acceptHouseholdInvitation(id: string, userId: string): Promise<HouseholdMember | undefined> {
+    // Only a pending invitation can be accepted; the user moves over from any household they were in
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(householdInvitations)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(and(eq(householdInvitations.id, id), eq(householdInvitations.status, "pending")))
+        .returning();
+      if (!invitation) return undefined;
+
+      await this.leaveHousehold(tx, userId);
+      const [member] = await tx
+        .insert(householdMembers)
+        .values({ userId, householdId: invitation.householdId, permission: invitation.permission })
+        .returning();
+      return member;
+    });
+  }
+
   // Event operations
   async getAllEvents(includeDeleted: boolean = false): Promise<any[]> {
     // Get all events with their primary staff information
@@ -165,22 +587,25 @@ export class DatabaseStorage implements IStorage {
         name: events.name,
         type: events.type,
         startTime: events.startTime,
+        endTime: events.endTime,
         location: events.location,
         maxSeats: events.maxSeats,
         remainingSeats: events.remainingSeats,
         creditsRequired: events.creditsRequired,
         staffId: events.staffId,
-        duration: events.duration,
         description: events.description,
         image: events.image,
         cutoffHours: events.cutoffHours,
+        refundWindowHours: events.refundWindowHours,
         createdAt: events.createdAt,
         updatedAt: events.updatedAt,
         extraServices: events.extraServices,
         servicesCurrency: events.servicesCurrency,
         allowedRegistrants: events.allowedRegistrants,
+        eligibility: events.eligibility,
         status: events.status,
         deleted: events.deleted,
+        seriesId: events.seriesId,
         // Get primary staff name for legacy staffId system
         primaryStaffName: sql<string | null>`CASE WHEN ${events.staffId} IS NOT NULL THEN CONCAT(staff.first_name, ' ', staff.last_name) ELSE NULL END`,
       })
@@ -274,15 +699,42 @@ export class DatabaseStorage implements IStorage {
     return newEvent;
   }
 
+  // Bulk import: every event and its supervisors are inserted in one transaction, so a failure leaves nothing behind
+  async createEvents(newEvents: Array<InsertEvent & { staffIds: string[] }>): Promise<Event[]> {
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(events).values(newEvents.map(({ staffIds, ...eventData }) => ({
+        ...eventData,
+        extraServices: Array.isArray(eventData.extraServices) ? eventData.extraServices as ExtraService[] : [],
+        status: "open" as const,
+      }))).returning();
+
+      // Rows come back in insertion order
+      const supervisorData = created.flatMap((event, index) =>
+        newEvents[index].staffIds.map(staffId => ({ eventId: event.id, supervisorId: staffId }))
+      );
+      if (supervisorData.length > 0) {
+        await tx.insert(eventSupervisors).values(supervisorData);
+      }
+
+      return created;
+    });
+  }
+
   async updateEvent(id: string, eventData: Partial<InsertEvent>): Promise<Event | undefined> {
     // Filter out undefined values and handle type conversion
     const updateData = Object.fromEntries(
       Object.entries(eventData).filter(([_, v]) => v !== undefined)
     );
-    
+
+    // A new capacity moves the free seats by the same amount in this statement, so bookings made
+    // since the caller read the event are still counted
+    const seatsData = eventData.maxSeats !== undefined && eventData.remainingSeats === undefined
+      ? { remainingSeats: sql`GREATEST(${events.remainingSeats} + ${eventData.maxSeats} - ${events.maxSeats}, 0)` }
+      : {};
+
     const [updatedEvent] = await db
       .update(events)
-      .set({ ...updateData, updatedAt: new Date() })
+      .set({ ...updateData, ...seatsData, updatedAt: new Date() })
       .where(eq(events.id, id))
       .returning();
     return updatedEvent;
@@ -336,6 +788,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getEventSupervisorIds(eventId: string): Promise<string[]> {
+    const rows = await db
+      .select({ supervisorId: eventSupervisors.supervisorId })
+      .from(eventSupervisors)
+      .where(eq(eventSupervisors.eventId, eventId));
+    return rows.map(row => row.supervisorId);
+  }
+
   async updateEventSeats(eventId: string, seatsChange: number): Promise<Event | undefined> {
     const [updatedEvent] = await db
       .update(events)
@@ -356,20 +816,23 @@ export class DatabaseStorage implements IStorage {
         name: events.name,
         type: events.type,
         startTime: events.startTime,
+        endTime: events.endTime,
         location: events.location,
         maxSeats: events.maxSeats,
         remainingSeats: events.remainingSeats,
         creditsRequired: events.creditsRequired,
         staffId: events.staffId,
-        duration: events.duration,
         description: events.description,
         image: events.image,
         cutoffHours: events.cutoffHours,
+        refundWindowHours: events.refundWindowHours,
         createdAt: events.createdAt,
         updatedAt: events.updatedAt,
         extraServices: events.extraServices,
         servicesCurrency: events.servicesCurrency,
         allowedRegistrants: events.allowedRegistrants,
+        eligibility: events.eligibility,
+        seriesId: events.seriesId,
         // Supervisor fields
         supervisorName: sql<string | null>`CASE WHEN ${users.id} IS NOT NULL THEN CONCAT(${users.firstName}, ' ', ${users.lastName}) ELSE NULL END`,
         supervisorEmail: users.email
@@ -382,28 +845,276 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
   
+  // Event series operations
+  async createEventSeries(
+    series: InsertEventSeries,
+    occurrences: InsertEvent[],
+    staffIds: string[],
+  ): Promise<{ series: EventSeries; events: Event[] }> {
+    return await db.transaction(async (tx) => {
+      const [newSeries] = await tx.insert(eventSeries).values([series]).returning();
+
+      const newEvents = await tx.insert(events).values(occurrences.map(occurrence => ({
+        ...occurrence,
+        extraServices: Array.isArray(occurrence.extraServices) ? occurrence.extraServices as ExtraService[] : [],
+        status: "open" as const,
+        seriesId: newSeries.id,
+      }))).returning();
+
+      if (staffIds.length > 0) {
+        await tx.insert(eventSupervisors).values(newEvents.flatMap(event =>
+          staffIds.map(staffId => ({ eventId: event.id, supervisorId: staffId }))
+        ));
+      }
+
+      return { series: newSeries, events: newEvents };
+    });
+  }
+
+  async getEventSeries(id: string): Promise<EventSeries | undefined> {
+    const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, id));
+    return series;
+  }
+
+  // Later, not deleted occurrences of the event's series
+  async getSeriesEventsAfter(event: Event): Promise<Event[]> {
+    if (!event.seriesId) return [];
+
+    return await db
+      .select()
+      .from(events)
+      .where(
+        and(
+          eq(events.seriesId, event.seriesId),
+          gte(events.startTime, event.startTime),
+          ne(events.id, event.id),
+          eq(events.deleted, false)
+        )
+      );
+  }
+
+  // Applies an edit to the later occurrences of the event's series. Start and end times are shifted and
+  // remaining seats adjusted relative to each occurrence, so their own dates and bookings are kept.
+  async updateSeriesEventsAfter(
+    event: Event,
+    eventData: Partial<InsertEvent>,
+    timeShift: { startMs: number; endMs: number },
+    seatsChange: number,
+  ): Promise<Event[]> {
+    if (!event.seriesId) return [];
+
+    const { startTime, endTime, remainingSeats, status, deleted, seriesId, ...sharedData } = eventData;
+    const updateData = Object.fromEntries(
+      Object.entries(sharedData).filter(([_, v]) => v !== undefined)
+    );
+
+    return await db
+      .update(events)
+      .set({
+        ...updateData,
+        startTime: sql`${events.startTime} + make_interval(secs => ${timeShift.startMs / 1000})`,
+        endTime: sql`${events.endTime} + make_interval(secs => ${timeShift.endMs / 1000})`,
+        remainingSeats: sql`GREATEST(${events.remainingSeats} + ${seatsChange}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(events.seriesId, event.seriesId),
+          gte(events.startTime, event.startTime),
+          ne(events.id, event.id),
+          eq(events.deleted, false)
+        )
+      )
+      .returning();
+  }
+
+  // Event template operations
+  async getEventTemplates(): Promise<EventTemplate[]> {
+    return await db.select().from(eventTemplates).orderBy(asc(eventTemplates.name));
+  }
+
+  async getEventTemplate(id: string): Promise<EventTemplate | undefined> {
+    const [template] = await db.select().from(eventTemplates).where(eq(eventTemplates.id, id));
+    return template;
+  }
+
+  async createEventTemplate(template: InsertEventTemplate, createdBy: string | null): Promise<EventTemplate> {
+    const [newTemplate] = await db
+      .insert(eventTemplates)
+      .values([{
+        ...template,
+        extraServices: Array.isArray(template.extraServices) ? template.extraServices as ExtraService[] : [],
+        createdBy,
+      }])
+      .returning();
+    return newTemplate;
+  }
+
+  async updateEventTemplate(id: string, template: Partial<InsertEventTemplate>): Promise<EventTemplate | undefined> {
+    const updateData = Object.fromEntries(
+      Object.entries(template).filter(([_, v]) => v !== undefined)
+    );
+
+    const [updated] = await db
+      .update(eventTemplates)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(eventTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEventTemplate(id: string): Promise<boolean> {
+    const deleted = await db.delete(eventTemplates).where(eq(eventTemplates.id, id)).returning({ id: eventTemplates.id });
+    return deleted.length > 0;
+  }
+
   // Event registration operations
   async createEventRegistration(registration: InsertEventRegistration): Promise<EventRegistration> {
     // Ensure proper type handling for jsonb arrays
     const registrationData = {
       ...registration,
-      selectedServices: Array.isArray(registration.selectedServices) ? registration.selectedServices as number[] : [],
+      selectedServices: Array.isArray(registration.selectedServices) ? registration.selectedServices as string[] : [],
     };
     const [newRegistration] = await db.insert(eventRegistrations).values([registrationData]).returning();
     return newRegistration;
   }
 
+  async bookEventRegistration(registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration> {
+    return await db.transaction((tx) => this.insertBooking(tx, registration, options));
+  }
+
+  // Takes the seat, charges the credits and inserts the registration inside the caller's transaction.
+  // The seat is taken with a conditional decrement, so concurrent bookings can never oversell an event.
+  private async insertBooking(
+    tx: DbTransaction,
+    registration: InsertEventRegistration,
+    options: BookingOptions,
+  ): Promise<EventRegistration> {
+    const creditsCost = registration.creditsCost || 0;
+
+    if (creditsCost > 0) {
+      // Serialize bookings per parent so two registrations can't spend the same credits
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${registration.parentId}))`);
+
+      const [result] = await tx
+        .select({ balance: sql<number>`COALESCE(SUM(${creditTransactions.amount}), 0)::int` })
+        .from(creditTransactions)
+        .where(eq(creditTransactions.userId, registration.parentId));
+      const creditBalance = result?.balance ?? 0;
+      if (creditBalance < creditsCost) {
+        throw new BookingError(
+          "insufficient_credits",
+          `You have insufficient credits to register for this event (${creditsCost} required, ${creditBalance} available)`,
+        );
+      }
+    }
+
+    const selectedServices = registration.selectedServices ?? [];
+    if (selectedServices.length > 0) {
+      // Lock the event row so concurrent bookings can't both take the last place on a capped service
+      const [event] = await tx
+        .select({ extraServices: events.extraServices })
+        .from(events)
+        .where(eq(events.id, registration.eventId))
+        .for("update");
+      const cappedServices = (event?.extraServices ?? []).filter(service =>
+        service.capacity && selectedServices.includes(service.id)
+      );
+      if (cappedServices.length > 0) {
+        const bookingCounts = await this.countServiceBookings(tx, registration.eventId);
+        const fullService = cappedServices.find(service => (bookingCounts[service.id] ?? 0) >= service.capacity!);
+        if (fullService) {
+          throw new BookingError("service_full", `${fullService.description} has no places left`);
+        }
+      }
+    }
+
+    if (options.takesSeat) {
+      const [seatTaken] = await tx
+        .update(events)
+        .set({
+          remainingSeats: sql`${events.remainingSeats} - 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(events.id, registration.eventId), sql`${events.remainingSeats} > 0`))
+        .returning({ id: events.id });
+      if (!seatTaken) {
+        throw new BookingError("no_seats", "No seats available for this event");
+      }
+    }
+
+    const [newRegistration] = await tx.insert(eventRegistrations).values([{
+      ...registration,
+      selectedServices: Array.isArray(registration.selectedServices) ? registration.selectedServices as string[] : [],
+    }]).returning();
+
+    if (creditsCost > 0) {
+      await tx.insert(creditTransactions).values([{
+        userId: registration.parentId,
+        amount: -creditsCost,
+        type: "spend",
+        description: options.spendDescription,
+        registrationId: newRegistration.id,
+      }]);
+    }
+
+    return newRegistration;
+  }
+
+  async getServiceBookingCounts(eventId: string): Promise<Record<string, number>> {
+    return await this.countServiceBookings(db, eventId);
+  }
+
+  // Active registrations per selected extra service id
+  private async countServiceBookings(executor: typeof db | DbTransaction, eventId: string): Promise<Record<string, number>> {
+    const rows = await executor
+      .select({ selectedServices: eventRegistrations.selectedServices })
+      .from(eventRegistrations)
+      .where(and(eq(eventRegistrations.eventId, eventId), ne(eventRegistrations.status, "cancelled")));
+
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      for (const serviceId of row.selectedServices) {
+        counts[serviceId] = (counts[serviceId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  async getEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    const [registration] = await db.select().from(eventRegistrations).where(eq(eventRegistrations.id, id));
+    return registration;
+  }
+
+  async cancelEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    // Only transition active registrations so a double cancel can't release the seat twice
+    const [cancelled] = await db
+      .update(eventRegistrations)
+      .set({ status: "cancelled", cancelledAt: new Date() })
+      .where(and(eq(eventRegistrations.id, id), ne(eventRegistrations.status, "cancelled")))
+      .returning();
+    return cancelled;
+  }
+
+  // Registration lookups below only return active (non-cancelled) registrations
   async getEventRegistrationsByParent(parentId: string): Promise<EventRegistration[]> {
-    return await db.select().from(eventRegistrations).where(eq(eventRegistrations.parentId, parentId));
+    return await db
+      .select()
+      .from(eventRegistrations)
+      .where(and(eq(eventRegistrations.parentId, parentId), ne(eventRegistrations.status, "cancelled")));
   }
 
   async getEventRegistrationsByEvent(eventId: string): Promise<EventRegistration[]> {
-    return await db.select().from(eventRegistrations).where(eq(eventRegistrations.eventId, eventId));
+    return await db
+      .select()
+      .from(eventRegistrations)
+      .where(and(eq(eventRegistrations.eventId, eventId), ne(eventRegistrations.status, "cancelled")));
   }
 
   async getEventRegistrationsWithDetailsForParent(parentId: string): Promise<any[]> {
     const registrations = await db
       .select({
+        id: eventRegistrations.id,
         eventId: eventRegistrations.eventId,
         childId: eventRegistrations.childId,
         parentId: eventRegistrations.parentId,
@@ -411,15 +1122,20 @@ export class DatabaseStorage implements IStorage {
         creditsCost: eventRegistrations.creditsCost,
         servicesCost: eventRegistrations.servicesCost,
         selectedServices: eventRegistrations.selectedServices,
+        status: eventRegistrations.status,
         event: {
           id: events.id,
           name: events.name,
           type: events.type,
           startTime: events.startTime,
+          endTime: events.endTime,
           location: events.location,
-          duration: events.duration,
           image: events.image,
           description: events.description,
+          cutoffHours: events.cutoffHours,
+          refundWindowHours: events.refundWindowHours,
+          deleted: events.deleted,
+          updatedAt: events.updatedAt,
         },
         child: {
           id: attendee.id,
@@ -430,7 +1146,7 @@ export class DatabaseStorage implements IStorage {
       .from(eventRegistrations)
       .innerJoin(events, eq(eventRegistrations.eventId, events.id))
       .innerJoin(attendee, eq(eventRegistrations.childId, attendee.id))
-      .where(eq(eventRegistrations.parentId, parentId))
+      .where(and(eq(eventRegistrations.parentId, parentId), ne(eventRegistrations.status, "cancelled")))
       .orderBy(events.startTime);
     
     return registrations;
@@ -443,98 +1159,2026 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(eventRegistrations.childId, childId),
-          eq(eventRegistrations.eventId, eventId)
+          eq(eventRegistrations.eventId, eventId),
+          ne(eventRegistrations.status, "cancelled")
         )
       );
     return !!registration;
   }
 
+  // Another event the child (or, when childId is null, the parent themselves) is registered for
+  // whose time window overlaps the given event
+  async getConflictingEvent(parentId: string, childId: string | null, event: Event): Promise<Event | undefined> {
+    const candidates = await db
+      .select({ event: events })
+      .from(eventRegistrations)
+      .innerJoin(events, eq(eventRegistrations.eventId, events.id))
+      .where(
+        and(
+          childId
+            ? eq(eventRegistrations.childId, childId)
+            : and(eq(eventRegistrations.parentId, parentId), isNull(eventRegistrations.childId)),
+          ne(eventRegistrations.status, "cancelled"),
+          ne(events.id, event.id),
+          eq(events.deleted, false),
+          lt(events.startTime, event.endTime),
+          gt(events.endTime, event.startTime)
+        )
+      )
+      .orderBy(asc(events.startTime))
+      .limit(1);
 
+    return candidates[0]?.event;
+  }
 
-  // User operations for staff/guest selection
-  async getUsersByRoles(roles: string[]): Promise<User[]> {
-    return await db.select().from(users).where(inArray(users.role, roles)).orderBy(users.firstName);
+  // Attendance operations
+  async isEventSupervisor(eventId: string, userId: string): Promise<boolean> {
+    // Supervisors come from the many-to-many table, with the legacy staffId as fallback
+    const [supervisor] = await db
+      .select({ id: eventSupervisors.id })
+      .from(eventSupervisors)
+      .where(and(eq(eventSupervisors.eventId, eventId), eq(eventSupervisors.supervisorId, userId)));
+    if (supervisor) return true;
+
+    const [event] = await db
+      .select({ id: events.id })
+      .from(events)
+      .where(and(eq(events.id, eventId), eq(events.staffId, userId)));
+    return !!event;
   }
-  
-  // Seeding
-  async seedEvents(): Promise<void> {
-    const existingEvents = await this.getAllEvents();
-    if (existingEvents.length > 0) return; // Already seeded
 
-    const seedEvents: InsertEvent[] = [
-      {
-        name: "Creative Arts Workshop",
-        type: "afterschool",
-        startTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
-        location: "Art Room A",
-        maxSeats: 5,
-        remainingSeats: 2,
-        creditsRequired: 3,
-        staffId: "staff_1",
-        duration: "3h",
-        description: "Let your child explore their creativity through painting, drawing, and crafts in our well-equipped art studio. All materials provided.",
-        image: "https://images.unsplash.com/photo-1513475382585-d06e58bcb0e0?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
-        cutoffHours: 12,
-        extraServices: [{ description: "Food", price: 10 }],
-      },
-      {
-        name: "Science Discovery Lab",
-        type: "afterschool",
-        startTime: new Date(Date.now() + 3 * 60 * 60 * 1000), // 3 hours from now
-        location: "Lab 101",
-        maxSeats: 3,
-        remainingSeats: 1,
-        creditsRequired: 4,
-        staffId: "staff_2",
-        duration: "2.5h",
-        description: "Hands-on experiments and discoveries await! Perfect for curious minds who love to explore how things work.",
-        image: "https://images.unsplash.com/photo-1532094349884-543bc11b234d?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
-        cutoffHours: 12,
-        extraServices: [],
-      },
-      {
-        name: "Soccer Skills Training",
-        type: "afterschool",
-        startTime: new Date(Date.now() + 4 * 60 * 60 * 1000), // 4 hours from now
-        location: "Field A",
-        maxSeats: 8,
-        remainingSeats: 0,
-        creditsRequired: 2,
-        staffId: "staff_3",
-        duration: "2h",
-        description: "Build teamwork and soccer skills in a fun, supportive environment. All skill levels welcome!",
-        image: "https://images.unsplash.com/photo-1551698618-1dfe5d97d256?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=200",
-        cutoffHours: 12,
-        extraServices: [{ description: "Snacks", price: 5 }],
-      },
-    ];
+  async getEventRoster(eventId: string): Promise<any[]> {
+    const roster = await db
+      .select({
+        registrationId: eventRegistrations.id,
+        eventId: eventRegistrations.eventId,
+        childId: eventRegistrations.childId,
+        parentId: eventRegistrations.parentId,
+        registeredAt: eventRegistrations.registeredAt,
+        child: {
+          id: attendee.id,
+          firstName: attendee.firstName,
+          lastName: attendee.lastName,
+          allergies: attendee.allergies,
+          dietaryRestrictions: attendee.dietaryRestrictions,
+          medicineNeeds: attendee.medicineNeeds,
+        },
+        parent: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+          phone: users.phone,
+          role: users.role,
+        },
+        attendance: {
+          status: attendance.status,
+          checkedInAt: attendance.checkedInAt,
+          checkedInBy: attendance.checkedInBy,
+          checkedOutAt: attendance.checkedOutAt,
+          checkedOutBy: attendance.checkedOutBy,
+          noShowMarkedAt: attendance.noShowMarkedAt,
+          noShowMarkedBy: attendance.noShowMarkedBy,
+          releasedToName: attendance.releasedToName,
+        },
+      })
+      .from(eventRegistrations)
+      .leftJoin(attendee, eq(eventRegistrations.childId, attendee.id))
+      .leftJoin(users, eq(eventRegistrations.parentId, users.id))
+      .leftJoin(attendance, eq(attendance.registrationId, eventRegistrations.id))
+      .where(and(eq(eventRegistrations.eventId, eventId), ne(eventRegistrations.status, "cancelled")))
+      .orderBy(attendee.firstName, users.firstName);
 
-    for (const event of seedEvents) {
-      await this.createEvent(event);
-    }
+    // Registrants with events.attendWithoutSeat registered as themselves are supervising, not attending
+    const seatlessRoles = await this.getRolesAttendingWithoutSeat();
+    const attendees = roster.filter(entry => registrationTakesSeat(entry, seatlessRoles.has(entry.parent?.role ?? "")));
+
+    // Attach the pickups staff may release each child to today
+    const childIds = attendees.map(entry => entry.childId).filter((id): id is string => !!id);
+    const pickups = childIds.length > 0
+      ? await db.select().from(authorizedPickups).where(inArray(authorizedPickups.childId, childIds))
+      : [];
+
+    return attendees.map(entry => ({
+      ...entry,
+      authorizedPickups: pickups.filter(pickup => pickup.childId === entry.childId && isPickupAuthorized(pickup)),
+    }));
   }
 
-  async seedAdminUser(): Promise<void> {
-    // Check if admin user already exists
-    const adminUsers = await db.select().from(users).where(eq(users.role, "admin"));
-    if (adminUsers.length > 0) return; // Admin already exists
+  async getRegistrationExportRows(filter: RegistrationExportFilter): Promise<RegistrationExportRow[]> {
+    const rows = await db
+      .select({ registration: eventRegistrations, event: events, child: attendee, parent: users })
+      .from(eventRegistrations)
+      .innerJoin(events, eq(eventRegistrations.eventId, events.id))
+      .leftJoin(attendee, eq(eventRegistrations.childId, attendee.id))
+      // Parent ids are Replit ids for Replit OAuth users
+      .leftJoin(users, or(eq(eventRegistrations.parentId, users.id), eq(eventRegistrations.parentId, users.replitId)))
+      .where(
+        "eventId" in filter
+          // A roster lists who is coming, so cancelled registrations are left out
+          ? and(eq(eventRegistrations.eventId, filter.eventId), ne(eventRegistrations.status, "cancelled"))
+          : and(gte(events.startTime, filter.from), lte(events.startTime, filter.to))
+      )
+      .orderBy(asc(events.startTime), attendee.lastName, attendee.firstName, users.lastName);
 
-    // Create a default admin user
-    await this.createAdminUser("admin@righthereapp.com");
+    // Registrants with events.attendWithoutSeat registered as themselves are supervising, not attending
+    const seatlessRoles = await this.getRolesAttendingWithoutSeat();
+    return rows.filter(row => registrationTakesSeat(row.registration, seatlessRoles.has(row.parent?.role ?? "")));
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  async getAttendanceByRegistration(registrationId: string): Promise<Attendance | undefined> {
+    const [record] = await db.select().from(attendance).where(eq(attendance.registrationId, registrationId));
+    return record;
   }
 
-  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
-    const [updatedUser] = await db
-      .update(users)
-      .set({ role, updatedAt: new Date() })
-      .where(eq(users.id, userId))
+  async upsertAttendance(record: UpsertAttendance): Promise<Attendance> {
+    const [saved] = await db
+      .insert(attendance)
+      .values([record])
+      .onConflictDoUpdate({
+        target: attendance.registrationId,
+        set: {
+          ...record,
+          updatedAt: new Date(),
+        },
+      })
       .returning();
-    return updatedUser;
+    return saved;
+  }
+
+  async deleteAttendance(registrationId: string): Promise<boolean> {
+    const result = await db.delete(attendance).where(eq(attendance.registrationId, registrationId));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Credit ledger operations
+  async getCreditBalance(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ balance: sql<number>`COALESCE(SUM(${creditTransactions.amount}), 0)::int` })
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId));
+    return result?.balance ?? 0;
+  }
+
+  async getCreditTransactions(userId: string): Promise<CreditTransaction[]> {
+    return await db
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId))
+      .orderBy(desc(creditTransactions.createdAt));
+  }
+
+  async createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction> {
+    const [newTransaction] = await db.insert(creditTransactions).values([transaction]).returning();
+    return newTransaction;
+  }
+
+  // Credit package operations
+  async getCreditPackages(includeInactive: boolean = false): Promise<CreditPackage[]> {
+    return await db
+      .select()
+      .from(creditPackages)
+      .where(includeInactive ? undefined : eq(creditPackages.active, true))
+      .orderBy(asc(creditPackages.credits));
+  }
+
+  async getCreditPackage(id: string): Promise<CreditPackage | undefined> {
+    const [creditPackage] = await db.select().from(creditPackages).where(eq(creditPackages.id, id));
+    return creditPackage;
+  }
+
+  async createCreditPackage(creditPackage: InsertCreditPackage): Promise<CreditPackage> {
+    const [newPackage] = await db.insert(creditPackages).values([creditPackage]).returning();
+    return newPackage;
+  }
+
+  async updateCreditPackage(id: string, creditPackage: Partial<InsertCreditPackage>): Promise<CreditPackage | undefined> {
+    const [updatedPackage] = await db
+      .update(creditPackages)
+      .set({ ...creditPackage, updatedAt: new Date() })
+      .where(eq(creditPackages.id, id))
+      .returning();
+    return updatedPackage;
+  }
+
+  // Purchases created as completed (cash taken by an admin) top up the balance in the same transaction;
+  // pending online purchases are topped up when their payment succeeds
+  async createCreditPurchase(purchase: InsertCreditPurchase): Promise<CreditPurchase> {
+    return await db.transaction(async (tx) => {
+      const [newPurchase] = await tx.insert(creditPurchases).values([purchase]).returning();
+      if (newPurchase.status === "completed") {
+        await this.topUpForPurchase(tx, newPurchase);
+      }
+      return newPurchase;
+    });
+  }
+
+  async getCompletedCreditPurchases(userId: string): Promise<CreditPurchase[]> {
+    return await db
+      .select()
+      .from(creditPurchases)
+      .where(and(eq(creditPurchases.userId, userId), eq(creditPurchases.status, "completed")))
+      .orderBy(desc(creditPurchases.completedAt));
+  }
+
+  private async topUpForPurchase(tx: DbTransaction, purchase: CreditPurchase): Promise<void> {
+    await tx.insert(creditTransactions).values([{
+      userId: purchase.userId,
+      amount: purchase.credits,
+      type: "top_up",
+      description: `${purchase.packageName} (receipt ${formatReceiptNumber(purchase.receiptNumber)})`,
+      createdBy: purchase.recordedBy,
+    }]);
+  }
+
+  // Payment operations
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [newPayment] = await db.insert(payments).values([payment]).returning();
+    return newPayment;
+  }
+
+  async getPaymentByReference(provider: string, providerReference: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.provider, provider), eq(payments.providerReference, providerReference)));
+    return payment;
+  }
+
+  async getPendingPayment(registrationId: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.registrationId, registrationId), eq(payments.status, "pending")))
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+    return payment;
+  }
+
+  async getSucceededPayment(registrationId: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.registrationId, registrationId), eq(payments.status, "succeeded")))
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+    return payment;
+  }
+
+  async recordPaymentRefund(id: string, status: "refunded" | "refund_required"): Promise<Payment | undefined> {
+    const [payment] = await db
+      .update(payments)
+      .set({ status, refundedAt: status === "refunded" ? new Date() : null })
+      .where(and(eq(payments.id, id), inArray(payments.status, ["succeeded", "refund_required"])))
+      .returning();
+    return payment;
+  }
+
+  // Settle a pending payment and, in the same transaction, confirm or cancel its registration or
+  // complete its credit purchase. Only pending rows transition, so a webhook delivered twice is applied once.
+  async completePayment(id: string, status: "succeeded" | "failed", failureReason: string | null): Promise<CompletedPayment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx
+        .update(payments)
+        .set({ status, failureReason, completedAt: new Date() })
+        .where(and(eq(payments.id, id), eq(payments.status, "pending")))
+        .returning();
+      if (!payment) return undefined;
+
+      if (payment.creditPurchaseId) {
+        const [creditPurchase] = await tx
+          .update(creditPurchases)
+          .set({ status: status === "succeeded" ? "completed" : "failed", completedAt: new Date() })
+          .where(and(eq(creditPurchases.id, payment.creditPurchaseId), eq(creditPurchases.status, "pending")))
+          .returning();
+        if (creditPurchase?.status === "completed") {
+          await this.topUpForPurchase(tx, creditPurchase);
+        }
+        return { payment, registration: undefined, creditPurchase };
+      }
+
+      if (!payment.registrationId) return { payment, registration: undefined };
+      const [registration] = await tx
+        .update(eventRegistrations)
+        .set(status === "succeeded" ? { status: "confirmed" } : { status: "cancelled", cancelledAt: new Date() })
+        .where(and(eq(eventRegistrations.id, payment.registrationId), eq(eventRegistrations.status, "pending_payment")))
+        .returning();
+      return { payment, registration };
+    });
+  }
+
+  // Waitlist operations
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const entryData = {
+      ...entry,
+      selectedServices: Array.isArray(entry.selectedServices) ? entry.selectedServices as string[] : [],
+    };
+    const [newEntry] = await db.insert(eventWaitlist).values([entryData]).returning();
+    return newEntry;
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(eventWaitlist).where(eq(eventWaitlist.id, id));
+    return entry;
+  }
+
+  async getWaitingEntriesForEvent(eventId: string): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(eventWaitlist)
+      .where(and(eq(eventWaitlist.eventId, eventId), eq(eventWaitlist.status, "waiting")))
+      .orderBy(asc(eventWaitlist.joinedAt));
+  }
+
+  async getWaitlistEntriesWithDetailsForParent(parentId: string): Promise<any[]> {
+    return await db
+      .select({
+        id: eventWaitlist.id,
+        eventId: eventWaitlist.eventId,
+        childId: eventWaitlist.childId,
+        parentId: eventWaitlist.parentId,
+        joinedAt: eventWaitlist.joinedAt,
+        // 1-based position among the event's waiting entries
+        position: sql<number>`(
+          SELECT COUNT(*)::int FROM event_waitlist w
+          WHERE w.event_id = ${eventWaitlist.eventId}
+            AND w.status = 'waiting'
+            AND w.joined_at <= ${eventWaitlist.joinedAt}
+        )`,
+        event: {
+          id: events.id,
+          name: events.name,
+          type: events.type,
+          startTime: events.startTime,
+          endTime: events.endTime,
+          location: events.location,
+          image: events.image,
+        },
+        child: {
+          id: attendee.id,
+          firstName: attendee.firstName,
+          lastName: attendee.lastName,
+        }
+      })
+      .from(eventWaitlist)
+      .innerJoin(events, eq(eventWaitlist.eventId, events.id))
+      .leftJoin(attendee, eq(eventWaitlist.childId, attendee.id))
+      .where(and(eq(eventWaitlist.parentId, parentId), eq(eventWaitlist.status, "waiting")))
+      .orderBy(events.startTime);
+  }
+
+  async isOnWaitlist(eventId: string, parentId: string, childId: string | null): Promise<boolean> {
+    const [entry] = await db
+      .select()
+      .from(eventWaitlist)
+      .where(
+        and(
+          eq(eventWaitlist.eventId, eventId),
+          eq(eventWaitlist.parentId, parentId),
+          childId ? eq(eventWaitlist.childId, childId) : isNull(eventWaitlist.childId),
+          eq(eventWaitlist.status, "waiting")
+        )
+      );
+    return !!entry;
+  }
+
+  async leaveWaitlist(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db
+      .update(eventWaitlist)
+      .set({ status: "left" })
+      .where(and(eq(eventWaitlist.id, id), eq(eventWaitlist.status, "waiting")))
+      .returning();
+    return entry;
+  }
+
+  async promoteWaitlistEntry(id: string, registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claim the entry first so a concurrent leave or promotion can't also act on it
+      const [claimed] = await tx
+        .update(eventWaitlist)
+        .set({ status: "promoted", promotedAt: new Date() })
+        .where(and(eq(eventWaitlist.id, id), eq(eventWaitlist.status, "waiting")))
+        .returning();
+      if (!claimed) return undefined;
+
+      const newRegistration = await this.insertBooking(tx, registration, options);
+
+      await tx
+        .update(eventWaitlist)
+        .set({ registrationId: newRegistration.id })
+        .where(eq(eventWaitlist.id, id));
+
+      return newRegistration;
+    });
+  }
+
+  // Notification operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    // Everything is enabled until the user changes it
+    return preferences ?? {
+      userId,
+      registrationConfirmation: true,
+      eventChanged: true,
+      eventCancelled: true,
+      eventReminder: true,
+      updatedAt: null,
+    };
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    preferences: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const [updated] = await db
+      .insert(notificationPreferences)
+      .values({ ...preferences, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return updated;
+  }
+
+  async getNotificationRegistrationsForEvent(eventId: string): Promise<NotificationRegistration[]> {
+    return await db
+      .select({ registration: eventRegistrations, event: events, child: attendee })
+      .from(eventRegistrations)
+      .innerJoin(events, eq(eventRegistrations.eventId, events.id))
+      .leftJoin(attendee, eq(eventRegistrations.childId, attendee.id))
+      // Registrations still awaiting payment hold a place too, so they hear about changes
+      .where(and(eq(eventRegistrations.eventId, eventId), ne(eventRegistrations.status, "cancelled")));
+  }
+
+  async getNotificationRegistrationsStartingBetween(from: Date, to: Date): Promise<NotificationRegistration[]> {
+    return await db
+      .select({ registration: eventRegistrations, event: events, child: attendee })
+      .from(eventRegistrations)
+      .innerJoin(events, eq(eventRegistrations.eventId, events.id))
+      .leftJoin(attendee, eq(eventRegistrations.childId, attendee.id))
+      .where(
+        and(
+          eq(eventRegistrations.status, "confirmed"),
+          eq(events.deleted, false),
+          gte(events.startTime, from),
+          lte(events.startTime, to)
+        )
+      )
+      .orderBy(events.startTime);
+  }
+
+  // Record a notification as sent; false means it already went out (or is going out elsewhere)
+  async claimNotification(userId: string, type: NotificationType, dedupeKey: string): Promise<boolean> {
+    const claimed = await db
+      .insert(notificationLog)
+      .values({ userId, type, dedupeKey })
+      .onConflictDoNothing({ target: notificationLog.dedupeKey })
+      .returning();
+    return claimed.length > 0;
+  }
+
+  // Forget a claim whose delivery failed, so it can be retried
+  async releaseNotification(dedupeKey: string): Promise<void> {
+    await db.delete(notificationLog).where(eq(notificationLog.dedupeKey, dedupeKey));
+  }
+
+  // Audit log operations
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  // Newest first; the action filter matches a prefix, so "event" finds every event action
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const conditions = [
+      query.action ? like(auditLog.action, `${query.action}%`) : undefined,
+      query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+      query.actorId ? eq(auditLog.actorId, query.actorId) : undefined,
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lte(auditLog.createdAt, query.to) : undefined,
+    ];
+
+    return await db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(query.limit);
+  }
+
+  // User operations for staff/guest selection
+  async getUsersByRoles(roles: string[]): Promise<User[]> {
+    return await db.select().from(users).where(inArray(users.role, roles)).orderBy(users.firstName);
+  }
+  
+  // Seeding
+  async seedEvents(): Promise<void> {
+    const existingEvents = await this.getAllEvents();
+    if (existingEvents.length > 0) return; // Already seeded
+
+    for (const event of buildSeedEvents()) {
+      await this.createEvent(event);
+    }
+  }
+
+  async seedAdminUser(): Promise<void> {
+    // Check if admin user already exists
+    const adminUsers = await db.select().from(users).where(eq(users.role, "admin"));
+    if (adminUsers.length > 0) return; // Admin already exists
+
+    // Create a default admin user
+    await this.createAdminUser("admin@righthereapp.com");
+  }
+
+  async seedRolePermissions(): Promise<void> {
+    // Grants added to the defaults since the last start are inserted; existing rows, granted or revoked, are kept
+    const rows = Object.entries(DEFAULT_ROLE_PERMISSIONS).flatMap(([role, permissions]) =>
+      permissions.map(permission => ({ role, permission })),
+    );
+    await db.insert(rolePermissions).values(rows).onConflictDoNothing();
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
+  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  // Role permissions
+  async getRolePermissions(role: string): Promise<Permission[]> {
+    const rows = await db
+      .select()
+      .from(rolePermissions)
+      .where(and(eq(rolePermissions.role, role), eq(rolePermissions.granted, true)));
+    return rows.map(row => row.permission);
+  }
+
+  private async getRolesAttendingWithoutSeat(): Promise<Set<string>> {
+    const rows = await db
+      .select({ role: rolePermissions.role })
+      .from(rolePermissions)
+      .where(and(eq(rolePermissions.permission, "events.attendWithoutSeat"), eq(rolePermissions.granted, true)));
+    return new Set(rows.map(row => row.role));
+  }
+
+  async setRolePermissions(role: string, permissions: Permission[]): Promise<void> {
+    // Every permission gets a row, so the ones left out are recorded as revoked
+    await db
+      .insert(rolePermissions)
+      .values(PERMISSIONS.map(permission => ({ role, permission, granted: permissions.includes(permission) })))
+      .onConflictDoUpdate({
+        target: [rolePermissions.role, rolePermissions.permission],
+        set: { granted: sql`excluded.granted` },
+      });
+  }
+
+  // Staff invitation operations
+  async createStaffInvitation(invitation: InsertStaffInvitation): Promise<StaffInvitation> {
+    const [created] = await db.insert(staffInvitations).values([invitation]).returning();
+    return created;
+  }
+
+  async getStaffInvitation(id: string): Promise<StaffInvitation | undefined> {
+    const [invitation] = await db.select().from(staffInvitations).where(eq(staffInvitations.id, id));
+    return invitation;
+  }
+
+  async getStaffInvitationByToken(token: string): Promise<StaffInvitation | undefined> {
+    const [invitation] = await db.select().from(staffInvitations).where(eq(staffInvitations.token, token));
+    return invitation;
+  }
+
+  async getPendingStaffInvitations(): Promise<StaffInvitation[]> {
+    return await db
+      .select()
+      .from(staffInvitations)
+      .where(eq(staffInvitations.status, "pending"))
+      .orderBy(desc(staffInvitations.createdAt));
+  }
+
+  async revokeStaffInvitation(id: string): Promise<StaffInvitation | undefined> {
+    const [invitation] = await db
+      .update(staffInvitations)
+      .set({ status: "revoked", respondedAt: new Date() })
+      .where(and(eq(staffInvitations.id, id), eq(staffInvitations.status, "pending")))
+      .returning();
+    return invitation;
+  }
+
+  async acceptStaffInvitation(id: string, userData: UpsertUser): Promise<User | undefined> {
+    // The invitation is claimed before the account is created, so a link can only be used once
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(staffInvitations)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(and(eq(staffInvitations.id, id), eq(staffInvitations.status, "pending")))
+        .returning();
+      if (!invitation) return undefined;
+
+      const [user] = await tx
+        .insert(users)
+        .values([{ ...userData, email: invitation.email, role: invitation.role }])
+        .returning();
+      await tx.update(staffInvitations).set({ acceptedBy: user.id }).where(eq(staffInvitations.id, id));
+      return user;
+    });
+  }
+}
+
+// Rows are copied on the way in and out, as if they had made a round trip through the database
+function copyRow<T>(row: T): T {
+  return structuredClone(row);
+}
+
+// Like .set() in drizzle, an update leaves fields that are undefined alone
+function definedFields<T extends object>(data: T): T {
+  return Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)) as T;
+}
+
+// ORDER BY semantics: ascending, with nulls last
+function compareValues(a: string | number | Date | null | undefined, b: string | number | Date | null | undefined): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Newest first; rows created in the same millisecond keep the latest insert first
+function newestFirst<T>(rows: T[], createdAt: (row: T) => Date | null): T[] {
+  return [...rows].reverse().sort((a, b) => compareValues(createdAt(b), createdAt(a)));
+}
+
+// IStorage kept in process memory, for tests and local development without Postgres (STORAGE=memory).
+// It follows DatabaseStorage's semantics: soft deletes, conditional seat decrements, cascades from children
+// and only-pending state transitions. Bookings run without awaiting in between, so they can't interleave.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private rolePermissions = new Map<string, Map<Permission, boolean>>(); // By role, then whether it's granted
+  private staffInvitations = new Map<string, StaffInvitation>();
+  private children = new Map<string, Child>();
+  private pickups = new Map<string, AuthorizedPickup>();
+  private householdIds = new Set<string>();
+  private householdMembers = new Map<string, HouseholdMember>(); // By user id
+  private householdInvitations = new Map<string, HouseholdInvitation>();
+  private events = new Map<string, Event>();
+  private supervisors: Array<{ id: string; eventId: string; supervisorId: string; createdAt: Date }> = [];
+  private series = new Map<string, EventSeries>();
+  private templates = new Map<string, EventTemplate>();
+  private registrations = new Map<string, EventRegistration>();
+  private attendanceRecords = new Map<string, Attendance>(); // By registration id
+  private transactions: CreditTransaction[] = [];
+  private packages = new Map<string, CreditPackage>();
+  private purchases = new Map<string, CreditPurchase>();
+  private nextReceiptNumber = 1;
+  private payments = new Map<string, Payment>();
+  private waitlist = new Map<string, WaitlistEntry>();
+  private preferences = new Map<string, NotificationPreferences>();
+  private sentNotifications = new Map<string, { userId: string; type: NotificationType }>(); // By dedupe key
+  private auditEntries: AuditEntry[] = [];
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && copyRow(user);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.findUser(user => user.email === email);
+  }
+
+  async getUserByReplitId(replitId: string): Promise<User | undefined> {
+    return this.findUser(user => user.replitId === replitId);
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return this.findUser(user => user.calendarToken === token);
+  }
+
+  private findUser(predicate: (user: User) => boolean): User | undefined {
+    const user = Array.from(this.users.values()).find(predicate);
+    return user && copyRow(user);
+  }
+
+  // Replit OAuth users are referenced by their Replit id in registrations and the credit ledger
+  private findParent(parentId: string): User | undefined {
+    return this.users.get(parentId) ?? Array.from(this.users.values()).find(user => user.replitId === parentId);
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    return copyRow(this.insertUser(userData));
+  }
+
+  private insertUser(userData: UpsertUser): User {
+    const now = new Date();
+    const user: User = {
+      id: randomUUID(),
+      email: null,
+      firstName: null,
+      lastName: null,
+      phone: null,
+      dateOfBirth: null,
+      password: null,
+      authType: "email",
+      replitId: null,
+      isEmailVerified: false,
+      role: "user",
+      profileImageUrl: null,
+      calendarToken: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedFields(userData),
+    };
+    this.assertUniqueUser(user);
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  // The users table has unique email and calendar token columns
+  private assertUniqueUser(user: User): void {
+    for (const other of Array.from(this.users.values())) {
+      if (other.id === user.id) continue;
+      if ((user.email && other.email === user.email) || (user.calendarToken && other.calendarToken === user.calendarToken)) {
+        throw new Error(`A user with this ${other.email === user.email ? "email" : "calendar token"} already exists`);
+      }
+    }
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = userData.id ? this.users.get(userData.id) : undefined;
+    if (!existing) return this.createUser(userData);
+    const user = { ...existing, ...definedFields(userData), updatedAt: new Date() };
+    this.assertUniqueUser(user);
+    this.users.set(user.id, user);
+    return copyRow(user);
+  }
+
+  async updateUser(id: string, userData: Partial<UpsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user = { ...existing, ...definedFields(userData), id: userData.id ?? id, updatedAt: new Date() };
+    this.assertUniqueUser(user);
+    this.users.delete(id);
+    this.users.set(user.id, user);
+    return copyRow(user);
+  }
+
+  async createAdminUser(email: string): Promise<User> {
+    return this.createUser({
+      id: `admin_${Date.now()}`,
+      email,
+      firstName: "Admin",
+      lastName: "User",
+      role: "admin",
+    });
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).map(copyRow);
+  }
+
+  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+    return this.updateUser(userId, { role });
+  }
+
+  // Role permissions
+  async getRolePermissions(role: string): Promise<Permission[]> {
+    return Array.from(this.rolePermissions.get(role) ?? []).filter(([, granted]) => granted).map(([permission]) => permission);
+  }
+
+  private async getRolesAttendingWithoutSeat(): Promise<Set<string>> {
+    return new Set(Array.from(this.rolePermissions.entries())
+      .filter(([, grants]) => grants.get("events.attendWithoutSeat"))
+      .map(([role]) => role));
+  }
+
+  async setRolePermissions(role: string, permissions: Permission[]): Promise<void> {
+    this.rolePermissions.set(role, new Map(PERMISSIONS.map(permission => [permission, permissions.includes(permission)])));
+  }
+
+  // Staff invitation operations
+  async createStaffInvitation(invitation: InsertStaffInvitation): Promise<StaffInvitation> {
+    if (Array.from(this.staffInvitations.values()).some(other => other.token === invitation.token)) {
+      throw new Error("A staff invitation with this token already exists");
+    }
+    const created: StaffInvitation = {
+      id: randomUUID(),
+      invitedBy: null,
+      status: "pending",
+      acceptedBy: null,
+      createdAt: new Date(),
+      respondedAt: null,
+      ...definedFields(invitation),
+    };
+    this.staffInvitations.set(created.id, created);
+    return copyRow(created);
+  }
+
+  async getStaffInvitation(id: string): Promise<StaffInvitation | undefined> {
+    const invitation = this.staffInvitations.get(id);
+    return invitation && copyRow(invitation);
+  }
+
+  async getStaffInvitationByToken(token: string): Promise<StaffInvitation | undefined> {
+    const invitation = Array.from(this.staffInvitations.values()).find(candidate => candidate.token === token);
+    return invitation && copyRow(invitation);
+  }
+
+  async getPendingStaffInvitations(): Promise<StaffInvitation[]> {
+    return newestFirst(
+      Array.from(this.staffInvitations.values()).filter(invitation => invitation.status === "pending"),
+      invitation => invitation.createdAt,
+    ).map(copyRow);
+  }
+
+  async revokeStaffInvitation(id: string): Promise<StaffInvitation | undefined> {
+    const invitation = this.staffInvitations.get(id);
+    if (!invitation || invitation.status !== "pending") return undefined;
+    invitation.status = "revoked";
+    invitation.respondedAt = new Date();
+    return copyRow(invitation);
+  }
+
+  async acceptStaffInvitation(id: string, userData: UpsertUser): Promise<User | undefined> {
+    // The account is created first, so a duplicate email leaves the invitation pending as the rolled back transaction would
+    const invitation = this.staffInvitations.get(id);
+    if (!invitation || invitation.status !== "pending") return undefined;
+
+    const user = this.insertUser({ ...userData, email: invitation.email, role: invitation.role });
+    invitation.status = "accepted";
+    invitation.respondedAt = new Date();
+    invitation.acceptedBy = user.id;
+    return copyRow(user);
+  }
+
+  // Child operations
+  async getChildrenByParentId(parentId: string): Promise<Child[]> {
+    return Array.from(this.children.values()).filter(child => child.parentId === parentId).map(copyRow);
+  }
+
+  async createChild(child: InsertChild): Promise<Child> {
+    const now = new Date();
+    const newChild: Child = {
+      id: randomUUID(),
+      gender: null,
+      dietaryRestrictions: null,
+      allergies: null,
+      medicineNeeds: null,
+      otherNotes: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedFields(child),
+    };
+    this.children.set(newChild.id, newChild);
+    return copyRow(newChild);
+  }
+
+  async updateChild(id: string, childData: Partial<InsertChild>): Promise<Child | undefined> {
+    const existing = this.children.get(id);
+    if (!existing) return undefined;
+    const updatedChild = { ...existing, ...definedFields(childData), updatedAt: new Date() };
+    this.children.set(id, updatedChild);
+    return copyRow(updatedChild);
+  }
+
+  // Deleting a child cascades to their pickups, registrations (with attendance and payments) and waitlist entries
+  async deleteChild(id: string): Promise<boolean> {
+    if (!this.children.delete(id)) return false;
+
+    for (const pickup of Array.from(this.pickups.values())) {
+      if (pickup.childId === id) this.pickups.delete(pickup.id);
+    }
+    for (const registration of Array.from(this.registrations.values())) {
+      if (registration.childId !== id) continue;
+      this.registrations.delete(registration.id);
+      this.attendanceRecords.delete(registration.id);
+      for (const payment of Array.from(this.payments.values())) {
+        if (payment.registrationId === registration.id) this.payments.delete(payment.id);
+      }
+      for (const transaction of this.transactions) {
+        if (transaction.registrationId === registration.id) transaction.registrationId = null;
+      }
+    }
+    for (const entry of Array.from(this.waitlist.values())) {
+      if (entry.childId === id) this.waitlist.delete(entry.id);
+    }
+    return true;
+  }
+
+  async getChild(id: string): Promise<Child | undefined> {
+    const child = this.children.get(id);
+    return child && copyRow(child);
+  }
+
+  // Authorized pickup operations
+  async getAuthorizedPickupsByChild(childId: string): Promise<AuthorizedPickup[]> {
+    return Array.from(this.pickups.values())
+      .filter(pickup => pickup.childId === childId)
+      .sort((a, b) => compareValues(a.createdAt, b.createdAt))
+      .map(copyRow);
+  }
+
+  async getAuthorizedPickup(id: string): Promise<AuthorizedPickup | undefined> {
+    const pickup = this.pickups.get(id);
+    return pickup && copyRow(pickup);
+  }
+
+  async replaceAuthorizedPickups(childId: string, pickups: AuthorizedPickupInput[]): Promise<AuthorizedPickup[]> {
+    // The parent edits the list as a whole; keep existing rows (matched by id) so attendance links survive
+    const existing = Array.from(this.pickups.values()).filter(pickup => pickup.childId === childId);
+    const keptIds = pickups.map(pickup => pickup.id).filter((id): id is string => !!id && existing.some(e => e.id === id));
+
+    for (const pickup of existing) {
+      if (!keptIds.includes(pickup.id)) this.pickups.delete(pickup.id);
+    }
+
+    const now = new Date();
+    const saved: AuthorizedPickup[] = [];
+    for (const { id, ...pickup } of pickups) {
+      const values = {
+        ...pickup,
+        photoUrl: pickup.photoUrl || null,
+        validFrom: pickup.validFrom || null,
+        validUntil: pickup.validUntil || null,
+      };
+      const row: AuthorizedPickup = id && keptIds.includes(id)
+        ? { ...this.pickups.get(id)!, ...values, updatedAt: now }
+        : { ...values, id: randomUUID(), childId, createdAt: now, updatedAt: now };
+      this.pickups.set(row.id, row);
+      saved.push(copyRow(row));
+    }
+    return saved;
+  }
+
+  // Household operations
+  async getHouseholdMembership(userId: string): Promise<HouseholdMember | undefined> {
+    const member = this.householdMembers.get(userId);
+    return member && copyRow(member);
+  }
+
+  async getHouseholdMembers(householdId: string): Promise<HouseholdMemberWithUser[]> {
+    return Array.from(this.householdMembers.values())
+      .filter(member => member.householdId === householdId && this.users.has(member.userId))
+      .sort((a, b) => compareValues(a.joinedAt, b.joinedAt))
+      .map(member => {
+        const user = this.users.get(member.userId)!;
+        return { ...copyRow(member), firstName: user.firstName, lastName: user.lastName, email: user.email };
+      });
+  }
+
+  async createHousehold(userId: string): Promise<HouseholdMember> {
+    const householdId = randomUUID();
+    this.householdIds.add(householdId);
+    return copyRow(this.insertHouseholdMember(userId, householdId, "full"));
+  }
+
+  // household_members is keyed by user, so a user can only be in one household
+  private insertHouseholdMember(userId: string, householdId: string, permission: GuardianPermission): HouseholdMember {
+    if (this.householdMembers.has(userId)) {
+      throw new Error(`User ${userId} is already in a household`);
+    }
+    const member: HouseholdMember = { userId, householdId, permission, joinedAt: new Date() };
+    this.householdMembers.set(userId, member);
+    return member;
+  }
+
+  async updateHouseholdMember(userId: string, permission: GuardianPermission): Promise<HouseholdMember | undefined> {
+    const member = this.householdMembers.get(userId);
+    if (!member) return undefined;
+    member.permission = permission;
+    return copyRow(member);
+  }
+
+  async removeHouseholdMember(userId: string): Promise<boolean> {
+    return this.leaveHousehold(userId);
+  }
+
+  // Drops the user's membership, and the household with its invitations when nobody is left
+  private leaveHousehold(userId: string): boolean {
+    const removed = this.householdMembers.get(userId);
+    if (!removed) return false;
+    this.householdMembers.delete(userId);
+
+    if (!Array.from(this.householdMembers.values()).some(member => member.householdId === removed.householdId)) {
+      this.householdIds.delete(removed.householdId);
+      for (const invitation of Array.from(this.householdInvitations.values())) {
+        if (invitation.householdId === removed.householdId) this.householdInvitations.delete(invitation.id);
+      }
+    }
+    return true;
+  }
+
+  async createHouseholdInvitation(invitation: InsertHouseholdInvitation): Promise<HouseholdInvitation> {
+    if (Array.from(this.householdInvitations.values()).some(other => other.token === invitation.token)) {
+      throw new Error("A household invitation with this token already exists");
+    }
+    const created: HouseholdInvitation = {
+      id: randomUUID(),
+      permission: "full",
+      invitedBy: null,
+      status: "pending",
+      createdAt: new Date(),
+      respondedAt: null,
+      ...definedFields(invitation),
+    };
+    this.householdInvitations.set(created.id, created);
+    return copyRow(created);
+  }
+
+  async getHouseholdInvitation(id: string): Promise<HouseholdInvitation | undefined> {
+    const invitation = this.householdInvitations.get(id);
+    return invitation && copyRow(invitation);
+  }
+
+  async getHouseholdInvitationByToken(token: string): Promise<HouseholdInvitation | undefined> {
+    const invitation = Array.from(this.householdInvitations.values()).find(candidate => candidate.token === token);
+    return invitation && copyRow(invitation);
+  }
+
+  async getPendingHouseholdInvitations(householdId: string): Promise<HouseholdInvitation[]> {
+    return newestFirst(
+      Array.from(this.householdInvitations.values())
+        .filter(invitation => invitation.householdId === householdId && invitation.status === "pending"),
+      invitation => invitation.createdAt,
+    ).map(copyRow);
+  }
+
+  async closeHouseholdInvitation(id: string, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined> {
+    const invitation = this.householdInvitations.get(id);
+    if (!invitation || invitation.status !== "pending") return undefined;
+    invitation.status = status;
+    invitation.respondedAt = new Date();
+    return copyRow(invitation);
+  }
+
+  async acceptHouseholdInvitation(id: string, userId: string): Promise<HouseholdMember | undefined> {
+    // Only a pending invitation can be accepted; the user moves over from any household they were in
+    const invitation = this.householdInvitations.get(id);
+    if (!invitation || invitation.status !== "pending" || !this.householdIds.has(invitation.householdId)) return undefined;
+    invitation.status = "accepted";
+    invitation.respondedAt = new Date();
+
+    this.leaveHousehold(userId);
+    return copyRow(this.insertHouseholdMember(userId, invitation.householdId, invitation.permission));
+  }
+
+  // Event operations
+  async getAllEvents(includeDeleted: boolean = false): Promise<any[]> {
+    return Array.from(this.events.values())
+      .filter(event => includeDeleted || !event.deleted)
+      .sort((a, b) => compareValues(b.startTime, a.startTime))
+      .map(event => {
+        // Supervisors from the many-to-many table, falling back to the legacy staffId
+        const eventSupervisorsForEvent = this.supervisors
+          .filter(supervisor => supervisor.eventId === event.id && this.users.has(supervisor.supervisorId))
+          .map(supervisor => {
+            const user = this.users.get(supervisor.supervisorId)!;
+            return {
+              eventId: event.id,
+              supervisorId: user.id,
+              supervisorName: `${user.firstName ?? ""} ${user.lastName ?? ""}`,
+              supervisorEmail: user.email,
+            };
+          });
+        const staff = event.staffId ? this.users.get(event.staffId) : undefined;
+        const primaryStaffName = event.staffId ? `${staff?.firstName ?? ""} ${staff?.lastName ?? ""}` : null;
+        const allSupervisorNames = eventSupervisorsForEvent.length > 0
+          ? eventSupervisorsForEvent.map(supervisor => supervisor.supervisorName)
+          : primaryStaffName ? [primaryStaffName] : [];
+
+        return {
+          ...copyRow(event),
+          primaryStaffName,
+          status: calculateEventStatus(event),
+          supervisors: eventSupervisorsForEvent,
+          supervisorName: eventSupervisorsForEvent.length > 0 ? eventSupervisorsForEvent[0].supervisorName : primaryStaffName,
+          supervisorNames: allSupervisorNames.join(', '),
+        };
+      });
+  }
+
+  async getAllEventsForAdmin(): Promise<any[]> {
+    return this.getAllEvents(true);
+  }
+
+  async getEventsForUser(): Promise<any[]> {
+    const allEvents = await this.getAllEvents(false);
+    return allEvents.filter(event => event.status !== "past" && event.status !== "editing");
+  }
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    const event = this.events.get(id);
+    return event && copyRow(event);
+  }
+
+  private insertEvent(eventData: InsertEvent, staffIds: string[] = []): Event {
+    const now = new Date();
+    const event: Event = {
+      id: randomUUID(),
+      type: "afterschool",
+      maxSeats: 3,
+      remainingSeats: 3,
+      staffId: null,
+      image: null,
+      cutoffHours: 12,
+      refundWindowHours: null,
+      servicesCurrency: "USD",
+      allowedRegistrants: "attendee",
+      eligibility: {},
+      deleted: false,
+      seriesId: null,
+      createdAt: now,
+      updatedAt: now,
+      ...copyRow(definedFields(eventData)) as InsertEvent,
+      extraServices: Array.isArray(eventData.extraServices) ? copyRow(eventData.extraServices as ExtraService[]) : [],
+      status: "open",
+    };
+    this.events.set(event.id, event);
+    for (const staffId of staffIds) {
+      this.supervisors.push({ id: randomUUID(), eventId: event.id, supervisorId: staffId, createdAt: now });
+    }
+    return event;
+  }
+
+  async createEvent(event: InsertEvent & { staffIds?: string[] }): Promise<Event> {
+    const { staffIds, ...eventData } = event;
+    return copyRow(this.insertEvent(eventData, staffIds));
+  }
+
+  async createEvents(newEvents: Array<InsertEvent & { staffIds: string[] }>): Promise<Event[]> {
+    return newEvents.map(({ staffIds, ...eventData }) => copyRow(this.insertEvent(eventData, staffIds)));
+  }
+
+  async updateEvent(id: string, eventData: Partial<InsertEvent>): Promise<Event | undefined> {
+    const existing = this.events.get(id);
+    if (!existing) return undefined;
+    const seatsData = eventData.maxSeats !== undefined && eventData.remainingSeats === undefined
+      ? { remainingSeats: Math.max(existing.remainingSeats + eventData.maxSeats - existing.maxSeats, 0) }
+      : {};
+    const updatedEvent = { ...existing, ...copyRow(definedFields(eventData)), ...seatsData, updatedAt: new Date() } as Event;
+    this.events.set(id, updatedEvent);
+    return copyRow(updatedEvent);
+  }
+
+  async updateEventStatus(id: string, status: EventStatus): Promise<Event | undefined> {
+    return this.updateEvent(id, { status });
+  }
+
+  async softDeleteEvent(id: string): Promise<boolean> {
+    return !!(await this.updateEvent(id, { deleted: true }));
+  }
+
+  async restoreEvent(id: string): Promise<boolean> {
+    return !!(await this.updateEvent(id, { deleted: false }));
+  }
+
+  async updateEventSupervisors(eventId: string, staffIds: string[]): Promise<void> {
+    const now = new Date();
+    this.supervisors = this.supervisors.filter(supervisor => supervisor.eventId !== eventId);
+    for (const staffId of staffIds) {
+      this.supervisors.push({ id: randomUUID(), eventId, supervisorId: staffId, createdAt: now });
+    }
+  }
+
+  async getEventSupervisorIds(eventId: string): Promise<string[]> {
+    return this.supervisors.filter(supervisor => supervisor.eventId === eventId).map(supervisor => supervisor.supervisorId);
+  }
+
+  async updateEventSeats(eventId: string, seatsChange: number): Promise<Event | undefined> {
+    const existing = this.events.get(eventId);
+    if (!existing) return undefined;
+    return this.updateEvent(eventId, { remainingSeats: existing.remainingSeats + seatsChange });
+  }
+
+  async getSupervisedEventsByStaff(staffId: string): Promise<any[]> {
+    const staff = this.users.get(staffId);
+    return Array.from(this.events.values())
+      .filter(event => event.staffId === staffId)
+      .sort((a, b) => compareValues(b.startTime, a.startTime))
+      .map(({ status, deleted, ...event }) => ({
+        ...copyRow(event),
+        supervisorName: staff ? `${staff.firstName ?? ""} ${staff.lastName ?? ""}` : null,
+        supervisorEmail: staff?.email ?? null,
+      }));
+  }
+
+  // Event series operations
+  async createEventSeries(
+    series: InsertEventSeries,
+    occurrences: InsertEvent[],
+    staffIds: string[],
+  ): Promise<{ series: EventSeries; events: Event[] }> {
+    const now = new Date();
+    const newSeries: EventSeries = {
+      id: randomUUID(),
+      createdBy: null,
+      createdAt: now,
+      updatedAt: now,
+      ...copyRow(definedFields(series)) as InsertEventSeries,
+    };
+    this.series.set(newSeries.id, newSeries);
+
+    const newEvents = occurrences.map(occurrence => this.insertEvent({ ...occurrence, seriesId: newSeries.id }, staffIds));
+    return { series: copyRow(newSeries), events: newEvents.map(copyRow) };
+  }
+
+  async getEventSeries(id: string): Promise<EventSeries | undefined> {
+    const series = this.series.get(id);
+    return series && copyRow(series);
+  }
+
+  // Later, not deleted occurrences of the event's series
+  private seriesEventsAfter(event: Event): Event[] {
+    if (!event.seriesId) return [];
+    return Array.from(this.events.values()).filter(other =>
+      other.seriesId === event.seriesId &&
+      other.startTime.getTime() >= new Date(event.startTime).getTime() &&
+      other.id !== event.id &&
+      !other.deleted
+    );
+  }
+
+  async getSeriesEventsAfter(event: Event): Promise<Event[]> {
+    return this.seriesEventsAfter(event).map(copyRow);
+  }
+
+  async updateSeriesEventsAfter(
+    event: Event,
+    eventData: Partial<InsertEvent>,
+    timeShift: { startMs: number; endMs: number },
+    seatsChange: number,
+  ): Promise<Event[]> {
+    const { startTime, endTime, remainingSeats, status, deleted, seriesId, ...sharedData } = eventData;
+    const updateData = copyRow(definedFields(sharedData));
+
+    return this.seriesEventsAfter(event).map(occurrence => {
+      const updated = {
+        ...occurrence,
+        ...updateData,
+        startTime: new Date(occurrence.startTime.getTime() + timeShift.startMs),
+        endTime: new Date(occurrence.endTime.getTime() + timeShift.endMs),
+        remainingSeats: Math.max(occurrence.remainingSeats + seatsChange, 0),
+        updatedAt: new Date(),
+      } as Event;
+      this.events.set(updated.id, updated);
+      return copyRow(updated);
+    });
+  }
+
+  // Event template operations
+  async getEventTemplates(): Promise<EventTemplate[]> {
+    return Array.from(this.templates.values()).sort((a, b) => compareValues(a.name, b.name)).map(copyRow);
+  }
+
+  async getEventTemplate(id: string): Promise<EventTemplate | undefined> {
+    const template = this.templates.get(id);
+    return template && copyRow(template);
+  }
+
+  async createEventTemplate(template: InsertEventTemplate, createdBy: string | null): Promise<EventTemplate> {
+    const now = new Date();
+    const newTemplate: EventTemplate = {
+      id: randomUUID(),
+      type: "afterschool",
+      maxSeats: 3,
+      creditsRequired: 0,
+      cutoffHours: 12,
+      refundWindowHours: null,
+      image: null,
+      servicesCurrency: "USD",
+      allowedRegistrants: "attendee",
+      eligibility: {},
+      supervisorIds: [],
+      createdAt: now,
+      updatedAt: now,
+      ...copyRow(definedFields(template)) as InsertEventTemplate,
+      extraServices: Array.isArray(template.extraServices) ? copyRow(template.extraServices as ExtraService[]) : [],
+      createdBy,
+    };
+    this.templates.set(newTemplate.id, newTemplate);
+    return copyRow(newTemplate);
+  }
+
+  async updateEventTemplate(id: string, template: Partial<InsertEventTemplate>): Promise<EventTemplate | undefined> {
+    const existing = this.templates.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...copyRow(definedFields(template)), updatedAt: new Date() } as EventTemplate;
+    this.templates.set(id, updated);
+    return copyRow(updated);
+  }
+
+  async deleteEventTemplate(id: string): Promise<boolean> {
+    return this.templates.delete(id);
+  }
+
+  // Event registration operations
+  private insertRegistration(registration: InsertEventRegistration): EventRegistration {
+    const newRegistration: EventRegistration = {
+      id: randomUUID(),
+      childId: null,
+      creditsCost: 0,
+      servicesCost: 0,
+      status: "confirmed",
+      registeredAt: new Date(),
+      cancelledAt: null,
+      ...definedFields(registration),
+      selectedServices: Array.isArray(registration.selectedServices) ? [...registration.selectedServices] : [],
+    };
+    this.registrations.set(newRegistration.id, newRegistration);
+    return newRegistration;
+  }
+
+  async createEventRegistration(registration: InsertEventRegistration): Promise<EventRegistration> {
+    return copyRow(this.insertRegistration(registration));
+  }
+
+  async bookEventRegistration(registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration> {
+    return copyRow(this.insertBooking(registration, options));
+  }
+
+  // Checks credits, service places and seats, then takes the seat, charges the credits and inserts the
+  // registration. Nothing is changed until every check has passed, as with DatabaseStorage's transaction.
+  private insertBooking(registration: InsertEventRegistration, options: BookingOptions): EventRegistration {
+    const creditsCost = registration.creditsCost || 0;
+
+    if (creditsCost > 0) {
+      const creditBalance = this.balanceOf(registration.parentId);
+      if (creditBalance < creditsCost) {
+        throw new BookingError(
+          "insufficient_credits",
+          `You have insufficient credits to register for this event (${creditsCost} required, ${creditBalance} available)`,
+        );
+      }
+    }
+
+    const event = this.events.get(registration.eventId);
+    const selectedServices = registration.selectedServices ?? [];
+    const cappedServices = (event?.extraServices ?? []).filter(service =>
+      service.capacity && selectedServices.includes(service.id)
+    );
+    if (cappedServices.length > 0) {
+      const bookingCounts = this.countServiceBookings(registration.eventId);
+      const fullService = cappedServices.find(service => (bookingCounts[service.id] ?? 0) >= service.capacity!);
+      if (fullService) {
+        throw new BookingError("service_full", `${fullService.description} has no places left`);
+      }
+    }
+
+    if (options.takesSeat) {
+      if (!event || event.remainingSeats <= 0) {
+        throw new BookingError("no_seats", "No seats available for this event");
+      }
+      this.events.set(event.id, { ...event, remainingSeats: event.remainingSeats - 1, updatedAt: new Date() });
+    }
+
+    const newRegistration = this.insertRegistration(registration);
+
+    if (creditsCost > 0) {
+      this.insertCreditTransaction({
+        userId: registration.parentId,
+        amount: -creditsCost,
+        type: "spend",
+        description: options.spendDescription,
+        registrationId: newRegistration.id,
+      });
+    }
+
+    return newRegistration;
+  }
+
+  async getServiceBookingCounts(eventId: string): Promise<Record<string, number>> {
+    return this.countServiceBookings(eventId);
+  }
+
+  private activeRegistrations(): EventRegistration[] {
+    return Array.from(this.registrations.values()).filter(registration => registration.status !== "cancelled");
+  }
+
+  // Active registrations per selected extra service id
+  private countServiceBookings(eventId: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const registration of this.activeRegistrations()) {
+      if (registration.eventId !== eventId) continue;
+      for (const serviceId of registration.selectedServices) {
+        counts[serviceId] = (counts[serviceId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  async getEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    const registration = this.registrations.get(id);
+    return registration && copyRow(registration);
+  }
+
+  async cancelEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    // Only transition active registrations so a double cancel can't release the seat twice
+    const existing = this.registrations.get(id);
+    if (!existing || existing.status === "cancelled") return undefined;
+    const cancelled: EventRegistration = { ...existing, status: "cancelled", cancelledAt: new Date() };
+    this.registrations.set(id, cancelled);
+    return copyRow(cancelled);
+  }
+
+  // Registration lookups below only return active (non-cancelled) registrations
+  async getEventRegistrationsByParent(parentId: string): Promise<EventRegistration[]> {
+    return this.activeRegistrations().filter(registration => registration.parentId === parentId).map(copyRow);
+  }
+
+  async getEventRegistrationsByEvent(eventId: string): Promise<EventRegistration[]> {
+    return this.activeRegistrations().filter(registration => registration.eventId === eventId).map(copyRow);
+  }
+
+  async getEventRegistrationsWithDetailsForParent(parentId: string): Promise<any[]> {
+    return this.activeRegistrations()
+      .filter(registration => registration.parentId === parentId && registration.childId && this.children.has(registration.childId))
+      .filter(registration => this.events.has(registration.eventId))
+      .map(registration => {
+        const event = this.events.get(registration.eventId)!;
+        const child = this.children.get(registration.childId!)!;
+        return {
+          id: registration.id,
+          eventId: registration.eventId,
+          childId: registration.childId,
+          parentId: registration.parentId,
+          registeredAt: registration.registeredAt,
+          creditsCost: registration.creditsCost,
+          servicesCost: registration.servicesCost,
+          selectedServices: [...registration.selectedServices],
+          status: registration.status,
+          event: {
+            id: event.id,
+            name: event.name,
+            type: event.type,
+            startTime: event.startTime,
+            endTime: event.endTime,
+            location: event.location,
+            image: event.image,
+            description: event.description,
+            cutoffHours: event.cutoffHours,
+            refundWindowHours: event.refundWindowHours,
+            deleted: event.deleted,
+            updatedAt: event.updatedAt,
+          },
+          child: {
+            id: child.id,
+            firstName: child.firstName,
+            lastName: child.lastName,
+          },
+        };
+      })
+      .sort((a, b) => compareValues(a.event.startTime, b.event.startTime));
+  }
+
+  async isChildRegisteredForEvent(childId: string, eventId: string): Promise<boolean> {
+    return this.activeRegistrations().some(registration => registration.childId === childId && registration.eventId === eventId);
+  }
+
+  // Another event the child (or, when childId is null, the parent themselves) is registered for
+  // whose time window overlaps the given event
+  async getConflictingEvent(parentId: string, childId: string | null, event: Event): Promise<Event | undefined> {
+    const candidates = this.activeRegistrations()
+      .filter(registration => childId
+        ? registration.childId === childId
+        : registration.parentId === parentId && registration.childId === null)
+      .map(registration => this.events.get(registration.eventId))
+      .filter((other): other is Event =>
+        !!other &&
+        other.id !== event.id &&
+        !other.deleted &&
+        other.startTime.getTime() < new Date(event.endTime).getTime() &&
+        other.endTime.getTime() > new Date(event.startTime).getTime()
+      )
+      .sort((a, b) => compareValues(a.startTime, b.startTime));
+    return candidates[0] && copyRow(candidates[0]);
+  }
+
+  // Attendance operations
+  async isEventSupervisor(eventId: string, userId: string): Promise<boolean> {
+    // Supervisors come from the many-to-many table, with the legacy staffId as fallback
+    return this.supervisors.some(supervisor => supervisor.eventId === eventId && supervisor.supervisorId === userId) ||
+      this.events.get(eventId)?.staffId === userId;
+  }
+
+  async getEventRoster(eventId: string): Promise<any[]> {
+    const roster = this.activeRegistrations()
+      .filter(registration => registration.eventId === eventId)
+      .map(registration => {
+        const child = registration.childId ? this.children.get(registration.childId) : undefined;
+        const parent = this.users.get(registration.parentId);
+        const record = this.attendanceRecords.get(registration.id);
+        return {
+          registrationId: registration.id,
+          eventId: registration.eventId,
+          childId: registration.childId,
+          parentId: registration.parentId,
+          registeredAt: registration.registeredAt,
+          child: child ? {
+            id: child.id,
+            firstName: child.firstName,
+            lastName: child.lastName,
+            allergies: child.allergies,
+            dietaryRestrictions: child.dietaryRestrictions,
+            medicineNeeds: child.medicineNeeds,
+          } : null,
+          parent: parent ? {
+            firstName: parent.firstName,
+            lastName: parent.lastName,
+            phone: parent.phone,
+            role: parent.role,
+          } : null,
+          attendance: record ? {
+            status: record.status,
+            checkedInAt: record.checkedInAt,
+            checkedInBy: record.checkedInBy,
+            checkedOutAt: record.checkedOutAt,
+            checkedOutBy: record.checkedOutBy,
+            noShowMarkedAt: record.noShowMarkedAt,
+            noShowMarkedBy: record.noShowMarkedBy,
+            releasedToName: record.releasedToName,
+          } : null,
+        };
+      })
+      .sort((a, b) =>
+        compareValues(a.child?.firstName, b.child?.firstName) || compareValues(a.parent?.firstName, b.parent?.firstName)
+      );
+
+    // Registrants with events.attendWithoutSeat registered as themselves are supervising, not attending
+    const seatlessRoles = await this.getRolesAttendingWithoutSeat();
+    return roster
+      .filter(entry => registrationTakesSeat(entry, seatlessRoles.has(entry.parent?.role ?? "")))
+      .map(entry => ({
+        ...entry,
+        authorizedPickups: Array.from(this.pickups.values())
+          .filter(pickup => pickup.childId === entry.childId && isPickupAuthorized(pickup))
+          .map(copyRow),
+      }));
+  }
+
+  async getRegistrationExportRows(filter: RegistrationExportFilter): Promise<RegistrationExportRow[]> {
+    const rows = Array.from(this.registrations.values())
+      .filter(registration => this.events.has(registration.eventId))
+      .map(registration => {
+        const child = registration.childId ? this.children.get(registration.childId) : undefined;
+        const parent = this.findParent(registration.parentId);
+        return {
+          registration: copyRow(registration),
+          event: copyRow(this.events.get(registration.eventId)!),
+          child: child ? copyRow(child) : null,
+          parent: parent ? copyRow(parent) : null,
+        };
+      })
+      .filter(row => "eventId" in filter
+        // A roster lists who is coming, so cancelled registrations are left out
+        ? row.registration.eventId === filter.eventId && row.registration.status !== "cancelled"
+        : row.event.startTime >= filter.from && row.event.startTime <= filter.to
+      )
+      .sort((a, b) =>
+        compareValues(a.event.startTime, b.event.startTime) ||
+        compareValues(a.child?.lastName, b.child?.lastName) ||
+        compareValues(a.child?.firstName, b.child?.firstName) ||
+        compareValues(a.parent?.lastName, b.parent?.lastName)
+      );
+
+    // Registrants with events.attendWithoutSeat registered as themselves are supervising, not attending
+    const seatlessRoles = await this.getRolesAttendingWithoutSeat();
+    return rows.filter(row => registrationTakesSeat(row.registration, seatlessRoles.has(row.parent?.role ?? "")));
+  }
+
+  async getAttendanceByRegistration(registrationId: string): Promise<Attendance | undefined> {
+    const record = this.attendanceRecords.get(registrationId);
+    return record && copyRow(record);
+  }
+
+  async upsertAttendance(record: UpsertAttendance): Promise<Attendance> {
+    const existing = this.attendanceRecords.get(record.registrationId);
+    const saved: Attendance = existing
+      ? { ...existing, ...definedFields(record), updatedAt: new Date() }
+      : {
+          id: randomUUID(),
+          checkedInAt: null,
+          checkedInBy: null,
+          checkedOutAt: null,
+          checkedOutBy: null,
+          noShowMarkedAt: null,
+          noShowMarkedBy: null,
+          releasedToPickupId: null,
+          releasedToName: null,
+          updatedAt: new Date(),
+          ...definedFields(record),
+        };
+    this.attendanceRecords.set(saved.registrationId, saved);
+    return copyRow(saved);
+  }
+
+  async deleteAttendance(registrationId: string): Promise<boolean> {
+    return this.attendanceRecords.delete(registrationId);
+  }
+
+  // Credit ledger operations
+  private balanceOf(userId: string): number {
+    return this.transactions
+      .filter(transaction => transaction.userId === userId)
+      .reduce((balance, transaction) => balance + transaction.amount, 0);
+  }
+
+  private insertCreditTransaction(transaction: InsertCreditTransaction): CreditTransaction {
+    const newTransaction: CreditTransaction = {
+      id: randomUUID(),
+      description: null,
+      registrationId: null,
+      createdBy: null,
+      createdAt: new Date(),
+      ...definedFields(transaction),
+    };
+    this.transactions.push(newTransaction);
+    return newTransaction;
+  }
+
+  async getCreditBalance(userId: string): Promise<number> {
+    return this.balanceOf(userId);
+  }
+
+  async getCreditTransactions(userId: string): Promise<CreditTransaction[]> {
+    return newestFirst(this.transactions.filter(transaction => transaction.userId === userId), transaction => transaction.createdAt)
+      .map(copyRow);
+  }
+
+  async createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction> {
+    return copyRow(this.insertCreditTransaction(transaction));
+  }
+
+  // Credit package operations
+  async getCreditPackages(includeInactive: boolean = false): Promise<CreditPackage[]> {
+    return Array.from(this.packages.values())
+      .filter(creditPackage => includeInactive || creditPackage.active)
+      .sort((a, b) => compareValues(a.credits, b.credits))
+      .map(copyRow);
+  }
+
+  async getCreditPackage(id: string): Promise<CreditPackage | undefined> {
+    const creditPackage = this.packages.get(id);
+    return creditPackage && copyRow(creditPackage);
+  }
+
+  async createCreditPackage(creditPackage: InsertCreditPackage): Promise<CreditPackage> {
+    const now = new Date();
+    const newPackage: CreditPackage = {
+      id: randomUUID(),
+      currency: "RON",
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+      ...definedFields(creditPackage),
+    };
+    this.packages.set(newPackage.id, newPackage);
+    return copyRow(newPackage);
+  }
+
+  async updateCreditPackage(id: string, creditPackage: Partial<InsertCreditPackage>): Promise<CreditPackage | undefined> {
+    const existing = this.packages.get(id);
+    if (!existing) return undefined;
+    const updatedPackage = { ...existing, ...definedFields(creditPackage), updatedAt: new Date() };
+    this.packages.set(id, updatedPackage);
+    return copyRow(updatedPackage);
+  }
+
+  async createCreditPurchase(purchase: InsertCreditPurchase): Promise<CreditPurchase> {
+    const newPurchase: CreditPurchase = {
+      id: randomUUID(),
+      receiptNumber: this.nextReceiptNumber++,
+      packageId: null,
+      status: "pending",
+      recordedBy: null,
+      createdAt: new Date(),
+      completedAt: null,
+      ...definedFields(purchase),
+    };
+    this.purchases.set(newPurchase.id, newPurchase);
+    if (newPurchase.status === "completed") {
+      this.topUpForPurchase(newPurchase);
+    }
+    return copyRow(newPurchase);
+  }
+
+  async getCompletedCreditPurchases(userId: string): Promise<CreditPurchase[]> {
+    return newestFirst(
+      Array.from(this.purchases.values()).filter(purchase => purchase.userId === userId && purchase.status === "completed"),
+      purchase => purchase.completedAt,
+    ).map(copyRow);
+  }
+
+  private topUpForPurchase(purchase: CreditPurchase): void {
+    this.insertCreditTransaction({
+      userId: purchase.userId,
+      amount: purchase.credits,
+      type: "top_up",
+      description: `${purchase.packageName} (receipt ${formatReceiptNumber(purchase.receiptNumber)})`,
+      createdBy: purchase.recordedBy,
+    });
+  }
+
+  // Payment operations
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    if (Array.from(this.payments.values()).some(other => other.providerReference === payment.providerReference)) {
+      throw new Error(`A payment with provider reference ${payment.providerReference} already exists`);
+    }
+    const newPayment: Payment = {
+      id: randomUUID(),
+      registrationId: null,
+      creditPurchaseId: null,
+      status: "pending",
+      checkoutUrl: null,
+      failureReason: null,
+      createdAt: new Date(),
+      completedAt: null,
+      refundedAt: null,
+      ...definedFields(payment),
+    };
+    this.payments.set(newPayment.id, newPayment);
+    return copyRow(newPayment);
+  }
+
+  async getPaymentByReference(provider: string, providerReference: string): Promise<Payment | undefined> {
+    const payment = Array.from(this.payments.values()).find(payment =>
+      payment.provider === provider && payment.providerReference === providerReference
+    );
+    return payment && copyRow(payment);
+  }
+
+  async getPendingPayment(registrationId: string): Promise<Payment | undefined> {
+    const [payment] = newestFirst(
+      Array.from(this.payments.values()).filter(payment => payment.registrationId === registrationId && payment.status === "pending"),
+      payment => payment.createdAt,
+    );
+    return payment && copyRow(payment);
+  }
+
+  async getSucceededPayment(registrationId: string): Promise<Payment | undefined> {
+    const [payment] = newestFirst(
+      Array.from(this.payments.values()).filter(payment => payment.registrationId === registrationId && payment.status === "succeeded"),
+      payment => payment.createdAt,
+    );
+    return payment && copyRow(payment);
+  }
+
+  async recordPaymentRefund(id: string, status: "refunded" | "refund_required"): Promise<Payment | undefined> {
+    const existing = this.payments.get(id);
+    if (!existing || (existing.status !== "succeeded" && existing.status !== "refund_required")) return undefined;
+    const payment: Payment = { ...existing, status, refundedAt: status === "refunded" ? new Date() : null };
+    this.payments.set(id, payment);
+    return copyRow(payment);
+  }
+
+  // Settle a pending payment and confirm or cancel its registration or complete its credit purchase.
+  // Only pending rows transition, so a webhook delivered twice is applied once.
+  async completePayment(id: string, status: "succeeded" | "failed", failureReason: string | null): Promise<CompletedPayment | undefined> {
+    const existing = this.payments.get(id);
+    if (!existing || existing.status !== "pending") return undefined;
+    const now = new Date();
+    const payment: Payment = { ...existing, status, failureReason, completedAt: now };
+    this.payments.set(id, payment);
+
+    if (payment.creditPurchaseId) {
+      const pendingPurchase = this.purchases.get(payment.creditPurchaseId);
+      let creditPurchase: CreditPurchase | undefined;
+      if (pendingPurchase?.status === "pending") {
+        creditPurchase = { ...pendingPurchase, status: status === "succeeded" ? "completed" : "failed", completedAt: now };
+        this.purchases.set(creditPurchase.id, creditPurchase);
+        if (creditPurchase.status === "completed") {
+          this.topUpForPurchase(creditPurchase);
+        }
+      }
+      return { payment: copyRow(payment), registration: undefined, creditPurchase: creditPurchase && copyRow(creditPurchase) };
+    }
+
+    const pendingRegistration = payment.registrationId ? this.registrations.get(payment.registrationId) : undefined;
+    if (pendingRegistration?.status !== "pending_payment") return { payment: copyRow(payment), registration: undefined };
+    const registration: EventRegistration = status === "succeeded"
+      ? { ...pendingRegistration, status: "confirmed" }
+      : { ...pendingRegistration, status: "cancelled", cancelledAt: now };
+    this.registrations.set(registration.id, registration);
+    return { payment: copyRow(payment), registration: copyRow(registration) };
+  }
+
+  // Waitlist operations
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const newEntry: WaitlistEntry = {
+      id: randomUUID(),
+      childId: null,
+      status: "waiting",
+      registrationId: null,
+      joinedAt: new Date(),
+      promotedAt: null,
+      ...definedFields(entry),
+      selectedServices: Array.isArray(entry.selectedServices) ? [...entry.selectedServices] : [],
+    };
+    this.waitlist.set(newEntry.id, newEntry);
+    return copyRow(newEntry);
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlist.get(id);
+    return entry && copyRow(entry);
+  }
+
+  private waitingEntries(eventId: string): WaitlistEntry[] {
+    return Array.from(this.waitlist.values())
+      .filter(entry => entry.eventId === eventId && entry.status === "waiting")
+      .sort((a, b) => compareValues(a.joinedAt, b.joinedAt));
+  }
+
+  async getWaitingEntriesForEvent(eventId: string): Promise<WaitlistEntry[]> {
+    return this.waitingEntries(eventId).map(copyRow);
+  }
+
+  async getWaitlistEntriesWithDetailsForParent(parentId: string): Promise<any[]> {
+    return Array.from(this.waitlist.values())
+      .filter(entry => entry.parentId === parentId && entry.status === "waiting" && this.events.has(entry.eventId))
+      .map(entry => {
+        const event = this.events.get(entry.eventId)!;
+        const child = entry.childId ? this.children.get(entry.childId) : undefined;
+        return {
+          id: entry.id,
+          eventId: entry.eventId,
+          childId: entry.childId,
+          parentId: entry.parentId,
+          joinedAt: entry.joinedAt,
+          // 1-based position among the event's waiting entries
+          position: this.waitingEntries(entry.eventId)
+            .filter(other => compareValues(other.joinedAt, entry.joinedAt) <= 0).length,
+          event: {
+            id: event.id,
+            name: event.name,
+            type: event.type,
+            startTime: event.startTime,
+            endTime: event.endTime,
+            location: event.location,
+            image: event.image,
+          },
+          child: child ? { id: child.id, firstName: child.firstName, lastName: child.lastName } : null,
+        };
+      })
+      .sort((a, b) => compareValues(a.event.startTime, b.event.startTime));
+  }
+
+  async isOnWaitlist(eventId: string, parentId: string, childId: string | null): Promise<boolean> {
+    return this.waitingEntries(eventId).some(entry => entry.parentId === parentId && entry.childId === childId);
+  }
+
+  async leaveWaitlist(id: string): Promise<WaitlistEntry | undefined> {
+    const existing = this.waitlist.get(id);
+    if (!existing || existing.status !== "waiting") return undefined;
+    const entry: WaitlistEntry = { ...existing, status: "left" };
+    this.waitlist.set(id, entry);
+    return copyRow(entry);
+  }
+
+  async promoteWaitlistEntry(id: string, registration: InsertEventRegistration, options: BookingOptions): Promise<EventRegistration | undefined> {
+    const existing = this.waitlist.get(id);
+    if (!existing || existing.status !== "waiting") return undefined;
+
+    // Booking throws before changing anything, which leaves the entry waiting as the rolled back transaction would
+    const newRegistration = this.insertBooking(registration, options);
+    this.waitlist.set(id, { ...existing, status: "promoted", promotedAt: new Date(), registrationId: newRegistration.id });
+    return copyRow(newRegistration);
+  }
+
+  // Notification operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = this.preferences.get(userId);
+    // Everything is enabled until the user changes it
+    return preferences ? copyRow(preferences) : {
+      userId,
+      registrationConfirmation: true,
+      eventChanged: true,
+      eventCancelled: true,
+      eventReminder: true,
+      updatedAt: null,
+    };
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    preferences: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const updated: NotificationPreferences = {
+      ...(await this.getNotificationPreferences(userId)),
+      ...definedFields(preferences),
+      updatedAt: new Date(),
+    };
+    this.preferences.set(userId, updated);
+    return copyRow(updated);
+  }
+
+  private notificationRegistration(registration: EventRegistration): NotificationRegistration {
+    const child = registration.childId ? this.children.get(registration.childId) : undefined;
+    return {
+      registration: copyRow(registration),
+      event: copyRow(this.events.get(registration.eventId)!),
+      child: child ? copyRow(child) : null,
+    };
+  }
+
+  async getNotificationRegistrationsForEvent(eventId: string): Promise<NotificationRegistration[]> {
+    // Registrations still awaiting payment hold a place too, so they hear about changes
+    return this.activeRegistrations()
+      .filter(registration => registration.eventId === eventId && this.events.has(eventId))
+      .map(registration => this.notificationRegistration(registration));
+  }
+
+  async getNotificationRegistrationsStartingBetween(from: Date, to: Date): Promise<NotificationRegistration[]> {
+    return Array.from(this.registrations.values())
+      .filter(registration => {
+        const event = this.events.get(registration.eventId);
+        return registration.status === "confirmed" && !!event && !event.deleted &&
+          event.startTime >= from && event.startTime <= to;
+      })
+      .map(registration => this.notificationRegistration(registration))
+      .sort((a, b) => compareValues(a.event.startTime, b.event.startTime));
+  }
+
+  // Record a notification as sent; false means it already went out (or is going out elsewhere)
+  async claimNotification(userId: string, type: NotificationType, dedupeKey: string): Promise<boolean> {
+    if (this.sentNotifications.has(dedupeKey)) return false;
+    this.sentNotifications.set(dedupeKey, { userId, type });
+    return true;
+  }
+
+  // Forget a claim whose delivery failed, so it can be retried
+  async releaseNotification(dedupeKey: string): Promise<void> {
+    this.sentNotifications.delete(dedupeKey);
+  }
+
+  // Audit log operations
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const created: AuditEntry = {
+      id: randomUUID(),
+      actorId: null,
+      actorName: null,
+      changes: {},
+      createdAt: new Date(),
+      ...copyRow(definedFields(entry)) as InsertAuditEntry,
+    };
+    this.auditEntries.push(created);
+    return copyRow(created);
+  }
+
+  // Newest first; the action filter matches a prefix, so "event" finds every event action
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const matches = this.auditEntries.filter(entry =>
+      (!query.action || entry.action.startsWith(query.action)) &&
+      (!query.entityType || entry.entityType === query.entityType) &&
+      (!query.entityId || entry.entityId === query.entityId) &&
+      (!query.actorId || entry.actorId === query.actorId) &&
+      (!query.from || entry.createdAt >= query.from) &&
+      (!query.to || entry.createdAt <= query.to)
+    );
+    return newestFirst(matches, entry => entry.createdAt).slice(0, query.limit).map(copyRow);
+  }
+
+  // User operations for staff/guest selection
+  async getUsersByRoles(roles: string[]): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => roles.includes(user.role))
+      .sort((a, b) => compareValues(a.firstName, b.firstName))
+      .map(copyRow);
+  }
+
+  // Seeding
+  async seedEvents(): Promise<void> {
+    if (this.events.size > 0) return; // Already seeded
+
+    for (const event of buildSeedEvents()) {
+      await this.createEvent(event);
+    }
+  }
+
+  async seedAdminUser(): Promise<void> {
+    if (Array.from(this.users.values()).some(user => user.role === "admin")) return; // Admin already exists
+
+    await this.createAdminUser("admin@righthereapp.com");
+  }
+
+  async seedRolePermissions(): Promise<void> {
+    for (const [role, permissions] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+      const grants = this.rolePermissions.get(role) ?? new Map<Permission, boolean>();
+      for (const permission of permissions) {
+        if (!grants.has(permission)) grants.set(permission, true);
+      }
+      this.rolePermissions.set(role, grants);
+    }
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE=memory keeps all data in process memory (lost on restart); otherwise Postgres at DATABASE_URL is used
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
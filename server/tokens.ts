@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// What a signed token may be used for; a token for one purpose never verifies for another
+export type TokenPurpose = "verify_email" | "password_reset";
+
+export const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  userId: string;
+  binding: string;
+  expiresAt: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("TOKEN_SECRET or SESSION_SECRET must be set to sign tokens");
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+// Short digest of a value the token depends on (the email being verified, the current password hash).
+// Once that value changes the token stops verifying, which also makes reset links single-use.
+export function tokenBinding(value: string | null): string {
+  return sign(`binding:${value ?? ""}`).slice(0, 16);
+}
+
+// Stateless token: base64url JSON payload, a dot, and its HMAC-SHA256 signature
+export function createSignedToken(
+  purpose: TokenPurpose,
+  userId: string,
+  binding: string,
+  ttlMs: number,
+  now: number = Date.now(),
+): string {
+  const payload: TokenPayload = { purpose, userId, binding, expiresAt: now + ttlMs };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+// Returns the token's user and binding, or null when it is malformed, tampered with, expired or for another purpose
+export function verifySignedToken(
+  token: string,
+  purpose: TokenPurpose,
+  now: number = Date.now(),
+): { userId: string; binding: string } | null {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || typeof payload.userId !== "string" || payload.expiresAt < now) return null;
+  return { userId: payload.userId, binding: payload.binding };
+}
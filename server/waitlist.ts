@@ -0,0 +1,83 @@
+import { storage, BookingError } from "./storage";
+import { notificationService } from "./notifications";
+import { userHasPermission } from "./auth";
+import { calculateServicesCost, getEligibilityIssues, reconcileServiceSelection, registrationTakesSeat, type EventRegistration } from "@shared/schema";
+
+// Fill an event's free seats from its waitlist, in join order.
+// Entries whose parent can't currently cover the credits are skipped but keep their place.
+export async function promoteWaitlist(eventId: string): Promise<EventRegistration[]> {
+  const promoted: EventRegistration[] = [];
+
+  let event = await storage.getEvent(eventId);
+  if (!event || event.deleted) return promoted;
+
+  // Promotion creates a registration, so it stops at the registration deadline
+  const cutoffTime = new Date(new Date(event.startTime).getTime() - (event.cutoffHours * 60 * 60 * 1000));
+  if (new Date() > cutoffTime) return promoted;
+
+  const waitingEntries = await storage.getWaitingEntriesForEvent(eventId);
+  for (const entry of waitingEntries) {
+    if (event.remainingSeats <= 0) break;
+
+    // Drop entries that were registered directly after a seat freed up
+    const isAlreadyRegistered = entry.childId
+      ? await storage.isChildRegisteredForEvent(entry.childId, eventId)
+      : (await storage.getEventRegistrationsByParent(entry.parentId)).some(reg =>
+          reg.eventId === eventId && reg.childId === null
+        );
+    if (isAlreadyRegistered) {
+      await storage.leaveWaitlist(entry.id);
+      continue;
+    }
+
+    // Rules may have changed since the child joined; they keep their place in case the profile is fixed
+    if (entry.childId) {
+      const child = await storage.getChild(entry.childId);
+      if (!child || getEligibilityIssues(child, event).length > 0) continue;
+    }
+
+    // Likewise skip anyone who has since registered for an overlapping event
+    if (await storage.getConflictingEvent(entry.parentId, entry.childId, event)) continue;
+
+    // Parent ids are Replit ids for Replit OAuth users
+    const parent = (await storage.getUser(entry.parentId)) ?? (await storage.getUserByReplitId(entry.parentId));
+    const takesSeat = registrationTakesSeat(entry, await userHasPermission(parent, "events.attendWithoutSeat"));
+
+    // The event's services may have changed since they joined
+    const selectedServices = reconcileServiceSelection(event, entry.selectedServices);
+    const servicesCost = calculateServicesCost(event, selectedServices);
+
+    let registration;
+    try {
+      registration = await storage.promoteWaitlistEntry(entry.id, {
+        eventId,
+        childId: entry.childId,
+        parentId: entry.parentId,
+        selectedServices,
+        creditsCost: event.creditsRequired,
+        servicesCost,
+        // The parent pays for the services from My Events; the seat is held meanwhile
+        status: servicesCost > 0 ? "pending_payment" : "confirmed",
+      }, {
+        takesSeat,
+        spendDescription: `Registration for ${event.name} (from waitlist)`,
+      });
+    } catch (error) {
+      if (!(error instanceof BookingError)) throw error;
+      if (error.code === "no_seats") break; // Taken by a concurrent registration
+      continue;
+    }
+    if (!registration) continue; // Left the waitlist in the meantime
+
+    if (takesSeat) {
+      event = (await storage.getEvent(eventId)) ?? event;
+    }
+
+    if (registration.status === "confirmed") {
+      notificationService.registrationConfirmed(registration);
+    }
+    promoted.push(registration);
+  }
+
+  return promoted;
+}
@@ -3,12 +3,14 @@ import {
   index,
   jsonb,
   pgTable,
+  primaryKey,
   timestamp,
   varchar,
   text,
   integer,
   boolean,
   date,
+  serial,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -38,10 +40,70 @@ export const users = pgTable("users", {
   isEmailVerified: boolean("is_email_verified").notNull().default(false),
   role: varchar("role").notNull().default("user"), // "admin", "staff", "user", "attendee"
   profileImageUrl: varchar("profile_image_url"),
+  calendarToken: varchar("calendar_token").unique(), // Secret for the personal iCal feed URL
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const USER_ROLES = ["admin", "staff", "user", "attendee"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Actions gated by role. Routes require a permission instead of checking role names, and the client
+// hides the controls for permissions the user lacks
+export const PERMISSIONS = [
+  "events.create", // Create events, series and imports, and manage event templates
+  "events.edit", // See every event including drafts; edit, publish, cancel, delete and restore events
+  "roster.view", // Supervised events and their rosters
+  "roster.viewAll", // Rosters of any event, not only supervised ones
+  "attendance.record", // Check children in and out at supervised events (any event with roster.viewAll)
+  "events.attendWithoutSeat", // Register themselves for an event to supervise it, without taking a seat
+  "reports.export", // Roster and registration exports
+  "users.view", // The user list
+  "users.manageRoles", // Change another user's role
+  "users.invite", // Staff invite links
+  "credits.manage", // Adjust balances, record cash purchases and manage credit packages
+  "audit.view", // The audit log
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Granted on every start unless role_permissions already has a row for the pair, granted or revoked
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  staff: ["roster.view", "attendance.record", "events.attendWithoutSeat"],
+  user: [],
+  attendee: [],
+};
+
+// Which permissions each role grants, one row per role and permission. A revoked grant keeps its row
+// with granted false, so seeding the defaults on start doesn't hand it back
+export const rolePermissions = pgTable("role_permissions", {
+  role: varchar("role").notNull(),
+  permission: varchar("permission").$type<Permission>().notNull(),
+  granted: boolean("granted").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [primaryKey({ columns: [table.role, table.permission] })]);
+
+// Roles an admin can hand out with an invite link; admin itself can't be granted from the app
+export const INVITABLE_ROLES = ["staff"] as const;
+export type InvitableRole = typeof INVITABLE_ROLES[number];
+
+// Expired invitations stay pending; expiry is derived from expiresAt
+export type StaffInvitationStatus = "pending" | "accepted" | "revoked";
+
+// Invite links issued by admins; signing up through one creates the account with the preset role
+export const staffInvitations = pgTable("staff_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: varchar("email").notNull(),
+  role: varchar("role").$type<InvitableRole>().notNull(),
+  token: varchar("token").notNull().unique(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  status: varchar("status").$type<StaffInvitationStatus>().notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+});
+
 // Attendee table (children)
 export const attendee = pgTable("attendee", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -59,15 +121,98 @@ export const attendee = pgTable("attendee", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Extra services definition
+// Authorized pickup people per child (checked by staff at release)
+export const authorizedPickups = pgTable("authorized_pickups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  childId: varchar("child_id").notNull().references(() => attendee.id, { onDelete: 'cascade' }),
+  name: varchar("name").notNull(),
+  relation: varchar("relation").notNull(), // e.g. "Grandmother", "Nanny"
+  phone: varchar("phone").notNull(),
+  photoUrl: varchar("photo_url"),
+  validFrom: date("valid_from"), // null = no start restriction
+  validUntil: date("valid_until"), // null = no end restriction
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_authorized_pickups_child").on(table.childId)]);
+
+// What a guardian may do with the household's children: "full" edits and registers, "view" only sees them
+export type GuardianPermission = "full" | "view";
+
+export type HouseholdInvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+// Households group the guardians who share their children; each child keeps the parentId of the account that added it
+export const households = pgTable("households", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A user belongs to at most one household
+export const householdMembers = pgTable("household_members", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  householdId: varchar("household_id").notNull().references(() => households.id, { onDelete: 'cascade' }),
+  permission: varchar("permission").$type<GuardianPermission>().notNull().default("full"),
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => [index("IDX_household_members_household").on(table.householdId)]);
+
+// Email invitations to join a household; the token is the secret in the emailed link
+export const householdInvitations = pgTable("household_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  householdId: varchar("household_id").notNull().references(() => households.id, { onDelete: 'cascade' }),
+  email: varchar("email").notNull(),
+  permission: varchar("permission").$type<GuardianPermission>().notNull().default("full"),
+  token: varchar("token").notNull().unique(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  status: varchar("status").$type<HouseholdInvitationStatus>().notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+}, (table) => [index("IDX_household_invitations_household").on(table.householdId)]);
+
+// Extra services definition. Registrations refer to services by id, so they can be reordered or removed safely.
 export interface ExtraService {
+  id: string;
   description: string;
   price: number;
   currency?: string; // RON, EUR, USD
+  capacity?: number | null; // Most active registrations that may select it; unset = unlimited
+  required?: boolean; // Included in every registration
+}
+
+// Child profile fields an event can require to be filled in ("None" is a valid answer)
+export type EligibilityRequiredField = "allergies" | "dietaryRestrictions" | "medicineNeeds";
+
+// Eligibility rules for child registrations; ages are whole years on the event date
+export interface EventEligibility {
+  minAge?: number | null;
+  maxAge?: number | null;
+  gender?: "male" | "female" | null;
+  requiredFields?: EligibilityRequiredField[];
 }
 
 // Event status enum
-export type EventStatus = "open" | "registration_closed" | "full" | "past" | "editing";
+export type EventStatus = "open" | "registration_closed" | "full" | "in_progress" | "past" | "editing";
+
+// Weekly recurrence rule for an event series (dates are local YYYY-MM-DD)
+export interface RecurrenceRule {
+  frequency: "weekly";
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  until?: string | null; // Last date (inclusive) to generate occurrences for
+  count?: number | null; // Or a fixed number of occurrences
+  skipDates: string[]; // Holidays without an occurrence
+}
+
+// Upper bound on the occurrences a single series may generate
+export const MAX_SERIES_OCCURRENCES = 100;
+
+// Event series table (each occurrence is a regular events row linked by seriesId)
+export const eventSeries = pgTable("event_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
 
 // Events table
 export const events = pgTable("events", {
@@ -75,20 +220,48 @@ export const events = pgTable("events", {
   name: varchar("name").notNull(),
   type: varchar("type").notNull().default("afterschool"),
   startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
   location: varchar("location").notNull(),
   maxSeats: integer("max_seats").notNull().default(3),
   remainingSeats: integer("remaining_seats").notNull().default(3),
   creditsRequired: integer("credits_required").notNull(),
   staffId: varchar("staff_id"),
-  duration: varchar("duration").notNull().default("5h"),
   description: text("description").notNull(),
   image: varchar("image"),
   cutoffHours: integer("cutoff_hours").notNull().default(12),
+  refundWindowHours: integer("refund_window_hours"), // Full refund if cancelled at least this many hours before start; null = same as cutoffHours
   extraServices: jsonb("extra_services").$type<ExtraService[]>().notNull().default([]),
   servicesCurrency: varchar("services_currency").notNull().default("USD"), // Currency for extra services
   allowedRegistrants: varchar("allowed_registrants").notNull().default("attendee"), // "attendee", "user", "both"
+  eligibility: jsonb("eligibility").$type<EventEligibility>().notNull().default({}), // Only applies to child registrations
   status: varchar("status").$type<EventStatus>().notNull().default("open"), // Event status
   deleted: boolean("deleted").notNull().default(false), // Soft deletion flag
+  seriesId: varchar("series_id").references(() => eventSeries.id, { onDelete: 'set null' }), // Set for occurrences of a recurring series
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Event templates table: saved defaults for the create event form. Supervisors are kept as a list of
+// user ids; ones that are no longer staff are dropped when the template is applied.
+export const eventTemplates = pgTable("event_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(), // Template name shown to admins
+  eventName: varchar("event_name").notNull(),
+  type: varchar("type").notNull().default("afterschool"),
+  description: text("description").notNull(),
+  location: varchar("location").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  maxSeats: integer("max_seats").notNull().default(3),
+  creditsRequired: integer("credits_required").notNull().default(0),
+  cutoffHours: integer("cutoff_hours").notNull().default(12),
+  refundWindowHours: integer("refund_window_hours"),
+  image: varchar("image"),
+  extraServices: jsonb("extra_services").$type<ExtraService[]>().notNull().default([]),
+  servicesCurrency: varchar("services_currency").notNull().default("USD"),
+  allowedRegistrants: varchar("allowed_registrants").notNull().default("attendee"),
+  eligibility: jsonb("eligibility").$type<EventEligibility>().notNull().default({}),
+  supervisorIds: jsonb("supervisor_ids").$type<string[]>().notNull().default([]),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -101,25 +274,204 @@ export const eventSupervisors = pgTable("event_supervisors", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Registration status enum; registrations with a services cost are held as pending_payment until the checkout is paid
+export type RegistrationStatus = "pending_payment" | "confirmed" | "cancelled";
+
 // Event registrations table
 export const eventRegistrations = pgTable("event_registrations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").notNull().references(() => events.id, { onDelete: 'cascade' }),
   childId: varchar("child_id").references(() => attendee.id, { onDelete: 'cascade' }), // Nullable for parent registrations
   parentId: varchar("parent_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
-  selectedServices: jsonb("selected_services").$type<number[]>().notNull().default([]), // Array of service indices that were selected
+  selectedServices: jsonb("selected_services").$type<string[]>().notNull().default([]), // Ids of the event's extra services that were selected
   creditsCost: integer("credits_cost").notNull().default(0), // Base cost in credits
   servicesCost: integer("services_cost").notNull().default(0), // Additional services cost in cents
+  status: varchar("status").$type<RegistrationStatus>().notNull().default("confirmed"),
   registeredAt: timestamp("registered_at").defaultNow(),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+// Attendance status for a registration on the day of the event
+export type AttendanceStatus = "checked_in" | "checked_out" | "no_show";
+
+// Attendance table (one row per registration, recorded by supervising staff)
+export const attendance = pgTable("attendance", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  registrationId: varchar("registration_id").notNull().unique().references(() => eventRegistrations.id, { onDelete: 'cascade' }),
+  eventId: varchar("event_id").notNull().references(() => events.id, { onDelete: 'cascade' }),
+  status: varchar("status").$type<AttendanceStatus>().notNull(),
+  checkedInAt: timestamp("checked_in_at"),
+  checkedInBy: varchar("checked_in_by").references(() => users.id, { onDelete: 'set null' }),
+  checkedOutAt: timestamp("checked_out_at"),
+  checkedOutBy: varchar("checked_out_by").references(() => users.id, { onDelete: 'set null' }),
+  noShowMarkedAt: timestamp("no_show_marked_at"),
+  noShowMarkedBy: varchar("no_show_marked_by").references(() => users.id, { onDelete: 'set null' }),
+  releasedToPickupId: varchar("released_to_pickup_id").references(() => authorizedPickups.id, { onDelete: 'set null' }),
+  releasedToName: varchar("released_to_name"), // Snapshot of who collected the child, kept if the pickup is later removed
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_attendance_event").on(table.eventId)]);
+
+// Credit transaction types
+export type CreditTransactionType = "top_up" | "spend" | "refund" | "adjustment";
+
+// Credit ledger table (append-only; a user's balance is the sum of their amounts)
+export const creditTransactions = pgTable("credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  amount: integer("amount").notNull(), // Positive for credits added, negative for credits spent
+  type: varchar("type").$type<CreditTransactionType>().notNull(),
+  description: text("description"),
+  registrationId: varchar("registration_id").references(() => eventRegistrations.id, { onDelete: 'set null' }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }), // Admin who made an adjustment
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_credit_transactions_user").on(table.userId)]);
+
+// Credit packages parents can buy (e.g. 10 credits for 200 RON); retired packages are deactivated, not deleted
+export const creditPackages = pgTable("credit_packages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  credits: integer("credits").notNull(),
+  price: integer("price").notNull(), // In cents
+  currency: varchar("currency").notNull().default("RON"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Paid online through the payment provider, or in cash and recorded by an admin
+export type CreditPurchaseMethod = "online" | "cash";
+export type CreditPurchaseStatus = "pending" | "completed" | "failed";
+
+// Purchases of a credit package. A completed purchase is the parent's receipt, so the package
+// details are copied in and stay as they were when it was bought.
+export const creditPurchases = pgTable("credit_purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  receiptNumber: serial("receipt_number").notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  packageId: varchar("package_id").references(() => creditPackages.id, { onDelete: 'set null' }),
+  packageName: varchar("package_name").notNull(),
+  credits: integer("credits").notNull(),
+  amount: integer("amount").notNull(), // In cents
+  currency: varchar("currency").notNull(),
+  method: varchar("method").$type<CreditPurchaseMethod>().notNull(),
+  status: varchar("status").$type<CreditPurchaseStatus>().notNull().default("pending"),
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: 'set null' }), // Admin who took a cash payment
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_credit_purchases_user").on(table.userId)]);
+
+// Payment status; pending until the provider reports the checkout as paid or failed
+// A succeeded payment becomes "refunded" once the provider returns the money, or "refund_required" when
+// the refund couldn't be made and has to be done by hand from the provider's dashboard
+export type PaymentStatus = "pending" | "succeeded" | "failed" | "refunded" | "refund_required";
+
+// Payments collected through a checkout with the payment provider, either for a registration's
+// services cost or for a credit purchase (exactly one of the two is set)
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  registrationId: varchar("registration_id").references(() => eventRegistrations.id, { onDelete: 'cascade' }),
+  creditPurchaseId: varchar("credit_purchase_id").references(() => creditPurchases.id, { onDelete: 'cascade' }),
+  provider: varchar("provider").notNull(),
+  providerReference: varchar("provider_reference").notNull().unique(), // The provider's checkout id, sent back in webhooks
+  amount: integer("amount").notNull(), // In cents
+  currency: varchar("currency").notNull(),
+  status: varchar("status").$type<PaymentStatus>().notNull().default("pending"),
+  checkoutUrl: text("checkout_url"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+  refundedAt: timestamp("refunded_at"),
+}, (table) => [index("IDX_payments_registration").on(table.registrationId)]);
+
+// Waitlist entry status
+export type WaitlistStatus = "waiting" | "promoted" | "left";
+
+// Event waitlist table (ordered by joinedAt; entries are promoted to registrations as seats free up)
+export const eventWaitlist = pgTable("event_waitlist", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull().references(() => events.id, { onDelete: 'cascade' }),
+  childId: varchar("child_id").references(() => attendee.id, { onDelete: 'cascade' }), // Nullable for parent registrations
+  parentId: varchar("parent_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  selectedServices: jsonb("selected_services").$type<string[]>().notNull().default([]),
+  status: varchar("status").$type<WaitlistStatus>().notNull().default("waiting"),
+  registrationId: varchar("registration_id").references(() => eventRegistrations.id, { onDelete: 'set null' }), // Set once promoted
+  joinedAt: timestamp("joined_at").defaultNow(),
+  promotedAt: timestamp("promoted_at"),
+}, (table) => [index("IDX_event_waitlist_event").on(table.eventId)]);
+
+// Email notification types
+export type NotificationType = "registration_confirmation" | "event_changed" | "event_cancelled" | "event_reminder";
+
+// Per-user email notification preferences (users without a row receive everything)
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  registrationConfirmation: boolean("registration_confirmation").notNull().default(true),
+  eventChanged: boolean("event_changed").notNull().default(true),
+  eventCancelled: boolean("event_cancelled").notNull().default(true),
+  eventReminder: boolean("event_reminder").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Log of sent notifications; the unique dedupe key keeps a message from going out twice
+export const notificationLog = pgTable("notification_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: varchar("type").$type<NotificationType>().notNull(),
+  dedupeKey: varchar("dedupe_key").notNull().unique(),
+  sentAt: timestamp("sent_at").defaultNow(),
+});
+
+export type AuditAction =
+  | "event.create"
+  | "event.update"
+  | "event.status_change"
+  | "event.delete"
+  | "event.restore"
+  | "event_series.create"
+  | "event_template.create"
+  | "event_template.update"
+  | "event_template.delete"
+  | "user.role_change"
+  | "role.permissions_change"
+  | "staff_invitation.create"
+  | "staff_invitation.revoke"
+  | "user.credit_adjustment"
+  | "user.credit_purchase"
+  | "credit_package.create"
+  | "credit_package.update"
+  | "attendance.record"
+  | "attendance.reset";
+
+export type AuditEntityType = "event" | "event_series" | "event_template" | "credit_package" | "user" | "role" | "staff_invitation" | "registration";
 
+// Field name -> value before and after the action; creates have a null before, removals a null after
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Append-only record of admin and staff actions. The actor's name is copied in so entries
+// stay readable after the account changes or is removed.
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id"),
+  actorName: varchar("actor_name"),
+  action: varchar("action").$type<AuditAction>().notNull(),
+  entityType: varchar("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: varchar("entity_id").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_log_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_log_created_at").on(table.createdAt),
+]);
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   children: many(attendee),
   eventRegistrations: many(eventRegistrations),
   eventSupervisors: many(eventSupervisors),
+  creditTransactions: many(creditTransactions),
+  waitlistEntries: many(eventWaitlist),
+  notificationPreferences: one(notificationPreferences),
+  householdMembership: one(householdMembers),
 }));
 
 export const attendeeRelations = relations(attendee, ({ one, many }) => ({
@@ -128,11 +480,62 @@ export const attendeeRelations = relations(attendee, ({ one, many }) => ({
     references: [users.id],
   }),
   eventRegistrations: many(eventRegistrations),
+  authorizedPickups: many(authorizedPickups),
+}));
+
+export const authorizedPickupsRelations = relations(authorizedPickups, ({ one }) => ({
+  child: one(attendee, {
+    fields: [authorizedPickups.childId],
+    references: [attendee.id],
+  }),
+}));
+
+export const staffInvitationsRelations = relations(staffInvitations, ({ one }) => ({
+  inviter: one(users, {
+    fields: [staffInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const householdsRelations = relations(households, ({ many }) => ({
+  members: many(householdMembers),
+  invitations: many(householdInvitations),
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  household: one(households, {
+    fields: [householdMembers.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [householdMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const householdInvitationsRelations = relations(householdInvitations, ({ one }) => ({
+  household: one(households, {
+    fields: [householdInvitations.householdId],
+    references: [households.id],
+  }),
+  inviter: one(users, {
+    fields: [householdInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const eventSeriesRelations = relations(eventSeries, ({ many }) => ({
+  events: many(events),
 }));
 
-export const eventsRelations = relations(events, ({ many }) => ({
+export const eventsRelations = relations(events, ({ one, many }) => ({
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
   eventRegistrations: many(eventRegistrations),
   eventSupervisors: many(eventSupervisors),
+  waitlistEntries: many(eventWaitlist),
 }));
 
 export const eventSupervisorsRelations = relations(eventSupervisors, ({ one }) => ({
@@ -161,6 +564,76 @@ export const eventRegistrationsRelations = relations(eventRegistrations, ({ one
   }),
 }));
 
+export const attendanceRelations = relations(attendance, ({ one }) => ({
+  registration: one(eventRegistrations, {
+    fields: [attendance.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  event: one(events, {
+    fields: [attendance.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const creditTransactionsRelations = relations(creditTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [creditTransactions.userId],
+    references: [users.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [creditTransactions.registrationId],
+    references: [eventRegistrations.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  registration: one(eventRegistrations, {
+    fields: [payments.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  creditPurchase: one(creditPurchases, {
+    fields: [payments.creditPurchaseId],
+    references: [creditPurchases.id],
+  }),
+}));
+
+export const creditPurchasesRelations = relations(creditPurchases, ({ one }) => ({
+  user: one(users, {
+    fields: [creditPurchases.userId],
+    references: [users.id],
+  }),
+  package: one(creditPackages, {
+    fields: [creditPurchases.packageId],
+    references: [creditPackages.id],
+  }),
+}));
+
+export const eventWaitlistRelations = relations(eventWaitlist, ({ one }) => ({
+  event: one(events, {
+    fields: [eventWaitlist.eventId],
+    references: [events.id],
+  }),
+  child: one(attendee, {
+    fields: [eventWaitlist.childId],
+    references: [attendee.id],
+  }),
+  parent: one(users, {
+    fields: [eventWaitlist.parentId],
+    references: [users.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [eventWaitlist.registrationId],
+    references: [eventRegistrations.id],
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
 
 
 // Insert schemas
@@ -176,15 +649,78 @@ export const insertChildSchema = createInsertSchema(attendee).omit({
   updatedAt: true,
 });
 
-export const insertEventSchema = createInsertSchema(events).omit({
+// Pickup people as entered by the parent; the child id comes from the route
+export const authorizedPickupInputSchema = createInsertSchema(authorizedPickups, {
+  name: z.string().trim().min(1, "Name is required"),
+  relation: z.string().trim().min(1, "Relation is required"),
+  phone: z.string().trim().min(6, "Please enter a valid phone number"),
+  photoUrl: z.string().url("Photo must be a URL").nullish().or(z.literal("")),
+}).omit({
   id: true,
+  childId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  id: z.string().optional(), // Present for pickups that are already saved
+}).refine(
+  (pickup) => !pickup.validFrom || !pickup.validUntil || pickup.validFrom <= pickup.validUntil,
+  { message: "Valid until must be on or after valid from", path: ["validUntil"] },
+);
+
+// Invitation a full guardian sends to another adult to share the household's children
+export const householdInvitationRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  permission: z.enum(["full", "view"]).default("full"),
+});
+
+export const updateHouseholdMemberSchema = z.object({
+  permission: z.enum(["full", "view"]),
+});
+
+// Event eligibility rules as configured by admins
+export const eventEligibilitySchema = z.object({
+  minAge: z.number().int().min(0).max(18).nullable().optional(),
+  maxAge: z.number().int().min(0).max(18).nullable().optional(),
+  gender: z.enum(["male", "female"]).nullable().optional(),
+  requiredFields: z.array(z.enum(["allergies", "dietaryRestrictions", "medicineNeeds"])).optional(),
+}).refine(
+  (rules) => rules.minAge == null || rules.maxAge == null || rules.minAge <= rules.maxAge,
+  { message: "Minimum age must not be above the maximum age", path: ["maxAge"] },
+);
+
+// Extra services as configured by admins; services without an id (new ones, imports) are given one here
+export const extraServiceSchema = z.object({
+  id: z.string().min(1).optional(),
+  description: z.string().trim().min(1, "Service description is required"),
+  price: z.number().min(0, "Service price must not be negative"),
+  currency: z.string().optional(),
+  capacity: z.number().int().min(1, "Service capacity must be at least 1").nullable().optional(),
+  required: z.boolean().optional(),
 });
 
-export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations).omit({
+export const extraServicesSchema = z.array(extraServiceSchema)
+  .transform((services): ExtraService[] => services.map(service => ({ ...service, id: service.id ?? crypto.randomUUID() })))
+  .refine(
+    (services) => new Set(services.map(service => service.id)).size === services.length,
+    "Extra service ids must be unique",
+  );
+
+export const insertEventSchema = createInsertSchema(events, {
+  eligibility: eventEligibilitySchema.optional(),
+  extraServices: extraServicesSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations, {
+  status: z.enum(["pending_payment", "confirmed", "cancelled"]).optional(),
+  selectedServices: z.array(z.string()).optional(),
+}).omit({
   id: true,
   registeredAt: true,
+  cancelledAt: true,
 });
 
 export const insertEventSupervisorSchema = createInsertSchema(eventSupervisors).omit({
@@ -192,8 +728,132 @@ export const insertEventSupervisorSchema = createInsertSchema(eventSupervisors).
   createdAt: true,
 });
 
+export const insertCreditTransactionSchema = createInsertSchema(creditTransactions, {
+  type: z.enum(["top_up", "spend", "refund", "adjustment"]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventWaitlistSchema = createInsertSchema(eventWaitlist, {
+  status: z.enum(["waiting", "promoted", "left"]).optional(),
+  selectedServices: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  registrationId: true,
+  joinedAt: true,
+  promotedAt: true,
+});
+
+// Recurrence rule schema for creating a series
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.literal("weekly").default("weekly"),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Select at least one weekday"),
+  until: localDateSchema.nullish(),
+  count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).nullish(),
+  skipDates: z.array(localDateSchema).default([]),
+}).refine((rule) => !!rule.until !== !!rule.count, "Set either an end date or a number of occurrences");
+
+export const insertEventSeriesSchema = createInsertSchema(eventSeries, {
+  recurrence: recurrenceRuleSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEventTemplateSchema = createInsertSchema(eventTemplates, {
+  name: z.string().trim().min(1, "Template name is required"),
+  durationMinutes: z.number().int().min(1, "Duration must be at least a minute"),
+  extraServices: extraServicesSchema.optional(),
+  eligibility: eventEligibilitySchema.optional(),
+  supervisorIds: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateEventTemplateSchema = insertEventTemplateSchema.partial();
+
+// Saving an existing event as a template only needs the template's name
+export const saveEventAsTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+});
+
+// Staff attendance actions; "reset" clears a mistaken record
+export const attendanceActionSchema = z.object({
+  action: z.enum(["check_in", "check_out", "no_show", "reset"]),
+  // Check-out of a child must name who collected them: an authorized pickup or the registering parent
+  pickupId: z.string().optional(),
+  releasedToParent: z.boolean().optional(),
+});
+
+// Notification preference updates from the Settings page
+export const updateNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  userId: true,
+  updatedAt: true,
+}).partial();
+
+// Admin credit adjustment schema
+export const creditAdjustmentSchema = z.object({
+  amount: z.number().int().refine((value) => value !== 0, "Amount must not be zero"),
+  type: z.enum(["top_up", "adjustment"]).default("adjustment"),
+  description: z.string().min(1, "A reason is required"),
+});
+
+export const insertCreditPackageSchema = createInsertSchema(creditPackages, {
+  name: z.string().trim().min(1, "Package name is required"),
+  credits: z.number().int().min(1, "A package must include at least 1 credit"),
+  price: z.number().int().min(1, "Price must be greater than zero"),
+  currency: z.enum(["RON", "EUR", "USD"]).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCreditPackageSchema = insertCreditPackageSchema.partial();
+
+// A parent buying a package online, or an admin recording a cash payment for one
+export const creditPurchaseRequestSchema = z.object({
+  packageId: z.string().min(1, "Choose a credit package"),
+});
 
 
+
+// Admin audit log filters, from the query string
+export const auditLogQuerySchema = z.object({
+  action: z.string().optional(),
+  entityType: z.enum(["event", "event_series", "event_template", "credit_package", "user", "role", "staff_invitation", "registration"]).optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Bulk event import from a CSV or JSON file; a dry run only validates and previews the rows
+export const MAX_IMPORT_ROWS = 500;
+
+export const eventImportRequestSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().min(1, "The import file is empty"),
+  dryRun: z.boolean().default(true),
+});
+
+// Date range for the admin registrations export; events starting inside the range are included
+export const registrationExportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(({ from, to }) => to >= from, {
+  message: "The end of the range must not be before its start",
+  path: ["to"],
+});
+
 // Update schemas
 export const updateUserSchema = insertUserSchema.partial();
 
@@ -211,19 +871,91 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+// Staff invitations: the link is valid for a chosen number of days
+export const staffInvitationRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  role: z.enum(INVITABLE_ROLES).default("staff"),
+  expiresInDays: z.coerce.number().int().min(1, "Expiry must be at least 1 day").max(30, "Expiry can be at most 30 days").default(7),
+});
+
+// Replaces every grant of a role; permissions left out are revoked
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+// Signing up through an invite link; the email comes from the invitation
+export const staffSignupSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters long"),
+  firstName: z.string().min(1, "First name is required"),
+  lastName: z.string().min(1, "Last name is required"),
+  phone: z.string().min(10, "Please enter a valid phone number"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: z.string().min(8, "Password must be at least 8 characters long"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Child = typeof attendee.$inferSelect;
 export type InsertChild = z.infer<typeof insertChildSchema>;
+export type AuthorizedPickup = typeof authorizedPickups.$inferSelect;
+export type AuthorizedPickupInput = z.infer<typeof authorizedPickupInputSchema>;
+export type StaffInvitation = typeof staffInvitations.$inferSelect;
+export type InsertStaffInvitation = typeof staffInvitations.$inferInsert;
+export type StaffInvitationRequest = z.infer<typeof staffInvitationRequestSchema>;
+export type StaffSignupData = z.infer<typeof staffSignupSchema>;
+export type Household = typeof households.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;
+export type InsertHouseholdInvitation = typeof householdInvitations.$inferInsert;
+export type HouseholdInvitationRequest = z.infer<typeof householdInvitationRequestSchema>;
 export type Event = typeof events.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type EventRegistration = typeof eventRegistrations.$inferSelect;
 export type InsertEventRegistration = z.infer<typeof insertEventRegistrationSchema>;
+export type EventSeries = typeof eventSeries.$inferSelect;
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+export type EventTemplate = typeof eventTemplates.$inferSelect;
+export type InsertEventTemplate = z.infer<typeof insertEventTemplateSchema>;
+export type Attendance = typeof attendance.$inferSelect;
+export type UpsertAttendance = typeof attendance.$inferInsert;
+export type AttendanceAction = z.infer<typeof attendanceActionSchema>["action"];
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
+export type CreditAdjustment = z.infer<typeof creditAdjustmentSchema>;
+export type CreditPackage = typeof creditPackages.$inferSelect;
+export type InsertCreditPackage = z.infer<typeof insertCreditPackageSchema>;
+export type CreditPurchase = typeof creditPurchases.$inferSelect;
+export type InsertCreditPurchase = typeof creditPurchases.$inferInsert;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+export type WaitlistEntry = typeof eventWaitlist.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertEventWaitlistSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type UpdateRolePermissions = z.infer<typeof updateRolePermissionsSchema>;
+export type RegistrationExportQuery = z.infer<typeof registrationExportQuerySchema>;
+export type EventImportRequest = z.infer<typeof eventImportRequestSchema>;
 
 export type SignupData = z.infer<typeof signupSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
+export type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
 
 // Extended event type with supervisor information
 export type EventWithSupervisor = Event & {
@@ -250,10 +982,15 @@ export function calculateEventStatus(event: Event): EventStatus {
   const eventDate = new Date(event.startTime);
   const cutoffTime = new Date(eventDate.getTime() - (event.cutoffHours * 60 * 60 * 1000));
   
-  // Check if event has passed
-  if (eventDate < now) {
+  // Check if event has ended
+  if (new Date(event.endTime) <= now) {
     return "past";
   }
+
+  // Check if event is running right now
+  if (eventDate <= now) {
+    return "in_progress";
+  }
   
   // Check if event is full
   if (event.remainingSeats <= 0) {
@@ -268,3 +1005,305 @@ export function calculateEventStatus(event: Event): EventStatus {
   // Default to open
   return "open";
 }
+
+// Helper function to total the selected extra services, in cents
+export function calculateServicesCost(event: Pick<Event, "extraServices">, selectedServices: string[]): number {
+  return selectedServices.reduce((total, serviceId) => {
+    const service = event.extraServices?.find(candidate => candidate.id === serviceId);
+    return total + (service ? Math.round(service.price * 100) : 0);
+  }, 0);
+}
+
+// Helper function to list the problems with a registration's extra service selection; empty when it is valid.
+// Capacity is not checked here, since it depends on other registrations.
+export function getServiceSelectionIssues(event: Pick<Event, "extraServices">, selectedServices: string[]): string[] {
+  const services = event.extraServices ?? [];
+  const issues: string[] = [];
+  if (selectedServices.some(serviceId => !services.some(service => service.id === serviceId))) {
+    issues.push("One of the selected services is no longer offered");
+  }
+  for (const service of services) {
+    if (service.required && !selectedServices.includes(service.id)) {
+      issues.push(`${service.description} is required for this event`);
+    }
+  }
+  return issues;
+}
+
+// Helper function to bring an older selection (e.g. a waitlist entry) in line with the event's current
+// services: removed services are dropped and required ones added
+export function reconcileServiceSelection(event: Pick<Event, "extraServices">, selectedServices: string[]): string[] {
+  const services = event.extraServices ?? [];
+  return services
+    .filter(service => service.required || selectedServices.includes(service.id))
+    .map(service => service.id);
+}
+
+// Extra service with how many active registrations have selected it
+export interface ExtraServiceAvailability extends ExtraService {
+  taken: number;
+  remaining: number | null; // null when the service has no capacity limit
+}
+
+// Helper function to combine an event's services with their booking counts
+export function getServiceAvailability(
+  event: Pick<Event, "extraServices">,
+  bookingCounts: Record<string, number>,
+): ExtraServiceAvailability[] {
+  return (event.extraServices ?? []).map(service => {
+    const taken = bookingCounts[service.id] ?? 0;
+    return {
+      ...service,
+      taken,
+      remaining: service.capacity ? Math.max(0, service.capacity - taken) : null,
+    };
+  });
+}
+
+// Helper function to check whether a registration occupies one of the event's seats.
+// Child registrations always do; registrants with events.attendWithoutSeat registering themselves are supervising, not attending.
+export function registrationTakesSeat(registration: Pick<EventRegistration, "childId">, registrantAttendsWithoutSeat: boolean): boolean {
+  if (registration.childId) {
+    return true;
+  }
+  return !registrantAttendsWithoutSeat;
+}
+
+// The signed-in user as returned by /api/auth/user, with the permissions their role grants
+export type AuthUser = User & { permissions: Permission[] };
+
+export function hasPermission(user: { permissions?: readonly Permission[] } | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+// Staff invitation as listed to admins; the token only goes out in the invite link
+export type StaffInvitationSummary = Omit<StaffInvitation, "token"> & { expired: boolean };
+
+// Household member as listed to the other guardians
+export type HouseholdMemberWithUser = HouseholdMember & Pick<User, "firstName" | "lastName" | "email">;
+
+// A child as seen by one of its guardians, with what that guardian may do
+export type SharedChild = Child & { access: GuardianPermission };
+
+// The signed-in user's household; invitations are listed without their tokens
+export interface HouseholdOverview {
+  members: HouseholdMemberWithUser[];
+  invitations: Omit<HouseholdInvitation, "token">[];
+  permission: GuardianPermission; // The signed-in user's own permission
+}
+
+export const guardianPermissionLabels: Record<GuardianPermission, string> = {
+  full: "Full guardian",
+  view: "View only",
+};
+
+// Outcome of validating one row of an event import; rows with errors are skipped
+export interface EventImportRow {
+  row: number; // 1-based position in the file, not counting the CSV header
+  name: string;
+  startTime: string | null;
+  endTime: string | null;
+  location: string;
+  supervisorEmails: string[];
+  errors: string[];
+}
+
+export interface EventImportResult {
+  rows: EventImportRow[];
+  validCount: number;
+  createdCount: number; // Always 0 for a dry run
+}
+
+// Refund quote for cancelling a registration
+export interface RegistrationRefund {
+  eligible: boolean;
+  credits: number;
+  servicesCost: number; // In cents
+  refundDeadline: Date;
+}
+
+// Helper function to calculate the refund owed when a registration is cancelled.
+// Cancellations up to refundWindowHours (or cutoffHours when unset) before the start are refunded in full.
+// Services of a registration still awaiting payment were never paid, so there is nothing to refund for them.
+export function calculateRegistrationRefund(
+  event: Pick<Event, "startTime" | "cutoffHours" | "refundWindowHours">,
+  registration: Pick<EventRegistration, "creditsCost" | "servicesCost"> & { status?: RegistrationStatus },
+  now: Date = new Date(),
+): RegistrationRefund {
+  const windowHours = event.refundWindowHours ?? event.cutoffHours;
+  const refundDeadline = new Date(new Date(event.startTime).getTime() - (windowHours * 60 * 60 * 1000));
+  const eligible = now <= refundDeadline;
+  const servicesPaid = registration.status !== "pending_payment";
+
+  return {
+    eligible,
+    credits: eligible ? registration.creditsCost : 0,
+    servicesCost: eligible && servicesPaid ? registration.servicesCost : 0,
+    refundDeadline,
+  };
+}
+
+// Helper function to format a credit purchase's receipt number, e.g. "R-000042"
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `R-${String(receiptNumber).padStart(6, "0")}`;
+}
+
+// Helper function to format an amount in cents with its currency, e.g. "RON 200.00"
+export function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${(amount / 100).toFixed(2)}`;
+}
+
+// Helper function to format a date as a local YYYY-MM-DD key
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Helper function to expand a recurrence rule into occurrence start times.
+// Walks forward day by day from the first start (which is only included if it falls on a selected weekday),
+// keeping its local time of day, until the end date, the occurrence count or MAX_SERIES_OCCURRENCES is reached.
+export function generateOccurrences(
+  firstStart: Date,
+  rule: Pick<RecurrenceRule, "weekdays" | "until" | "count" | "skipDates">,
+): Date[] {
+  const occurrences: Date[] = [];
+  if (rule.weekdays.length === 0) return occurrences;
+
+  const skipDates = new Set(rule.skipDates);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const cursor = new Date(firstStart);
+
+  // Any non-empty weekday set yields at least one occurrence per week, so this bounds the walk
+  for (let day = 0; day < MAX_SERIES_OCCURRENCES * 7 && occurrences.length < limit; day++) {
+    const dateKey = formatLocalDate(cursor);
+    if (rule.until && dateKey > rule.until) break;
+
+    if (rule.weekdays.includes(cursor.getDay()) && !skipDates.has(dateKey)) {
+      occurrences.push(new Date(cursor));
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return occurrences;
+}
+
+// Helper function to check an authorized pickup is within its validity dates on the given day
+export function isPickupAuthorized(
+  pickup: Pick<AuthorizedPickup, "validFrom" | "validUntil">,
+  on: Date = new Date(),
+): boolean {
+  const day = formatLocalDate(on);
+  if (pickup.validFrom && day < pickup.validFrom) return false;
+  if (pickup.validUntil && day > pickup.validUntil) return false;
+  return true;
+}
+
+// Profile labels for the fields an event can require
+export const eligibilityFieldLabels: Record<EligibilityRequiredField, string> = {
+  allergies: "Allergies",
+  dietaryRestrictions: "Dietary restrictions",
+  medicineNeeds: "Medicine needs",
+};
+
+// Helper function to calculate a child's age in whole years on a given day
+export function calculateAgeOn(dateOfBirth: string, on: Date): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = formatLocalDate(on).split("-").map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+// Helper function to list why a child can't register for an event; an empty list means eligible
+export function getEligibilityIssues(
+  child: Pick<Child, "dateOfBirth" | "gender" | "allergies" | "dietaryRestrictions" | "medicineNeeds">,
+  event: Pick<Event, "startTime" | "eligibility">,
+): string[] {
+  const rules = event.eligibility ?? {};
+  const issues: string[] = [];
+
+  const age = calculateAgeOn(child.dateOfBirth, new Date(event.startTime));
+  if (rules.minAge != null && age < rules.minAge) {
+    issues.push(`Must be at least ${rules.minAge} years old on the event date`);
+  }
+  if (rules.maxAge != null && age > rules.maxAge) {
+    issues.push(`Must be ${rules.maxAge} or younger on the event date`);
+  }
+  if (rules.gender && child.gender !== rules.gender) {
+    issues.push(`Only open to ${rules.gender === "female" ? "girls" : "boys"}`);
+  }
+  for (const field of rules.requiredFields ?? []) {
+    if (!child[field]?.trim()) {
+      issues.push(`${eligibilityFieldLabels[field]} must be filled in on the child's profile (enter "None" if not applicable)`);
+    }
+  }
+
+  return issues;
+}
+
+// Helper function to summarize an event's eligibility rules, e.g. "Ages 6-12 · Girls only"
+export function formatEligibility(rules: EventEligibility | null | undefined): string | null {
+  if (!rules) return null;
+  const parts: string[] = [];
+
+  if (rules.minAge != null && rules.maxAge != null) {
+    parts.push(`Ages ${rules.minAge}-${rules.maxAge}`);
+  } else if (rules.minAge != null) {
+    parts.push(`Ages ${rules.minAge}+`);
+  } else if (rules.maxAge != null) {
+    parts.push(`Up to age ${rules.maxAge}`);
+  }
+  if (rules.gender) {
+    parts.push(rules.gender === "female" ? "Girls only" : "Boys only");
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// Helper function to get an event's length in whole minutes
+export function getEventDurationMinutes(event: Pick<Event, "startTime" | "endTime">): number {
+  return Math.round((new Date(event.endTime).getTime() - new Date(event.startTime).getTime()) / (60 * 1000));
+}
+
+// Helper function to build a template from an existing event and its supervisors
+export function templateFromEvent(event: Event, supervisorIds: string[], name: string): InsertEventTemplate {
+  return {
+    name,
+    eventName: event.name,
+    type: event.type,
+    description: event.description,
+    location: event.location,
+    durationMinutes: getEventDurationMinutes(event),
+    maxSeats: event.maxSeats,
+    creditsRequired: event.creditsRequired,
+    cutoffHours: event.cutoffHours,
+    refundWindowHours: event.refundWindowHours,
+    image: event.image,
+    extraServices: event.extraServices,
+    servicesCurrency: event.servicesCurrency,
+    allowedRegistrants: event.allowedRegistrants,
+    eligibility: event.eligibility,
+    supervisorIds,
+  };
+}
+
+// Helper function to format an event's length, e.g. "2h", "1h 30m" or "45m"
+export function formatEventDuration(event: Pick<Event, "startTime" | "endTime">): string {
+  const minutes = getEventDurationMinutes(event);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
+// Helper function to combine a datetime-local start ("2025-09-06T09:00") with an "HH:mm" end time on the same day
+export function endTimeOnStartDay(startTime: string, endTime: string): Date {
+  return new Date(`${startTime.slice(0, 10)}T${endTime}`);
+}
+
+// Helper function to check whether two events' time windows overlap; back-to-back events don't
+export function eventsOverlap(
+  a: Pick<Event, "startTime" | "endTime">,
+  b: Pick<Event, "startTime" | "endTime">,
+): boolean {
+  return new Date(a.startTime) < new Date(b.endTime) && new Date(b.startTime) < new Date(a.endTime);
+}
@@ -0,0 +1,31 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { getReturnPath } from '../../client/src/lib/authUtils';
+
+describe('getReturnPath', () => {
+  // Sign-in pages read returnTo from their own query string
+  const returnPathFor = (returnTo: string) => {
+    window.history.replaceState(null, '', `/login?returnTo=${encodeURIComponent(returnTo)}`);
+    return getReturnPath();
+  };
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  test('should keep paths on this site', () => {
+    expect(returnPathFor('/events/42?tab=roster#top')).toBe('/events/42?tab=roster#top');
+    expect(returnPathFor(`${window.location.origin}/my-events`)).toBe('/my-events');
+    window.history.replaceState(null, '', '/login');
+    expect(getReturnPath()).toBe('/');
+  });
+
+  test('should send anything that resolves to another site home', () => {
+    expect(returnPathFor('https://evil.com/')).toBe('/');
+    expect(returnPathFor('//evil.com')).toBe('/');
+    expect(returnPathFor('/\\evil.com')).toBe('/');
+    expect(returnPathFor('\\\\evil.com')).toBe('/');
+    expect(returnPathFor('/\t/evil.com')).toBe('/');
+    expect(returnPathFor('/\n/evil.com')).toBe('/');
+    expect(returnPathFor('javascript:alert(1)')).toBe('/');
+  });
+});
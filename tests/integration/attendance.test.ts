@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createTestApp, type TestApp } from '../utils/test-app';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+describe('Attendance Routes', () => {
+  let testApp: TestApp;
+  let parent: Awaited<ReturnType<TestApp['login']>>;
+  let staff: Awaited<ReturnType<TestApp['login']>>;
+  let childId: string;
+
+  beforeAll(async () => {
+    // Confirmation emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+    parent = await testApp.login('user');
+    staff = await testApp.login('staff');
+
+    const child = await parent.post('/api/children').send({ firstName: 'Ioana', lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' });
+    childId = child.body.id;
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  // A registration for a new event that the staff user supervises
+  let eventOffset = 0;
+  const supervisedRegistration = async () => {
+    eventOffset += 4;
+    const event = await testApp.createEvent({ startTime: hoursFromNow(100 + eventOffset), endTime: hoursFromNow(101 + eventOffset) });
+    await testApp.storage.updateEventSupervisors(event.id, [testApp.users.staff.id]);
+    const registration = await parent.post(`/api/events/${event.id}/register`).send({ childId });
+    expect(registration.status).toBe(201);
+    return registration.body;
+  };
+
+  const record = (agent: typeof staff, registrationId: string, body: object) =>
+    agent.post(`/api/staff/registrations/${registrationId}/attendance`).send(body);
+
+  test('should only check out a child who was checked in, to the person collecting them', async () => {
+    const registration = await supervisedRegistration();
+
+    const early = await record(staff, registration.id, { action: 'check_out', releasedToParent: true });
+    expect(early.status).toBe(400);
+    expect(early.body.message).toBe('Must be checked in before checking out');
+
+    expect((await record(staff, registration.id, { action: 'check_in' })).body.status).toBe('checked_in');
+    expect((await record(staff, registration.id, { action: 'check_in' })).status).toBe(400);
+    expect((await record(staff, registration.id, { action: 'check_out' })).status).toBe(400);
+
+    const checkedOut = await record(staff, registration.id, { action: 'check_out', releasedToParent: true });
+    expect(checkedOut.status).toBe(200);
+    expect(checkedOut.body).toMatchObject({ status: 'checked_out', checkedOutBy: testApp.users.staff.id, releasedToName: 'Paula Test (Parent)' });
+  });
+
+  test('should refuse a no-show once the child has been checked in', async () => {
+    const registration = await supervisedRegistration();
+    expect((await record(staff, registration.id, { action: 'no_show' })).body.status).toBe('no_show');
+
+    // A late arrival replaces the no-show
+    const lateArrival = await record(staff, registration.id, { action: 'check_in' });
+    expect(lateArrival.body).toMatchObject({ status: 'checked_in', noShowMarkedAt: null });
+
+    const refused = await record(staff, registration.id, { action: 'no_show' });
+    expect(refused.status).toBe(400);
+    expect(refused.body.message).toBe('Cannot mark a checked-in attendee as a no-show');
+    expect((await testApp.storage.getAttendanceByRegistration(registration.id))?.status).toBe('checked_in');
+
+    expect((await record(staff, registration.id, { action: 'reset' })).status).toBe(200);
+    expect(await testApp.storage.getAttendanceByRegistration(registration.id)).toBeUndefined();
+  });
+
+  test('should only let supervising staff record attendance', async () => {
+    const registration = await supervisedRegistration();
+
+    const byParent = await record(parent, registration.id, { action: 'check_in' });
+    expect(byParent.status).toBe(403);
+    expect(await testApp.storage.getAttendanceByRegistration(registration.id)).toBeUndefined();
+
+    const unsupervised = await testApp.createEvent({ startTime: hoursFromNow(300), endTime: hoursFromNow(301) });
+    const other = (await parent.post(`/api/events/${unsupervised.id}/register`).send({ childId })).body;
+    const refused = await record(staff, other.id, { action: 'check_in' });
+    expect(refused.status).toBe(403);
+    expect(refused.body.message).toBe('You are not supervising this event');
+
+    // roster.viewAll covers events the admin doesn't supervise
+    expect((await record(await testApp.login('admin'), other.id, { action: 'check_in' })).status).toBe(200);
+    expect((await record(staff, 'missing', { action: 'check_in' })).status).toBe(404);
+  });
+});
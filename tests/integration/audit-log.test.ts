@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/storage', () => ({
+  storage: {
+    createAuditEntry: jest.fn(async (entry: unknown) => entry),
+    getUserByReplitId: jest.fn(async () => ({ id: 'admin-db-id', firstName: 'Ana', lastName: 'Admin', email: 'ana@example.com' })),
+  },
+}));
+
+import { diffRecords, recordAudit } from '../../server/audit';
+import { storage } from '../../server/storage';
+import { auditLogQuerySchema } from '../../shared/schema';
+
+describe('Audit Log', () => {
+  const createAuditEntry = storage.createAuditEntry as jest.Mock;
+
+  beforeEach(() => {
+    createAuditEntry.mockClear();
+  });
+
+  describe('Diffs', () => {
+    test('should keep only the fields that changed', () => {
+      const before = { name: 'Art Club', maxSeats: 10, startTime: new Date('2025-09-01T15:00:00Z'), updatedAt: new Date(1) };
+      const after = { name: 'Art Club', maxSeats: 12, startTime: new Date('2025-09-01T16:00:00Z'), updatedAt: new Date(2) };
+
+      expect(diffRecords(before, after)).toEqual({
+        maxSeats: { before: 10, after: 12 },
+        startTime: { before: before.startTime, after: after.startTime },
+      });
+    });
+
+    test('should record every field of a created record and compare nested values', () => {
+      expect(diffRecords(null, { id: 'event-1', extraServices: [] })).toEqual({ id: { before: null, after: 'event-1' }, extraServices: { before: null, after: [] } });
+      expect(diffRecords({ extraServices: [{ price: 5 }] }, { extraServices: [{ price: 5 }] })).toEqual({});
+    });
+
+    test('should never include secrets', () => {
+      expect(diffRecords({ role: 'user', password: 'old' }, { role: 'staff', password: 'new' })).toEqual({ role: { before: 'user', after: 'staff' } });
+    });
+  });
+
+  describe('Recording', () => {
+    test('should attribute the entry to the signed-in account', async () => {
+      await recordAudit({ user: { id: 'staff-1', firstName: 'Sam', lastName: 'Staff' } }, {
+        action: 'user.role_change',
+        entityType: 'user',
+        entityId: 'user-1',
+        before: { role: 'user' },
+        after: { role: 'staff' },
+      });
+
+      expect(createAuditEntry).toHaveBeenCalledWith({
+        actorId: 'staff-1',
+        actorName: 'Sam Staff',
+        action: 'user.role_change',
+        entityType: 'user',
+        entityId: 'user-1',
+        changes: { role: { before: 'user', after: 'staff' } },
+      });
+    });
+
+    test('should resolve Replit sessions to the database user', async () => {
+      await recordAudit({ user: { claims: { sub: 'replit-1' } } }, { action: 'event.delete', entityType: 'event', entityId: 'event-1' });
+
+      expect(createAuditEntry).toHaveBeenCalledWith(expect.objectContaining({ actorId: 'admin-db-id', actorName: 'Ana Admin' }));
+    });
+
+    test('should not throw when the entry cannot be written', async () => {
+      createAuditEntry.mockImplementationOnce(async () => { throw new Error('database unavailable'); });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(recordAudit({ user: { id: 'staff-1' } }, { action: 'event.restore', entityType: 'event', entityId: 'event-1' })).resolves.toBeUndefined();
+      consoleError.mockRestore();
+    });
+  });
+
+  test('should parse query string filters', () => {
+    const query = auditLogQuerySchema.parse({ entityType: 'event', from: '2025-09-01T00:00:00.000Z', limit: '20' });
+
+    expect(query.from).toEqual(new Date('2025-09-01T00:00:00.000Z'));
+    expect(query.limit).toBe(20);
+    expect(auditLogQuerySchema.parse({}).limit).toBe(100);
+    expect(auditLogQuerySchema.safeParse({ entityType: 'payment' }).success).toBe(false);
+  });
+});
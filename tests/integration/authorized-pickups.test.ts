@@ -0,0 +1,40 @@
+import { describe, test, expect } from '@jest/globals';
+import { isPickupAuthorized, authorizedPickupInputSchema } from '../../shared/schema';
+
+describe('Authorized Pickups', () => {
+  // Wednesday 10 September 2025, 17:00 local time
+  const pickupTime = new Date(2025, 8, 10, 17, 0);
+
+  describe('Validity Window', () => {
+    test('should authorize a pickup without validity dates on any day', () => {
+      expect(isPickupAuthorized({ validFrom: null, validUntil: null }, pickupTime)).toBe(true);
+    });
+
+    test('should include the first and last valid day', () => {
+      expect(isPickupAuthorized({ validFrom: '2025-09-10', validUntil: null }, pickupTime)).toBe(true);
+      expect(isPickupAuthorized({ validFrom: null, validUntil: '2025-09-10' }, pickupTime)).toBe(true);
+    });
+
+    test('should reject a pickup outside its validity window', () => {
+      expect(isPickupAuthorized({ validFrom: '2025-09-11', validUntil: null }, pickupTime)).toBe(false);
+      expect(isPickupAuthorized({ validFrom: '2025-09-01', validUntil: '2025-09-09' }, pickupTime)).toBe(false);
+    });
+  });
+
+  describe('Input Validation', () => {
+    const pickup = { name: 'Ana Silva', relation: 'Grandmother', phone: '+351 912 345 678' };
+
+    test('should accept a pickup with only the required fields', () => {
+      expect(authorizedPickupInputSchema.safeParse(pickup).success).toBe(true);
+    });
+
+    test('should reject a validity window that ends before it starts', () => {
+      const result = authorizedPickupInputSchema.safeParse({ ...pickup, validFrom: '2025-09-10', validUntil: '2025-09-01' });
+      expect(result.success).toBe(false);
+    });
+
+    test('should require a phone number', () => {
+      expect(authorizedPickupInputSchema.safeParse({ ...pickup, phone: '' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import { buildCalendar, type CalendarRegistration } from '../../server/ical';
+
+describe('Calendar Export', () => {
+  const registration: CalendarRegistration = {
+    id: 'reg-1',
+    event: {
+      id: 'event-1',
+      name: 'Art Club',
+      startTime: new Date('2025-09-01T15:00:00Z'),
+      endTime: new Date('2025-09-01T16:30:00Z'),
+      location: 'Room 2, Main Building',
+      description: 'Painting; bring an apron',
+      deleted: false,
+      updatedAt: new Date('2025-08-20T10:00:00Z'),
+    },
+    child: { firstName: 'Maria', lastName: 'Pop' },
+  };
+
+  const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+  describe('iCalendar Output', () => {
+    test('should include start, end, location and escaped description', () => {
+      const calendar = unfold(buildCalendar([registration], { name: 'My Events', uidDomain: 'example.com' }));
+
+      expect(calendar).toContain('UID:reg-1@example.com');
+      expect(calendar).toContain('DTSTART:20250901T150000Z');
+      expect(calendar).toContain('DTEND:20250901T163000Z');
+      expect(calendar).toContain('SUMMARY:Art Club (Maria Pop)');
+      expect(calendar).toContain('LOCATION:Room 2\\, Main Building');
+      expect(calendar).toContain('DESCRIPTION:Painting\\; bring an apron');
+      expect(calendar).toContain('STATUS:CONFIRMED');
+    });
+
+    test('should mark soft-deleted events as cancelled with a newer sequence', () => {
+      const original = unfold(buildCalendar([registration], { name: 'My Events', uidDomain: 'example.com' }));
+      const deleted = unfold(buildCalendar([{
+        ...registration,
+        event: { ...registration.event, deleted: true, updatedAt: new Date('2025-08-25T10:00:00Z') },
+      }], { name: 'My Events', uidDomain: 'example.com' }));
+
+      const sequenceOf = (calendar: string) => Number(calendar.match(/SEQUENCE:(\d+)/)?.[1]);
+      expect(deleted).toContain('STATUS:CANCELLED');
+      expect(sequenceOf(deleted)).toBeGreaterThan(sequenceOf(original));
+    });
+
+    test('should fold long lines to 75 octets', () => {
+      const calendar = buildCalendar([{
+        ...registration,
+        event: { ...registration.event, description: 'A very long description '.repeat(10) },
+      }], { name: 'My Events', uidDomain: 'example.com' });
+
+      calendar.split('\r\n').forEach((line) => {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      });
+    });
+  });
+});
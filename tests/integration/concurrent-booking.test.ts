@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createTestApp, type TestApp } from '../utils/test-app';
+import type { Event, ExtraService, User } from '../../shared/schema';
+
+// Replit OAuth discovers its issuer over the network; the route suite signs in with email/password
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+// Runs on the in-memory storage (or DATABASE_URL when set), so it always runs in CI
+describe('Concurrent Seat Booking Through the Route', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // Confirmation emails go to the console transport, and refused bookings are logged by the route
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  test('should give the last seat to exactly one of several parallel registrations', async () => {
+    const parent = await testApp.login('user');
+    const children = [];
+    for (const firstName of ['Ana', 'Bianca', 'Cezar', 'Dora', 'Emil']) {
+      children.push((await parent.post('/api/children').send({ firstName, lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' })).body);
+    }
+    const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 1 });
+
+    const responses = await Promise.all(children.map(child =>
+      parent.post(`/api/events/${event.id}/register`).send({ childId: child.id })
+    ));
+
+    expect(responses.filter(response => response.status === 201)).toHaveLength(1);
+    for (const refused of responses.filter(response => response.status !== 201)) {
+      expect(refused.status).toBe(400);
+      expect(refused.body.message).toBe('No seats available for this event');
+    }
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(0);
+    expect(await testApp.storage.getEventRegistrationsByEvent(event.id)).toHaveLength(1);
+  });
+});
+
+// Storage-level checks against a real database: set DATABASE_URL to a disposable database to enable
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('Concurrent Seat Booking', () => {
+  let storageModule: typeof import('../../server/storage');
+  let dbModule: typeof import('../../server/db');
+  let schema: typeof import('../../shared/schema');
+
+  const createdUserIds: string[] = [];
+  const createdEventIds: string[] = [];
+
+  beforeAll(async () => {
+    // db.ts throws on import without DATABASE_URL, so load it only when the suite runs
+    storageModule = await import('../../server/storage');
+    dbModule = await import('../../server/db');
+    schema = await import('../../shared/schema');
+  });
+
+  afterAll(async () => {
+    if (!dbModule) return;
+    const { inArray } = await import('drizzle-orm');
+    // Deleting the users and events cascades to children, registrations and credit transactions
+    if (createdEventIds.length > 0) {
+      await dbModule.db.delete(schema.events).where(inArray(schema.events.id, createdEventIds));
+    }
+    if (createdUserIds.length > 0) {
+      await dbModule.db.delete(schema.users).where(inArray(schema.users.id, createdUserIds));
+    }
+    await dbModule.pool.end();
+  });
+
+  const createParent = async (credits: number): Promise<User> => {
+    const { storage } = storageModule;
+    const parent = await storage.createUser({
+      email: `booking-test-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`,
+      firstName: 'Booking',
+      lastName: 'Test',
+      role: 'user',
+    });
+    createdUserIds.push(parent.id);
+    if (credits > 0) {
+      await storage.createCreditTransaction({ userId: parent.id, amount: credits, type: 'top_up', description: 'Test credits' });
+    }
+    return parent;
+  };
+
+  const createChild = async (parent: User, firstName: string) => {
+    return await storageModule.storage.createChild({
+      parentId: parent.id,
+      firstName,
+      lastName: 'Test',
+      dateOfBirth: '2018-01-01',
+      secondaryContact: 'Test contact',
+    });
+  };
+
+  const createEvent = async (seats: number, creditsRequired: number, extraServices: ExtraService[] = []): Promise<Event> => {
+    const event = await storageModule.storage.createEvent({
+      name: 'Concurrency Test Event',
+      startTime: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      endTime: new Date(Date.now() + 50 * 60 * 60 * 1000),
+      location: 'Test Room',
+      maxSeats: seats,
+      remainingSeats: seats,
+      creditsRequired,
+      description: 'Created by the concurrent booking test',
+      extraServices,
+    });
+    createdEventIds.push(event.id);
+    return event;
+  };
+
+  test('should book exactly one seat when parents register in parallel for a 1-seat event', async () => {
+    const { storage, BookingError } = storageModule;
+    const event = await createEvent(1, 2);
+
+    const parents = await Promise.all(Array.from({ length: 5 }, () => createParent(10)));
+    const children = await Promise.all(parents.map((parent, index) => createChild(parent, `Child${index}`)));
+
+    const results = await Promise.allSettled(children.map((child) =>
+      storage.bookEventRegistration({
+        eventId: event.id,
+        childId: child.id,
+        parentId: child.parentId,
+        selectedServices: [],
+        creditsCost: event.creditsRequired,
+        servicesCost: 0,
+      }, { takesSeat: true, spendDescription: `Registration for ${event.name}` })
+    ));
+
+    const fulfilled = results.filter((result) => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(4);
+    rejected.forEach((result) => {
+      expect(result.reason).toBeInstanceOf(BookingError);
+      expect(result.reason.code).toBe('no_seats');
+    });
+
+    const updatedEvent = await storage.getEvent(event.id);
+    expect(updatedEvent?.remainingSeats).toBe(0);
+
+    const registrations = await storage.getEventRegistrationsByEvent(event.id);
+    expect(registrations).toHaveLength(1);
+
+    // Only the winning parent was charged
+    const balances = await Promise.all(parents.map((parent) => storage.getCreditBalance(parent.id)));
+    expect(balances.filter((balance) => balance === 8)).toHaveLength(1);
+    expect(balances.filter((balance) => balance === 10)).toHaveLength(4);
+  });
+
+  test('should not let parallel registrations spend the same credits', async () => {
+    const { storage, BookingError } = storageModule;
+    const event = await createEvent(2, 2);
+
+    const parent = await createParent(3);
+    const children = await Promise.all([createChild(parent, 'First'), createChild(parent, 'Second')]);
+
+    const results = await Promise.allSettled(children.map((child) =>
+      storage.bookEventRegistration({
+        eventId: event.id,
+        childId: child.id,
+        parentId: parent.id,
+        selectedServices: [],
+        creditsCost: event.creditsRequired,
+        servicesCost: 0,
+      }, { takesSeat: true, spendDescription: `Registration for ${event.name}` })
+    ));
+
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(BookingError);
+    expect(rejected[0].reason.code).toBe('insufficient_credits');
+
+    // The failed booking rolled back its seat decrement
+    const updatedEvent = await storage.getEvent(event.id);
+    expect(updatedEvent?.remainingSeats).toBe(1);
+    expect(await storage.getCreditBalance(parent.id)).toBe(1);
+  });
+
+  test('should not book a capped extra service past its capacity', async () => {
+    const { storage, BookingError } = storageModule;
+    const event = await createEvent(5, 1, [{ id: 'lunch', description: 'Lunch', price: 10, capacity: 1 }]);
+
+    const parents = await Promise.all(Array.from({ length: 3 }, () => createParent(5)));
+    const children = await Promise.all(parents.map((parent, index) => createChild(parent, `Lunch${index}`)));
+
+    const results = await Promise.allSettled(children.map((child) =>
+      storage.bookEventRegistration({
+        eventId: event.id,
+        childId: child.id,
+        parentId: child.parentId,
+        selectedServices: ['lunch'],
+        creditsCost: event.creditsRequired,
+        servicesCost: 1000,
+      }, { takesSeat: true, spendDescription: `Registration for ${event.name}` })
+    ));
+
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(2);
+    rejected.forEach((result) => {
+      expect(result.reason).toBeInstanceOf(BookingError);
+      expect(result.reason.code).toBe('service_full');
+    });
+
+    expect(await storage.getServiceBookingCounts(event.id)).toEqual({ lunch: 1 });
+    const updatedEvent = await storage.getEvent(event.id);
+    expect(updatedEvent?.remainingSeats).toBe(4);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/storage', () => ({
+  storage: {
+    createPayment: jest.fn(async (payment: object) => ({ id: 'payment-1', status: 'pending', ...payment })),
+    getPaymentByReference: jest.fn(),
+    completePayment: jest.fn(),
+    getUser: jest.fn(async () => ({ id: 'parent-1', email: 'parent@example.com', role: 'user' })),
+    getUserByReplitId: jest.fn(async () => undefined),
+    updateEventSeats: jest.fn(async () => undefined),
+    createCreditTransaction: jest.fn(async (transaction: unknown) => transaction),
+  },
+}));
+jest.mock('../../server/notifications', () => ({
+  notificationService: { registrationConfirmed: jest.fn(), creditReceipt: jest.fn() },
+}));
+jest.mock('../../server/waitlist', () => ({
+  promoteWaitlist: jest.fn(async () => []),
+}));
+
+import { PaymentService } from '../../server/payments';
+import { FakePaymentProvider } from '../../server/paymentProviders';
+import { renderCreditReceipt } from '../../server/notificationTemplates';
+import { storage } from '../../server/storage';
+import { notificationService } from '../../server/notifications';
+import {
+  formatMoney,
+  formatReceiptNumber,
+  insertCreditPackageSchema,
+  updateCreditPackageSchema,
+  type CreditPurchase,
+} from '../../shared/schema';
+
+describe('Credit Packages', () => {
+  const purchase = {
+    id: 'purchase-1',
+    receiptNumber: 42,
+    userId: 'parent-1',
+    packageId: 'package-1',
+    packageName: '10 credits',
+    credits: 10,
+    amount: 20000,
+    currency: 'RON',
+    method: 'online',
+    status: 'pending',
+    recordedBy: null,
+    createdAt: new Date('2025-09-01T10:00:00Z'),
+    completedAt: null,
+  } as CreditPurchase;
+
+  describe('Validation', () => {
+    test('should accept a package priced in cents', () => {
+      const parsed = insertCreditPackageSchema.parse({ name: ' 10 credits ', credits: 10, price: 20000 });
+      expect(parsed).toMatchObject({ name: '10 credits', credits: 10, price: 20000 });
+    });
+
+    test('should reject empty, free and fractional packages', () => {
+      expect(insertCreditPackageSchema.safeParse({ name: '', credits: 10, price: 20000 }).success).toBe(false);
+      expect(insertCreditPackageSchema.safeParse({ name: 'Free', credits: 10, price: 0 }).success).toBe(false);
+      expect(insertCreditPackageSchema.safeParse({ name: 'Half', credits: 0.5, price: 1000 }).success).toBe(false);
+      expect(insertCreditPackageSchema.safeParse({ name: 'Pounds', credits: 10, price: 1000, currency: 'GBP' }).success).toBe(false);
+    });
+
+    test('should allow deactivating a package on its own', () => {
+      expect(updateCreditPackageSchema.parse({ active: false })).toEqual({ active: false });
+    });
+  });
+
+  describe('Receipts', () => {
+    test('should format receipt numbers and amounts', () => {
+      expect(formatReceiptNumber(42)).toBe('R-000042');
+      expect(formatMoney(20000, 'RON')).toBe('RON 200.00');
+    });
+
+    test('should list what was bought and how it was paid', () => {
+      const receipt = renderCreditReceipt(
+        { ...purchase, method: 'cash', status: 'completed', completedAt: new Date('2025-09-01T10:00:00Z') },
+        { recipientName: 'Ana' },
+      );
+
+      expect(receipt.subject).toBe('Your receipt R-000042');
+      expect(receipt.text).toContain('Hi Ana,');
+      expect(receipt.text).toContain('Package: 10 credits');
+      expect(receipt.text).toContain('Amount paid: RON 200.00');
+      expect(receipt.text).toContain('Payment method: Cash');
+    });
+  });
+
+  describe('Online Purchase', () => {
+    let provider: FakePaymentProvider;
+    let service: PaymentService;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      provider = new FakePaymentProvider();
+      service = new PaymentService(provider);
+    });
+
+    const startCheckout = async () => {
+      const payment = await service.startCreditPurchaseCheckout(purchase, 'https://app.example.com');
+      (storage.getPaymentByReference as jest.Mock<any>).mockResolvedValue(payment);
+      return payment;
+    };
+
+    test('should open a checkout for the package price', async () => {
+      const payment = await startCheckout();
+
+      expect(payment).toMatchObject({ creditPurchaseId: 'purchase-1', amount: 20000, currency: 'RON' });
+      expect(payment).not.toHaveProperty('registrationId');
+      expect(provider.checkouts.get(payment.providerReference)).toMatchObject({
+        creditPurchaseId: 'purchase-1',
+        customerEmail: 'parent@example.com',
+        successUrl: 'https://app.example.com/?payment=success&purchase=purchase-1',
+      });
+    });
+
+    test('should send the receipt once the payment succeeds', async () => {
+      const payment = await startCheckout();
+      const completed: CreditPurchase = { ...purchase, status: 'completed', completedAt: new Date() };
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue({
+        payment: { ...payment, status: 'succeeded' },
+        registration: undefined,
+        creditPurchase: completed,
+      });
+
+      await service.handleWebhook(provider.webhookBody(payment.providerReference, 'succeeded'), {});
+
+      expect(storage.completePayment).toHaveBeenCalledWith('payment-1', 'succeeded', null);
+      expect(notificationService.creditReceipt).toHaveBeenCalledWith(completed);
+      expect(notificationService.registrationConfirmed).not.toHaveBeenCalled();
+    });
+
+    test('should leave the balance alone when the payment fails', async () => {
+      const payment = await startCheckout();
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue({
+        payment: { ...payment, status: 'failed' },
+        registration: undefined,
+        creditPurchase: { ...purchase, status: 'failed' },
+      });
+
+      await service.handleWebhook(provider.webhookBody(payment.providerReference, 'failed'), {});
+
+      expect(notificationService.creditReceipt).not.toHaveBeenCalled();
+      expect(storage.createCreditTransaction).not.toHaveBeenCalled();
+      expect(storage.updateEventSeats).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from '@jest/globals';
+import { calculateAgeOn, getEligibilityIssues, formatEligibility, eventEligibilitySchema } from '../../shared/schema';
+
+describe('Event Eligibility Rules', () => {
+  const child = {
+    dateOfBirth: '2016-06-15',
+    gender: 'female',
+    allergies: 'None',
+    dietaryRestrictions: null,
+    medicineNeeds: '',
+  };
+
+  test('should calculate age in whole years on the event date', () => {
+    expect(calculateAgeOn('2016-06-15', new Date(2025, 5, 14))).toBe(8);
+    expect(calculateAgeOn('2016-06-15', new Date(2025, 5, 15))).toBe(9);
+    expect(calculateAgeOn('2016-06-15', new Date(2025, 11, 31))).toBe(9);
+  });
+
+  test('should treat an event without rules as open to everyone', () => {
+    expect(getEligibilityIssues(child, { startTime: new Date(2025, 5, 20), eligibility: {} })).toEqual([]);
+  });
+
+  test('should check the age range against the event date', () => {
+    const eligibility = { minAge: 9, maxAge: 12 };
+
+    expect(getEligibilityIssues(child, { startTime: new Date(2025, 5, 14), eligibility })).toHaveLength(1);
+    expect(getEligibilityIssues(child, { startTime: new Date(2025, 5, 15), eligibility })).toEqual([]);
+    expect(getEligibilityIssues(child, { startTime: new Date(2029, 5, 15), eligibility })[0]).toContain('12 or younger');
+  });
+
+  test('should check gender and required profile fields', () => {
+    const issues = getEligibilityIssues(child, {
+      startTime: new Date(2025, 5, 20),
+      eligibility: { gender: 'male', requiredFields: ['allergies', 'dietaryRestrictions', 'medicineNeeds'] },
+    });
+
+    expect(issues).toHaveLength(3);
+    expect(issues[0]).toBe('Only open to boys');
+    expect(issues[1]).toContain('Dietary restrictions');
+    expect(issues[2]).toContain('Medicine needs');
+  });
+
+  test('should summarize rules for display', () => {
+    expect(formatEligibility({ minAge: 6, maxAge: 12, gender: 'female' })).toBe('Ages 6-12 · Girls only');
+    expect(formatEligibility({ minAge: 10 })).toBe('Ages 10+');
+    expect(formatEligibility({ requiredFields: ['allergies'] })).toBeNull();
+  });
+
+  test('should reject a minimum age above the maximum age', () => {
+    expect(eventEligibilitySchema.safeParse({ minAge: 12, maxAge: 6 }).success).toBe(false);
+    expect(eventEligibilitySchema.safeParse({ minAge: 6, maxAge: 12, gender: null }).success).toBe(true);
+  });
+});
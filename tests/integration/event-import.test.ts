@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import { parseCsv, parseImportFile, prepareEventImport, ImportFileError } from '../../server/eventImport';
+import type { User } from '../../shared/schema';
+
+describe('Event Import', () => {
+  const supervisors = [
+    { id: 'staff-1', email: 'Ana@Example.com', role: 'staff' },
+    { id: 'admin-1', email: 'dan@example.com', role: 'admin' },
+  ] as User[];
+
+  const header = 'name,description,startTime,endTime,location,maxSeats,creditsRequired,supervisorEmails';
+
+  describe('CSV Parsing', () => {
+    test('should handle quoted cells, doubled quotes, CRLF and a byte order mark', () => {
+      const rows = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nagain"\r\n\r\n');
+      expect(rows).toEqual([['a', 'b'], ['x, y', 'say "hi"\nagain']]);
+    });
+
+    test('should reject an unterminated quoted cell', () => {
+      expect(() => parseCsv('a,"b\n')).toThrow(ImportFileError);
+    });
+
+    test('should map CSV rows to objects by header', () => {
+      const records = parseImportFile('csv', `${header}\nArt Club,Painting,2025-09-01T15:00,2025-09-01T16:30,Room 2,8,1,ana@example.com`);
+      expect(records).toEqual([{
+        name: 'Art Club',
+        description: 'Painting',
+        startTime: '2025-09-01T15:00',
+        endTime: '2025-09-01T16:30',
+        location: 'Room 2',
+        maxSeats: '8',
+        creditsRequired: '1',
+        supervisorEmails: 'ana@example.com',
+      }]);
+    });
+
+    test('should reject empty files and JSON that is not an array of objects', () => {
+      expect(() => parseImportFile('csv', `${header}\n`)).toThrow('The file does not contain any events');
+      expect(() => parseImportFile('json', '{"name":"Art Club"}')).toThrow(ImportFileError);
+      expect(() => parseImportFile('json', 'not json')).toThrow('The JSON file could not be parsed');
+    });
+  });
+
+  describe('Row Validation', () => {
+    test('should convert a valid row and resolve supervisor emails case-insensitively', () => {
+      const records = parseImportFile('csv', `${header}\nArt Club,Painting,2025-09-01T15:00,2025-09-01T16:30,Room 2,8,1,ANA@example.com; dan@example.com`);
+      const { rows, events } = prepareEventImport(records, supervisors);
+
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[0].supervisorEmails).toEqual(['ana@example.com', 'dan@example.com']);
+      expect(events).toHaveLength(1);
+      expect(events[0].staffIds).toEqual(['staff-1', 'admin-1']);
+      expect(events[0].event).toMatchObject({
+        name: 'Art Club',
+        maxSeats: 8,
+        remainingSeats: 8,
+        creditsRequired: 1,
+        staffId: 'staff-1',
+      });
+      expect(events[0].event.startTime).toEqual(new Date('2025-09-01T15:00'));
+    });
+
+    test('should report row-level errors and keep only the valid rows', () => {
+      const records = parseImportFile('json', JSON.stringify([
+        { name: 'Art Club', description: 'Painting', startTime: '2025-09-01T15:00', endTime: '2025-09-01T16:30', location: 'Room 2', creditsRequired: 1, supervisorEmails: ['dan@example.com'] },
+        { name: 'Chess', description: 'Openings', startTime: '2025-09-02T16:00', endTime: '2025-09-02T15:00', location: 'Library', creditsRequired: 1, supervisorEmails: 'dan@example.com' },
+        { name: 'Robotics', description: 'Lego', startTime: 'next tuesday', endTime: '2025-09-03T17:00', location: 'Lab', creditsRequired: 1, supervisorEmails: 'nobody@example.com' },
+        { name: 'Drama', description: 'Improv', startTime: '2025-09-04T15:00', endTime: '2025-09-04T16:00', location: 'Hall', creditsRequired: 1, status: 'past' },
+      ]));
+      const { rows, events } = prepareEventImport(records, supervisors);
+
+      expect(events.map(event => event.row)).toEqual([1]);
+      expect(rows[1].errors).toEqual(['endTime: the event must end after it starts']);
+      expect(rows[2].errors).toEqual([
+        'supervisorEmails: nobody@example.com is not a staff or admin account',
+        'startTime: Invalid date',
+      ]);
+      expect(rows[2].startTime).toBeNull();
+      expect(rows[3].errors).toEqual([
+        'Unknown column "status"',
+        'supervisorEmails: at least one supervisor is required',
+      ]);
+    });
+
+    test('should report a non-numeric number column', () => {
+      const records = parseImportFile('csv', `${header}\nArt Club,Painting,2025-09-01T15:00,2025-09-01T16:30,Room 2,eight,1,dan@example.com`);
+      const { rows, events } = prepareEventImport(records, supervisors);
+
+      expect(events).toHaveLength(0);
+      expect(rows[0].errors.some(error => error.startsWith('maxSeats:'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import { templateFromEvent, insertEventTemplateSchema, type Event } from '../../shared/schema';
+
+describe('Event Templates', () => {
+  const event = {
+    id: 'event-1',
+    name: 'Art Club',
+    type: 'afterschool',
+    description: 'Painting and drawing',
+    location: 'Room 2',
+    startTime: new Date(2025, 8, 1, 15, 0),
+    endTime: new Date(2025, 8, 1, 16, 30),
+    maxSeats: 8,
+    remainingSeats: 2,
+    creditsRequired: 1,
+    cutoffHours: 12,
+    refundWindowHours: 24,
+    image: null,
+    extraServices: [{ id: 'lunch', description: 'Lunch', price: 10 }],
+    servicesCurrency: 'RON',
+    allowedRegistrants: 'attendee',
+    eligibility: { minAge: 6, maxAge: 10 },
+    status: 'open',
+    deleted: false,
+    seriesId: 'series-1',
+  } as Event;
+
+  test('should copy the reusable settings and the length of an event', () => {
+    const template = templateFromEvent(event, ['staff-1', 'staff-2'], 'Weekly art');
+
+    expect(template).toEqual({
+      name: 'Weekly art',
+      eventName: 'Art Club',
+      type: 'afterschool',
+      description: 'Painting and drawing',
+      location: 'Room 2',
+      durationMinutes: 90,
+      maxSeats: 8,
+      creditsRequired: 1,
+      cutoffHours: 12,
+      refundWindowHours: 24,
+      image: null,
+      extraServices: [{ id: 'lunch', description: 'Lunch', price: 10 }],
+      servicesCurrency: 'RON',
+      allowedRegistrants: 'attendee',
+      eligibility: { minAge: 6, maxAge: 10 },
+      supervisorIds: ['staff-1', 'staff-2'],
+    });
+  });
+
+  test('should produce a template that passes validation', () => {
+    expect(insertEventTemplateSchema.safeParse(templateFromEvent(event, [], 'Weekly art')).success).toBe(true);
+  });
+
+  test('should require a name and a positive length', () => {
+    const template = templateFromEvent(event, [], 'Weekly art');
+
+    expect(insertEventTemplateSchema.safeParse({ ...template, name: '  ' }).success).toBe(false);
+    expect(insertEventTemplateSchema.safeParse({ ...template, durationMinutes: 0 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculateServicesCost,
+  extraServicesSchema,
+  getServiceAvailability,
+  getServiceSelectionIssues,
+  reconcileServiceSelection,
+  type Event,
+} from '../../shared/schema';
+
+describe('Extra Services', () => {
+  const event = {
+    id: 'event-1',
+    extraServices: [
+      { id: 'lunch', description: 'Lunch', price: 10, capacity: 2 },
+      { id: 'insurance', description: 'Insurance', price: 2.5, required: true },
+      { id: 'bus', description: 'Bus pickup', price: 5 },
+    ],
+  } as Event;
+
+  test('should price the selected services by id, in cents', () => {
+    expect(calculateServicesCost(event, ['insurance', 'lunch'])).toBe(1250);
+    // Reordering the event's services doesn't change what was selected
+    const reordered = { ...event, extraServices: [...event.extraServices].reverse() };
+    expect(calculateServicesCost(reordered, ['insurance', 'lunch'])).toBe(1250);
+  });
+
+  test('should report missing required services and services that no longer exist', () => {
+    expect(getServiceSelectionIssues(event, ['insurance', 'bus'])).toEqual([]);
+    expect(getServiceSelectionIssues(event, ['lunch'])).toEqual(['Insurance is required for this event']);
+    expect(getServiceSelectionIssues(event, ['insurance', 'snacks'])).toEqual(['One of the selected services is no longer offered']);
+  });
+
+  test('should bring an old selection in line with the current services', () => {
+    expect(reconcileServiceSelection(event, ['bus', 'snacks'])).toEqual(['insurance', 'bus']);
+  });
+
+  test('should combine booking counts with capacity', () => {
+    expect(getServiceAvailability(event, { lunch: 3, bus: 1 })).toEqual([
+      { id: 'lunch', description: 'Lunch', price: 10, capacity: 2, taken: 3, remaining: 0 },
+      { id: 'insurance', description: 'Insurance', price: 2.5, required: true, taken: 0, remaining: null },
+      { id: 'bus', description: 'Bus pickup', price: 5, taken: 1, remaining: null },
+    ]);
+  });
+
+  test('should give new services an id and keep existing ones', () => {
+    const services = extraServicesSchema.parse([
+      { id: 'lunch', description: 'Lunch', price: 10 },
+      { description: 'Bus pickup', price: 5 },
+    ]);
+
+    expect(services[0].id).toBe('lunch');
+    expect(services[1].id).toEqual(expect.any(String));
+    expect(services[1].id).not.toBe('lunch');
+  });
+
+  test('should reject duplicate ids and invalid capacities', () => {
+    expect(extraServicesSchema.safeParse([
+      { id: 'lunch', description: 'Lunch', price: 10 },
+      { id: 'lunch', description: 'Dinner', price: 12 },
+    ]).success).toBe(false);
+    expect(extraServicesSchema.safeParse([{ description: 'Lunch', price: 10, capacity: 0 }]).success).toBe(false);
+  });
+});
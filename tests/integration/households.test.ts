@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createTestApp, TEST_PASSWORD, type TestApp } from '../utils/test-app';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+describe('Household Routes', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // Invitation emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const childData = { firstName: 'Ioana', lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' };
+
+  // A parent with their own account, signed in
+  const signUpParent = async (name: string) => {
+    const email = testApp.email(name);
+    const signup = await request(testApp.app)
+      .post('/api/auth/signup')
+      .send({ email, password: TEST_PASSWORD, firstName: name, lastName: 'Test', phone: '0712345678' });
+    expect(signup.status).toBe(201);
+    return { id: signup.body.user.id as string, email, agent: await testApp.loginAs(email, TEST_PASSWORD) };
+  };
+
+  // The invited parent receives the token by email; read it from storage instead
+  const invite = async (inviter: Awaited<ReturnType<typeof signUpParent>>, email: string, permission: 'full' | 'view') => {
+    const response = await inviter.agent.post('/api/household/invitations').send({ email, permission });
+    expect(response.status).toBe(201);
+    expect(response.body).not.toHaveProperty('token');
+    return (await testApp.storage.getHouseholdInvitation(response.body.id))!.token;
+  };
+
+  test('should share children with a co-parent who accepts an invitation', async () => {
+    const mother = await signUpParent('mother');
+    const father = await signUpParent('father');
+    const child = (await mother.agent.post('/api/children').send(childData)).body;
+
+    const token = await invite(mother, father.email.toUpperCase(), 'full');
+    const details = await request(testApp.app).get(`/api/household/invitations/${token}`);
+    expect(details.body).toMatchObject({ email: father.email, permission: 'full', status: 'pending', inviterName: 'mother Test', expired: false });
+
+    expect((await father.agent.get('/api/children')).body).toEqual([]);
+    expect((await father.agent.post(`/api/household/invitations/${token}/accept`)).status).toBe(200);
+    expect((await father.agent.post(`/api/household/invitations/${token}/accept`)).status).toBe(400);
+
+    expect((await father.agent.get('/api/children')).body).toEqual([expect.objectContaining({ id: child.id, access: 'full' })]);
+    const updated = await father.agent.put(`/api/children/${child.id}`).send({ allergies: 'Peanuts' });
+    expect(updated.status).toBe(200);
+
+    // A registration made by one guardian shows up for the other, who can also cancel it
+    const event = await testApp.createEvent();
+    const registration = (await father.agent.post(`/api/events/${event.id}/register`).send({ childId: child.id })).body;
+    expect((await mother.agent.get('/api/my-events')).body).toEqual([
+      expect.objectContaining({ id: registration.id, access: 'full' }),
+    ]);
+    expect((await mother.agent.post(`/api/registrations/${registration.id}/cancel`)).status).toBe(200);
+
+    const household = (await mother.agent.get('/api/household')).body;
+    expect(household.members.map((member: { userId: string }) => member.userId)).toEqual([mother.id, father.id]);
+    expect(household.invitations).toEqual([]);
+  });
+
+  test('should let view-only guardians see children but not change or register them', async () => {
+    const parent = await signUpParent('parent');
+    const grandparent = await signUpParent('grandparent');
+    const child = (await parent.agent.post('/api/children').send(childData)).body;
+    const token = await invite(parent, grandparent.email, 'view');
+    await grandparent.agent.post(`/api/household/invitations/${token}/accept`);
+
+    expect((await grandparent.agent.get('/api/children')).body).toEqual([expect.objectContaining({ id: child.id, access: 'view' })]);
+    expect((await grandparent.agent.get(`/api/children/${child.id}/pickups`)).status).toBe(200);
+
+    const edit = await grandparent.agent.put(`/api/children/${child.id}`).send({ firstName: 'Changed' });
+    expect(edit.status).toBe(403);
+    expect(edit.body.message).toBe('You have view-only access to this child');
+    expect((await grandparent.agent.delete(`/api/children/${child.id}`)).status).toBe(403);
+
+    const event = await testApp.createEvent();
+    expect((await grandparent.agent.post(`/api/events/${event.id}/register`).send({ childId: child.id })).status).toBe(403);
+    expect((await grandparent.agent.post('/api/household/invitations').send({ email: testApp.email('aunt') })).status).toBe(403);
+
+    // Upgrading the grandparent to a full guardian lets them register the child
+    const upgraded = await parent.agent.patch(`/api/household/members/${grandparent.id}`).send({ permission: 'full' });
+    expect(upgraded.body.permission).toBe('full');
+    expect((await grandparent.agent.post(`/api/events/${event.id}/register`).send({ childId: child.id })).status).toBe(201);
+  });
+
+  test('should let full guardians take a household child off the waitlist', async () => {
+    const parent = await signUpParent('waiting-parent');
+    const partner = await signUpParent('waiting-partner');
+    const grandparent = await signUpParent('waiting-grandparent');
+    const child = (await parent.agent.post('/api/children').send(childData)).body;
+    await partner.agent.post(`/api/household/invitations/${await invite(parent, partner.email, 'full')}/accept`);
+    await grandparent.agent.post(`/api/household/invitations/${await invite(parent, grandparent.email, 'view')}/accept`);
+
+    const event = await testApp.createEvent({ remainingSeats: 0 });
+    const entry = (await parent.agent.post(`/api/events/${event.id}/waitlist`).send({ childId: child.id })).body;
+
+    // View-only guardians and strangers don't see the entry at all
+    const stranger = await testApp.login('user');
+    expect((await grandparent.agent.delete(`/api/waitlist/${entry.id}`)).status).toBe(404);
+    expect((await stranger.delete(`/api/waitlist/${entry.id}`)).status).toBe(404);
+
+    expect((await partner.agent.delete(`/api/waitlist/${entry.id}`)).status).toBe(200);
+    expect((await testApp.storage.getWaitlistEntry(entry.id))?.status).toBe('left');
+  });
+
+  test('should only let the invited address accept', async () => {
+    const parent = await signUpParent('inviter');
+    const token = await invite(parent, testApp.email('invitee'), 'full');
+
+    const stranger = await testApp.login('user');
+    const response = await stranger.post(`/api/household/invitations/${token}/accept`);
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe('This invitation was sent to a different email address');
+
+    expect((await request(testApp.app).post(`/api/household/invitations/${token}/accept`)).status).toBe(401);
+    expect((await request(testApp.app).get('/api/household/invitations/not-a-token')).status).toBe(404);
+  });
+
+  test('should refuse revoked invitations and duplicate invitations', async () => {
+    const parent = await signUpParent('reviser');
+    const invitee = await signUpParent('revoked');
+    const token = await invite(parent, invitee.email, 'full');
+
+    const duplicate = await parent.agent.post('/api/household/invitations').send({ email: invitee.email });
+    expect(duplicate.status).toBe(400);
+    expect((await parent.agent.post('/api/household/invitations').send({ email: parent.email })).status).toBe(400);
+
+    const [pending] = (await parent.agent.get('/api/household')).body.invitations;
+    expect((await parent.agent.delete(`/api/household/invitations/${pending.id}`)).status).toBe(204);
+
+    expect((await request(testApp.app).get(`/api/household/invitations/${token}`)).body.status).toBe('revoked');
+    expect((await invitee.agent.post(`/api/household/invitations/${token}/accept`)).status).toBe(400);
+    expect((await parent.agent.get('/api/household')).body.invitations).toEqual([]);
+  });
+
+  test('should stop sharing once a guardian leaves', async () => {
+    const parent = await signUpParent('stayer');
+    const partner = await signUpParent('leaver');
+    const child = (await parent.agent.post('/api/children').send(childData)).body;
+    const token = await invite(parent, partner.email, 'view');
+    await partner.agent.post(`/api/household/invitations/${token}/accept`);
+
+    // The only full guardian can't leave the others without someone to manage the children
+    const stranded = await parent.agent.delete(`/api/household/members/${parent.id}`);
+    expect(stranded.status).toBe(400);
+
+    expect((await partner.agent.delete(`/api/household/members/${parent.id}`)).status).toBe(403);
+    expect((await partner.agent.delete(`/api/household/members/${partner.id}`)).status).toBe(204);
+
+    expect((await partner.agent.get('/api/children')).body).toEqual([]);
+    expect((await partner.agent.get(`/api/children/${child.id}/pickups`)).status).toBe(404);
+    expect((await parent.agent.get('/api/household')).body.members).toHaveLength(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderNotification, describeEventChanges } from '../../server/notificationTemplates';
+import { createEmailTransport, ConsoleTransport, FileTransport, LazyTransport, SmtpTransport } from '../../server/email';
+import type { Event } from '../../shared/schema';
+
+describe('Email Notifications', () => {
+  const event = {
+    id: 'event-1',
+    name: 'Art Club',
+    startTime: new Date(2025, 8, 1, 15, 0),
+    endTime: new Date(2025, 8, 1, 17, 0),
+    location: 'Room 2',
+    updatedAt: new Date(2025, 7, 20),
+  } as Event;
+
+  describe('Templates', () => {
+    test('should confirm a registration for each named child', () => {
+      const message = renderNotification('registration_confirmation', {
+        recipientName: 'Ioana',
+        attendeeNames: ['Maria Pop', 'Luca Pop'],
+        event,
+      });
+
+      expect(message.subject).toBe('Registration confirmed: Art Club');
+      expect(message.text).toContain('Hi Ioana,');
+      expect(message.text).toContain('Maria Pop and Luca Pop are registered for Art Club.');
+      expect(message.text).toContain('When: Monday, September 1, 3:00 PM – 5:00 PM');
+      expect(message.text).toContain('Where: Room 2');
+      expect(message.text).toContain('Duration: 2h');
+    });
+
+    test('should address the parent when they registered themselves', () => {
+      const message = renderNotification('event_reminder', { recipientName: null, attendeeNames: [], event });
+
+      expect(message.text).toContain('Hi,');
+      expect(message.text).toContain('you are registered for Art Club');
+    });
+
+    test('should list what changed about an event', () => {
+      const changes = describeEventChanges(event, { ...event, location: 'Gym' });
+      const message = renderNotification('event_changed', { recipientName: 'Ioana', attendeeNames: ['Maria Pop'], event, changes });
+
+      expect(changes).toEqual([{ label: 'Location', before: 'Room 2', after: 'Gym' }]);
+      expect(message.text).toContain('Location: Room 2 → Gym');
+    });
+
+    test('should report a changed end time as a time change', () => {
+      const changes = describeEventChanges(event, { ...event, endTime: new Date(2025, 8, 1, 18, 0) });
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].label).toBe('Time');
+      expect(changes[0].after).toContain('6:00 PM');
+    });
+
+    test('should ignore edits parents do not need to hear about', () => {
+      expect(describeEventChanges(event, { ...event, maxSeats: 20 } as Event)).toEqual([]);
+    });
+
+    test('should escape HTML in event details', () => {
+      const message = renderNotification('event_cancelled', {
+        recipientName: 'Ioana',
+        attendeeNames: ['Maria Pop'],
+        event: { ...event, name: 'Arts & <Crafts>' },
+      });
+
+      expect(message.html).toContain('Arts &amp; &lt;Crafts&gt;');
+      expect(message.html).not.toContain('<Crafts>');
+    });
+  });
+
+  describe('Transports', () => {
+    test('should pick the transport from the environment', () => {
+      expect(createEmailTransport({})).toBeInstanceOf(ConsoleTransport);
+      expect(createEmailTransport({ SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpTransport);
+      expect(createEmailTransport({ EMAIL_TRANSPORT: 'file' })).toBeInstanceOf(FileTransport);
+      expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'smtp' })).toThrow();
+      expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'pigeon' })).toThrow();
+    });
+
+    test('should not fall back to the console in production', () => {
+      expect(() => createEmailTransport({ NODE_ENV: 'production' })).toThrow('No email transport configured');
+      expect(createEmailTransport({ NODE_ENV: 'production', SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpTransport);
+      expect(createEmailTransport({ NODE_ENV: 'production', EMAIL_TRANSPORT: 'console' })).toBeInstanceOf(ConsoleTransport);
+    });
+
+    test('should only need the transport configured once a message is sent', async () => {
+      const transport = new LazyTransport(() => createEmailTransport({ NODE_ENV: 'production' }));
+      const message = { to: 'parent@example.com', subject: 'Hello', text: 'Body', html: '<p>Body</p>' };
+
+      await expect(transport.send(message)).rejects.toThrow('No email transport configured');
+    });
+
+    test('should write messages to the outbox directory', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+      try {
+        await new FileTransport(directory).send({ to: 'parent@example.com', subject: 'Hello', text: 'Body', html: '<p>Body</p>' });
+
+        const files = await fs.readdir(directory);
+        expect(files).toHaveLength(1);
+        const content = await fs.readFile(path.join(directory, files[0]), 'utf8');
+        expect(content).toContain('To: parent@example.com');
+        expect(content).toContain('Body');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
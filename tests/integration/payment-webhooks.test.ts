@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createTestApp, type TestApp } from '../utils/test-app';
+import { FakePaymentProvider, type Checkout } from '../../server/paymentProviders';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+// Without payment settings the routes use the fake provider, which is paid by posting its webhook body
+describe('Payment Webhook Route', () => {
+  let testApp: TestApp;
+  let parent: Awaited<ReturnType<TestApp['login']>>;
+  let childId: string;
+  const createCheckout = jest.spyOn(FakePaymentProvider.prototype, 'createCheckout');
+
+  beforeAll(async () => {
+    // Receipt emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+    parent = await testApp.login('user');
+    childId = (await parent.post('/api/children').send({ firstName: 'Ioana', lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' })).body.id;
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  // Reference of the checkout the last request opened
+  const lastCheckoutReference = async () => ((await createCheckout.mock.results.at(-1)!.value) as Checkout).reference;
+
+  // Sent as raw JSON, the way the provider posts it, so the route has to read the exact body
+  const postWebhook = (reference: string, status: 'succeeded' | 'failed') =>
+    request(testApp.app)
+      .post('/api/payments/webhook')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify({ reference, status }));
+
+  const registerWithLunch = async (hours: number) => {
+    const event = await testApp.createEvent({
+      startTime: hoursFromNow(hours),
+      endTime: hoursFromNow(hours + 1),
+      extraServices: [{ id: 'lunch', description: 'Lunch', price: 15 }],
+    });
+    const response = await parent.post(`/api/events/${event.id}/register`).send({ childId, selectedServices: ['lunch'] });
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ status: 'pending_payment', servicesCost: 1500 });
+    return { event, registration: response.body };
+  };
+
+  test('should confirm a registration once its services are paid', async () => {
+    const { registration } = await registerWithLunch(150);
+    const reference = await lastCheckoutReference();
+
+    const response = await postWebhook(reference, 'succeeded');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true });
+    expect((await testApp.storage.getEventRegistration(registration.id))?.status).toBe('confirmed');
+    expect(await testApp.storage.getSucceededPayment(registration.id)).toMatchObject({ providerReference: reference, amount: 1500 });
+
+    // Providers retry webhooks; a repeat changes nothing
+    expect((await postWebhook(reference, 'failed')).status).toBe(200);
+    expect((await testApp.storage.getEventRegistration(registration.id))?.status).toBe('confirmed');
+  });
+
+  test('should release the seat of a registration whose payment failed', async () => {
+    const { event, registration } = await registerWithLunch(160);
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(2);
+
+    expect((await postWebhook(await lastCheckoutReference(), 'failed')).status).toBe(200);
+    expect((await testApp.storage.getEventRegistration(registration.id))?.status).toBe('cancelled');
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(3);
+  });
+
+  test('should add purchased credits to the balance once paid', async () => {
+    const creditPackage = await testApp.storage.createCreditPackage({ name: 'Ten pack', credits: 10, price: 5000 });
+    const purchase = await parent.post('/api/credits/purchase').send({ packageId: creditPackage.id });
+    expect(purchase.status).toBe(201);
+    const before = (await parent.get('/api/credits')).body.balance;
+
+    const reference = await lastCheckoutReference();
+    expect((await postWebhook(reference, 'succeeded')).status).toBe(200);
+    expect((await parent.get('/api/credits')).body.balance).toBe(before + 10);
+    expect((await parent.get('/api/credits/purchases')).body).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: purchase.body.purchase.id, status: 'completed', credits: 10 }),
+    ]));
+
+    expect((await postWebhook(reference, 'succeeded')).status).toBe(200);
+    expect((await parent.get('/api/credits')).body.balance).toBe(before + 10);
+  });
+
+  test('should refuse a webhook body the provider could not have sent', async () => {
+    const response = await request(testApp.app)
+      .post('/api/payments/webhook')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify({ reference: 'fake_anything' }));
+    expect(response.status).toBe(400);
+
+    // Unknown checkouts are acknowledged so the provider stops retrying
+    expect((await postWebhook('fake_unknown', 'succeeded')).status).toBe(200);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { createHmac } from 'crypto';
+
+jest.mock('../../server/storage', () => ({
+  storage: {
+    getPendingPayment: jest.fn(async () => undefined),
+    createPayment: jest.fn(async (payment: object) => ({ id: 'payment-1', status: 'pending', ...payment })),
+    getPaymentByReference: jest.fn(),
+    completePayment: jest.fn(),
+    getSucceededPayment: jest.fn(async () => undefined),
+    recordPaymentRefund: jest.fn(async (id: string, status: string) => ({ id, status })),
+    getUser: jest.fn(async () => ({ id: 'parent-1', email: 'parent@example.com', role: 'user' })),
+    getUserByReplitId: jest.fn(async () => undefined),
+    getRolePermissions: jest.fn(async () => []),
+    getEvent: jest.fn(),
+    updateEventSeats: jest.fn(async () => undefined),
+    createCreditTransaction: jest.fn(async (transaction: unknown) => transaction),
+  },
+}));
+jest.mock('../../server/notifications', () => ({
+  notificationService: { registrationConfirmed: jest.fn() },
+}));
+jest.mock('../../server/waitlist', () => ({
+  promoteWaitlist: jest.fn(async () => []),
+}));
+
+import { PaymentService } from '../../server/payments';
+import {
+  createPaymentProvider,
+  FakePaymentProvider,
+  LazyPaymentProvider,
+  PaymentWebhookError,
+  StripePaymentProvider,
+} from '../../server/paymentProviders';
+import { storage } from '../../server/storage';
+import { notificationService } from '../../server/notifications';
+import { promoteWaitlist } from '../../server/waitlist';
+import { calculateRegistrationRefund, type Event, type EventRegistration } from '../../shared/schema';
+
+describe('Payments', () => {
+  const event = {
+    id: 'event-1',
+    name: 'Art Club',
+    startTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    cutoffHours: 12,
+    refundWindowHours: null,
+    servicesCurrency: 'RON',
+  } as Event;
+
+  const registration = {
+    id: 'registration-1',
+    eventId: 'event-1',
+    childId: 'child-1',
+    parentId: 'parent-1',
+    creditsCost: 2,
+    servicesCost: 1500,
+    status: 'pending_payment',
+  } as EventRegistration;
+
+  describe('Stripe Provider', () => {
+    const provider = new StripePaymentProvider({ secretKey: 'sk_test', webhookSecret: 'whsec_test' });
+    const now = new Date('2025-09-01T12:00:00Z');
+    const timestamp = Math.floor(now.getTime() / 1000);
+
+    const signedHeaders = (body: string, secret = 'whsec_test', signedAt = timestamp) => ({
+      'stripe-signature': `t=${signedAt},v1=${createHmac('sha256', secret).update(`${signedAt}.${body}`).digest('hex')}`,
+    });
+
+    const webhook = (type: string, session: object) => JSON.stringify({ type, data: { object: session } });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should turn signed checkout webhooks into payment outcomes', () => {
+      const paid = webhook('checkout.session.completed', { id: 'cs_1', payment_status: 'paid' });
+      expect(provider.parseWebhook(Buffer.from(paid), signedHeaders(paid), now)).toEqual({ reference: 'cs_1', status: 'succeeded' });
+
+      const expired = webhook('checkout.session.expired', { id: 'cs_2' });
+      expect(provider.parseWebhook(Buffer.from(expired), signedHeaders(expired), now)).toMatchObject({ reference: 'cs_2', status: 'failed' });
+
+      // Delayed payment methods complete unpaid and settle later
+      const unpaid = webhook('checkout.session.completed', { id: 'cs_3', payment_status: 'unpaid' });
+      expect(provider.parseWebhook(Buffer.from(unpaid), signedHeaders(unpaid), now)).toBeNull();
+    });
+
+    test('should reject missing, wrong and stale signatures', () => {
+      const body = webhook('checkout.session.completed', { id: 'cs_1', payment_status: 'paid' });
+
+      expect(() => provider.parseWebhook(Buffer.from(body), {}, now)).toThrow(PaymentWebhookError);
+      expect(() => provider.parseWebhook(Buffer.from(body), signedHeaders(body, 'whsec_other'), now)).toThrow('does not match');
+      expect(() => provider.parseWebhook(Buffer.from(body), signedHeaders(body, 'whsec_test', timestamp - 600), now)).toThrow('expired');
+      // A body changed after signing no longer matches
+      expect(() => provider.parseWebhook(Buffer.from(body.replace('cs_1', 'cs_9')), signedHeaders(body), now)).toThrow(PaymentWebhookError);
+    });
+
+    test('should create a checkout session for the services cost', async () => {
+      const fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ id: 'cs_1', url: 'https://checkout.stripe.com/c/cs_1' }), { status: 200 })
+      );
+
+      const checkout = await provider.createCheckout({
+        registrationId: 'registration-1',
+        amount: 1500,
+        currency: 'RON',
+        description: 'Extra services for Art Club',
+        customerEmail: 'parent@example.com',
+        successUrl: 'https://app.example.com/?payment=success',
+        cancelUrl: 'https://app.example.com/?payment=cancelled',
+      });
+
+      expect(checkout).toEqual({ reference: 'cs_1', url: 'https://checkout.stripe.com/c/cs_1' });
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://api.stripe.com/v1/checkout/sessions');
+      const form = new URLSearchParams(init.body as string);
+      expect(form.get('line_items[0][price_data][unit_amount]')).toBe('1500');
+      expect(form.get('line_items[0][price_data][currency]')).toBe('ron');
+      expect(form.get('client_reference_id')).toBe('registration-1');
+      expect(form.get('customer_email')).toBe('parent@example.com');
+    });
+
+    test("should refund against the checkout's payment intent", async () => {
+      const fetchMock = jest.spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'cs_1', payment_intent: 'pi_1' }), { status: 200 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ id: 're_1' }), { status: 200 }));
+
+      await provider.refund('cs_1', 1500);
+
+      const [refundUrl, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.stripe.com/v1/checkout/sessions/cs_1');
+      expect(refundUrl).toBe('https://api.stripe.com/v1/refunds');
+      expect(Object.fromEntries(new URLSearchParams(init.body as string))).toEqual({ payment_intent: 'pi_1', amount: '1500' });
+      expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe('refund-cs_1');
+    });
+
+    test('should fail a refund for a checkout that was never paid', async () => {
+      jest.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(JSON.stringify({ id: 'cs_1', payment_intent: null }), { status: 200 }));
+      await expect(provider.refund('cs_1', 1500)).rejects.toThrow('has no payment');
+    });
+  });
+
+  describe('Provider Selection', () => {
+    test('should pick the provider from the environment', () => {
+      expect(createPaymentProvider({})).toBeInstanceOf(FakePaymentProvider);
+      expect(createPaymentProvider({ STRIPE_SECRET_KEY: 'sk', STRIPE_WEBHOOK_SECRET: 'whsec' })).toBeInstanceOf(StripePaymentProvider);
+      expect(() => createPaymentProvider({ STRIPE_SECRET_KEY: 'sk' })).toThrow();
+      expect(() => createPaymentProvider({ PAYMENT_PROVIDER: 'cash' })).toThrow();
+    });
+
+    test('should not fall back to the fake provider in production', () => {
+      expect(() => createPaymentProvider({ NODE_ENV: 'production' })).toThrow('No payment provider configured');
+      expect(createPaymentProvider({ NODE_ENV: 'production', PAYMENT_PROVIDER: 'fake' })).toBeInstanceOf(FakePaymentProvider);
+      expect(createPaymentProvider({ NODE_ENV: 'production', STRIPE_SECRET_KEY: 'sk', STRIPE_WEBHOOK_SECRET: 'whsec' })).toBeInstanceOf(StripePaymentProvider);
+    });
+
+    test('should only need the provider configured once a payment is taken', async () => {
+      const create = jest.fn(() => createPaymentProvider({ NODE_ENV: 'production' }));
+      const provider = new LazyPaymentProvider(create);
+      expect(create).not.toHaveBeenCalled();
+
+      await expect(provider.createCheckout({ registrationId: 'registration-1', amount: 1500, currency: 'ron', description: 'Lunch', successUrl: '/', cancelUrl: '/' })).rejects.toThrow('No payment provider configured');
+    });
+  });
+
+  describe('Payment Service', () => {
+    let provider: FakePaymentProvider;
+    let service: PaymentService;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      provider = new FakePaymentProvider();
+      service = new PaymentService(provider);
+      (storage.getEvent as jest.Mock<any>).mockResolvedValue(event);
+    });
+
+    const startCheckout = async () => {
+      const payment = await service.startCheckout(registration, event, 'https://app.example.com');
+      (storage.getPaymentByReference as jest.Mock<any>).mockResolvedValue(payment);
+      return payment;
+    };
+
+    test('should open a checkout for the services cost', async () => {
+      const payment = await startCheckout();
+
+      expect(payment).toMatchObject({ registrationId: 'registration-1', provider: 'fake', amount: 1500, currency: 'RON' });
+      expect(provider.checkouts.get(payment.providerReference)).toMatchObject({
+        amount: 1500,
+        customerEmail: 'parent@example.com',
+        successUrl: 'https://app.example.com/?payment=success&registration=registration-1',
+      });
+    });
+
+    test('should reuse an unfinished checkout', async () => {
+      (storage.getPendingPayment as jest.Mock<any>).mockResolvedValueOnce({ id: 'payment-0', checkoutUrl: 'https://pay.example.com/0' });
+
+      const payment = await service.startCheckout(registration, event, 'https://app.example.com');
+
+      expect(payment.id).toBe('payment-0');
+      expect(provider.checkouts.size).toBe(0);
+    });
+
+    test('should confirm the registration when the payment succeeds', async () => {
+      const payment = await startCheckout();
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue({
+        payment: { ...payment, status: 'succeeded' },
+        registration: { ...registration, status: 'confirmed' },
+      });
+
+      await service.handleWebhook(provider.webhookBody(payment.providerReference, 'succeeded'), {});
+
+      expect(storage.completePayment).toHaveBeenCalledWith('payment-1', 'succeeded', null);
+      expect(notificationService.registrationConfirmed).toHaveBeenCalledWith(expect.objectContaining({ status: 'confirmed' }));
+      expect(storage.updateEventSeats).not.toHaveBeenCalled();
+    });
+
+    test('should release the seat and credits when the payment fails', async () => {
+      const payment = await startCheckout();
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue({
+        payment: { ...payment, status: 'failed' },
+        registration: { ...registration, status: 'cancelled' },
+      });
+
+      await service.handleWebhook(provider.webhookBody(payment.providerReference, 'failed', 'Card declined'), {});
+
+      expect(storage.completePayment).toHaveBeenCalledWith('payment-1', 'failed', 'Card declined');
+      expect(storage.updateEventSeats).toHaveBeenCalledWith('event-1', 1);
+      expect(storage.createCreditTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'parent-1',
+        amount: 2,
+        type: 'refund',
+        registrationId: 'registration-1',
+      }));
+      expect(promoteWaitlist).toHaveBeenCalledWith('event-1');
+      expect(notificationService.registrationConfirmed).not.toHaveBeenCalled();
+    });
+
+    test('should refund a payment that succeeds after its registration was cancelled', async () => {
+      const payment = await startCheckout();
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue({ payment: { ...payment, status: 'succeeded' }, registration: undefined });
+
+      await service.handleWebhook(provider.webhookBody(payment.providerReference, 'succeeded'), {});
+
+      expect(provider.refunds).toEqual([{ reference: payment.providerReference, amount: 1500 }]);
+      expect(storage.recordPaymentRefund).toHaveBeenCalledWith('payment-1', 'refunded');
+      expect(notificationService.registrationConfirmed).not.toHaveBeenCalled();
+    });
+
+    test('should refund services paid online and flag refunds the provider refuses', async () => {
+      const payment = await startCheckout();
+      (storage.getSucceededPayment as jest.Mock<any>).mockResolvedValue({ ...payment, status: 'succeeded' });
+      expect(await service.refundRegistrationServices('registration-1', 1500)).toBe(1500);
+      expect(storage.recordPaymentRefund).toHaveBeenLastCalledWith('payment-1', 'refunded');
+
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (storage.getSucceededPayment as jest.Mock<any>).mockResolvedValue({ ...payment, providerReference: 'fake_unknown', status: 'succeeded' });
+      expect(await service.refundRegistrationServices('registration-1', 1500)).toBe(0);
+      expect(storage.recordPaymentRefund).toHaveBeenLastCalledWith('payment-1', 'refund_required');
+
+      // Nothing to refund when the services were never paid online
+      (storage.getSucceededPayment as jest.Mock<any>).mockResolvedValue(undefined);
+      expect(await service.refundRegistrationServices('registration-1', 1500)).toBe(0);
+    });
+
+    test('should ignore a webhook for a payment that was already settled', async () => {
+      const payment = await startCheckout();
+      (storage.completePayment as jest.Mock<any>).mockResolvedValue(undefined);
+
+      expect(await service.handleWebhook(provider.webhookBody(payment.providerReference, 'failed'), {})).toBeUndefined();
+      expect(storage.updateEventSeats).not.toHaveBeenCalled();
+      expect(storage.createCreditTransaction).not.toHaveBeenCalled();
+    });
+
+    test('should ignore checkouts it does not know and reject malformed webhooks', async () => {
+      expect(await service.handleWebhook(provider.webhookBody('fake_unknown', 'succeeded'), {})).toBeUndefined();
+      expect(storage.completePayment).not.toHaveBeenCalled();
+      await expect(service.handleWebhook(Buffer.from('{"status":"paid"}'), {})).rejects.toThrow(PaymentWebhookError);
+    });
+  });
+
+  describe('Refunds', () => {
+    test('should not refund services that were never paid', () => {
+      const refund = calculateRegistrationRefund(event, registration);
+      expect(refund.credits).toBe(2);
+      expect(refund.servicesCost).toBe(0);
+      expect(calculateRegistrationRefund(event, { ...registration, status: 'confirmed' }).servicesCost).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createTestApp, TEST_PASSWORD, type TestApp } from '../utils/test-app';
+import { DEFAULT_ROLE_PERMISSIONS, hasPermission } from '../../shared/schema';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe('Role Permissions', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // Refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  test('should send each role its default permissions with the signed-in user', async () => {
+    for (const role of ['admin', 'staff', 'user'] as const) {
+      const me = (await (await testApp.login(role)).get('/api/auth/user')).body;
+      expect([...me.permissions].sort()).toEqual([...DEFAULT_ROLE_PERMISSIONS[role]].sort());
+    }
+
+    const staff = (await (await testApp.login('staff')).get('/api/auth/user')).body;
+    expect(hasPermission(staff, 'roster.view')).toBe(true);
+    expect(hasPermission(staff, 'events.create')).toBe(false);
+    expect(hasPermission(undefined, 'roster.view')).toBe(false);
+  });
+
+  test('should gate routes on the permission rather than the role name', async () => {
+    const staff = await testApp.login('staff');
+    const parent = await testApp.login('user');
+    expect((await staff.get('/api/supervised-events')).status).toBe(200);
+    expect((await parent.get('/api/supervised-events')).status).toBe(403);
+
+    const refused = await staff.get('/api/admin/audit-log');
+    expect(refused.status).toBe(403);
+    expect(refused.body.message).toBe("You don't have permission to do that");
+    expect((await request(testApp.app).get('/api/admin/audit-log')).status).toBe(401);
+  });
+
+  test('should enforce the grants stored for a role', async () => {
+    // A role of its own, so the shared roles keep their grants for the other suites
+    const role = `coordinator-${Date.now()}`;
+    const email = testApp.email('coordinator');
+    await testApp.storage.createUser({
+      email,
+      password: testApp.users.user.password,
+      firstName: 'Cora',
+      lastName: 'Test',
+      phone: '0712345678',
+      authType: 'email',
+      isEmailVerified: true,
+      role,
+    });
+    await testApp.storage.setRolePermissions(role, ['audit.view', 'roster.view', 'roster.viewAll']);
+
+    const coordinator = await testApp.loginAs(email, TEST_PASSWORD);
+    expect((await coordinator.get('/api/admin/audit-log')).status).toBe(200);
+    expect((await coordinator.get('/api/admin/users')).status).toBe(403);
+
+    // roster.viewAll opens the roster of an event the coordinator doesn't supervise
+    const event = await testApp.createEvent();
+    expect((await coordinator.get(`/api/staff/events/${event.id}/roster`)).status).toBe(200);
+    expect((await (await testApp.login('staff')).get(`/api/staff/events/${event.id}/roster`)).status).toBe(403);
+
+    await testApp.storage.setRolePermissions(role, []);
+    expect((await coordinator.get('/api/admin/audit-log')).status).toBe(403);
+    expect((await coordinator.get('/api/auth/user')).body.permissions).toEqual([]);
+  });
+
+  test('should let admins change a role\'s grants and audit the change', async () => {
+    const admin = await testApp.login('admin');
+    const response = await admin.put('/api/admin/roles/attendee/permissions').send({ permissions: ['roster.view', 'audit.view', 'roster.view'] });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ role: 'attendee', permissions: ['audit.view', 'roster.view'] });
+    expect([...await testApp.storage.getRolePermissions('attendee')].sort()).toEqual(['audit.view', 'roster.view']);
+
+    const audit = (await admin.get('/api/admin/audit-log').query({ entityType: 'role', entityId: 'attendee' })).body;
+    expect(audit[0]).toMatchObject({
+      action: 'role.permissions_change',
+      changes: { permissions: { before: [], after: ['audit.view', 'roster.view'] } },
+    });
+
+    expect((await admin.put('/api/admin/roles/attendee/permissions').send({ permissions: [] })).status).toBe(200);
+    expect(await testApp.storage.getRolePermissions('attendee')).toEqual([]);
+  });
+
+  test('should refuse role permission changes that are invalid or not allowed', async () => {
+    const admin = await testApp.login('admin');
+    expect((await admin.put('/api/admin/roles/coach/permissions').send({ permissions: [] })).status).toBe(400);
+    expect((await admin.put('/api/admin/roles/attendee/permissions').send({ permissions: ['events.fly'] })).status).toBe(400);
+
+    // Admins can't lock everyone out of managing roles
+    const lockout = await admin.put('/api/admin/roles/admin/permissions').send({ permissions: ['audit.view'] });
+    expect(lockout.status).toBe(400);
+    expect(await testApp.storage.getRolePermissions('admin')).toContain('users.manageRoles');
+
+    const staff = await testApp.login('staff');
+    expect((await staff.put('/api/admin/roles/staff/permissions').send({ permissions: [...DEFAULT_ROLE_PERMISSIONS.admin] })).status).toBe(403);
+    expect((await request(testApp.app).put('/api/admin/roles/staff/permissions').send({ permissions: [] })).status).toBe(401);
+  });
+
+  test('should decide whether a self-registration takes a seat by the registrant\'s grants', async () => {
+    const role = `helper-${Date.now()}`;
+    const email = testApp.email('helper');
+    await testApp.storage.createUser({
+      email,
+      password: testApp.users.user.password,
+      firstName: 'Hal',
+      lastName: 'Test',
+      phone: '0712345678',
+      authType: 'email',
+      isEmailVerified: true,
+      role,
+    });
+    const helper = await testApp.loginAs(email, TEST_PASSWORD);
+    const seats = async (eventId: string) => (await testApp.storage.getEvent(eventId))?.remainingSeats;
+
+    const attending = await testApp.createEvent({ allowedRegistrants: 'both' });
+    expect((await helper.post(`/api/events/${attending.id}/register`).send({})).status).toBe(201);
+    expect(await seats(attending.id)).toBe(2);
+
+    await testApp.storage.setRolePermissions(role, ['events.attendWithoutSeat']);
+    const supervising = await testApp.createEvent({ allowedRegistrants: 'both', startTime: hoursFromNow(72), endTime: hoursFromNow(74) });
+    const registration = (await helper.post(`/api/events/${supervising.id}/register`).send({})).body;
+    expect(await seats(supervising.id)).toBe(3);
+
+    // Supervisors are left off the roster, and cancelling gives back no seat
+    const roster = (await (await testApp.login('admin')).get(`/api/staff/events/${supervising.id}/roster`)).body;
+    expect(roster.map((entry: { id: string }) => entry.id)).not.toContain(registration.id);
+    expect((await helper.post(`/api/registrations/${registration.id}/cancel`)).status).toBe(200);
+    expect(await seats(supervising.id)).toBe(3);
+  });
+});
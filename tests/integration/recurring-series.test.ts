@@ -0,0 +1,63 @@
+import { describe, test, expect } from '@jest/globals';
+import { generateOccurrences, formatLocalDate, recurrenceRuleSchema, MAX_SERIES_OCCURRENCES } from '../../shared/schema';
+
+describe('Recurring Event Series', () => {
+  // Monday 1 September 2025, 15:00 local time
+  const firstStart = new Date(2025, 8, 1, 15, 0);
+
+  describe('Occurrence Generation', () => {
+    test('should generate weekly occurrences on the selected weekdays', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [1, 3], count: 4, skipDates: [] });
+
+      expect(occurrences.map(formatLocalDate)).toEqual(['2025-09-01', '2025-09-03', '2025-09-08', '2025-09-10']);
+    });
+
+    test('should keep the time of day of the first start', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [1], count: 3, skipDates: [] });
+
+      occurrences.forEach((occurrence) => {
+        expect(occurrence.getHours()).toBe(15);
+        expect(occurrence.getMinutes()).toBe(0);
+      });
+    });
+
+    test('should stop at the end date inclusively', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [1], until: '2025-09-15', skipDates: [] });
+
+      expect(occurrences.map(formatLocalDate)).toEqual(['2025-09-01', '2025-09-08', '2025-09-15']);
+    });
+
+    test('should leave out skip dates without counting them', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [1], count: 3, skipDates: ['2025-09-08'] });
+
+      expect(occurrences.map(formatLocalDate)).toEqual(['2025-09-01', '2025-09-15', '2025-09-22']);
+    });
+
+    test('should not include the first start when it is not a selected weekday', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [5], count: 2, skipDates: [] });
+
+      expect(occurrences.map(formatLocalDate)).toEqual(['2025-09-05', '2025-09-12']);
+    });
+
+    test('should cap the number of occurrences', () => {
+      const occurrences = generateOccurrences(firstStart, { weekdays: [0, 1, 2, 3, 4, 5, 6], until: '2030-01-01', skipDates: [] });
+
+      expect(occurrences).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+  });
+
+  describe('Recurrence Rule Validation', () => {
+    test('should require exactly one of an end date or a count', () => {
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [1], count: 5 }).success).toBe(true);
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [1], until: '2025-12-19' }).success).toBe(true);
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [1] }).success).toBe(false);
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [1], count: 5, until: '2025-12-19' }).success).toBe(false);
+    });
+
+    test('should reject empty weekdays and malformed skip dates', () => {
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [], count: 5 }).success).toBe(false);
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [7], count: 5 }).success).toBe(false);
+      expect(recurrenceRuleSchema.safeParse({ weekdays: [1], count: 5, skipDates: ['24/12/2025'] }).success).toBe(false);
+    });
+  });
+});
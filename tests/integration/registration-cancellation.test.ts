@@ -0,0 +1,56 @@
+import { describe, test, expect } from '@jest/globals';
+import { calculateRegistrationRefund, registrationTakesSeat } from '../../shared/schema';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Registration Cancellation', () => {
+  describe('Refund Policy', () => {
+    const now = new Date('2025-09-01T08:00:00Z');
+    const registration = { creditsCost: 3, servicesCost: 1500 };
+
+    test('should refund in full when cancelled before the cutoff-based window', () => {
+      const event = { startTime: new Date(now.getTime() + 24 * HOUR), cutoffHours: 12, refundWindowHours: null };
+      const refund = calculateRegistrationRefund(event, registration, now);
+
+      expect(refund.eligible).toBe(true);
+      expect(refund.credits).toBe(3);
+      expect(refund.servicesCost).toBe(1500);
+      expect(refund.refundDeadline).toEqual(new Date(now.getTime() + 12 * HOUR));
+    });
+
+    test('should not refund once inside the cutoff-based window', () => {
+      const event = { startTime: new Date(now.getTime() + 6 * HOUR), cutoffHours: 12, refundWindowHours: null };
+      const refund = calculateRegistrationRefund(event, registration, now);
+
+      expect(refund.eligible).toBe(false);
+      expect(refund.credits).toBe(0);
+      expect(refund.servicesCost).toBe(0);
+    });
+
+    test('should prefer an explicit refund window over the registration cutoff', () => {
+      const event = { startTime: new Date(now.getTime() + 24 * HOUR), cutoffHours: 12, refundWindowHours: 48 };
+      const refund = calculateRegistrationRefund(event, registration, now);
+
+      expect(refund.eligible).toBe(false);
+      expect(refund.refundDeadline).toEqual(new Date(now.getTime() - 24 * HOUR));
+    });
+
+    test('should refund right up to the deadline', () => {
+      const event = { startTime: new Date(now.getTime() + 12 * HOUR), cutoffHours: 12, refundWindowHours: null };
+
+      expect(calculateRegistrationRefund(event, registration, now).eligible).toBe(true);
+    });
+  });
+
+  describe('Seat Release', () => {
+    test('should release a seat for child registrations regardless of the registrant\'s permissions', () => {
+      expect(registrationTakesSeat({ childId: 'child-1' }, false)).toBe(true);
+      expect(registrationTakesSeat({ childId: 'child-1' }, true)).toBe(true);
+    });
+
+    test('should only release a seat for self-registrations without events.attendWithoutSeat', () => {
+      expect(registrationTakesSeat({ childId: null }, false)).toBe(true);
+      expect(registrationTakesSeat({ childId: null }, true)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  toCsv,
+  toXlsx,
+  renderExport,
+  exportFilename,
+  rosterColumns,
+  registrationColumns,
+  type ExportColumn,
+} from '../../server/export';
+import type { RegistrationExportRow } from '../../server/storage';
+import type { Child, Event, EventRegistration, User } from '../../shared/schema';
+
+describe('Registration Export', () => {
+  const event = {
+    id: 'event-1',
+    name: 'Art Club',
+    location: 'Room 2',
+    startTime: new Date('2025-09-01T15:00:00'),
+    endTime: new Date('2025-09-01T16:30:00'),
+    extraServices: [
+      { id: 'lunch', description: 'Lunch', price: 10 },
+      { id: 'bus', description: 'Bus pickup', price: 5 },
+    ],
+    servicesCurrency: 'RON',
+  } as Event;
+
+  const row: RegistrationExportRow = {
+    registration: {
+      id: 'reg-1',
+      eventId: 'event-1',
+      parentId: 'parent-1',
+      childId: 'child-1',
+      status: 'confirmed',
+      creditsCost: 1,
+      selectedServices: ['bus'],
+      servicesCost: 500,
+      registeredAt: new Date('2025-08-20T10:00:00'),
+    } as EventRegistration,
+    event,
+    child: {
+      id: 'child-1',
+      firstName: 'Maria',
+      lastName: 'Pop',
+      dateOfBirth: '2017-09-02',
+      allergies: 'Peanuts, tree nuts',
+      dietaryRestrictions: null,
+      medicineNeeds: 'Inhaler',
+    } as Child,
+    parent: {
+      id: 'parent-1',
+      firstName: 'Ana',
+      lastName: 'Pop',
+      email: 'ana@example.com',
+      phone: '+40 700 000 000',
+      role: 'parent',
+    } as User,
+  };
+
+  const valuesOf = (columns: ExportColumn<RegistrationExportRow>[], exportRow: RegistrationExportRow) =>
+    Object.fromEntries(columns.map(column => [column.header, column.value(exportRow)]));
+
+  describe('CSV Output', () => {
+    const columns: ExportColumn<string[]>[] = [
+      { header: 'First', value: cells => cells[0] },
+      { header: 'Second', value: cells => cells[1] },
+    ];
+
+    test('should start with a byte order mark and use CRLF line endings', () => {
+      const csv = toCsv(columns, [['a', 'b']]);
+      expect(csv.startsWith('\uFEFF')).toBe(true);
+      expect(csv.slice(1)).toBe('First,Second\r\na,b\r\n');
+    });
+
+    test('should quote cells containing commas, quotes and line breaks', () => {
+      const csv = toCsv(columns, [['Peanuts, milk', 'Says "hi"\ntwice']]);
+      expect(csv).toContain('"Peanuts, milk","Says ""hi""\ntwice"');
+    });
+
+    test('should neutralise cells that spreadsheets would run as formulas', () => {
+      const csv = toCsv(columns, [['=HYPERLINK("x")', '@SUM(A1)']]);
+      expect(csv).toContain(`"'=HYPERLINK(""x"")",'@SUM(A1)`);
+    });
+
+    test('should leave numbers alone and write empty cells for null', () => {
+      const numeric: ExportColumn<number | null>[] = [{ header: 'Value', value: value => value }];
+      expect(toCsv(numeric, [-5, null]).slice(1)).toBe('Value\r\n-5\r\n\r\n');
+    });
+  });
+
+  describe('Columns', () => {
+    test('should list roster details with age on the event date and selected services', () => {
+      expect(valuesOf(rosterColumns, row)).toEqual({
+        'Name': 'Maria Pop',
+        'Age': 7,
+        'Allergies': 'Peanuts, tree nuts',
+        'Dietary Restrictions': null,
+        'Medicine Needs': 'Inhaler',
+        'Parent': 'Ana Pop',
+        'Parent Phone': '+40 700 000 000',
+        'Extra Services': 'Bus pickup',
+      });
+    });
+
+    test('should name the parent as the attendee of a parent registration', () => {
+      const parentRow = { ...row, child: null, registration: { ...row.registration, childId: null } };
+      const values = valuesOf(rosterColumns, parentRow);
+      expect(values['Name']).toBe('Ana Pop (parent)');
+      expect(values['Age']).toBeNull();
+    });
+
+    test('should include event, status and costs in the registrations export', () => {
+      const values = valuesOf(registrationColumns, row);
+      expect(values['Event']).toBe('Art Club');
+      expect(values['Event Start']).toBe('2025-09-01 15:00');
+      expect(values['Status']).toBe('confirmed');
+      expect(values['Services Cost']).toBe('RON 5.00');
+      expect(values['Parent Email']).toBe('ana@example.com');
+    });
+  });
+
+  describe('Files', () => {
+    test('should build a filename slug from its parts', () => {
+      expect(exportFilename(['Art Club!', 'roster', '2025-09-01'], 'csv')).toBe('art-club-roster-2025-09-01.csv');
+      expect(exportFilename(['???'], 'xlsx')).toBe('export.xlsx');
+    });
+
+    test('should write an XLSX workbook', async () => {
+      const workbook = await toXlsx('Art Club: Sept', rosterColumns, [row]);
+      // XLSX files are zip archives
+      expect(workbook.subarray(0, 2).toString('latin1')).toBe('PK');
+    });
+
+    test('should render either format as a buffer', async () => {
+      const csv = await renderExport('csv', 'Art Club', rosterColumns, [row]);
+      expect(csv.toString('utf8')).toContain('Maria Pop,7,"Peanuts, tree nuts",,Inhaler,Ana Pop');
+      const xlsx = await renderExport('xlsx', 'Art Club', rosterColumns, [row]);
+      expect(xlsx.length).toBeGreaterThan(0);
+    });
+  });
+});
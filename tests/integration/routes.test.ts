@@ -0,0 +1,321 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createTestApp, TEST_PASSWORD, type TestApp } from '../utils/test-app';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+describe('API Routes', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // Account emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const childData = { firstName: 'Ioana', lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' };
+
+  describe('Authentication', () => {
+    test('should sign up and log in with the new password', async () => {
+      const email = testApp.email('signup');
+      const signup = await request(testApp.app)
+        .post('/api/auth/signup')
+        .set('X-Forwarded-Proto', 'https')
+        .send({ email, password: TEST_PASSWORD, firstName: 'Dana', lastName: 'Test', phone: '0712345678' });
+
+      expect(signup.status).toBe(201);
+      expect(signup.body.user).toMatchObject({ email, role: 'user', isEmailVerified: false });
+      expect(signup.body.user).not.toHaveProperty('password');
+
+      const agent = await testApp.loginAs(email, TEST_PASSWORD);
+      const me = await agent.get('/api/auth/user');
+      expect(me.status).toBe(200);
+      expect(me.body.email).toBe(email);
+    });
+
+    test('should answer password reset requests the same whether or not the account exists', async () => {
+      const { ConsoleTransport } = await import('../../server/email');
+      const send = jest.spyOn(ConsoleTransport.prototype, 'send').mockRejectedValue(new Error('SMTP is down'));
+      try {
+        const known = await request(testApp.app).post('/api/auth/forgot-password').send({ email: testApp.users.user.email });
+        const unknown = await request(testApp.app).post('/api/auth/forgot-password').send({ email: testApp.email('nobody') });
+
+        expect(known.status).toBe(200);
+        expect(known.body).toEqual(unknown.body);
+        expect(unknown.status).toBe(200);
+        expect(send).toHaveBeenCalledTimes(1);
+      } finally {
+        send.mockRestore();
+      }
+    });
+
+    test('should reject duplicate signups and wrong passwords', async () => {
+      const duplicate = await request(testApp.app)
+        .post('/api/auth/signup')
+        .send({ email: testApp.users.user.email, password: TEST_PASSWORD, firstName: 'Paula', lastName: 'Test', phone: '0712345678' });
+      expect(duplicate.status).toBe(400);
+      expect(duplicate.body.message).toBe('User with this email already exists');
+
+      const login = await request(testApp.app).post('/api/auth/login').send({ email: testApp.users.user.email, password: 'wrong-password' });
+      expect(login.status).toBe(401);
+    });
+
+    test('should require a session for protected routes', async () => {
+      expect((await request(testApp.app).get('/api/children')).status).toBe(401);
+      expect((await request(testApp.app).get('/api/auth/user')).status).toBe(401);
+    });
+  });
+
+  describe('Children', () => {
+    test('should create, update and delete a child', async () => {
+      const agent = await testApp.login('user');
+
+      const created = await agent.post('/api/children').send(childData);
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ ...childData, parentId: testApp.users.user.id });
+
+      const updated = await agent.put(`/api/children/${created.body.id}`).send({ allergies: 'Peanuts' });
+      expect(updated.status).toBe(200);
+      expect(updated.body.allergies).toBe('Peanuts');
+
+      const listed = await agent.get('/api/children');
+      expect(listed.body.map((child: { id: string }) => child.id)).toContain(created.body.id);
+
+      expect((await agent.delete(`/api/children/${created.body.id}`)).status).toBe(204);
+      expect((await agent.get('/api/children')).body).not.toContainEqual(expect.objectContaining({ id: created.body.id }));
+    });
+
+    test("should not let a parent change another family's child", async () => {
+      const parent = await testApp.login('user');
+      const child = (await parent.post('/api/children').send(childData)).body;
+      const other = await testApp.login('staff');
+
+      expect((await other.put(`/api/children/${child.id}`).send({ firstName: 'Changed' })).status).toBe(404);
+      expect((await other.delete(`/api/children/${child.id}`)).status).toBe(404);
+    });
+
+    test('should reject a child without the required fields', async () => {
+      const agent = await testApp.login('user');
+
+      const response = await agent.post('/api/children').send({ firstName: 'Ioana' });
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid child data');
+    });
+  });
+
+  describe('Registration Rules', () => {
+    let agent: Awaited<ReturnType<TestApp['login']>>;
+    let childId: string;
+
+    beforeAll(async () => {
+      agent = await testApp.login('user');
+      childId = (await agent.post('/api/children').send(childData)).body.id;
+    });
+
+    test('should register a child and take a seat', async () => {
+      const event = await testApp.createEvent();
+
+      const response = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ eventId: event.id, childId, status: 'confirmed' });
+      expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(2);
+
+      const again = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(again.status).toBe(400);
+      expect(again.body.message).toBe('Child is already registered for this event');
+    });
+
+    test('should only accept the registrants the event allows', async () => {
+      const childrenOnly = await testApp.createEvent({ allowedRegistrants: 'attendee', startTime: hoursFromNow(100), endTime: hoursFromNow(101) });
+      const parentsOnly = await testApp.createEvent({ allowedRegistrants: 'user', startTime: hoursFromNow(102), endTime: hoursFromNow(103) });
+
+      const parentForChildren = await agent.post(`/api/events/${childrenOnly.id}/register`).send({});
+      expect(parentForChildren.status).toBe(400);
+      expect(parentForChildren.body.message).toBe('This event is only open to children (attendees)');
+
+      const childForParents = await agent.post(`/api/events/${parentsOnly.id}/register`).send({ childId });
+      expect(childForParents.status).toBe(400);
+      expect(childForParents.body.message).toBe('This event is only open to parents (users)');
+
+      expect((await agent.post(`/api/events/${parentsOnly.id}/register`).send({})).status).toBe(201);
+    });
+
+    test('should give back a seat on cancellation only if the registration took one', async () => {
+      const event = await testApp.createEvent({ allowedRegistrants: 'both', startTime: hoursFromNow(104), endTime: hoursFromNow(105) });
+      const seats = async () => (await testApp.storage.getEvent(event.id))?.remainingSeats;
+
+      const registration = (await agent.post(`/api/events/${event.id}/register`).send({ childId })).body;
+      expect(await seats()).toBe(2);
+      expect((await agent.post(`/api/registrations/${registration.id}/cancel`)).status).toBe(200);
+      expect(await seats()).toBe(3);
+
+      // Staff registering themselves are supervising and never took a seat
+      const staff = await testApp.login('staff');
+      const supervising = (await staff.post(`/api/events/${event.id}/register`).send({})).body;
+      expect(await seats()).toBe(3);
+      expect((await staff.post(`/api/registrations/${supervising.id}/cancel`)).status).toBe(200);
+      expect(await seats()).toBe(3);
+    });
+
+    test('should close registration at the cutoff', async () => {
+      const event = await testApp.createEvent({ startTime: hoursFromNow(6), endTime: hoursFromNow(8), cutoffHours: 12 });
+
+      const response = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Registration deadline has passed');
+    });
+
+    test('should turn registrations away from a full event', async () => {
+      const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 0, startTime: hoursFromNow(110), endTime: hoursFromNow(111) });
+
+      const response = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('No seats available for this event');
+      expect(await testApp.storage.getEventRegistrationsByEvent(event.id)).toEqual([]);
+    });
+
+    test('should charge credits and refuse parents who do not have enough', async () => {
+      const event = await testApp.createEvent({ creditsRequired: 2, startTime: hoursFromNow(120), endTime: hoursFromNow(121) });
+
+      const refused = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(refused.status).toBe(400);
+      expect(refused.body.message).toContain('insufficient credits');
+
+      await testApp.storage.createCreditTransaction({ userId: testApp.users.user.id, amount: 2, type: 'top_up' });
+      expect((await agent.post(`/api/events/${event.id}/register`).send({ childId })).status).toBe(201);
+      expect((await agent.get('/api/credits')).body.balance).toBe(0);
+    });
+
+    test('should leave the balance, seats and registrations alone when credits run short', async () => {
+      const event = await testApp.createEvent({ creditsRequired: 3, startTime: hoursFromNow(124), endTime: hoursFromNow(125) });
+      await testApp.storage.createCreditTransaction({ userId: testApp.users.user.id, amount: 2, type: 'top_up' });
+      const before = (await agent.get('/api/credits')).body;
+
+      const refused = await agent.post(`/api/events/${event.id}/register`).send({ childId });
+      expect(refused.status).toBe(400);
+      expect(refused.body.message).toContain('insufficient credits');
+
+      const after = (await agent.get('/api/credits')).body;
+      expect(after.balance).toBe(before.balance);
+      expect(after.transactions).toHaveLength(before.transactions.length);
+      expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(3);
+      expect(await testApp.storage.getEventRegistrationsByEvent(event.id)).toEqual([]);
+    });
+  });
+
+  describe('Admin Endpoints', () => {
+    const eventBody = () => ({
+      name: 'Chess Club',
+      startTime: hoursFromNow(72).toISOString(),
+      endTime: hoursFromNow(74).toISOString(),
+      location: 'Library',
+      description: 'Openings and endgames',
+      maxSeats: 6,
+      remainingSeats: 6,
+      creditsRequired: 1,
+      cutoffHours: 12,
+    });
+
+    test('should be closed to parents and staff', async () => {
+      for (const role of ['user', 'staff'] as const) {
+        const agent = await testApp.login(role);
+        expect((await agent.get('/api/admin/users')).status).toBe(403);
+        expect((await agent.post('/api/admin/events').send(eventBody())).status).toBe(403);
+      }
+      expect((await request(testApp.app).get('/api/admin/users')).status).toBe(401);
+    });
+
+    test('should let admins create events and manage roles', async () => {
+      const admin = await testApp.login('admin');
+
+      const created = await admin.post('/api/admin/events').send(eventBody());
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ name: 'Chess Club', status: 'open' });
+      expect((await admin.get('/api/admin/audit-log?action=event.create')).body[0]).toMatchObject({ entityId: created.body.id });
+
+      const users = await admin.get('/api/admin/users');
+      expect(users.status).toBe(200);
+      expect(users.body.map((user: { id: string }) => user.id)).toEqual(expect.arrayContaining([testApp.users.staff.id, testApp.users.user.id]));
+
+      const promoted = await admin.patch(`/api/admin/users/${testApp.users.user.id}/role`).send({ role: 'staff' });
+      expect(promoted.status).toBe(200);
+      expect(promoted.body.role).toBe('staff');
+      await admin.patch(`/api/admin/users/${testApp.users.user.id}/role`).send({ role: 'user' });
+    });
+
+    test('should move free seats with the capacity and keep bookings made while the admin edits', async () => {
+      const admin = await testApp.login('admin');
+      const parent = await testApp.login('user');
+      const child = (await parent.post('/api/children').send({ ...childData, firstName: 'Radu' })).body;
+      const event = await testApp.createEvent({ startTime: hoursFromNow(140), endTime: hoursFromNow(141) });
+
+      // The admin opens the edit form, then a parent books before it is saved
+      const opened = (await testApp.storage.getEvent(event.id))!;
+      expect((await parent.post(`/api/events/${event.id}/register`).send({ childId: child.id })).status).toBe(201);
+
+      const body = {
+        ...eventBody(),
+        startTime: opened.startTime.toISOString(),
+        endTime: opened.endTime.toISOString(),
+        maxSeats: opened.maxSeats + 2,
+        // What the form showed, plus the added seats; stale by the booking above
+        remainingSeats: opened.remainingSeats + 2,
+      };
+      const updated = await admin.put(`/api/admin/events/${event.id}`).send(body);
+      expect(updated.status).toBe(200);
+      expect(updated.body).toMatchObject({ maxSeats: 5, remainingSeats: 4 });
+
+      // Saving again without a capacity change leaves the free seats alone
+      expect((await admin.put(`/api/admin/events/${event.id}`).send({ ...body, remainingSeats: 5 })).body.remainingSeats).toBe(4);
+    });
+
+    test('should accept as import supervisors whoever holds the roster permission', async () => {
+      const admin = await testApp.login('admin');
+      const row = (supervisorEmail: string) => ({
+        name: 'Drama Club',
+        description: 'Improvisation',
+        startTime: hoursFromNow(150).toISOString(),
+        endTime: hoursFromNow(151).toISOString(),
+        location: 'Hall',
+        creditsRequired: 0,
+        supervisorEmails: supervisorEmail,
+      });
+      const dryRun = async (supervisorEmail: string) =>
+        (await admin.post('/api/admin/events/import').send({ format: 'json', content: JSON.stringify([row(supervisorEmail)]), dryRun: true })).body.validCount;
+
+      expect(await dryRun(testApp.email('staff'))).toBe(1);
+      expect(await dryRun(testApp.email('user'))).toBe(0);
+
+      // Permissions follow the role's grants, not its name
+      const staffPermissions = await testApp.storage.getRolePermissions('staff');
+      await testApp.storage.setRolePermissions('user', ['roster.view']);
+      await testApp.storage.setRolePermissions('staff', staffPermissions.filter(permission => permission !== 'roster.view'));
+      try {
+        expect(await dryRun(testApp.email('user'))).toBe(1);
+        expect(await dryRun(testApp.email('staff'))).toBe(0);
+      } finally {
+        await testApp.storage.setRolePermissions('user', []);
+        await testApp.storage.setRolePermissions('staff', staffPermissions);
+      }
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from '@jest/globals';
+import { eventsOverlap, formatEventDuration, endTimeOnStartDay, calculateEventStatus, type Event } from '../../shared/schema';
+
+describe('Schedule Conflict Detection', () => {
+  const at = (hour: number, minute = 0) => new Date(2025, 8, 6, hour, minute);
+  const event = (startHour: number, endHour: number) => ({ startTime: at(startHour), endTime: at(endHour) });
+
+  test('should detect overlapping time windows', () => {
+    const morning = event(9, 12);
+
+    expect(eventsOverlap(morning, event(11, 13))).toBe(true);
+    expect(eventsOverlap(morning, { startTime: at(10), endTime: at(10, 30) })).toBe(true);
+    expect(eventsOverlap(event(8, 13), morning)).toBe(true);
+  });
+
+  test('should allow back-to-back and separate events', () => {
+    const morning = event(9, 12);
+
+    expect(eventsOverlap(morning, event(12, 13))).toBe(false);
+    expect(eventsOverlap(morning, event(7, 9))).toBe(false);
+    expect(eventsOverlap(morning, event(14, 15))).toBe(false);
+  });
+});
+
+describe('Event Time Range', () => {
+  test('should format the length between start and end', () => {
+    expect(formatEventDuration({ startTime: new Date(2025, 8, 6, 9), endTime: new Date(2025, 8, 6, 14) })).toBe('5h');
+    expect(formatEventDuration({ startTime: new Date(2025, 8, 6, 9), endTime: new Date(2025, 8, 6, 10, 30) })).toBe('1h 30m');
+    expect(formatEventDuration({ startTime: new Date(2025, 8, 6, 9), endTime: new Date(2025, 8, 6, 9, 45) })).toBe('45m');
+  });
+
+  test('should place the end time on the start day', () => {
+    expect(endTimeOnStartDay('2025-09-06T09:00', '12:30')).toEqual(new Date(2025, 8, 6, 12, 30));
+  });
+
+  test('should report an event as in progress between its start and end', () => {
+    const hour = 60 * 60 * 1000;
+    const status = (startOffset: number, endOffset: number) => calculateEventStatus({
+      startTime: new Date(Date.now() + startOffset),
+      endTime: new Date(Date.now() + endOffset),
+      cutoffHours: 12,
+      remainingSeats: 3,
+    } as Event);
+
+    expect(status(-hour, hour)).toBe('in_progress');
+    expect(status(-2 * hour, -hour)).toBe('past');
+    expect(status(2 * hour, 3 * hour)).toBe('registration_closed');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { createSignedToken, verifySignedToken, tokenBinding, PASSWORD_RESET_TTL_MS } from '../../server/tokens';
+import { resetPasswordSchema } from '../../shared/schema';
+
+describe('Signed Account Tokens', () => {
+  beforeAll(() => {
+    process.env.TOKEN_SECRET = 'test-secret';
+  });
+
+  const now = Date.UTC(2025, 8, 1, 12, 0);
+
+  test('should verify a token for its purpose until it expires', () => {
+    const token = createSignedToken('password_reset', 'user-1', tokenBinding('hash'), PASSWORD_RESET_TTL_MS, now);
+
+    expect(verifySignedToken(token, 'password_reset', now + 1000)).toEqual({ userId: 'user-1', binding: tokenBinding('hash') });
+    expect(verifySignedToken(token, 'password_reset', now + PASSWORD_RESET_TTL_MS + 1)).toBeNull();
+  });
+
+  test('should not accept a token for another purpose', () => {
+    const token = createSignedToken('verify_email', 'user-1', tokenBinding('parent@example.com'), PASSWORD_RESET_TTL_MS, now);
+
+    expect(verifySignedToken(token, 'password_reset', now)).toBeNull();
+  });
+
+  test('should reject tampered or malformed tokens', () => {
+    const token = createSignedToken('password_reset', 'user-1', tokenBinding('hash'), PASSWORD_RESET_TTL_MS, now);
+    const [payload, signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      purpose: 'password_reset', userId: 'admin', binding: tokenBinding('hash'), expiresAt: now + PASSWORD_RESET_TTL_MS,
+    })).toString('base64url');
+
+    expect(verifySignedToken(`${forgedPayload}.${signature}`, 'password_reset', now)).toBeNull();
+    expect(verifySignedToken(`${payload}.${signature}x`, 'password_reset', now)).toBeNull();
+    expect(verifySignedToken('not-a-token', 'password_reset', now)).toBeNull();
+  });
+
+  test('should reject tokens signed with a different secret', () => {
+    const token = createSignedToken('password_reset', 'user-1', tokenBinding('hash'), PASSWORD_RESET_TTL_MS, now);
+    process.env.TOKEN_SECRET = 'rotated-secret';
+    try {
+      expect(verifySignedToken(token, 'password_reset', now)).toBeNull();
+    } finally {
+      process.env.TOKEN_SECRET = 'test-secret';
+    }
+  });
+
+  test('should bind tokens to the value they were issued for', () => {
+    expect(tokenBinding('old-hash')).not.toBe(tokenBinding('new-hash'));
+    expect(tokenBinding('same')).toBe(tokenBinding('same'));
+  });
+
+  test('should require matching passwords when resetting', () => {
+    expect(resetPasswordSchema.safeParse({ token: 't', password: 'longenough', confirmPassword: 'longenough' }).success).toBe(true);
+    expect(resetPasswordSchema.safeParse({ token: 't', password: 'longenough', confirmPassword: 'different' }).success).toBe(false);
+    expect(resetPasswordSchema.safeParse({ token: 't', password: 'short', confirmPassword: 'short' }).success).toBe(false);
+  });
+});
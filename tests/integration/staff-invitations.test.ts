@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createTestApp, TEST_PASSWORD, type TestApp } from '../utils/test-app';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+describe('Staff Invitation Routes', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // Invite emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const signupData = { password: TEST_PASSWORD, firstName: 'New', lastName: 'Coach', phone: '0712345678' };
+
+  // The admin shares the link from the response; the token is in its query string
+  const invite = async (email: string) => {
+    const admin = await testApp.login('admin');
+    const response = await admin.post('/api/admin/staff-invitations').send({ email, expiresInDays: 3 });
+    expect(response.status).toBe(201);
+    return { invitation: response.body, token: new URL(response.body.url).searchParams.get('token')! };
+  };
+
+  test('should create a verified staff account from an invite link', async () => {
+    const email = testApp.email('coach');
+    const { invitation, token } = await invite(email.toUpperCase());
+    expect(invitation).toMatchObject({ email, role: 'staff', status: 'pending', expired: false });
+    expect(invitation).not.toHaveProperty('token');
+    expect(invitation.url).toContain('/staff-invite?token=');
+
+    const admin = await testApp.login('admin');
+    const listed = (await admin.get('/api/admin/staff-invitations')).body;
+    expect(listed).toEqual(expect.arrayContaining([expect.objectContaining({ id: invitation.id })]));
+    expect(listed.every((entry: object) => !('token' in entry))).toBe(true);
+
+    const details = await request(testApp.app).get(`/api/staff-invitations/${token}`);
+    expect(details.body).toEqual({ email, role: 'staff', status: 'pending', expired: false });
+
+    const signup = await request(testApp.app)
+      .post(`/api/staff-invitations/${token}/signup`)
+      .set('X-Forwarded-Proto', 'https')
+      .send(signupData);
+    expect(signup.status).toBe(201);
+    expect(signup.body.user).toMatchObject({ email, role: 'staff', isEmailVerified: true });
+
+    // The signup response signs the new staff member in
+    const cookies = ([] as string[]).concat(signup.headers['set-cookie'] ?? []);
+    const me = await request(testApp.app).get('/api/auth/user').set('Cookie', cookies.map(cookie => cookie.split(';')[0]).join('; '));
+    expect(me.body).toMatchObject({ email, role: 'staff' });
+    expect((await request(testApp.app).post(`/api/staff-invitations/${token}/signup`).send(signupData)).status).toBe(400);
+    expect((await admin.get('/api/admin/staff-invitations')).body.map((entry: { id: string }) => entry.id)).not.toContain(invitation.id);
+
+    const audit = (await admin.get('/api/admin/audit-log').query({ entityType: 'staff_invitation' })).body;
+    expect(audit).toEqual(expect.arrayContaining([
+      expect.objectContaining({ action: 'staff_invitation.create', entityId: invitation.id }),
+    ]));
+  });
+
+  test('should refuse revoked and expired invitations', async () => {
+    const { invitation, token } = await invite(testApp.email('revoked-coach'));
+    const admin = await testApp.login('admin');
+    expect((await admin.delete(`/api/admin/staff-invitations/${invitation.id}`)).status).toBe(204);
+    expect((await admin.delete(`/api/admin/staff-invitations/${invitation.id}`)).status).toBe(400);
+    expect((await request(testApp.app).get(`/api/staff-invitations/${token}`)).body.status).toBe('revoked');
+    expect((await request(testApp.app).post(`/api/staff-invitations/${token}/signup`).send(signupData)).status).toBe(400);
+
+    const expired = await testApp.storage.createStaffInvitation({
+      email: testApp.email('late-coach'),
+      role: 'staff',
+      token: `expired-${Date.now()}`,
+      invitedBy: testApp.users.admin.id,
+      expiresAt: new Date(Date.now() - 60 * 1000),
+    });
+    expect((await request(testApp.app).get(`/api/staff-invitations/${expired.token}`)).body.expired).toBe(true);
+    const response = await request(testApp.app).post(`/api/staff-invitations/${expired.token}/signup`).send(signupData);
+    expect(response.status).toBe(400);
+    expect(await testApp.storage.getUserByEmail(expired.email)).toBeUndefined();
+
+    // Expired invitations don't block a fresh one to the same address
+    expect((await admin.post('/api/admin/staff-invitations').send({ email: expired.email })).status).toBe(201);
+  });
+
+  test('should refuse duplicate invitations and existing accounts', async () => {
+    const email = testApp.email('twice-coach');
+    await invite(email);
+    const admin = await testApp.login('admin');
+    expect((await admin.post('/api/admin/staff-invitations').send({ email })).status).toBe(400);
+    expect((await admin.post('/api/admin/staff-invitations').send({ email: testApp.users.user.email })).status).toBe(400);
+
+    // The admin role can't be handed out through an invite
+    expect((await admin.post('/api/admin/staff-invitations').send({ email: testApp.email('boss'), role: 'admin' })).status).toBe(400);
+  });
+
+  test('should only let admins manage invitations', async () => {
+    for (const role of ['staff', 'user'] as const) {
+      const agent = await testApp.login(role);
+      expect((await agent.get('/api/admin/staff-invitations')).status).toBe(403);
+      expect((await agent.post('/api/admin/staff-invitations').send({ email: testApp.email('sneaky') })).status).toBe(403);
+    }
+    expect((await request(testApp.app).get('/api/staff-invitations/not-a-token')).status).toBe(404);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createTestApp, type TestApp } from '../utils/test-app';
+import type { Child } from '../../shared/schema';
+
+// Replit OAuth discovers its issuer over the network; these routes are reached with email/password logins
+jest.mock('openid-client', () => ({ discovery: jest.fn(async () => ({})) }));
+jest.mock('openid-client/passport', () => ({
+  Strategy: class {
+    name: string;
+    constructor(options: { name: string }) {
+      this.name = options.name;
+    }
+  },
+}));
+
+describe('Waitlist Promotion', () => {
+  let testApp: TestApp;
+  let agent: Awaited<ReturnType<TestApp['login']>>;
+  let promoteWaitlist: typeof import('../../server/waitlist').promoteWaitlist;
+
+  beforeAll(async () => {
+    // Confirmation emails go to the console transport, and refused requests are logged by the routes
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    testApp = await createTestApp();
+    agent = await testApp.login('user');
+    ({ promoteWaitlist } = await import('../../server/waitlist'));
+  }, 30000);
+
+  afterAll(async () => {
+    await testApp?.close();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const addChild = async (firstName: string): Promise<Child> => {
+    const response = await agent.post('/api/children').send({ firstName, lastName: 'Test', dateOfBirth: '2016-04-01', secondaryContact: '0700000000' });
+    expect(response.status).toBe(201);
+    return response.body;
+  };
+
+  const register = async (eventId: string, child: Child) => {
+    const response = await agent.post(`/api/events/${eventId}/register`).send({ childId: child.id });
+    expect(response.status).toBe(201);
+    return response.body;
+  };
+
+  const joinWaitlist = async (eventId: string, child: Child) => {
+    const response = await agent.post(`/api/events/${eventId}/waitlist`).send({ childId: child.id });
+    expect(response.status).toBe(201);
+    return response.body;
+  };
+
+  const registeredChildIds = async (eventId: string) =>
+    (await testApp.storage.getEventRegistrationsByEvent(eventId))
+      .filter(registration => registration.status !== 'cancelled')
+      .map(registration => registration.childId);
+
+  test('should promote the first waiting entry when a seat frees up', async () => {
+    const [first, second, third] = [await addChild('Ana'), await addChild('Bogdan'), await addChild('Cristi')];
+    const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 1, startTime: hoursFromNow(200), endTime: hoursFromNow(201) });
+    const registration = await register(event.id, first);
+    const secondEntry = await joinWaitlist(event.id, second);
+    const thirdEntry = await joinWaitlist(event.id, third);
+
+    expect((await agent.post(`/api/registrations/${registration.id}/cancel`)).status).toBe(200);
+
+    expect(await registeredChildIds(event.id)).toEqual([second.id]);
+    expect((await testApp.storage.getWaitlistEntry(secondEntry.id))?.status).toBe('promoted');
+    expect((await testApp.storage.getWaitlistEntry(thirdEntry.id))?.status).toBe('waiting');
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(0);
+  });
+
+  test('should offer seats added by a larger capacity to the waitlist', async () => {
+    const [first, second] = [await addChild('Sara'), await addChild('Tudor')];
+    const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 1, startTime: hoursFromNow(205), endTime: hoursFromNow(206) });
+    await register(event.id, first);
+    const entry = await joinWaitlist(event.id, second);
+
+    // The form's remainingSeats is ignored; the server adds the extra seat itself
+    const admin = await testApp.login('admin');
+    const response = await admin.put(`/api/admin/events/${event.id}`).send({
+      name: event.name,
+      location: event.location,
+      description: event.description,
+      startTime: event.startTime.toISOString(),
+      endTime: event.endTime.toISOString(),
+      maxSeats: 2,
+      remainingSeats: 0,
+      creditsRequired: 0,
+      cutoffHours: event.cutoffHours,
+    });
+    expect(response.status).toBe(200);
+
+    expect((await testApp.storage.getWaitlistEntry(entry.id))?.status).toBe('promoted');
+    expect((await testApp.storage.getEvent(event.id))).toMatchObject({ maxSeats: 2, remainingSeats: 0 });
+  });
+
+  test('should skip entries that left the waitlist or were registered directly', async () => {
+    const [first, gone, registered, waiting] = [await addChild('Dan'), await addChild('Elena'), await addChild('Filip'), await addChild('Gabi')];
+    const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 1, startTime: hoursFromNow(210), endTime: hoursFromNow(211) });
+    const registration = await register(event.id, first);
+
+    const goneEntry = await joinWaitlist(event.id, gone);
+    expect((await agent.delete(`/api/waitlist/${goneEntry.id}`)).status).toBe(200);
+    const registeredEntry = await joinWaitlist(event.id, registered);
+    const waitingEntry = await joinWaitlist(event.id, waiting);
+
+    // A direct registration made while the child was still queued
+    await testApp.storage.createEventRegistration({ eventId: event.id, parentId: testApp.users.user.id, childId: registered.id });
+
+    expect((await agent.post(`/api/registrations/${registration.id}/cancel`)).status).toBe(200);
+
+    expect((await registeredChildIds(event.id)).sort()).toEqual([registered.id, waiting.id].sort());
+    expect((await testApp.storage.getWaitlistEntry(goneEntry.id))?.status).toBe('left');
+    expect((await testApp.storage.getWaitlistEntry(registeredEntry.id))?.status).toBe('left');
+    expect((await testApp.storage.getWaitlistEntry(waitingEntry.id))?.status).toBe('promoted');
+  });
+
+  test('should not promote anyone once the registration deadline has passed', async () => {
+    const child = await addChild('Horia');
+    const event = await testApp.createEvent({ remainingSeats: 1, startTime: hoursFromNow(6), endTime: hoursFromNow(8), cutoffHours: 12 });
+    // Joining is refused past the deadline, so the entry is left from before it
+    const entry = await testApp.storage.createWaitlistEntry({ eventId: event.id, parentId: testApp.users.user.id, childId: child.id });
+
+    expect(await promoteWaitlist(event.id)).toEqual([]);
+    expect((await testApp.storage.getWaitlistEntry(entry.id))?.status).toBe('waiting');
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(1);
+  });
+
+  test('should not promote the same entry twice when two seats free up together', async () => {
+    const children = [await addChild('Ilinca'), await addChild('Ion'), await addChild('Luca'), await addChild('Mara')];
+    const event = await testApp.createEvent({ maxSeats: 2, remainingSeats: 2, startTime: hoursFromNow(220), endTime: hoursFromNow(221) });
+    const registrations = [await register(event.id, children[0]), await register(event.id, children[1])];
+    const entries = [await joinWaitlist(event.id, children[2]), await joinWaitlist(event.id, children[3])];
+
+    const cancellations = await Promise.all(registrations.map(registration => agent.post(`/api/registrations/${registration.id}/cancel`)));
+    expect(cancellations.map(response => response.status)).toEqual([200, 200]);
+
+    expect((await registeredChildIds(event.id)).sort()).toEqual([children[2].id, children[3].id].sort());
+    for (const entry of entries) {
+      expect((await testApp.storage.getWaitlistEntry(entry.id))?.status).toBe('promoted');
+    }
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(0);
+  });
+
+  test('should fill a freed seat once when promotions run side by side', async () => {
+    const [first, second, third] = [await addChild('Nicu'), await addChild('Oana'), await addChild('Petra')];
+    const event = await testApp.createEvent({ maxSeats: 1, remainingSeats: 1, startTime: hoursFromNow(230), endTime: hoursFromNow(231) });
+    await register(event.id, first);
+    const secondEntry = await joinWaitlist(event.id, second);
+    await joinWaitlist(event.id, third);
+
+    await testApp.storage.updateEventSeats(event.id, 1);
+    const promoted = (await Promise.all([promoteWaitlist(event.id), promoteWaitlist(event.id)])).flat();
+
+    expect(promoted).toHaveLength(1);
+    expect(promoted[0].childId).toBe(second.id);
+    expect((await testApp.storage.getWaitlistEntry(secondEntry.id))?.status).toBe('promoted');
+    expect((await testApp.storage.getEvent(event.id))?.remainingSeats).toBe(0);
+  });
+});
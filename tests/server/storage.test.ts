@@ -1,198 +1,277 @@
-import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
-import { DatabaseStorage } from '../../server/storage';
-import type { Event, Child, User, EventRegistration } from '../../shared/schema';
-
-// Mock database connection
-jest.mock('@neondatabase/serverless', () => ({
-  neon: jest.fn(() => jest.fn()),
-}));
-
-describe('DatabaseStorage', () => {
-  let storage: DatabaseStorage;
-  
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeAll, beforeEach } from '@jest/globals';
+import { DEFAULT_ROLE_PERMISSIONS, type InsertEvent, type User } from '../../shared/schema';
+
+// db.ts only lets the import through without DATABASE_URL when the in-memory storage is selected
+process.env.STORAGE = 'memory';
+
+describe('MemStorage', () => {
+  let storageModule: typeof import('../../server/storage');
+  let storage: InstanceType<typeof storageModule.MemStorage>;
+
+  beforeAll(async () => {
+    storageModule = await import('../../server/storage');
+  });
+
   beforeEach(() => {
-    storage = new DatabaseStorage();
+    storage = new storageModule.MemStorage();
+  });
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const eventData = (overrides: Partial<InsertEvent> = {}): InsertEvent => ({
+    name: 'Art Club',
+    startTime: hoursFromNow(48),
+    endTime: hoursFromNow(50),
+    location: 'Room 1',
+    description: 'Painting and crafts',
+    creditsRequired: 2,
+    maxSeats: 2,
+    remainingSeats: 2,
+    ...overrides,
+  });
+
+  const createParent = async (credits = 0): Promise<User> => {
+    const parent = await storage.createUser({ email: `parent-${Math.random()}@example.com`, firstName: 'Ana', lastName: 'Pop' });
+    if (credits > 0) {
+      await storage.createCreditTransaction({ userId: parent.id, amount: credits, type: 'top_up' });
+    }
+    return parent;
+  };
+
+  const createChild = (parentId: string, firstName = 'Ioana') => storage.createChild({
+    parentId,
+    firstName,
+    lastName: 'Pop',
+    dateOfBirth: '2016-04-01',
+    secondaryContact: '0700000000',
+  });
+
+  const booking = { takesSeat: true, spendDescription: 'Registration for Art Club' };
+
+  test('should be selected by the STORAGE environment variable', () => {
+    expect(storageModule.storage).toBeInstanceOf(storageModule.MemStorage);
   });
 
   describe('Event Management', () => {
-    const mockEvent = {
-      id: 'test-event-id',
-      title: 'Test Event',
-      description: 'Test Description',
-      location: 'Test Location',
-      startTime: new Date().toISOString(),
-      endTime: new Date().toISOString(),
-      capacity: 10,
-      creditCost: 2,
-      cutoffHours: 6,
-      allowedRegistrants: 'attendee' as const,
-      extraServices: [],
-      supervisorId: 'supervisor-id',
-      category: 'afterschool' as const
-    };
-
-    test('createEvent should create event with proper validation', async () => {
-      // Mock successful database insertion
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockEvent]);
-      
-      const result = await storage.createEvent(mockEvent);
-      expect(result).toEqual(mockEvent);
-    });
-
-    test('getAllEvents should return all events', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockEvent]);
-      
-      const result = await storage.getAllEvents();
-      expect(result).toEqual([mockEvent]);
-    });
-
-    test('getEvent should return single event', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockEvent]);
-      
-      const result = await storage.getEvent('test-event-id');
-      expect(result).toEqual(mockEvent);
+    test('should fill in column defaults and list supervisors by name', async () => {
+      const staff = await storage.createUser({ email: 'staff@example.com', firstName: 'Mihai', lastName: 'Ionescu', role: 'staff' });
+      const event = await storage.createEvent({ ...eventData(), staffIds: [staff.id] });
+
+      expect(event).toMatchObject({ type: 'afterschool', status: 'open', deleted: false, cutoffHours: 12, extraServices: [] });
+      expect(await storage.getEventSupervisorIds(event.id)).toEqual([staff.id]);
+
+      const [listed] = await storage.getAllEvents();
+      expect(listed.supervisorNames).toBe('Mihai Ionescu');
+      expect(listed.supervisors).toEqual([
+        { eventId: event.id, supervisorId: staff.id, supervisorName: 'Mihai Ionescu', supervisorEmail: 'staff@example.com' },
+      ]);
+    });
+
+    test('should hide soft deleted events until they are restored', async () => {
+      const event = await storage.createEvent(eventData());
+
+      await storage.softDeleteEvent(event.id);
+      expect(await storage.getAllEvents()).toHaveLength(0);
+      expect(await storage.getAllEventsForAdmin()).toHaveLength(1);
+      expect((await storage.getEvent(event.id))?.deleted).toBe(true);
+
+      await storage.restoreEvent(event.id);
+      expect(await storage.getEventsForUser()).toHaveLength(1);
+    });
+
+    test('should shift later occurrences of a series without going below zero seats', async () => {
+      const occurrences = [48, 72, 96].map(hours => eventData({ startTime: hoursFromNow(hours), endTime: hoursFromNow(hours + 2), remainingSeats: 1 }));
+      const { events } = await storage.createEventSeries(
+        { name: 'Art Club', recurrence: { frequency: 'weekly', weekdays: [1], count: 3, skipDates: [] } },
+        occurrences,
+        [],
+      );
+
+      const hour = 60 * 60 * 1000;
+      const updated = await storage.updateSeriesEventsAfter(events[0], { location: 'Room 2' }, { startMs: hour, endMs: hour }, -2);
+
+      expect(updated).toHaveLength(2);
+      expect(updated.every(event => event.location === 'Room 2' && event.remainingSeats === 0)).toBe(true);
+      expect(updated[0].startTime.getTime()).toBe(events[1].startTime.getTime() + hour);
+      expect((await storage.getEvent(events[0].id))?.location).toBe('Room 1');
+    });
+
+    test('should return copies so callers cannot change stored rows', async () => {
+      const event = await storage.createEvent(eventData());
+      event.remainingSeats = 0;
+
+      expect((await storage.getEvent(event.id))?.remainingSeats).toBe(2);
     });
   });
 
   describe('User Management', () => {
-    const mockUser = {
-      id: 'test-user-id',
-      email: 'test@example.com',
-      firstName: 'John',
-      lastName: 'Doe',
-      phone: '555-1234',
-      role: 'user' as const,
-      profileComplete: true
-    };
-
-    test('createUser should create user with hashed password', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockUser]);
-      
-      const userData = {
-        ...mockUser,
-        password: 'password123'
-      };
-      
-      const result = await storage.createUser(userData);
-      expect(result).toEqual(mockUser);
-    });
-
-    test('getUserByEmail should find user by email', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockUser]);
-      
-      const result = await storage.getUserByEmail('test@example.com');
-      expect(result).toEqual(mockUser);
-    });
-
-    test('updateUserRole should update user role properly', async () => {
-      const updatedUser = { ...mockUser, role: 'staff' as const };
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([updatedUser]);
-      
-      const result = await storage.updateUserRole('test-user-id', 'staff');
-      expect(result).toEqual(updatedUser);
+    test('should create users with the schema defaults and find them by email', async () => {
+      const user = await storage.createUser({ email: 'ana@example.com', firstName: 'Ana' });
+
+      expect(user).toMatchObject({ role: 'user', authType: 'email', isEmailVerified: false });
+      expect(await storage.getUserByEmail('ana@example.com')).toEqual(user);
+    });
+
+    test('should reject a second account with the same email', async () => {
+      await storage.createUser({ email: 'ana@example.com' });
+
+      await expect(storage.createUser({ email: 'ana@example.com' })).rejects.toThrow('already exists');
+    });
+
+    test('should update roles and list users by role', async () => {
+      const user = await storage.createUser({ email: 'ana@example.com', firstName: 'Ana' });
+
+      expect((await storage.updateUserRole(user.id, 'staff'))?.role).toBe('staff');
+      expect(await storage.getUsersByRoles(['staff'])).toEqual([expect.objectContaining({ id: user.id })]);
+      expect(await storage.updateUserRole('missing', 'staff')).toBeUndefined();
+    });
+
+    test('should seed missing default grants and keep later changes', async () => {
+      await storage.seedRolePermissions();
+      expect(await storage.getRolePermissions('staff')).toEqual(DEFAULT_ROLE_PERMISSIONS.staff);
+      expect(await storage.getRolePermissions('user')).toEqual([]);
+
+      // A revoked default stays revoked, and an extra grant is kept
+      await storage.setRolePermissions('staff', ['roster.view', 'reports.export']);
+      await storage.seedRolePermissions();
+      expect([...await storage.getRolePermissions('staff')].sort()).toEqual(['reports.export', 'roster.view']);
     });
   });
 
   describe('Child Management', () => {
-    const mockChild: Child = {
-      id: 'test-child-id',
-      firstName: 'Alice',
-      lastName: 'Doe',
-      dateOfBirth: '2015-05-15',
-      parentId: 'test-parent-id',
-      emergencyContact: 'Jane Doe',
-      emergencyPhone: '555-1234',
-      allergies: '',
-      dietaryRestrictions: '',
-      medicalInfo: ''
-    };
-
-    test('createChild should create child with proper parent association', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockChild]);
-      
-      const result = await storage.createChild(mockChild);
-      expect(result).toEqual(mockChild);
-    });
-
-    test('getChildrenByParent should return children for specific parent', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockChild]);
-      
-      const result = await storage.getChildrenByParent('test-parent-id');
-      expect(result).toEqual([mockChild]);
+    test('should keep children with their parent', async () => {
+      const parent = await createParent();
+      const child = await createChild(parent.id);
+
+      expect(await storage.getChildrenByParentId(parent.id)).toEqual([child]);
+      expect(await storage.getChildrenByParentId('someone-else')).toEqual([]);
+    });
+
+    test('should remove registrations and waitlist entries with the child', async () => {
+      const parent = await createParent();
+      const child = await createChild(parent.id);
+      const event = await storage.createEvent(eventData());
+      await storage.createEventRegistration({ eventId: event.id, parentId: parent.id, childId: child.id });
+      await storage.createWaitlistEntry({ eventId: event.id, parentId: parent.id, childId: child.id });
+
+      expect(await storage.deleteChild(child.id)).toBe(true);
+      expect(await storage.getEventRegistrationsByEvent(event.id)).toEqual([]);
+      expect(await storage.getWaitingEntriesForEvent(event.id)).toEqual([]);
+      expect(await storage.deleteChild(child.id)).toBe(false);
     });
   });
 
-  describe('Registration Management', () => {
-    const mockRegistration: EventRegistration = {
-      id: 'test-registration-id',
-      eventId: 'test-event-id',
-      userId: 'test-user-id',
-      attendeeId: 'test-attendee-id',
-      attendeeType: 'attendee',
-      selectedServices: [],
-      registrationDate: new Date().toISOString()
-    };
-
-    test('createRegistration should register user for event', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockRegistration]);
-      
-      const result = await storage.createRegistration(mockRegistration);
-      expect(result).toEqual(mockRegistration);
-    });
-
-    test('getRegistrationsByUser should return user registrations', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([mockRegistration]);
-      
-      const result = await storage.getRegistrationsByUser('test-user-id');
-      expect(result).toEqual([mockRegistration]);
-    });
-
-    test('deleteRegistration should remove registration', async () => {
-      jest.spyOn(storage as any, 'db').mockResolvedValueOnce([]);
-      
-      await expect(storage.deleteRegistration('test-registration-id')).resolves.not.toThrow();
+  describe('Household Management', () => {
+    const invitationFor = (householdId: string, email: string) => storage.createHouseholdInvitation({
+      householdId,
+      email,
+      permission: 'view',
+      token: `token-${Math.random()}`,
+      expiresAt: hoursFromNow(24),
+    });
+
+    test('should move a user into the household they accept and drop the one left empty', async () => {
+      const parent = await createParent();
+      const partner = await createParent();
+      const { householdId } = await storage.createHousehold(parent.id);
+      const { householdId: previousId } = await storage.createHousehold(partner.id);
+      const invitation = await invitationFor(householdId, partner.email!);
+
+      const member = await storage.acceptHouseholdInvitation(invitation.id, partner.id);
+
+      expect(member).toMatchObject({ userId: partner.id, householdId, permission: 'view' });
+      expect((await storage.getHouseholdMembers(householdId)).map(m => m.userId)).toEqual([parent.id, partner.id]);
+      expect(await storage.getHouseholdMembers(previousId)).toEqual([]);
+      expect(await storage.acceptHouseholdInvitation(invitation.id, partner.id)).toBeUndefined();
+    });
+
+    test('should only close pending invitations', async () => {
+      const parent = await createParent();
+      const { householdId } = await storage.createHousehold(parent.id);
+      const invitation = await invitationFor(householdId, 'partner@example.com');
+
+      expect((await storage.closeHouseholdInvitation(invitation.id, 'revoked'))?.status).toBe('revoked');
+      expect(await storage.closeHouseholdInvitation(invitation.id, 'declined')).toBeUndefined();
+      expect(await storage.getPendingHouseholdInvitations(householdId)).toEqual([]);
     });
   });
 
-  describe('Capacity and Validation', () => {
-    test('should properly calculate available spots', async () => {
-      const mockEvent = {
-        capacity: 10,
-        registeredCount: 7
-      };
-      
-      // This would be tested through the actual getEventsWithSupervisors method
-      // which calculates spots left as capacity - registeredCount
-      const spotsLeft = mockEvent.capacity - mockEvent.registeredCount;
-      expect(spotsLeft).toBe(3);
-    });
-
-    test('should validate registration cutoff time', () => {
-      const now = new Date();
-      const eventTime = new Date(now.getTime() + (8 * 60 * 60 * 1000)); // 8 hours from now
-      const cutoffHours = 6;
-      
-      const cutoffTime = new Date(eventTime.getTime() - (cutoffHours * 60 * 60 * 1000));
-      const isAfterCutoff = now > cutoffTime;
-      
-      expect(isAfterCutoff).toBe(false); // 8 hours > 6 hours, so registration should be open
-    });
-
-    test('should prevent double registration', async () => {
-      // This would be tested by checking if a user/child is already registered
-      const existingRegistrations = [
-        { attendeeId: 'child-1', eventId: 'event-1' },
-        { attendeeId: 'child-2', eventId: 'event-1' }
-      ];
-      
-      const isAlreadyRegistered = (attendeeId: string, eventId: string) => {
-        return existingRegistrations.some(reg => 
-          reg.attendeeId === attendeeId && reg.eventId === eventId
-        );
-      };
-      
-      expect(isAlreadyRegistered('child-1', 'event-1')).toBe(true);
-      expect(isAlreadyRegistered('child-3', 'event-1')).toBe(false);
+  describe('Registration Management', () => {
+    test('should take a seat and charge the credits when booking', async () => {
+      const parent = await createParent(5);
+      const child = await createChild(parent.id);
+      const event = await storage.createEvent(eventData());
+
+      const registration = await storage.bookEventRegistration(
+        { eventId: event.id, parentId: parent.id, childId: child.id, creditsCost: 2 },
+        booking,
+      );
+
+      expect(registration.status).toBe('confirmed');
+      expect((await storage.getEvent(event.id))?.remainingSeats).toBe(1);
+      expect(await storage.getCreditBalance(parent.id)).toBe(3);
+      expect(await storage.isChildRegisteredForEvent(child.id, event.id)).toBe(true);
+    });
+
+    test('should change nothing when the booking fails', async () => {
+      const parent = await createParent(1);
+      const child = await createChild(parent.id);
+      const event = await storage.createEvent(eventData({ remainingSeats: 0 }));
+
+      await expect(storage.bookEventRegistration(
+        { eventId: event.id, parentId: parent.id, childId: child.id, creditsCost: 2 },
+        booking,
+      )).rejects.toMatchObject({ code: 'insufficient_credits' });
+      await expect(storage.bookEventRegistration(
+        { eventId: event.id, parentId: parent.id, childId: child.id, creditsCost: 1 },
+        booking,
+      )).rejects.toMatchObject({ code: 'no_seats', message: 'No seats available for this event' });
+
+      expect(await storage.getCreditBalance(parent.id)).toBe(1);
+      expect(await storage.getEventRegistrationsByEvent(event.id)).toEqual([]);
+    });
+
+    test('should stop booking an extra service once its places are taken', async () => {
+      const parent = await createParent();
+      const event = await storage.createEvent(eventData({
+        extraServices: [{ id: 'lunch', description: 'Lunch', price: 1500, capacity: 1 }],
+      }));
+      const book = async (firstName: string) => storage.bookEventRegistration(
+        { eventId: event.id, parentId: parent.id, childId: (await createChild(parent.id, firstName)).id, selectedServices: ['lunch'] },
+        booking,
+      );
+
+      await book('Ioana');
+      await expect(book('Matei')).rejects.toMatchObject({ code: 'service_full', message: 'Lunch has no places left' });
+      expect(await storage.getServiceBookingCounts(event.id)).toEqual({ lunch: 1 });
+    });
+
+    test('should cancel a registration once and leave it out of lookups', async () => {
+      const parent = await createParent();
+      const child = await createChild(parent.id);
+      const event = await storage.createEvent(eventData());
+      const registration = await storage.createEventRegistration({ eventId: event.id, parentId: parent.id, childId: child.id });
+
+      expect((await storage.cancelEventRegistration(registration.id))?.status).toBe('cancelled');
+      expect(await storage.cancelEventRegistration(registration.id)).toBeUndefined();
+      expect(await storage.getEventRegistrationsByParent(parent.id)).toEqual([]);
+      expect(await storage.isChildRegisteredForEvent(child.id, event.id)).toBe(false);
+    });
+
+    test('should promote a waitlist entry into a registration', async () => {
+      const parent = await createParent();
+      const child = await createChild(parent.id);
+      const event = await storage.createEvent(eventData({ remainingSeats: 1 }));
+      const entry = await storage.createWaitlistEntry({ eventId: event.id, parentId: parent.id, childId: child.id });
+
+      const registration = await storage.promoteWaitlistEntry(entry.id, { eventId: event.id, parentId: parent.id, childId: child.id }, booking);
+
+      expect(registration?.childId).toBe(child.id);
+      expect((await storage.getWaitlistEntry(entry.id))?.status).toBe('promoted');
+      expect(await storage.promoteWaitlistEntry(entry.id, { eventId: event.id, parentId: parent.id, childId: child.id }, booking)).toBeUndefined();
     });
   });
-});
\ No newline at end of file
+});
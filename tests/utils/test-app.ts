@@ -0,0 +1,121 @@
+/**
+ * Boots the real Express app from registerRoutes for route-level tests.
+ *
+ * Runs on the in-memory storage unless DATABASE_URL points at a disposable database. Server modules read
+ * their environment on import, so they are only loaded inside createTestApp. Suites using it must mock
+ * Replit OAuth discovery (see tests/integration/routes.test.ts), which needs the network.
+ */
+import express, { type Express } from 'express';
+import request from 'supertest';
+import type { Event, InsertEvent, User } from '../../shared/schema';
+
+export type TestRole = 'admin' | 'staff' | 'user';
+
+export const TEST_PASSWORD = 'correct-horse-battery';
+
+export interface TestApp {
+  app: Express;
+  storage: typeof import('../../server/storage').storage;
+  users: Record<TestRole, User>;
+  // An address unique to this run, so accounts signed up by a test are cleaned up with the seeded ones
+  email(name: string): string;
+  // A supertest agent whose requests carry the session of the seeded user with this role
+  login(role: TestRole): Promise<ReturnType<typeof request.agent>>;
+  loginAs(email: string, password: string): Promise<ReturnType<typeof request.agent>>;
+  // Creates an event directly in storage; removed again by close() when running against a database
+  createEvent(overrides?: Partial<InsertEvent>): Promise<Event>;
+  close(): Promise<void>;
+}
+
+const usesDatabase = !!process.env.DATABASE_URL;
+if (!usesDatabase) {
+  process.env.STORAGE = 'memory';
+}
+process.env.REPLIT_DOMAINS ??= 'localhost';
+process.env.REPL_ID ??= 'test-repl';
+process.env.SESSION_SECRET ??= 'test-session-secret';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+export async function createTestApp(): Promise<TestApp> {
+  const { registerRoutes } = await import('../../server/routes');
+  const { storage } = await import('../../server/storage');
+  const { hashPassword } = await import('../../server/auth');
+  const { setupBodyParsers } = await import('../../server/bodyParsers');
+
+  const app = express();
+  setupBodyParsers(app);
+  await registerRoutes(app);
+
+  // Unique per run so a shared database can hold several runs
+  const runId = Date.now().toString(36);
+  const password = await hashPassword(TEST_PASSWORD);
+  const email = (name: string) => `${name}-${runId}@example.com`;
+  const seedUser = (role: TestRole, firstName: string) => storage.createUser({
+    email: email(role),
+    password,
+    firstName,
+    lastName: 'Test',
+    phone: '0712345678',
+    authType: 'email',
+    isEmailVerified: true,
+    role,
+  });
+  const users = {
+    admin: await seedUser('admin', 'Alina'),
+    staff: await seedUser('staff', 'Sorin'),
+    user: await seedUser('user', 'Paula'),
+  };
+
+  const createdEventIds: string[] = [];
+
+  // The session cookie is marked secure: log in as if behind the HTTPS proxy, then send the cookie by hand
+  // (supertest's cookie jar only returns secure cookies over https)
+  const loginAs = async (email: string, loginPassword: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('X-Forwarded-Proto', 'https')
+      .send({ email, password: loginPassword });
+    if (response.status !== 200) {
+      throw new Error(`Login as ${email} failed with ${response.status}: ${JSON.stringify(response.body)}`);
+    }
+    const cookies = ([] as string[]).concat(response.headers['set-cookie'] ?? []);
+    return request.agent(app).set('Cookie', cookies.map(cookie => cookie.split(';')[0]).join('; '));
+  };
+
+  return {
+    app,
+    storage,
+    users,
+    email,
+    loginAs,
+    login: (role) => loginAs(users[role].email!, TEST_PASSWORD),
+    createEvent: async (overrides = {}) => {
+      const event = await storage.createEvent({
+        name: 'Art Club',
+        startTime: hoursFromNow(48),
+        endTime: hoursFromNow(50),
+        location: 'Room 1',
+        description: 'Painting and crafts',
+        creditsRequired: 0,
+        maxSeats: 3,
+        remainingSeats: 3,
+        ...overrides,
+      });
+      createdEventIds.push(event.id);
+      return event;
+    },
+    close: async () => {
+      if (!usesDatabase) return;
+      const { db, pool } = await import('../../server/db');
+      const schema = await import('../../shared/schema');
+      const { inArray, like } = await import('drizzle-orm');
+      // Deleting the users and events cascades to children, registrations and credit transactions
+      if (createdEventIds.length > 0) {
+        await db.delete(schema.events).where(inArray(schema.events.id, createdEventIds));
+      }
+      await db.delete(schema.users).where(like(schema.users.email, email('%')));
+      await pool.end();
+    },
+  };
+}